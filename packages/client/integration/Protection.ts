@@ -2,7 +2,7 @@ import { buildApiClass, UUID, ValidAccountId } from '@logion/node-api';
 
 import {
     LogionClient,
-    AxiosFactory,
+    LegalOfficerRecoveryState,
     AcceptedProtection,
     ActiveProtection,
     NoProtection,
@@ -113,17 +113,11 @@ export async function rejectRequest(
     requesterAddress: string,
     reason: string,
 ) {
-    const axios = await buildLegalOfficerAxios(client, signer, legalOfficer, legalOfficerAccount);
-
-    const response = await axios.put("/api/protection-request",{
-        legalOfficerAddress: legalOfficer.address,
-        statuses: ["PENDING"],
-        requesterAddress
-    });
-    const request: ProtectionRequest = response.data.requests[0];
-
-    await axios.post(`/api/protection-request/${request.id}/reject`, {
-        reason
+    const recoveryState = await buildLegalOfficerRecoveryState(client, signer, legalOfficerAccount);
+    const request = findPendingRequest(recoveryState, requesterAddress);
+    await recoveryState.rejectRequest({
+        request,
+        reason,
     });
 }
 
@@ -135,38 +129,45 @@ export async function acceptRequest(
     legalOfficerAccount: ValidAccountId,
     requesterAddress: string,
 ) {
-    const legalOfficerAddress = legalOfficer.address;
-    const axios = await buildLegalOfficerAxios(client, signer, legalOfficer, legalOfficerAccount);
-
-    const response = await axios.put("/api/protection-request", {
-        legalOfficerAddress: legalOfficer.address,
-        statuses: ["PENDING"],
-        requesterAddress
-    });
-    const request: ProtectionRequest = response.data.requests[0];
-
+    const recoveryState = await buildLegalOfficerRecoveryState(client, signer, legalOfficerAccount);
+    const request = findPendingRequest(recoveryState, requesterAddress);
     const identityLocId = await createAndCloseIdentityLoc(
         config,
         signer,
-        legalOfficerAddress,
+        legalOfficer.address,
         request.requesterAddress
     );
 
-    await axios.post(`/api/protection-request/${request.id}/accept`, {
-        locId: identityLocId.toString()
-    });
+    if(request.isRecovery) {
+        await recoveryState.acceptRecoveryRequest({
+            request,
+            identityLocId,
+            signer,
+        });
+    } else {
+        await recoveryState.acceptProtectionRequest({
+            request,
+            identityLocId,
+        });
+    }
 }
 
-async function buildLegalOfficerAxios(
+async function buildLegalOfficerRecoveryState(
     client: LogionClient,
     signer: FullSigner,
-    legalOfficer: LegalOfficer,
     legalOfficerAccount: ValidAccountId,
-) {
+): Promise<LegalOfficerRecoveryState> {
     const authenticatedClient = await client.authenticate([ legalOfficerAccount ], signer);
-    const token = authenticatedClient.tokens.get(legalOfficerAccount)!;
-    const axiosFactory = new AxiosFactory();
-    return axiosFactory.buildAxiosInstance(legalOfficer.node, token.value);
+    return authenticatedClient.withCurrentAddress(legalOfficerAccount).legalOfficerRecoveryState();
+}
+
+function findPendingRequest(recoveryState: LegalOfficerRecoveryState, requesterAddress: string): ProtectionRequest {
+    const request = recoveryState.pendingProtectionRequests.concat(recoveryState.pendingRecoveryRequests)
+        .find(request => request.requesterAddress === requesterAddress);
+    if(!request) {
+        throw new Error(`No pending request from ${ requesterAddress }`);
+    }
+    return request;
 }
 
 async function createAndCloseIdentityLoc(
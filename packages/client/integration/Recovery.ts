@@ -1,15 +1,9 @@
-import { ValidAccountId, buildApiClass } from "@logion/node-api";
-
 import {
     AcceptedProtection,
-    FullSigner,
-    LegalOfficer,
-    LogionClient,
     NoProtection,
     PendingRecovery,
     PendingProtection,
     RejectedProtection,
-    LogionClientConfig,
     ClaimedRecovery,
 } from "../src/index.js";
 import { acceptRequest, rejectRequest } from "./Protection.js";
@@ -44,8 +38,8 @@ export async function requestRecoveryWithResubmit(state: State) {
     const pending = await rejected.resubmit(alice);
 
     console.log("LO's - Accepting and vouching")
-    await acceptRequestAndVouch(client.config, client, signer, alice, aliceAccount, REQUESTER_ADDRESS, NEW_ADDRESS);
-    await acceptRequestAndVouch(client.config, client, signer, charlie, charlieAccount, REQUESTER_ADDRESS, NEW_ADDRESS);
+    await acceptRequest(client.config, client, signer, alice, aliceAccount, NEW_ADDRESS);
+    await acceptRequest(client.config, client, signer, charlie, charlieAccount, NEW_ADDRESS);
 
     console.log("Activating")
     const accepted = await pending.refresh() as AcceptedProtection;
@@ -73,7 +67,7 @@ export async function recoverLostVault(state: State) {
     const pendingRequest = recoveredVault.pendingVaultTransferRequests[0];
 
     console.log("Alice accepts transfer from recovered vault")
-    await aliceAcceptsTransfer(state, pendingRequest, claimed);
+    await aliceAcceptsTransfer(state, pendingRequest);
 }
 
 async function getClaimedRecovery(state: State) {
@@ -132,30 +126,3 @@ async function requestRecovery(state: State): Promise<PendingProtection> {
         throw new Error("Unexpected state, aborting");
     }
 }
-
-async function acceptRequestAndVouch(
-    config: LogionClientConfig,
-    client: LogionClient,
-    signer: FullSigner,
-    legalOfficer: LegalOfficer,
-    legalOfficerAccount: ValidAccountId,
-    lostAddress: string,
-    requesterAddress: string,
-) {
-    await acceptRequest(config, client, signer, legalOfficer, legalOfficerAccount, requesterAddress)
-    await vouchRecovery(config, signer, legalOfficer, lostAddress, requesterAddress)
-}
-
-async function vouchRecovery(
-    config: LogionClientConfig,
-    signer: FullSigner,
-    legalOfficerAddress: LegalOfficer,
-    lost: string,
-    rescuer: string,
-): Promise<void> {
-    const api = await buildApiClass(config.rpcEndpoints);
-    await signer.signAndSend({
-        signerId: legalOfficerAddress.address,
-        submittable: api.polkadot.tx.recovery.vouchRecovery(lost, rescuer)
-    })
-}
@@ -1,6 +1,6 @@
-import { buildApiClass, Currency } from "@logion/node-api";
+import { Currency } from "@logion/node-api";
 
-import { ActiveProtection, VaultTransferRequest, WithProtectionParameters } from "../src/index.js";
+import { ActiveProtection, VaultTransferRequest } from "../src/index.js";
 import { REQUESTER_ADDRESS, State } from "./Utils.js";
 import { checkCoinBalance } from "./Balance.js";
 
@@ -33,7 +33,7 @@ export async function providesVault(state: State) {
     const pendingRequest = vaultState.pendingVaultTransferRequests[0];
 
     // Alice accepts
-    await aliceAcceptsTransfer(state, pendingRequest, activeProtection);
+    await aliceAcceptsTransfer(state, pendingRequest);
 
     // Check balances
     vaultState = await vaultState.refresh();
@@ -43,30 +43,13 @@ export async function providesVault(state: State) {
     checkCoinBalance(vaultState.balances[0], "4.00");
 }
 
-export async function aliceAcceptsTransfer(state: State, request: VaultTransferRequest, activeProtection: WithProtectionParameters) {
-    const { client, signer, aliceAccount, requesterAccount } = state;
+export async function aliceAcceptsTransfer(state: State, request: VaultTransferRequest) {
+    const { client, signer, aliceAccount } = state;
 
-    const api = await buildApiClass(client.config.rpcEndpoints);
-
-    const signerId = aliceAccount.address;
-    const amount = Currency.toPrefixedNumberAmount(BigInt(request!.amount));
-    const vault = api.vault(
-        requesterAccount.address,
-        activeProtection.protectionParameters.states.map(state => state.legalOfficer.address)
-    );
-    const submittable = await vault.tx.approveVaultTransfer({
-        signerId,
-        destination: request!.destination,
-        amount,
-        block: BigInt(request!.block),
-        index: request!.index,
-    });
-    await signer.signAndSend({
-        signerId,
-        submittable,
+    const aliceClient = client.withCurrentAddress(aliceAccount);
+    const vaultState = await aliceClient.legalOfficerVaultState();
+    await vaultState.acceptVaultTransferRequest({
+        request,
+        signer,
     });
-
-    const authenticated = client.withCurrentAddress(aliceAccount);
-    const axios = authenticated.getLegalOfficer(aliceAccount.address).buildAxiosToNode();
-    await axios.post(`/api/vault-transfer-request/${request.id}/accept`);
 }
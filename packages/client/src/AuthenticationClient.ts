@@ -3,6 +3,7 @@ import { AxiosInstance } from "axios";
 import { DateTime } from "luxon";
 import { AxiosFactory } from "./AxiosFactory";
 import { fromIsoString, toIsoString } from "./DateTimeUtil.js";
+import { isNodeUnavailable, NodeUnavailable } from "./Error.js";
 
 import { Token } from "./Http";
 import { RawSigner, SignatureType } from "./Signer";
@@ -45,17 +46,19 @@ export class AuthenticationClient {
         }
     }
 
-    private doWithFirstAvailableNode<T>(axiosConsumer: (axios: AxiosInstance) => Promise<T>): Promise<T> {
+    private async doWithFirstAvailableNode<T>(axiosConsumer: (axios: AxiosInstance) => Promise<T>): Promise<T> {
         for(let i = 0; i < this.legalOfficers.length; ++i) {
             const legalOfficer = this.legalOfficers[i];
             try {
                 const axios = legalOfficer.buildAxiosToNode();
-                return axiosConsumer(axios);
+                return await axiosConsumer(axios);
             } catch(error) {
-                console.log(error);
+                if(!isNodeUnavailable(error)) {
+                    throw error;
+                }
             }
         }
-        throw new Error("Unable to find an available node");
+        throw new NodeUnavailable("Unable to find an available node");
     }
 
     private async authenticateWithAxios(axios: AxiosInstance, validAccountIds: ValidAccountId[], signer: RawSigner): Promise<AccountTokens> {
@@ -182,6 +185,13 @@ export class AccountTokens {
         return this.addresses.length;
     }
 
+    /**
+     * The tokens of all addresses, in no particular order.
+     */
+    get tokens(): Token[] {
+        return Object.values(this.store);
+    }
+
     isAuthenticated(now: DateTime, address: ValidAccountId | undefined): boolean {
         if(address === undefined) {
             return false;
@@ -1,7 +1,65 @@
-import axios, { AxiosInstance } from "axios";
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from "axios";
+
+import { isNodeUnavailable } from "./Error.js";
+
+/**
+ * Keeps the tokens used by axios instances up-to-date.
+ */
+export interface TokenRefreshHandler {
+
+    /**
+     * @returns the token to use in place of given one, tokens being refreshed first if they expire soon.
+     */
+    freshToken(token: string): Promise<string>;
+
+    /**
+     * Refreshes tokens, whatever their expiration.
+     *
+     * @returns the token replacing given one, undefined if given token is unknown or could not be refreshed.
+     */
+    refreshToken(token: string): Promise<string | undefined>;
+}
+
+/**
+ * Idempotent requests (GET, HEAD, OPTIONS, PUT and DELETE) failing because the node did not respond
+ * or responded with a server error are retried.
+ */
+export interface RequestRetryPolicy {
+    /**
+     * The maximum number of retries of a request, 0 disables retries.
+     */
+    maxRetries: number;
+    /**
+     * The delay, in milliseconds, before the first retry. The delay doubles with each retry.
+     */
+    initialDelay: number;
+}
+
+export const DEFAULT_REQUEST_RETRY_POLICY: RequestRetryPolicy = {
+    maxRetries: 2,
+    initialDelay: 200,
+};
+
+const IDEMPOTENT_METHODS = [ "get", "head", "options", "put", "delete" ];
+
+interface RetriableRequestConfig extends AxiosRequestConfig {
+    tokenRefreshed?: boolean;
+    retries?: number;
+}
 
 export class AxiosFactory {
 
+    /**
+     * Once set, instances built with a token refresh it before it expires. A request rejected with status 401
+     * is retried once with a refreshed token.
+     */
+    tokenRefreshHandler?: TokenRefreshHandler;
+
+    /**
+     * Once set, instances retry idempotent requests sent to unavailable nodes.
+     */
+    retryPolicy?: RequestRetryPolicy;
+
     buildAxiosInstance(endpoint?: string, token?: string): AxiosInstance {
         let headers = undefined;
         if(token !== undefined) {
@@ -9,9 +67,70 @@ export class AxiosFactory {
                 'Authorization': `Bearer ${token}`,
             };
         }
-        return axios.create({
+        const instance = axios.create({
             baseURL: endpoint,
             headers,
         });
+        if(token !== undefined && this.tokenRefreshHandler) {
+            installTokenRefresh(instance, token, this.tokenRefreshHandler);
+        }
+        if(this.retryPolicy && this.retryPolicy.maxRetries > 0) {
+            installRetry(instance, this.retryPolicy);
+        }
+        return instance;
     }
 }
+
+function installTokenRefresh(instance: AxiosInstance, token: string, handler: TokenRefreshHandler) {
+    instance.interceptors.request.use(async config => {
+        if(!isAuthenticationRequest(config)) {
+            const freshToken = await handler.freshToken(token);
+            config.headers = {
+                ...config.headers,
+                'Authorization': `Bearer ${freshToken}`,
+            };
+        }
+        return config;
+    });
+    instance.interceptors.response.use(undefined, async (error: AxiosError) => {
+        const config = error.config as RetriableRequestConfig | undefined;
+        if(error.response?.status !== 401
+            || !config
+            || config.tokenRefreshed
+            || isAuthenticationRequest(config)) {
+            throw error;
+        }
+        const refreshedToken = await handler.refreshToken(token);
+        if(!refreshedToken) {
+            throw error;
+        }
+        const retryConfig: RetriableRequestConfig = {
+            ...config,
+            tokenRefreshed: true,
+        };
+        return instance.request(retryConfig);
+    });
+}
+
+function isAuthenticationRequest(config: AxiosRequestConfig): boolean {
+    return config.url?.startsWith("/api/auth/") || false;
+}
+
+function installRetry(instance: AxiosInstance, policy: RequestRetryPolicy) {
+    instance.interceptors.response.use(undefined, async (error: AxiosError) => {
+        const config = error.config as RetriableRequestConfig | undefined;
+        const retries = config?.retries || 0;
+        if(!config
+            || !IDEMPOTENT_METHODS.includes(config.method?.toLowerCase() || "get")
+            || retries >= policy.maxRetries
+            || !isNodeUnavailable(error)) {
+            throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, policy.initialDelay * Math.pow(2, retries)));
+        const retryConfig: RetriableRequestConfig = {
+            ...config,
+            retries: retries + 1,
+        };
+        return instance.request(retryConfig);
+    });
+}
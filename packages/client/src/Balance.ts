@@ -1,4 +1,5 @@
 import {
+    Assets,
     CoinBalance,
     Numbers,
     Currency,
@@ -15,16 +16,29 @@ export interface TransferParam {
     destination: string;
     amount: Numbers.PrefixedNumber;
     callback?: SignCallback;
+    /**
+     * If set, the asset (see pallet assets) to transfer instead of LGNT. The state must include
+     * asset balances (see {@link BalanceStateParams.withAssets}).
+     */
+    assetId?: bigint;
 }
 
-export interface BalanceSharedState extends SharedState {
+export interface BalanceStateParams {
+    /**
+     * If true, the state includes the balances of the assets (see pallet assets) held by the account.
+     */
+    withAssets?: boolean;
+}
+
+export interface BalanceSharedState extends SharedState, BalanceStateParams {
     readonly balances: CoinBalance[];
+    readonly assetBalances?: CoinBalance[];
     readonly transactions: Transaction[];
     readonly isRecovery: boolean;
     readonly recoveredAddress?: string;
 }
 
-export async function getBalanceState(sharedState: SharedState & { isRecovery: boolean, recoveredAddress?: string }): Promise<BalanceState> {
+export async function getBalanceState(sharedState: SharedState & BalanceStateParams & { isRecovery: boolean, recoveredAddress?: string }): Promise<BalanceState> {
     let targetAddress;
     if(sharedState.isRecovery) {
         targetAddress = sharedState.recoveredAddress || "";
@@ -34,10 +48,12 @@ export async function getBalanceState(sharedState: SharedState & { isRecovery: b
     const client = newTransactionClient(targetAddress, sharedState);
     const transactions = await client.fetchTransactions();
     const balances = await sharedState.nodeApi.queries.getCoinBalances(targetAddress);
+    const assetBalances = sharedState.withAssets ? await sharedState.nodeApi.queries.getAssetBalances(targetAddress) : [];
     return new BalanceState({
         ...sharedState,
         transactions,
         balances,
+        assetBalances,
     });
 }
 
@@ -68,12 +84,24 @@ export class BalanceState extends State {
         return this.sharedState.balances;
     }
 
+    /**
+     * @returns The balances of the assets held by the account, always empty if the state was not requested
+     * with {@link BalanceStateParams.withAssets}.
+     */
+    get assetBalances(): CoinBalance[] {
+        this.ensureCurrent();
+        return this.sharedState.assetBalances || [];
+    }
+
     async transfer(params: TransferParam): Promise<BalanceState> {
         return this.discardOnSuccess(() => this._transfer(params));
     }
 
     private async _transfer(params: TransferParam): Promise<BalanceState> {
-        const { signer, destination, amount, callback } = params;
+        const { signer, destination, amount, callback, assetId } = params;
+        if(assetId !== undefined) {
+            return this.transferAsset({ ...params, assetId });
+        }
 
         const canonicalAmount = Currency.toCanonicalAmount(amount);
 
@@ -114,6 +142,41 @@ export class BalanceState extends State {
         return this._refresh();
     }
 
+    private async transferAsset(params: TransferParam & { assetId: bigint }): Promise<BalanceState> {
+        const { signer, destination, amount, callback, assetId } = params;
+
+        const assetBalance = this.assetBalances.find(balance => balance.coin.assetId === assetId);
+        if(!assetBalance) {
+            throw new Error(`No balance for asset ${ assetId }`);
+        }
+        const decimals = assetBalance.coin.decimals || 0;
+        const rawAmount = Assets.toRawAmount(amount, decimals);
+        if(Assets.toRawAmount(assetBalance.available, decimals) < rawAmount) {
+            throw new Error("Insufficient balance");
+        }
+
+        let submittable = this.sharedState.nodeApi.polkadot.tx.assets.transferKeepAlive(
+            assetId,
+            destination,
+            rawAmount,
+        );
+        if(this.sharedState.isRecovery) {
+            submittable = this.sharedState.nodeApi.polkadot.tx.recovery.asRecovered(
+                this.sharedState.recoveredAddress || "",
+                submittable,
+            );
+        }
+        await this.ensureFundsForFees(submittable);
+
+        await signer.signAndSend({
+            signerId: this.sharedState.currentAddress?.address || "",
+            submittable,
+            callback,
+        });
+
+        return this._refresh();
+    }
+
     private async ensureFundsForFees(submittable: SubmittableExtrinsic): Promise<bigint> {
         const fees = await this.sharedState.nodeApi.fees.estimateWithoutStorage({
             origin: this.sharedState.currentAddress?.address || "",
@@ -0,0 +1,59 @@
+import { Hash } from "@logion/node-api";
+import { HexString } from "@polkadot/util/types";
+
+/**
+ * - PUBLIC_DATA_SUBMITTED: off-chain data were submitted, the item may or may not be on-chain yet.
+ * - ADDED: the item is on-chain, some files may still have to be uploaded.
+ * - DONE: the item is on-chain and all files were uploaded.
+ * - FAILED: the item could not be added, off-chain data were (or will be) rolled back.
+ */
+export type CollectionItemProgressStatus = "PUBLIC_DATA_SUBMITTED" | "ADDED" | "DONE" | "FAILED";
+
+export interface CollectionItemProgress {
+    readonly itemId: HexString;
+    readonly status: CollectionItemProgressStatus;
+    readonly error?: string;
+}
+
+/**
+ * Keeps track of the progress of a bulk import of collection items. Implementations
+ * may persist the journal (e.g. in a file or a browser's storage) so that the import
+ * can be resumed after a crash or a restart.
+ */
+export interface CollectionItemsJournal {
+
+    get(itemId: Hash): Promise<CollectionItemProgress | undefined>;
+
+    set(progress: CollectionItemProgress): Promise<void>;
+}
+
+export class InMemoryCollectionItemsJournal implements CollectionItemsJournal {
+
+    static fromJSON(json: string): InMemoryCollectionItemsJournal {
+        const entries = JSON.parse(json) as CollectionItemProgress[];
+        return new InMemoryCollectionItemsJournal(entries);
+    }
+
+    constructor(entries?: CollectionItemProgress[]) {
+        this.entries = {};
+        entries?.forEach(entry => this.entries[entry.itemId] = entry);
+    }
+
+    private readonly entries: Record<string, CollectionItemProgress>;
+
+    async get(itemId: Hash): Promise<CollectionItemProgress | undefined> {
+        return this.entries[itemId.toHex()];
+    }
+
+    async set(progress: CollectionItemProgress): Promise<void> {
+        this.entries[progress.itemId] = progress;
+    }
+
+    get progress(): CollectionItemProgress[] {
+        return Object.values(this.entries);
+    }
+
+    toJSON(): string {
+        return JSON.stringify(this.progress);
+    }
+}
@@ -0,0 +1,476 @@
+import { Hash, LogionNodeApiClass, UUID } from "@logion/node-api";
+import { HexString } from "@polkadot/util/types";
+
+import { CollectionItemParams, ItemFileWithContent } from "./LocClient.js";
+import { HashOrContent } from "./Hash.js";
+import { isValidMime, MimeType } from "./Mime.js";
+import { isTokenType, ItemTokenWithRestrictedType, validateToken } from "./Token.js";
+import {
+    CreativeCommons,
+    CreativeCommonsCode,
+    LogionClassification,
+    LogionTransferredRightCode,
+    SpecificLicense,
+} from "./license/index.js";
+import { Iso3166Alpha2Code } from "./Country.js";
+
+/**
+ * A manifest row as found in a JSON manifest (an array of rows). CSV manifests are mapped to this structure,
+ * see {@link parseCollectionManifest} for the supported columns.
+ *
+ * All fields are optional because a manifest is untrusted input, missing mandatory fields are reported
+ * as validation errors.
+ */
+export interface CollectionManifestRow {
+    /**
+     * Either a 32-byte hex hash used as is, or any other string, the item ID being its hash.
+     */
+    id?: string;
+    description?: string;
+    files?: CollectionManifestFile[];
+    token?: {
+        type?: string;
+        id?: string;
+        issuance?: string | number;
+    };
+    restrictedDelivery?: boolean | string;
+    logionClassification?: {
+        tcLocId?: string;
+        transferredRights?: string[];
+        regionalLimit?: string[];
+        expiration?: string;
+    };
+    creativeCommons?: {
+        tcLocId?: string;
+        code?: string;
+    };
+    specificLicenses?: {
+        tcLocId?: string;
+        details?: string;
+    }[];
+}
+
+export interface CollectionManifestFile {
+    /**
+     * The path to the file's content.
+     */
+    path?: string;
+    /**
+     * The name of the file, defaults to the last segment of the path.
+     */
+    name?: string;
+    contentType?: string;
+}
+
+export type CollectionManifestFormat = "CSV" | "JSON";
+
+export interface CollectionManifestRowReport {
+    /**
+     * The 1-based row number. For CSV manifests, the header is not counted.
+     */
+    row: number;
+    itemId?: HexString;
+    /**
+     * The parameters to pass to `addCollectionItem` or `addCollectionItems`, undefined if the row is invalid.
+     */
+    item?: CollectionItemParams;
+    errors: string[];
+}
+
+export interface CollectionManifestReport {
+    valid: boolean;
+    rows: CollectionManifestRowReport[];
+    /**
+     * The items of valid rows, in manifest order.
+     */
+    items: CollectionItemParams[];
+}
+
+export interface ParseCollectionManifestParams {
+    api: LogionNodeApiClass;
+    manifest: string;
+    format: CollectionManifestFormat;
+    /**
+     * If false, rows with files are rejected. Defaults to true.
+     */
+    canUpload?: boolean;
+}
+
+/**
+ * Parses and validates a collection manifest. Nothing is submitted, the report tells
+ * row by row which items are ready to be added and why the others are not.
+ *
+ * CSV manifests must have a header row. Supported columns are:
+ * `id`, `description`, `file_paths`, `file_names`, `file_content_types`, `token_type`, `token_id`,
+ * `token_issuance`, `restricted_delivery`, `logion_classification_loc_id`, `logion_transferred_rights`,
+ * `logion_regional_limit`, `logion_expiration`, `cc4_loc_id`, `cc4_code`, `specific_license_loc_ids`
+ * and `specific_license_details`. Multi-valued cells are separated with `;`.
+ */
+export function parseCollectionManifest(params: ParseCollectionManifestParams): CollectionManifestReport {
+    const { api, manifest, format } = params;
+    const canUpload = params.canUpload !== undefined ? params.canUpload : true;
+
+    let rows: unknown[];
+    if(format === "CSV") {
+        rows = parseCsvManifest(manifest);
+    } else {
+        rows = parseJsonManifest(manifest);
+    }
+
+    const seenIds = new Set<string>();
+    const reports = rows.map((row, index) => {
+        if(!isManifestRow(row)) {
+            return invalidRowReport(index + 1);
+        }
+        const report = validateRow(api, row, index + 1, canUpload);
+        if(report.itemId) {
+            if(seenIds.has(report.itemId)) {
+                report.errors.push(`duplicate item ID ${ report.itemId }`);
+                report.item = undefined;
+            }
+            seenIds.add(report.itemId);
+        }
+        return report;
+    });
+    return {
+        valid: reports.every(report => report.errors.length === 0),
+        rows: reports,
+        items: reports
+            .filter(report => report.item !== undefined)
+            .map(report => report.item as CollectionItemParams),
+    };
+}
+
+function parseJsonManifest(manifest: string): unknown[] {
+    const rows: unknown = JSON.parse(manifest);
+    if(!Array.isArray(rows)) {
+        throw new Error("JSON manifest must be an array of rows");
+    }
+    return rows;
+}
+
+function isManifestRow(row: unknown): row is CollectionManifestRow {
+    return typeof row === "object" && row !== null && !Array.isArray(row);
+}
+
+function invalidRowReport(rowNumber: number): CollectionManifestRowReport {
+    return {
+        row: rowNumber,
+        errors: [ "row must be an object" ],
+    };
+}
+
+function parseCsvManifest(manifest: string): CollectionManifestRow[] {
+    const records = parseCsv(manifest);
+    if(records.length === 0) {
+        throw new Error("CSV manifest must have a header row");
+    }
+    const header = records[0].map(column => column.trim());
+    return records.slice(1)
+        .filter(record => record.some(cell => cell.trim() !== ""))
+        .map(record => {
+            const cells: Record<string, string> = {};
+            header.forEach((column, index) => cells[column] = (record[index] || "").trim());
+            return toRow(cells);
+        });
+}
+
+function toRow(cells: Record<string, string>): CollectionManifestRow {
+    const paths = splitCell(cells["file_paths"]);
+    const names = splitCell(cells["file_names"]);
+    const contentTypes = splitCell(cells["file_content_types"]);
+    const filesCount = Math.max(paths.length, names.length, contentTypes.length);
+    const files: CollectionManifestFile[] = [];
+    for(let i = 0; i < filesCount; ++i) {
+        files.push({
+            path: paths[i],
+            name: names[i],
+            contentType: contentTypes[i],
+        });
+    }
+
+    const specificLicenseLocIds = splitCell(cells["specific_license_loc_ids"]);
+    const specificLicenseDetails = splitCell(cells["specific_license_details"]);
+    const specificLicensesCount = Math.max(specificLicenseLocIds.length, specificLicenseDetails.length);
+    const specificLicenses: { tcLocId?: string, details?: string }[] = [];
+    for(let i = 0; i < specificLicensesCount; ++i) {
+        specificLicenses.push({
+            tcLocId: specificLicenseLocIds[i],
+            details: specificLicenseDetails[i],
+        });
+    }
+
+    return {
+        id: emptyToUndefined(cells["id"]),
+        description: emptyToUndefined(cells["description"]),
+        files,
+        token: cells["token_type"] || cells["token_id"] || cells["token_issuance"] ? {
+            type: emptyToUndefined(cells["token_type"]),
+            id: emptyToUndefined(cells["token_id"]),
+            issuance: emptyToUndefined(cells["token_issuance"]),
+        } : undefined,
+        restrictedDelivery: emptyToUndefined(cells["restricted_delivery"]),
+        logionClassification: cells["logion_classification_loc_id"] || cells["logion_transferred_rights"] ? {
+            tcLocId: emptyToUndefined(cells["logion_classification_loc_id"]),
+            transferredRights: splitCell(cells["logion_transferred_rights"]),
+            regionalLimit: splitCell(cells["logion_regional_limit"]),
+            expiration: emptyToUndefined(cells["logion_expiration"]),
+        } : undefined,
+        creativeCommons: cells["cc4_loc_id"] || cells["cc4_code"] ? {
+            tcLocId: emptyToUndefined(cells["cc4_loc_id"]),
+            code: emptyToUndefined(cells["cc4_code"]),
+        } : undefined,
+        specificLicenses,
+    };
+}
+
+function splitCell(cell: string | undefined): string[] {
+    if(!cell) {
+        return [];
+    }
+    return cell.split(";").map(value => value.trim());
+}
+
+function emptyToUndefined(cell: string | undefined): string | undefined {
+    return cell ? cell : undefined;
+}
+
+/**
+ * A minimal RFC 4180 parser: comma separated, double-quoted cells may contain
+ * commas, line breaks and escaped (doubled) double quotes.
+ */
+function parseCsv(csv: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for(let i = 0; i < csv.length; ++i) {
+        const c = csv[i];
+        if(quoted) {
+            if(c === '"') {
+                if(csv[i + 1] === '"') {
+                    cell += '"';
+                    ++i;
+                } else {
+                    quoted = false;
+                }
+            } else {
+                cell += c;
+            }
+        } else if(c === '"') {
+            quoted = true;
+        } else if(c === ',') {
+            record.push(cell);
+            cell = "";
+        } else if(c === '\n' || c === '\r') {
+            if(c === '\r' && csv[i + 1] === '\n') {
+                ++i;
+            }
+            record.push(cell);
+            records.push(record);
+            record = [];
+            cell = "";
+        } else {
+            cell += c;
+        }
+    }
+    if(quoted) {
+        throw new Error("Unterminated quoted cell in CSV manifest");
+    }
+    if(cell !== "" || record.length > 0) {
+        record.push(cell);
+        records.push(record);
+    }
+    return records;
+}
+
+function validateRow(api: LogionNodeApiClass, row: CollectionManifestRow, rowNumber: number, canUpload: boolean): CollectionManifestRowReport {
+    const errors: string[] = [];
+
+    let itemId: Hash | undefined;
+    if(!row.id) {
+        errors.push("missing item ID");
+    } else if(Hash.isValidHexHash(row.id as HexString)) {
+        itemId = Hash.fromHex(row.id as HexString);
+    } else {
+        itemId = Hash.of(row.id);
+    }
+
+    if(!row.description) {
+        errors.push("missing description");
+    }
+
+    const itemFiles = validateFiles(row.files || [], errors);
+    if(itemFiles.length > 0 && !canUpload) {
+        errors.push("collection does not allow uploading files with items");
+    }
+
+    const itemToken = validateItemToken(api, row.token, errors);
+
+    let restrictedDelivery = false;
+    if(row.restrictedDelivery !== undefined) {
+        if(typeof row.restrictedDelivery === "boolean") {
+            restrictedDelivery = row.restrictedDelivery;
+        } else if(row.restrictedDelivery === "true" || row.restrictedDelivery === "false") {
+            restrictedDelivery = row.restrictedDelivery === "true";
+        } else {
+            errors.push(`invalid restricted delivery flag '${ row.restrictedDelivery }', expected true or false`);
+        }
+    }
+    if(restrictedDelivery && ((row.files || []).length === 0 || !row.token)) {
+        errors.push("restricted delivery requires a defined underlying token as well as at least one file");
+    }
+
+    const logionClassification = validateLogionClassification(row.logionClassification, errors);
+    const creativeCommons = validateCreativeCommons(row.creativeCommons, errors);
+    if(row.logionClassification && row.creativeCommons) {
+        errors.push("Logion Classification and Creative Commons are mutually exclusive");
+    }
+    const specificLicenses = validateSpecificLicenses(row.specificLicenses || [], errors);
+
+    return {
+        row: rowNumber,
+        itemId: itemId?.toHex(),
+        item: errors.length === 0 ? {
+            itemId: itemId as Hash,
+            itemDescription: row.description as string,
+            itemFiles: itemFiles.length > 0 ? itemFiles : undefined,
+            itemToken,
+            restrictedDelivery,
+            logionClassification,
+            creativeCommons,
+            specificLicenses: specificLicenses.length > 0 ? specificLicenses : undefined,
+        } : undefined,
+        errors,
+    };
+}
+
+function validateFiles(files: CollectionManifestFile[], errors: string[]): ItemFileWithContent[] {
+    const itemFiles: ItemFileWithContent[] = [];
+    files.forEach((file, index) => {
+        const fileNumber = index + 1;
+        if(!file.path) {
+            errors.push(`file ${ fileNumber }: missing path`);
+            return;
+        }
+        if(!file.contentType) {
+            errors.push(`file ${ fileNumber }: missing content type`);
+            return;
+        }
+        if(!isValidMime(file.contentType)) {
+            errors.push(`file ${ fileNumber }: unknown content type '${ file.contentType }'`);
+            return;
+        }
+        itemFiles.push(new ItemFileWithContent({
+            name: file.name || fileName(file.path),
+            contentType: MimeType.from(file.contentType),
+            hashOrContent: HashOrContent.fromContent(file.path),
+        }));
+    });
+    return itemFiles;
+}
+
+function fileName(path: string): string {
+    const segments = path.split(/[\\/]/);
+    return segments[segments.length - 1];
+}
+
+function validateItemToken(api: LogionNodeApiClass, token: CollectionManifestRow["token"], errors: string[]): ItemTokenWithRestrictedType | undefined {
+    if(!token) {
+        return undefined;
+    }
+    if(!token.type || !isTokenType(token.type)) {
+        errors.push(`invalid token type '${ token.type || "" }'`);
+        return undefined;
+    }
+    if(!token.id) {
+        errors.push("missing token ID");
+        return undefined;
+    }
+    let issuance: bigint;
+    try {
+        issuance = BigInt(token.issuance !== undefined ? token.issuance : 1);
+    } catch(e) {
+        errors.push(`invalid token issuance '${ token.issuance }'`);
+        return undefined;
+    }
+    if(issuance < 1n) {
+        errors.push("token issuance must be greater than 0");
+        return undefined;
+    }
+
+    const itemToken: ItemTokenWithRestrictedType = {
+        type: token.type,
+        id: token.id,
+        issuance,
+    };
+    const result = validateToken(api, itemToken);
+    if(!result.valid) {
+        errors.push(`invalid token: ${ result.error }`);
+        return undefined;
+    }
+    return itemToken;
+}
+
+function validateLogionClassification(parameters: CollectionManifestRow["logionClassification"], errors: string[]): LogionClassification | undefined {
+    if(!parameters) {
+        return undefined;
+    }
+    const tcLocId = validateTcLocId(parameters.tcLocId, "Logion Classification", errors);
+    if(!tcLocId) {
+        return undefined;
+    }
+    try {
+        return new LogionClassification(tcLocId, {
+            transferredRights: (parameters.transferredRights || []) as LogionTransferredRightCode[],
+            regionalLimit: parameters.regionalLimit && parameters.regionalLimit.length > 0 ? parameters.regionalLimit as Iso3166Alpha2Code[] : undefined,
+            expiration: parameters.expiration,
+        });
+    } catch(e) {
+        errors.push(`invalid Logion Classification: ${ errorMessage(e) }`);
+        return undefined;
+    }
+}
+
+function validateCreativeCommons(parameters: CollectionManifestRow["creativeCommons"], errors: string[]): CreativeCommons | undefined {
+    if(!parameters) {
+        return undefined;
+    }
+    const tcLocId = validateTcLocId(parameters.tcLocId, "Creative Commons", errors);
+    if(!tcLocId) {
+        return undefined;
+    }
+    try {
+        return new CreativeCommons(tcLocId, parameters.code as CreativeCommonsCode);
+    } catch(e) {
+        errors.push(`invalid Creative Commons: ${ errorMessage(e) }`);
+        return undefined;
+    }
+}
+
+function validateSpecificLicenses(licenses: { tcLocId?: string, details?: string }[], errors: string[]): SpecificLicense[] {
+    const specificLicenses: SpecificLicense[] = [];
+    for(const license of licenses) {
+        const tcLocId = validateTcLocId(license.tcLocId, "specific license", errors);
+        if(tcLocId) {
+            specificLicenses.push(new SpecificLicense(tcLocId, license.details || ""));
+        }
+    }
+    return specificLicenses;
+}
+
+function validateTcLocId(tcLocId: string | undefined, elementName: string, errors: string[]): UUID | undefined {
+    if(!tcLocId) {
+        errors.push(`missing ${ elementName } LOC ID`);
+        return undefined;
+    }
+    const uuid = UUID.fromAnyString(tcLocId);
+    if(!uuid) {
+        errors.push(`invalid ${ elementName } LOC ID '${ tcLocId }'`);
+    }
+    return uuid;
+}
+
+function errorMessage(e: unknown): string {
+    return e instanceof Error ? e.message : String(e);
+}
@@ -2,9 +2,10 @@ import { LogionNodeApiClass, buildApiClass } from "@logion/node-api";
 import { AuthenticationClient } from "./AuthenticationClient.js";
 import { AxiosFactory } from "./AxiosFactory.js";
 import { DirectoryClient } from "./DirectoryClient.js";
-import { NetworkState } from "./NetworkState.js";
+import { NetworkState, NetworkStateOptions } from "./NetworkState.js";
 import { LegalOfficerEndpoint } from "./SharedClient.js";
 import { LegalOfficerClass } from "./Types.js";
+import { CacheStore } from "./LocCache.js";
 
 export interface FormDataLike {
     append(name: string, value: any, fileName?: string): void; // eslint-disable-line @typescript-eslint/no-explicit-any
@@ -18,16 +19,20 @@ export interface ComponentFactory {
     buildAxiosFactory: () => AxiosFactory;
     buildDirectoryClient: (api: LogionNodeApiClass, directoryEndpoint: string, axiosFactory: AxiosFactory, token?: string) => DirectoryClient;
     buildAuthenticationClient: (api: LogionNodeApiClass, directoryEndpoint: string, legalOfficers: LegalOfficerClass[], axiosFactory: AxiosFactory) => AuthenticationClient;
-    buildNetworkState(nodesUp: LegalOfficerEndpoint[], nodesDown: LegalOfficerEndpoint[]): NetworkState<LegalOfficerEndpoint>;
+    buildNetworkState(nodesUp: LegalOfficerEndpoint[], nodesDown: LegalOfficerEndpoint[], options?: NetworkStateOptions): NetworkState<LegalOfficerEndpoint>;
     buildNodeApi(rpcEndpoints: string[]): Promise<LogionNodeApiClass>;
     buildFormData: () => FormDataLike;
+    /**
+     * If defined, closed LOCs and collection items are cached in the built store.
+     */
+    buildCacheStore?: () => CacheStore;
 }
 
 export const DefaultComponentFactory: ComponentFactory = {
     buildAxiosFactory: () => new AxiosFactory(),
     buildDirectoryClient: (api: LogionNodeApiClass, directoryEndpoint: string, axiosFactory: AxiosFactory, token?: string) => new DirectoryClient(api, directoryEndpoint, axiosFactory, token),
     buildAuthenticationClient: (api: LogionNodeApiClass, directoryEndpoint: string, legalOfficers: LegalOfficerClass[], axiosFactory: AxiosFactory) => new AuthenticationClient(api, directoryEndpoint, legalOfficers, axiosFactory),
-    buildNetworkState: (nodesUp: LegalOfficerEndpoint[], nodesDown: LegalOfficerEndpoint[]) => new NetworkState(nodesUp, nodesDown),
+    buildNetworkState: (nodesUp: LegalOfficerEndpoint[], nodesDown: LegalOfficerEndpoint[], options?: NetworkStateOptions) => new NetworkState(nodesUp, nodesDown, options),
     buildNodeApi: (rpcEndpoints: string[]) => buildApiClass(rpcEndpoints),
     buildFormData: () => new FormData(),
 };
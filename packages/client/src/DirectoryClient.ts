@@ -5,6 +5,7 @@ import { Option } from "@polkadot/types-codec";
 import { PalletLoAuthorityListLegalOfficerData } from "@polkadot/types/lookup";
 import { AxiosInstance } from "axios";
 import { AxiosFactory } from "./AxiosFactory.js";
+import { newBackendError, Unauthorized } from "./Error.js";
 import { LegalOfficer, LegalOfficerClass, LegalOfficerPostalAddress, UserIdentity } from "./Types.js";
 
 export interface DirectoryLegalOfficer {
@@ -36,8 +37,13 @@ export class DirectoryClient {
     private api: LogionNodeApiClass;
 
     async getLegalOfficers(): Promise<LegalOfficerClass[]> {
-        const offchain = (await this.axios.get("/api/legal-officer")
-            .then(response => response.data.legalOfficers)) as DirectoryLegalOfficer[];
+        let offchain: DirectoryLegalOfficer[];
+        try {
+            offchain = (await this.axios.get("/api/legal-officer")
+                .then(response => response.data.legalOfficers)) as DirectoryLegalOfficer[];
+        } catch(e) {
+            throw newBackendError(e);
+        }
         const offchainMap = this.toOffchainMap(offchain);
         const onchain = await this.api.polkadot.query.loAuthorityList.legalOfficerSet.entries();
         const onchainMap = this.toOnchainMap(onchain);
@@ -104,8 +110,12 @@ export class DirectoryClient {
 
     async createOrUpdate(legalOfficer: LegalOfficer) {
         if(!this.authenticated) {
-            throw new Error("Authentication is required");
+            throw new Unauthorized("Authentication is required");
+        }
+        try {
+            await this.axios.put('/api/legal-officer', legalOfficer);
+        } catch(e) {
+            throw newBackendError(e);
         }
-        await this.axios.put('/api/legal-officer', legalOfficer);
     }
 }
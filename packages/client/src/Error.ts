@@ -1,9 +1,174 @@
+import { Adapters } from "@logion/node-api";
+import { DispatchError, TransactionValidityError } from "@polkadot/types/interfaces";
+
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+/**
+ * An error response of a logion node's backend.
+ */
+export class BackendError extends Error {
+
+    constructor(message: string, params?: { status?: number, errorMessage?: string }) {
+        super(message);
+        this.name = new.target.name;
+        this.status = params?.status;
+        this.errorMessage = params?.errorMessage;
+    }
+
+    /**
+     * The HTTP status of the response.
+     */
+    readonly status?: number;
+
+    /**
+     * The error message provided by the backend, if any.
+     */
+    readonly errorMessage?: string;
+}
+
+export class NotFound extends BackendError {
+}
+
+/**
+ * The request was not authenticated (e.g. the token expired) or current account is not allowed to perform it.
+ */
+export class Unauthorized extends BackendError {
+}
+
+/**
+ * The request conflicts with current state (e.g. the entity already exists).
+ */
+export class Conflict extends BackendError {
+}
+
+/**
+ * Some input is invalid. Validation errors detected client-side have an undefined status.
+ */
+export class ValidationError extends BackendError {
+
+    constructor(message: string, params?: { status?: number, errorMessage?: string, fields?: FieldError[] }) {
+        super(message, params);
+        this.fields = params?.fields || [];
+    }
+
+    readonly fields: FieldError[];
+
+    static forField(field: string, message: string): ValidationError {
+        return new ValidationError(message, { fields: [ { field, message } ] });
+    }
+}
+
+/**
+ * A logion node could not be reached.
+ */
+export class NodeUnavailable extends Error {
+
+    constructor(message: string) {
+        super(message);
+        this.name = "NodeUnavailable";
+    }
+}
+
+/**
+ * An error raised by the logion chain, decoded using chain's metadata.
+ */
+export class LogionError extends Error {
+
+    constructor(params: { pallet: string, errorName: string, docs: string[] }) {
+        super(`Got error ${ params.errorName } from pallet ${ params.pallet }: ${ params.docs.join(", ").trim() }`);
+        this.name = new.target.name;
+        this.pallet = params.pallet;
+        this.errorName = params.errorName;
+        this.docs = params.docs;
+    }
+
+    /**
+     * The pallet which raised the error.
+     */
+    readonly pallet: string;
+
+    /**
+     * The name of the error in the pallet, as found in chain's metadata.
+     */
+    readonly errorName: string;
+
+    /**
+     * The documentation of the error, as found in chain's metadata.
+     */
+    readonly docs: string[];
+
+    /**
+     * Transaction validity errors are not raised by a pallet, "transaction" is used as pallet name.
+     */
+    static fromTransactionValidityError(validityError: TransactionValidityError): LogionError {
+        const errorName = validityError.isInvalid ? validityError.asInvalid.type : validityError.asUnknown.type;
+        return new LogionError({
+            pallet: "transaction",
+            errorName,
+            docs: [ `${ validityError.type } transaction` ],
+        });
+    }
+}
+
+/**
+ * The dispatch of a transaction failed.
+ */
+export class ChainDispatchError extends LogionError {
+
+    static fromDispatchError(dispatchError: DispatchError): ChainDispatchError {
+        const metadata = Adapters.getErrorMetadata(dispatchError);
+        return new ChainDispatchError({
+            pallet: metadata.pallet,
+            errorName: metadata.error,
+            docs: metadata.details ? [ metadata.details ] : [],
+        });
+    }
+}
+
+/**
+ * Maps an error thrown by axios to the matching typed error.
+ */
 export function newBackendError(error: any): Error { // eslint-disable-line @typescript-eslint/no-explicit-any
-    if(error.response && error.response.data && error.response.data.errorMessage) {
-        return new Error(`${error.message}: ${error.response.data.errorMessage}`);
-    } else if(error.response && error.response.data) {
-        return new Error(`${error.message}: ${JSON.stringify(error.response.data)}`);
+    if(error.response) {
+        const status: number | undefined = error.response.status;
+        const errorMessage: string | undefined = error.response.data?.errorMessage;
+        let message: string;
+        if(errorMessage) {
+            message = `${error.message}: ${errorMessage}`;
+        } else if(error.response.data) {
+            message = `${error.message}: ${JSON.stringify(error.response.data)}`;
+        } else {
+            message = error.message;
+        }
+        const params = { status, errorMessage };
+        if(status === 400) {
+            const fields = Array.isArray(error.response.data?.errors) ? error.response.data.errors : undefined;
+            return new ValidationError(message, { ...params, fields });
+        } else if(status === 401 || status === 403) {
+            return new Unauthorized(message, params);
+        } else if(status === 404) {
+            return new NotFound(message, params);
+        } else if(status === 409) {
+            return new Conflict(message, params);
+        } else {
+            return new BackendError(message, params);
+        }
+    } else if(error.request) {
+        return new NodeUnavailable(error.message);
     } else {
         return error;
     }
 }
+
+/**
+ * Tells if an error thrown by axios means that the node is not available i.e. it did not respond
+ * or responded with a server error.
+ */
+export function isNodeUnavailable(error: any): boolean { // eslint-disable-line @typescript-eslint/no-explicit-any
+    const typedError = newBackendError(error);
+    return typedError instanceof NodeUnavailable
+        || (typedError instanceof BackendError && typedError.status !== undefined && typedError.status >= 500);
+}
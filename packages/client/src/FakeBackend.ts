@@ -0,0 +1,671 @@
+import { Hash, UUID } from "@logion/node-api";
+import { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+import { DateTime } from "luxon";
+
+import { AxiosFactory } from "./AxiosFactory.js";
+import { FormDataLike } from "./ComponentFactory.js";
+import { DirectoryLegalOfficer } from "./DirectoryClient.js";
+import { toIsoString } from "./DateTimeUtil.js";
+import {
+    CreateLocRequest,
+    FetchLocRequestSpecification,
+    ItemStatus,
+    LocFile,
+    LocLink,
+    LocMetadataItem,
+    LocRequest,
+    SupportedAccountId,
+} from "./LocClient.js";
+
+export interface FakeBackendLegalOfficer extends DirectoryLegalOfficer {
+    /**
+     * The base URL of the legal officer's node, must match the one published on chain.
+     */
+    node: string;
+}
+
+export interface FakeBackendParameters {
+    directoryEndpoint: string;
+    legalOfficers: FakeBackendLegalOfficer[];
+}
+
+/**
+ * A request as received by the fake backend.
+ */
+export interface FakeBackendRequest {
+    readonly method: string;
+    readonly endpoint: string;
+    readonly path: string;
+    readonly data: unknown;
+    /**
+     * The authenticated account, if any.
+     */
+    readonly caller?: SupportedAccountId;
+}
+
+interface FakeBackendResponse {
+    status: number;
+    data?: unknown;
+}
+
+type FakeRoute = {
+    method: string;
+    path: RegExp;
+    handler: (request: FakeBackendRequest, ...params: string[]) => FakeBackendResponse | Promise<FakeBackendResponse>;
+};
+
+const TOKEN_VALIDITY_HOURS = 1;
+
+/**
+ * An in-memory fake of the directory and legal officer nodes. It implements authentication, the directory
+ * and the LOC request lifecycle. Protection, recovery and vault transfer requests are out of scope.
+ * Signatures are not checked. Unsupported routes yield a 404 response.
+ *
+ * LOC requests are served only by the node of their owner.
+ */
+export class FakeBackend {
+
+    constructor(parameters: FakeBackendParameters) {
+        this.directoryEndpoint = parameters.directoryEndpoint;
+        this.legalOfficers = parameters.legalOfficers;
+        this.routes = this.buildRoutes();
+    }
+
+    private readonly directoryEndpoint: string;
+
+    private readonly legalOfficers: FakeBackendLegalOfficer[];
+
+    private readonly routes: FakeRoute[];
+
+    private readonly sessions = new Map<string, string[]>();
+
+    /**
+     * Account keys (see ValidAccountId.toKey) indexed by token.
+     */
+    private readonly tokens = new Map<string, string>();
+
+    private readonly locRequests = new Map<string, LocRequest>();
+
+    private tokenCounter = 0;
+
+    private readonly _received: FakeBackendRequest[] = [];
+
+    get received(): FakeBackendRequest[] {
+        return [ ...this._received ];
+    }
+
+    getLocRequest(locId: UUID): LocRequest | undefined {
+        const request = this.locRequests.get(locId.toString());
+        return request ? copy(request) : undefined;
+    }
+
+    async handle(request: FakeBackendRequest): Promise<FakeBackendResponse> {
+        this._received.push(request);
+        for(const route of this.routes) {
+            const match = route.path.exec(request.path);
+            if(route.method === request.method && match) {
+                try {
+                    return await route.handler(request, ...match.slice(1));
+                } catch(e) {
+                    if(e instanceof FakeBackendError) {
+                        return { status: e.status, data: { errorMessage: e.message } };
+                    } else {
+                        throw e;
+                    }
+                }
+            }
+        }
+        return { status: 404, data: { errorMessage: `Unsupported route ${ request.method.toUpperCase() } ${ request.path }` } };
+    }
+
+    private buildRoutes(): FakeRoute[] {
+        return [
+            { method: "get", path: /^\/api\/legal-officer$/, handler: () => this.getLegalOfficers() },
+            { method: "post", path: /^\/api\/auth\/sign-in$/, handler: request => this.signIn(request) },
+            { method: "post", path: /^\/api\/auth\/([^/]+)\/authenticate$/, handler: (request, sessionId) => this.authenticate(request, sessionId) },
+            { method: "put", path: /^\/api\/auth\/refresh$/, handler: request => this.refresh(request) },
+            { method: "get", path: /^\/api\/issuers-identity$/, handler: () => ({ status: 200, data: { issuers: [] } }) },
+
+            { method: "put", path: /^\/api\/loc-request$/, handler: request => this.fetchLocRequests(request) },
+            { method: "post", path: /^\/api\/loc-request$/, handler: request => this.createLocRequest(request) },
+            { method: "get", path: /^\/api\/loc-request\/([^/]+)$/, handler: (request, id) => this.getRequest(request, id) },
+            { method: "get", path: /^\/api\/loc-request\/([^/]+)\/public$/, handler: (request, id) => this.getPublicRequest(request, id) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/submit$/, handler: (request, id) => this.submit(request, id) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/cancel$/, handler: (request, id) => this.cancel(request, id) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/rework$/, handler: (request, id) => this.rework(request, id) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/accept$/, handler: (request, id) => this.decide(request, id, "REVIEW_ACCEPTED") },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/reject$/, handler: (request, id) => this.decide(request, id, "REVIEW_REJECTED") },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/open$/, handler: (request, id) => this.open(request, id) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/close$/, handler: (request, id) => this.close(request, id) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/void$/, handler: (request, id) => this.voidLoc(request, id) },
+
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/metadata$/, handler: (request, id) => this.addMetadata(request, id) },
+            { method: "delete", path: /^\/api\/loc-request\/([^/]+)\/metadata\/([^/]+)$/, handler: (request, id, nameHash) => this.deleteItem(request, id, "metadata", nameHash) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/metadata\/([^/]+)\/review-request$/, handler: (request, id, nameHash) => this.requestReview(request, id, "metadata", nameHash) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/metadata\/([^/]+)\/review$/, handler: (request, id, nameHash) => this.review(request, id, "metadata", nameHash) },
+            { method: "put", path: /^\/api\/loc-request\/([^/]+)\/metadata\/([^/]+)\/confirm$/, handler: (request, id, nameHash) => this.confirm(request, id, "metadata", nameHash) },
+            { method: "put", path: /^\/api\/loc-request\/([^/]+)\/metadata\/([^/]+)\/confirm-acknowledged$/, handler: (request, id, nameHash) => this.confirmAcknowledged(request, id, "metadata", nameHash) },
+
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/files$/, handler: (request, id) => this.addFile(request, id) },
+            { method: "delete", path: /^\/api\/loc-request\/([^/]+)\/files\/([^/]+)$/, handler: (request, id, hash) => this.deleteItem(request, id, "files", hash) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/files\/([^/]+)\/review-request$/, handler: (request, id, hash) => this.requestReview(request, id, "files", hash) },
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/files\/([^/]+)\/review$/, handler: (request, id, hash) => this.review(request, id, "files", hash) },
+            { method: "put", path: /^\/api\/loc-request\/([^/]+)\/files\/([^/]+)\/confirm$/, handler: (request, id, hash) => this.confirm(request, id, "files", hash) },
+            { method: "put", path: /^\/api\/loc-request\/([^/]+)\/files\/([^/]+)\/confirm-acknowledged$/, handler: (request, id, hash) => this.confirmAcknowledged(request, id, "files", hash) },
+
+            { method: "post", path: /^\/api\/loc-request\/([^/]+)\/links$/, handler: (request, id) => this.addLink(request, id) },
+            { method: "delete", path: /^\/api\/loc-request\/([^/]+)\/links\/([^/]+)$/, handler: (request, id, target) => this.deleteLink(request, id, target) },
+            { method: "put", path: /^\/api\/loc-request\/([^/]+)\/links\/([^/]+)\/confirm$/, handler: (request, id, target) => this.confirmLink(request, id, target) },
+        ];
+    }
+
+    private getLegalOfficers(): FakeBackendResponse {
+        const legalOfficers: DirectoryLegalOfficer[] = this.legalOfficers.map(legalOfficer => ({
+            userIdentity: legalOfficer.userIdentity,
+            postalAddress: legalOfficer.postalAddress,
+            address: legalOfficer.address,
+            additionalDetails: legalOfficer.additionalDetails,
+        }));
+        return ok({ legalOfficers });
+    }
+
+    private signIn(request: FakeBackendRequest): FakeBackendResponse {
+        const { addresses } = request.data as { addresses: string[] };
+        const sessionId = new UUID().toString();
+        this.sessions.set(sessionId, addresses);
+        return ok({ sessionId });
+    }
+
+    private authenticate(request: FakeBackendRequest, sessionId: string): FakeBackendResponse {
+        const addresses = this.sessions.get(sessionId);
+        if(!addresses) {
+            throw new FakeBackendError(401, "Invalid session");
+        }
+        this.sessions.delete(sessionId);
+        const { signatures } = request.data as { signatures: Record<string, unknown> };
+        return ok({ tokens: this.issueTokens(addresses.filter(address => address in signatures)) });
+    }
+
+    private issueTokens(addresses: string[]): Record<string, { value: string, expiredOn: string }> {
+        const expiredOn = toIsoString(DateTime.now().plus({ hours: TOKEN_VALIDITY_HOURS }));
+        const tokens: Record<string, { value: string, expiredOn: string }> = {};
+        for(const address of addresses) {
+            ++this.tokenCounter;
+            const value = `fake-token-${ this.tokenCounter }`;
+            this.tokens.set(value, address);
+            tokens[address] = { value, expiredOn };
+        }
+        return tokens;
+    }
+
+    private refresh(request: FakeBackendRequest): FakeBackendResponse {
+        const { tokens } = request.data as { tokens: Record<string, string> };
+        const addresses = Object.keys(tokens).filter(address => this.tokens.get(tokens[address]) === address);
+        return ok({ tokens: this.issueTokens(addresses) });
+    }
+
+    /**
+     * @returns the account authenticated by given token, if any.
+     */
+    authenticatedAccount(token?: string): SupportedAccountId | undefined {
+        const key = token ? this.tokens.get(token) : undefined;
+        if(!key) {
+            return undefined;
+        }
+        const separator = key.indexOf(":");
+        return {
+            type: key.substring(0, separator) as SupportedAccountId["type"],
+            address: key.substring(separator + 1),
+        };
+    }
+
+    private fetchLocRequests(request: FakeBackendRequest): FakeBackendResponse {
+        this.requireCaller(request);
+        const spec = request.data as FetchLocRequestSpecification;
+        const requests = Array.from(this.locRequests.values())
+            .filter(locRequest => this.isServedBy(locRequest, request.endpoint))
+            .filter(locRequest => !spec.ownerAddress || locRequest.ownerAddress === spec.ownerAddress)
+            .filter(locRequest => !spec.requesterAddress || locRequest.requesterAddress?.address === spec.requesterAddress)
+            .filter(locRequest => !spec.sponsorshipId || locRequest.sponsorshipId === spec.sponsorshipId)
+            .filter(locRequest => spec.statuses.includes(locRequest.status))
+            .filter(locRequest => spec.locTypes.includes(locRequest.locType));
+        return ok({ requests: requests.map(copy) });
+    }
+
+    private isServedBy(locRequest: LocRequest, endpoint: string): boolean {
+        const owner = this.legalOfficers.find(legalOfficer => legalOfficer.address === locRequest.ownerAddress);
+        return owner?.node === endpoint;
+    }
+
+    private requireCaller(request: FakeBackendRequest): SupportedAccountId {
+        if(!request.caller) {
+            throw new FakeBackendError(401, "Unauthorized");
+        }
+        return request.caller;
+    }
+
+    private createLocRequest(request: FakeBackendRequest): FakeBackendResponse {
+        const caller = this.requireCaller(request);
+        const createRequest = request.data as CreateLocRequest;
+        const owner = this.legalOfficers.find(legalOfficer => legalOfficer.address === createRequest.ownerAddress);
+        if(!owner || owner.node !== request.endpoint) {
+            throw new FakeBackendError(400, "Unknown legal officer");
+        }
+        const isOwner = isLegalOfficer(caller, createRequest.ownerAddress);
+        const locRequest: LocRequest = {
+            id: new UUID().toString(),
+            ownerAddress: createRequest.ownerAddress,
+            requesterAddress: isOwner ? createRequest.requesterAddress : caller,
+            requesterIdentityLoc: createRequest.requesterIdentityLoc,
+            description: createRequest.description,
+            locType: createRequest.locType,
+            createdOn: now(),
+            status: createRequest.draft ? "DRAFT" : "REVIEW_PENDING",
+            userIdentity: createRequest.userIdentity,
+            userPostalAddress: createRequest.userPostalAddress,
+            company: createRequest.company,
+            template: createRequest.template,
+            sponsorshipId: createRequest.sponsorshipId,
+            files: [],
+            metadata: [],
+            links: [],
+            selectedIssuers: [],
+        };
+        this.locRequests.set(locRequest.id, locRequest);
+        return ok(copy(locRequest));
+    }
+
+    private findRequest(request: FakeBackendRequest, id: string): LocRequest {
+        const locRequest = this.locRequests.get(id);
+        if(!locRequest || !this.isServedBy(locRequest, request.endpoint)) {
+            throw new FakeBackendError(404, "Request not found");
+        }
+        return locRequest;
+    }
+
+    private findAuthorizedRequest(request: FakeBackendRequest, id: string): { locRequest: LocRequest, caller: SupportedAccountId, isOwner: boolean } {
+        const caller = this.requireCaller(request);
+        const locRequest = this.findRequest(request, id);
+        const isOwner = isLegalOfficer(caller, locRequest.ownerAddress);
+        const isRequester = locRequest.requesterAddress?.address === caller.address && locRequest.requesterAddress?.type === caller.type;
+        if(!isOwner && !isRequester) {
+            throw new FakeBackendError(403, "Forbidden");
+        }
+        return { locRequest, caller, isOwner };
+    }
+
+    private findOwnedRequest(request: FakeBackendRequest, id: string): LocRequest {
+        const { locRequest, isOwner } = this.findAuthorizedRequest(request, id);
+        if(!isOwner) {
+            throw new FakeBackendError(403, "Only the owner is allowed to do this");
+        }
+        return locRequest;
+    }
+
+    private getRequest(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        return ok(copy(locRequest));
+    }
+
+    private getPublicRequest(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const locRequest = this.findRequest(request, id);
+        if(locRequest.status !== "OPEN" && locRequest.status !== "CLOSED") {
+            throw new FakeBackendError(404, "Request not found");
+        }
+        return ok({
+            id: locRequest.id,
+            ownerAddress: locRequest.ownerAddress,
+            requesterAddress: locRequest.requesterAddress,
+            description: locRequest.description,
+            createdOn: locRequest.createdOn,
+            closedOn: locRequest.closedOn,
+            files: locRequest.files.filter(file => file.status === "ACKNOWLEDGED"),
+            metadata: locRequest.metadata.filter(item => item.status === "ACKNOWLEDGED"),
+            links: locRequest.links,
+            voidInfo: locRequest.voidInfo ? { voidedOn: locRequest.voidInfo.voidedOn } : undefined,
+        });
+    }
+
+    private submit(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        expectStatus(locRequest, "DRAFT");
+        locRequest.status = "REVIEW_PENDING";
+        this.updateItemStatus(locRequest, "DRAFT", "REVIEW_PENDING");
+        return noContent();
+    }
+
+    private updateItemStatus(locRequest: LocRequest, from: ItemStatus, to: ItemStatus) {
+        [ ...locRequest.metadata, ...locRequest.files ]
+            .filter(item => item.status === from)
+            .forEach(item => { item.status = to; });
+    }
+
+    private cancel(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        if(locRequest.status === "OPEN" || locRequest.status === "CLOSED") {
+            throw new FakeBackendError(400, "Cannot cancel an open LOC");
+        }
+        this.locRequests.delete(id);
+        return noContent();
+    }
+
+    private rework(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        expectStatus(locRequest, "REVIEW_REJECTED");
+        locRequest.status = "DRAFT";
+        locRequest.rejectReason = undefined;
+        locRequest.decisionOn = undefined;
+        this.updateItemStatus(locRequest, "REVIEW_REJECTED", "DRAFT");
+        return noContent();
+    }
+
+    private decide(request: FakeBackendRequest, id: string, status: "REVIEW_ACCEPTED" | "REVIEW_REJECTED"): FakeBackendResponse {
+        const locRequest = this.findOwnedRequest(request, id);
+        expectStatus(locRequest, "REVIEW_PENDING");
+        locRequest.status = status;
+        locRequest.decisionOn = now();
+        if(status === "REVIEW_REJECTED") {
+            locRequest.rejectReason = (request.data as { rejectReason?: string } | undefined)?.rejectReason;
+            this.updateItemStatus(locRequest, "REVIEW_PENDING", "REVIEW_REJECTED");
+        }
+        return noContent();
+    }
+
+    private open(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        if(locRequest.status !== "REVIEW_ACCEPTED" && locRequest.status !== "OPEN") {
+            throw new FakeBackendError(400, `Unexpected status ${ locRequest.status }`);
+        }
+        locRequest.status = "OPEN";
+        return noContent();
+    }
+
+    private close(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const locRequest = this.findOwnedRequest(request, id);
+        expectStatus(locRequest, "OPEN");
+        locRequest.status = "CLOSED";
+        locRequest.closedOn = now();
+        return noContent();
+    }
+
+    private voidLoc(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const locRequest = this.findOwnedRequest(request, id);
+        const { reason } = request.data as { reason: string };
+        locRequest.voidInfo = { reason, voidedOn: now() };
+        return noContent();
+    }
+
+    private addMetadata(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const { locRequest, caller, isOwner } = this.findAuthorizedRequest(request, id);
+        const { name, value } = request.data as { name: string, value: string };
+        const nameHash = Hash.of(name).toHex();
+        if(locRequest.metadata.find(item => item.nameHash === nameHash)) {
+            throw new FakeBackendError(400, "Duplicate metadata");
+        }
+        const item: LocMetadataItem = {
+            name,
+            nameHash,
+            value,
+            submitter: caller,
+            status: isOwner ? "REVIEW_ACCEPTED" : "DRAFT",
+        };
+        locRequest.metadata.push(item);
+        return noContent();
+    }
+
+    private async addFile(request: FakeBackendRequest, id: string): Promise<FakeBackendResponse> {
+        const { locRequest, caller, isOwner } = this.findAuthorizedRequest(request, id);
+        if(!(request.data instanceof FakeFormData)) {
+            throw new FakeBackendError(400, "Expected multipart data");
+        }
+        const hash = request.data.get("hash") as string;
+        if(locRequest.files.find(file => file.hash === hash)) {
+            throw new FakeBackendError(400, "Duplicate file");
+        }
+        const file: LocFile = {
+            hash,
+            nature: request.data.get("nature") as string,
+            submitter: caller,
+            name: request.data.getFileName("file") || "",
+            restrictedDelivery: false,
+            contentType: "application/octet-stream",
+            status: isOwner ? "REVIEW_ACCEPTED" : "DRAFT",
+            size: (await sizeOf(request.data.get("file"))).toString(),
+        };
+        locRequest.files.push(file);
+        return noContent();
+    }
+
+    private findItem(locRequest: LocRequest, collection: "metadata" | "files", hash: string): LocMetadataItem | LocFile {
+        const item = collection === "metadata" ?
+            locRequest.metadata.find(item => item.nameHash === hash) :
+            locRequest.files.find(item => item.hash === hash);
+        if(!item) {
+            throw new FakeBackendError(404, "Item not found");
+        }
+        return item;
+    }
+
+    private deleteItem(request: FakeBackendRequest, id: string, collection: "metadata" | "files", hash: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        const item = this.findItem(locRequest, collection, hash);
+        if(item.status === "PUBLISHED" || item.status === "ACKNOWLEDGED") {
+            throw new FakeBackendError(400, "Cannot delete a published item");
+        }
+        if(collection === "metadata") {
+            locRequest.metadata = locRequest.metadata.filter(other => other !== item);
+        } else {
+            locRequest.files = locRequest.files.filter(other => other !== item);
+        }
+        return noContent();
+    }
+
+    private requestReview(request: FakeBackendRequest, id: string, collection: "metadata" | "files", hash: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        const item = this.findItem(locRequest, collection, hash);
+        if(item.status !== "DRAFT") {
+            throw new FakeBackendError(400, `Unexpected item status ${ item.status }`);
+        }
+        item.status = "REVIEW_PENDING";
+        return noContent();
+    }
+
+    private review(request: FakeBackendRequest, id: string, collection: "metadata" | "files", hash: string): FakeBackendResponse {
+        const locRequest = this.findOwnedRequest(request, id);
+        const item = this.findItem(locRequest, collection, hash);
+        if(item.status !== "REVIEW_PENDING") {
+            throw new FakeBackendError(400, `Unexpected item status ${ item.status }`);
+        }
+        const { decision, rejectReason } = request.data as { decision: "ACCEPT" | "REJECT", rejectReason?: string };
+        item.status = decision === "ACCEPT" ? "REVIEW_ACCEPTED" : "REVIEW_REJECTED";
+        item.rejectReason = rejectReason;
+        item.reviewedOn = now();
+        return noContent();
+    }
+
+    private confirm(request: FakeBackendRequest, id: string, collection: "metadata" | "files", hash: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        const item = this.findItem(locRequest, collection, hash);
+        if(item.status !== "REVIEW_ACCEPTED") {
+            throw new FakeBackendError(400, `Unexpected item status ${ item.status }`);
+        }
+        item.status = item.submitter.address === locRequest.ownerAddress ? "ACKNOWLEDGED" : "PUBLISHED";
+        item.addedOn = now();
+        return noContent();
+    }
+
+    private confirmAcknowledged(request: FakeBackendRequest, id: string, collection: "metadata" | "files", hash: string): FakeBackendResponse {
+        const locRequest = this.findOwnedRequest(request, id);
+        const item = this.findItem(locRequest, collection, hash);
+        if(item.status !== "PUBLISHED") {
+            throw new FakeBackendError(400, `Unexpected item status ${ item.status }`);
+        }
+        item.status = "ACKNOWLEDGED";
+        return noContent();
+    }
+
+    private addLink(request: FakeBackendRequest, id: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        const { target, nature } = request.data as { target: string, nature: string };
+        if(locRequest.links.find(link => link.target === target)) {
+            throw new FakeBackendError(400, "Duplicate link");
+        }
+        const link: Partial<LocLink> = { target, nature };
+        locRequest.links.push(link as LocLink);
+        return noContent();
+    }
+
+    private deleteLink(request: FakeBackendRequest, id: string, target: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        locRequest.links = locRequest.links.filter(link => link.target !== target || link.addedOn);
+        return noContent();
+    }
+
+    private confirmLink(request: FakeBackendRequest, id: string, target: string): FakeBackendResponse {
+        const { locRequest } = this.findAuthorizedRequest(request, id);
+        const link = locRequest.links.find(link => link.target === target);
+        if(!link) {
+            throw new FakeBackendError(404, "Link not found");
+        }
+        link.addedOn = now();
+        return noContent();
+    }
+
+    /**
+     * Tells if given endpoint is served by this backend.
+     */
+    serves(endpoint?: string): boolean {
+        return endpoint === this.directoryEndpoint
+            || this.legalOfficers.find(legalOfficer => legalOfficer.node === endpoint) !== undefined;
+    }
+}
+
+class FakeBackendError extends Error {
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+
+    readonly status: number;
+}
+
+function ok(data: unknown): FakeBackendResponse {
+    return { status: 200, data };
+}
+
+function noContent(): FakeBackendResponse {
+    return { status: 204 };
+}
+
+function now(): string {
+    return toIsoString(DateTime.now());
+}
+
+function copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+function isLegalOfficer(account: SupportedAccountId, legalOfficerAddress: string): boolean {
+    return account.type === "Polkadot" && account.address === legalOfficerAddress;
+}
+
+function expectStatus(locRequest: LocRequest, status: LocRequest["status"]) {
+    if(locRequest.status !== status) {
+        throw new FakeBackendError(400, `Unexpected status ${ locRequest.status }`);
+    }
+}
+
+async function sizeOf(data: unknown): Promise<number> {
+    if(data instanceof Uint8Array) {
+        return data.length;
+    } else if(typeof data === "string") {
+        return Buffer.byteLength(data);
+    } else if(data && typeof (data as Blob).arrayBuffer === "function") {
+        return (await (data as Blob).arrayBuffer()).byteLength;
+    } else if(data && Symbol.asyncIterator in (data as object)) {
+        let size = 0;
+        for await (const chunk of data as AsyncIterable<Uint8Array | string>) {
+            size += typeof chunk === "string" ? Buffer.byteLength(chunk) : chunk.length;
+        }
+        return size;
+    } else {
+        return 0;
+    }
+}
+
+/**
+ * A FormDataLike keeping appended values in memory so that they can be read by the fake backend.
+ */
+export class FakeFormData implements FormDataLike {
+
+    private readonly values = new Map<string, { value: unknown, fileName?: string }>();
+
+    append(name: string, value: unknown, fileName?: string): void {
+        this.values.set(name, { value, fileName });
+    }
+
+    get(name: string): unknown {
+        return this.values.get(name)?.value;
+    }
+
+    getFileName(name: string): string | undefined {
+        return this.values.get(name)?.fileName;
+    }
+}
+
+/**
+ * Builds Axios instances sending all requests to a fake backend.
+ */
+export class FakeAxiosFactory extends AxiosFactory {
+
+    constructor(backend: FakeBackend) {
+        super();
+        this.backend = backend;
+    }
+
+    private readonly backend: FakeBackend;
+
+    override buildAxiosInstance(endpoint?: string, token?: string): AxiosInstance {
+        const instance = super.buildAxiosInstance(endpoint, token);
+        instance.defaults.transformRequest = [ data => data ];
+        instance.defaults.transformResponse = [ data => data ];
+        instance.defaults.adapter = config => this.adapt(config, endpoint);
+        return instance;
+    }
+
+    private async adapt(config: AxiosRequestConfig, endpoint?: string): Promise<AxiosResponse> {
+        const authorization = config.headers?.Authorization;
+        const token = typeof authorization === "string" ? authorization.replace("Bearer ", "") : undefined;
+        if(!this.backend.serves(endpoint)) {
+            throw axiosError(`Unknown endpoint ${ endpoint }`, config);
+        }
+        const response = await this.backend.handle({
+            method: (config.method || "get").toLowerCase(),
+            endpoint: endpoint || "",
+            path: config.url || "",
+            data: config.data,
+            caller: this.backend.authenticatedAccount(token),
+        });
+        const axiosResponse: AxiosResponse = {
+            data: response.data,
+            status: response.status,
+            statusText: String(response.status),
+            headers: {},
+            config,
+        };
+        if(response.status >= 200 && response.status < 300) {
+            return axiosResponse;
+        } else {
+            throw axiosError(`Request failed with status code ${ response.status }`, config, axiosResponse);
+        }
+    }
+}
+
+function axiosError(message: string, config: AxiosRequestConfig, response?: AxiosResponse): Error {
+    return Object.assign(new Error(message), {
+        config,
+        response,
+        isAxiosError: true,
+    });
+}
@@ -0,0 +1,99 @@
+import { ValidAccountId } from "@logion/node-api";
+import { FakeLogionNode } from "@logion/node-api/testing";
+
+import { AuthenticationClient } from "./AuthenticationClient.js";
+import { ComponentFactory } from "./ComponentFactory.js";
+import { DirectoryClient } from "./DirectoryClient.js";
+import { FakeAxiosFactory, FakeBackend, FakeBackendLegalOfficer, FakeFormData } from "./FakeBackend.js";
+import { LogionClient } from "./LogionClient.js";
+import { NetworkState } from "./NetworkState.js";
+import { LogionClientConfig } from "./SharedClient.js";
+import { BaseSigner, nonceOptions, SignAndSendFunction, SignAndSendStrategy, SignParameters, TypedSignature } from "./Signer.js";
+
+export interface FakeNetworkParameters {
+    legalOfficers: FakeBackendLegalOfficer[];
+    /**
+     * Initial free balances, indexed by SS58 address.
+     */
+    balances?: Record<string, bigint>;
+    directoryEndpoint?: string;
+}
+
+const DEFAULT_DIRECTORY_ENDPOINT = "https://directory.fake.logion.network";
+
+/**
+ * A fake logion network (node, directory and legal officer nodes) running in-process.
+ * Clients created with it are fully functional for the flows supported by FakeLogionNode and FakeBackend,
+ * without any network access.
+ */
+export class FakeLogionNetwork {
+
+    constructor(parameters: FakeNetworkParameters) {
+        this.node = new FakeLogionNode({
+            legalOfficers: parameters.legalOfficers.map(legalOfficer => ({
+                address: legalOfficer.address,
+                baseUrl: legalOfficer.node,
+            })),
+            balances: parameters.balances,
+        });
+        const directoryEndpoint = parameters.directoryEndpoint || DEFAULT_DIRECTORY_ENDPOINT;
+        this.backend = new FakeBackend({
+            directoryEndpoint,
+            legalOfficers: parameters.legalOfficers,
+        });
+        this.componentFactory = buildFakeComponentFactory(this.node, this.backend);
+        this.config = {
+            directoryEndpoint,
+            rpcEndpoints: [ "wss://rpc.fake.logion.network" ],
+        };
+    }
+
+    readonly node: FakeLogionNode;
+
+    readonly backend: FakeBackend;
+
+    readonly componentFactory: ComponentFactory;
+
+    readonly config: LogionClientConfig;
+
+    async createClient(): Promise<LogionClient> {
+        return LogionClient.create({
+            ...this.config,
+            __componentFactory: this.componentFactory,
+        } as LogionClientConfig);
+    }
+}
+
+export function buildFakeComponentFactory(node: FakeLogionNode, backend: FakeBackend): ComponentFactory {
+    const axiosFactory = new FakeAxiosFactory(backend);
+    return {
+        buildAxiosFactory: () => axiosFactory,
+        buildDirectoryClient: (api, directoryEndpoint, axiosFactory, token) => new DirectoryClient(api, directoryEndpoint, axiosFactory, token),
+        buildAuthenticationClient: (api, directoryEndpoint, legalOfficers, axiosFactory) => new AuthenticationClient(api, directoryEndpoint, legalOfficers, axiosFactory),
+        buildNetworkState: (nodesUp, nodesDown, options) => new NetworkState(nodesUp, nodesDown, options),
+        buildNodeApi: () => Promise.resolve(node.buildApiClass()),
+        buildFormData: () => new FakeFormData(),
+    };
+}
+
+/**
+ * A signer for the fake network. Signatures are not checked by FakeLogionNode and FakeBackend,
+ * it is thus able to sign on behalf of any account.
+ */
+export class FakeSigner extends BaseSigner {
+
+    constructor(signAndSendStrategy?: SignAndSendStrategy) {
+        super(signAndSendStrategy);
+    }
+
+    async signToHex(signerId: ValidAccountId): Promise<TypedSignature> {
+        return {
+            signature: `0x${ Buffer.from(signerId.address).toString("hex") }`,
+            type: signerId.type === "Ethereum" ? "ETHEREUM" : "POLKADOT",
+        };
+    }
+
+    async buildSignAndSendFunction(parameters: SignParameters): Promise<SignAndSendFunction> {
+        return statusCallback => parameters.submittable.signAndSend(parameters.signerId, nonceOptions(parameters), statusCallback);
+    }
+}
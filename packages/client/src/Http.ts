@@ -76,23 +76,24 @@ export class MultiSourceHttpClient<E extends Endpoint> {
     }
 }
 
+/**
+ * Builds the initial state of a multi-source client, nodes currently unavailable according to the network state are
+ * marked as down so that requests are not routed to them.
+ */
 export function initMultiSourceHttpClientState(networkState: NetworkState<LegalOfficerEndpoint>, legalOfficers?: LegalOfficer[]): MultiSourceHttpClientState<LegalOfficerEndpoint> {
-    let initialState: MultiSourceHttpClientState<LegalOfficerEndpoint>;
+    let endpoints: LegalOfficerEndpoint[];
     if(legalOfficers !== undefined) {
-        initialState = {
-            nodesUp: legalOfficers.map(legalOfficer => ({
-                url: legalOfficer.node,
-                legalOfficer: legalOfficer.address
-            })),
-            nodesDown: [],
-        };
+        endpoints = legalOfficers.map(legalOfficer => ({
+            url: legalOfficer.node,
+            legalOfficer: legalOfficer.address
+        }));
     } else {
-        initialState = {
-            nodesUp: networkState.nodesUp,
-            nodesDown: networkState.nodesDown,
-        };
+        endpoints = networkState.nodesUp.concat(networkState.nodesDown);
     }
-    return initialState;
+    return {
+        nodesUp: endpoints.filter(endpoint => networkState.isAvailable(endpoint)),
+        nodesDown: endpoints.filter(endpoint => !networkState.isAvailable(endpoint)),
+    };
 }
 
 export class AnySourceHttpClient<E extends Endpoint, R> {
@@ -0,0 +1,215 @@
+import { UUID } from "@logion/node-api";
+import { DateTime } from "luxon";
+
+import { LogionClient } from "./LogionClient.js";
+import { LoRecoveryClient, ProtectionRequest, RecoveryClient } from "./RecoveryClient.js";
+import { SignCallback, Signer } from "./Signer.js";
+import { State } from "./State.js";
+import { LegalOfficer } from "./Types.js";
+
+/**
+ * The protection and recovery requests submitted by users to the current legal officer.
+ */
+export class LegalOfficerRecoveryState extends State {
+
+    static async create(params: {
+        client: LogionClient,
+        recoveryClient: RecoveryClient,
+        loRecoveryClient: LoRecoveryClient,
+        legalOfficer: LegalOfficer,
+    }): Promise<LegalOfficerRecoveryState> {
+        const result = await params.recoveryClient.fetchAllOfLegalOfficer(params.legalOfficer);
+        return new LegalOfficerRecoveryState({
+            ...params,
+            pendingRequests: result.pendingProtectionRequests,
+            acceptedRequests: result.acceptedProtectionRequests,
+            rejectedRequests: result.rejectedProtectionRequests,
+        });
+    }
+
+    constructor(params: {
+        client: LogionClient,
+        recoveryClient: RecoveryClient,
+        loRecoveryClient: LoRecoveryClient,
+        legalOfficer: LegalOfficer,
+        pendingRequests: ProtectionRequest[],
+        acceptedRequests: ProtectionRequest[],
+        rejectedRequests: ProtectionRequest[],
+    }) {
+        super();
+        this.client = params.client;
+        this.recoveryClient = params.recoveryClient;
+        this.loRecoveryClient = params.loRecoveryClient;
+        this.legalOfficer = params.legalOfficer;
+        this.pendingRequests = params.pendingRequests;
+        this.acceptedRequests = params.acceptedRequests;
+        this.rejectedRequests = params.rejectedRequests;
+    }
+
+    readonly client: LogionClient;
+
+    private readonly recoveryClient: RecoveryClient;
+
+    private readonly loRecoveryClient: LoRecoveryClient;
+
+    readonly legalOfficer: LegalOfficer;
+
+    private readonly pendingRequests: ProtectionRequest[];
+
+    private readonly acceptedRequests: ProtectionRequest[];
+
+    private readonly rejectedRequests: ProtectionRequest[];
+
+    get pendingProtectionRequests(): ProtectionRequest[] {
+        this.ensureCurrent();
+        return this.pendingRequests.filter(request => !request.isRecovery);
+    }
+
+    get pendingRecoveryRequests(): ProtectionRequest[] {
+        this.ensureCurrent();
+        return this.pendingRequests.filter(request => request.isRecovery);
+    }
+
+    get acceptedProtectionRequests(): ProtectionRequest[] {
+        this.ensureCurrent();
+        return this.acceptedRequests;
+    }
+
+    get rejectedProtectionRequests(): ProtectionRequest[] {
+        this.ensureCurrent();
+        return this.rejectedRequests;
+    }
+
+    /**
+     * Accepts a protection request.
+     *
+     * @param params.identityLocId the closed identity LOC of the requester.
+     */
+    async acceptProtectionRequest(params: {
+        request: ProtectionRequest,
+        identityLocId: UUID,
+    }): Promise<LegalOfficerRecoveryState> {
+        return this.discardOnSuccess(() => this._acceptProtectionRequest(params));
+    }
+
+    private async _acceptProtectionRequest(params: {
+        request: ProtectionRequest,
+        identityLocId: UUID,
+    }): Promise<LegalOfficerRecoveryState> {
+        const { request, identityLocId } = params;
+        this.ensurePending(request);
+        if(request.isRecovery) {
+            throw new Error("Recovery requests must be accepted with acceptRecoveryRequest");
+        }
+        await this.loRecoveryClient.accept({ id: request.id, identityLocId });
+        return this.withAccepted(request, identityLocId);
+    }
+
+    private ensurePending(request: ProtectionRequest) {
+        if(!this.pendingRequests.find(pendingRequest => pendingRequest.id === request.id)) {
+            throw new Error("Request is not pending");
+        }
+    }
+
+    private withAccepted(request: ProtectionRequest, identityLocId: UUID): LegalOfficerRecoveryState {
+        const acceptedRequest: ProtectionRequest = {
+            ...request,
+            status: "ACCEPTED",
+            decision: {
+                decisionOn: DateTime.now().toISO(),
+                rejectReason: null,
+                locId: identityLocId.toString(),
+            },
+        };
+        return new LegalOfficerRecoveryState({
+            ...this.currentParams(),
+            pendingRequests: this.pendingRequests.filter(pendingRequest => pendingRequest.id !== request.id),
+            acceptedRequests: this.acceptedRequests.concat([ acceptedRequest ]),
+        });
+    }
+
+    private currentParams() {
+        return {
+            client: this.client,
+            recoveryClient: this.recoveryClient,
+            loRecoveryClient: this.loRecoveryClient,
+            legalOfficer: this.legalOfficer,
+            pendingRequests: this.pendingRequests,
+            acceptedRequests: this.acceptedRequests,
+            rejectedRequests: this.rejectedRequests,
+        };
+    }
+
+    /**
+     * Vouches for the recovery of the lost account by the requester (recovery.vouchRecovery),
+     * then accepts the request.
+     *
+     * @param params.identityLocId the closed identity LOC of the requester.
+     */
+    async acceptRecoveryRequest(params: {
+        request: ProtectionRequest,
+        identityLocId: UUID,
+        signer: Signer,
+        callback?: SignCallback,
+    }): Promise<LegalOfficerRecoveryState> {
+        return this.discardOnSuccess(() => this._acceptRecoveryRequest(params));
+    }
+
+    private async _acceptRecoveryRequest(params: {
+        request: ProtectionRequest,
+        identityLocId: UUID,
+        signer: Signer,
+        callback?: SignCallback,
+    }): Promise<LegalOfficerRecoveryState> {
+        const { request, identityLocId, signer, callback } = params;
+        this.ensurePending(request);
+        if(!request.isRecovery || !request.addressToRecover) {
+            throw new Error("Not a recovery request");
+        }
+        await signer.signAndSend({
+            signerId: this.legalOfficer.address,
+            submittable: this.client.logionApi.polkadot.tx.recovery.vouchRecovery(request.addressToRecover, request.requesterAddress),
+            callback,
+        });
+        await this.loRecoveryClient.accept({ id: request.id, identityLocId });
+        return this.withAccepted(request, identityLocId);
+    }
+
+    async rejectRequest(params: {
+        request: ProtectionRequest,
+        reason: string,
+    }): Promise<LegalOfficerRecoveryState> {
+        return this.discardOnSuccess(() => this._rejectRequest(params));
+    }
+
+    private async _rejectRequest(params: {
+        request: ProtectionRequest,
+        reason: string,
+    }): Promise<LegalOfficerRecoveryState> {
+        const { request, reason } = params;
+        this.ensurePending(request);
+        await this.loRecoveryClient.reject({ id: request.id, reason });
+        const rejectedRequest: ProtectionRequest = {
+            ...request,
+            status: "REJECTED",
+            decision: {
+                decisionOn: DateTime.now().toISO(),
+                rejectReason: reason,
+            },
+        };
+        return new LegalOfficerRecoveryState({
+            ...this.currentParams(),
+            pendingRequests: this.pendingRequests.filter(pendingRequest => pendingRequest.id !== request.id),
+            rejectedRequests: this.rejectedRequests.concat([ rejectedRequest ]),
+        });
+    }
+
+    async refresh(): Promise<LegalOfficerRecoveryState> {
+        return this.discardOnSuccess(() => LegalOfficerRecoveryState.create({
+            client: this.client,
+            recoveryClient: this.recoveryClient,
+            loRecoveryClient: this.loRecoveryClient,
+            legalOfficer: this.legalOfficer,
+        }));
+    }
+}
@@ -0,0 +1,186 @@
+import { Currency } from "@logion/node-api";
+import { DateTime } from "luxon";
+
+import { LogionClient } from "./LogionClient.js";
+import { SignCallback, Signer } from "./Signer.js";
+import { State } from "./State.js";
+import { LegalOfficer } from "./Types.js";
+import { requestSort, VaultClient, VaultTransferRequest } from "./VaultClient.js";
+
+/**
+ * The vault transfer requests submitted by protected users to the current legal officer.
+ */
+export class LegalOfficerVaultState extends State {
+
+    static async create(params: {
+        client: LogionClient,
+        vaultClient: VaultClient,
+        legalOfficer: LegalOfficer,
+    }): Promise<LegalOfficerVaultState> {
+        const { client, vaultClient, legalOfficer } = params;
+        const result = await vaultClient.fetchAllOfLegalOfficer(legalOfficer);
+        return new LegalOfficerVaultState({
+            client,
+            vaultClient,
+            legalOfficer,
+            pendingVaultTransferRequests: result.pendingVaultTransferRequests,
+            acceptedVaultTransferRequests: result.acceptedVaultTransferRequests,
+            rejectedVaultTransferRequests: result.rejectedVaultTransferRequests,
+        });
+    }
+
+    constructor(params: {
+        client: LogionClient,
+        vaultClient: VaultClient,
+        legalOfficer: LegalOfficer,
+        pendingVaultTransferRequests: VaultTransferRequest[],
+        acceptedVaultTransferRequests: VaultTransferRequest[],
+        rejectedVaultTransferRequests: VaultTransferRequest[],
+    }) {
+        super();
+        this.client = params.client;
+        this.vaultClient = params.vaultClient;
+        this.legalOfficer = params.legalOfficer;
+        this._pendingVaultTransferRequests = params.pendingVaultTransferRequests;
+        this._acceptedVaultTransferRequests = params.acceptedVaultTransferRequests;
+        this._rejectedVaultTransferRequests = params.rejectedVaultTransferRequests;
+    }
+
+    readonly client: LogionClient;
+
+    private readonly vaultClient: VaultClient;
+
+    readonly legalOfficer: LegalOfficer;
+
+    private readonly _pendingVaultTransferRequests: VaultTransferRequest[];
+
+    private readonly _acceptedVaultTransferRequests: VaultTransferRequest[];
+
+    private readonly _rejectedVaultTransferRequests: VaultTransferRequest[];
+
+    get pendingVaultTransferRequests(): VaultTransferRequest[] {
+        this.ensureCurrent();
+        return this._pendingVaultTransferRequests;
+    }
+
+    get acceptedVaultTransferRequests(): VaultTransferRequest[] {
+        this.ensureCurrent();
+        return this._acceptedVaultTransferRequests;
+    }
+
+    get rejectedVaultTransferRequests(): VaultTransferRequest[] {
+        this.ensureCurrent();
+        return this._rejectedVaultTransferRequests;
+    }
+
+    /**
+     * Approves the transfer on-chain (i.e. executes the vault's multisig) then accepts the request.
+     */
+    async acceptVaultTransferRequest(params: {
+        request: VaultTransferRequest,
+        signer: Signer,
+        callback?: SignCallback,
+    }): Promise<LegalOfficerVaultState> {
+        return this.discardOnSuccess(() => this._acceptVaultTransferRequest(params));
+    }
+
+    private async _acceptVaultTransferRequest(params: {
+        request: VaultTransferRequest,
+        signer: Signer,
+        callback?: SignCallback,
+    }): Promise<LegalOfficerVaultState> {
+        const { request, signer, callback } = params;
+        this.ensurePending(request);
+
+        const api = this.client.logionApi;
+        const recoveryConfig = await api.queries.getRecoveryConfig(request.origin);
+        if(!recoveryConfig) {
+            throw new Error(`Account ${ request.origin } is not protected`);
+        }
+        const signerId = this.legalOfficer.address;
+        const vault = api.vault(request.origin, recoveryConfig.legalOfficers);
+        const submittable = await vault.tx.approveVaultTransfer({
+            signerId,
+            destination: request.destination,
+            amount: Currency.toPrefixedNumberAmount(BigInt(request.amount)),
+            block: BigInt(request.block),
+            index: request.index,
+        });
+        await signer.signAndSend({
+            signerId,
+            submittable,
+            callback,
+        });
+
+        await this.vaultClient.acceptVaultTransferRequest(this.legalOfficer, request);
+
+        const acceptedRequest: VaultTransferRequest = {
+            ...request,
+            status: "ACCEPTED",
+            decision: {
+                decisionOn: DateTime.now().toISO(),
+            },
+        };
+        return new LegalOfficerVaultState({
+            ...this.currentParams(),
+            pendingVaultTransferRequests: this._pendingVaultTransferRequests.filter(pendingRequest => pendingRequest.id !== request.id),
+            acceptedVaultTransferRequests: this._acceptedVaultTransferRequests.concat([ acceptedRequest ]).sort(requestSort),
+        });
+    }
+
+    private ensurePending(request: VaultTransferRequest) {
+        if(!this._pendingVaultTransferRequests.find(pendingRequest => pendingRequest.id === request.id)) {
+            throw new Error("Request is not pending");
+        }
+    }
+
+    private currentParams() {
+        return {
+            client: this.client,
+            vaultClient: this.vaultClient,
+            legalOfficer: this.legalOfficer,
+            pendingVaultTransferRequests: this._pendingVaultTransferRequests,
+            acceptedVaultTransferRequests: this._acceptedVaultTransferRequests,
+            rejectedVaultTransferRequests: this._rejectedVaultTransferRequests,
+        };
+    }
+
+    async rejectVaultTransferRequest(params: {
+        request: VaultTransferRequest,
+        rejectReason: string,
+    }): Promise<LegalOfficerVaultState> {
+        return this.discardOnSuccess(() => this._rejectVaultTransferRequest(params));
+    }
+
+    private async _rejectVaultTransferRequest(params: {
+        request: VaultTransferRequest,
+        rejectReason: string,
+    }): Promise<LegalOfficerVaultState> {
+        const { request, rejectReason } = params;
+        this.ensurePending(request);
+
+        await this.vaultClient.rejectVaultTransferRequest(this.legalOfficer, request, rejectReason);
+
+        const rejectedRequest: VaultTransferRequest = {
+            ...request,
+            status: "REJECTED",
+            decision: {
+                decisionOn: DateTime.now().toISO(),
+                rejectReason,
+            },
+        };
+        return new LegalOfficerVaultState({
+            ...this.currentParams(),
+            pendingVaultTransferRequests: this._pendingVaultTransferRequests.filter(pendingRequest => pendingRequest.id !== request.id),
+            rejectedVaultTransferRequests: this._rejectedVaultTransferRequests.concat([ rejectedRequest ]).sort(requestSort),
+        });
+    }
+
+    async refresh(): Promise<LegalOfficerVaultState> {
+        return this.discardOnSuccess(() => LegalOfficerVaultState.create({
+            client: this.client,
+            vaultClient: this.vaultClient,
+            legalOfficer: this.legalOfficer,
+        }));
+    }
+}
@@ -22,6 +22,7 @@ import {
     AddFileParams,
     DeleteFileParams,
     AddCollectionItemParams,
+    AddCollectionItemsParams,
     LocRequestVoidInfo,
     LocRequestStatus,
     Published,
@@ -46,8 +47,10 @@ import {
     UploadableItemFile,
     ItemStatus,
     AddedOn,
+    ChainLocClient,
+    OFFCHAIN_DATA_UNAVAILABLE,
 } from "./LocClient.js";
-import { SharedState } from "./SharedClient.js";
+import { getLegalOfficer, SharedState } from "./SharedClient.js";
 import { LegalOfficer, UserIdentity, PostalAddress, LegalOfficerClass } from "./Types.js";
 import { CollectionItem as CollectionItemClass } from "./CollectionItem.js";
 import { State } from "./State.js";
@@ -55,7 +58,19 @@ import { LogionClient } from "./LogionClient.js";
 import { TokensRecord as TokensRecordClass } from "./TokensRecord.js";
 import { downloadFile, TypedFile } from "./Http.js";
 import { requireDefined } from "./assertions.js";
+import { buildLocGraph, LocGraph } from "./LocGraph.js";
+import { ReplacementChain, resolveReplacementChain } from "./ReplacementChain.js";
+import { LocQueryPage, LocQueryParams, queryLocs, toFetchAllLocsParams } from "./LocQuery.js";
+import {
+    checkLocTemplateCompleteness,
+    LocTemplate,
+    LocTemplateCompleteness,
+    newIncompleteLocError,
+} from "./LocTemplate.js";
 import { Fees } from "./Fees.js";
+import { buildVerificationBundle, VerificationBundle } from "./VerificationBundle.js";
+import { CollectionItemProgress } from "./CollectionItemsJournal.js";
+import { CollectionManifestFormat, CollectionManifestReport, parseCollectionManifest } from "./CollectionManifest.js";
 
 export interface LocData extends LocVerifiedIssuers {
     id: UUID
@@ -118,23 +133,53 @@ export interface MergedMetadataItem extends Partial<AddedOn>, Published {
     submitter: ValidAccountId;
 }
 
+export interface LocSearchResult extends LocQueryPage<LocRequestState> {
+    /**
+     * The state replacing the searched state.
+     */
+    locsState: LocsState;
+}
+
+export interface ReadOnlyLocsParams {
+    /**
+     * The requester whose LOCs are read. Defaults to current address.
+     */
+    requesterAddress?: ValidAccountId;
+    /**
+     * Logion Identity LOCs whose requested LOCs are also read.
+     */
+    requesterLocIds?: UUID[];
+}
+
 export class LocsState extends State {
     private readonly sharedState: SharedState;
     private _locs: Record<string, LocRequestState>;
     private _verifiedIssuerLocs: Record<string, LocRequestState>;
     private readonly _client: LogionClient;
+    private readonly readOnlyParams?: ReadOnlyLocsParams;
 
     constructor(
         sharedState: SharedState,
         locs: Record<string, LocRequestState>,
         client: LogionClient,
-        verifiedIssuerLocs: Record<string, LocRequestState>
+        verifiedIssuerLocs: Record<string, LocRequestState>,
+        readOnlyParams?: ReadOnlyLocsParams,
     ) {
         super();
         this.sharedState = sharedState;
         this._locs = locs;
         this._verifiedIssuerLocs = verifiedIssuerLocs;
         this._client = client;
+        this.readOnlyParams = readOnlyParams;
+    }
+
+    /**
+     * Tells if this state was built from chain storage only (see {@link LocsState.getReadOnlyLocsState}).
+     * In this case, off-chain only text fields are set to {@link OFFCHAIN_DATA_UNAVAILABLE}, off-chain only dates
+     * to {@link OFFCHAIN_DATE_UNAVAILABLE} and only open, closed and void LOCs are listed.
+     */
+    get readOnly(): boolean {
+        return this.readOnlyParams !== undefined;
     }
 
     get draftRequests(): Record<LocType, DraftRequest[]> {
@@ -212,7 +257,7 @@ export class LocsState extends State {
     }
 
     private _refreshWith(loc: LocRequestState): LocsState {
-        const locsState = new LocsState(this.sharedState, {}, this._client, {});
+        const locsState = new LocsState(this.sharedState, {}, this._client, {}, this.readOnlyParams);
         const refreshedLocs = this.refreshStates(locsState, this._locs);
         const refreshedVerifiedIssuerLocs = this.refreshStates(locsState, this._verifiedIssuerLocs);
         if(this.isVerifiedIssuerLoc(loc)) {
@@ -247,13 +292,21 @@ export class LocsState extends State {
         delete refreshedLocs[locId.toString()];
         const refreshedVerifiedIssuerLocs: Record<string, LocRequestState> = { ...this._verifiedIssuerLocs };
         delete refreshedVerifiedIssuerLocs[locId.toString()];
-        return new LocsState(this.sharedState, refreshedLocs, this._client, refreshedVerifiedIssuerLocs);
+        return new LocsState(this.sharedState, refreshedLocs, this._client, refreshedVerifiedIssuerLocs, this.readOnlyParams);
     }
 
     static async getInitialLocsState(sharedState: SharedState, client: LogionClient, params?: FetchAllLocsParams): Promise<LocsState> {
         return new LocsState(sharedState, {}, client, {}).refresh(params);
     }
 
+    /**
+     * Builds a LOCs state from chain storage only, legal officer nodes are not called and
+     * authentication is not required. Resulting state cannot be used to request new LOCs.
+     */
+    static async getReadOnlyLocsState(sharedState: SharedState, client: LogionClient, params?: ReadOnlyLocsParams): Promise<LocsState> {
+        return new LocsState(sharedState, {}, client, {}, params || {}).refresh();
+    }
+
     findById(locId: UUID): LocRequestState {
         const loc = this.findByIdOrUndefined(locId);
         if(!loc) {
@@ -275,15 +328,41 @@ export class LocsState extends State {
         }
     }
 
+    /**
+     * Filters, sorts and paginates the LOCs of this state, verified issuer LOCs excluded. No legal officer node is called.
+     */
+    query(params?: LocQueryParams): LocQueryPage<LocRequestState> {
+        this.ensureCurrent();
+        return queryLocs(Object.values(this._locs), params);
+    }
+
+    /**
+     * Fetches the LOCs matching the filters supported by legal officer nodes (see {@link LocQueryFilter}),
+     * then filters, sorts and paginates them client-side. Current state is discarded, resulting state contains
+     * all fetched LOCs and not only the LOCs of the page.
+     */
+    async search(params?: LocQueryParams): Promise<LocSearchResult> {
+        const fetchParams = toFetchAllLocsParams({
+            filter: params?.filter || {},
+            legalOfficers: this.sharedState.legalOfficers,
+            currentAddress: this.sharedState.currentAddress?.address,
+        });
+        const locsState = await this.refresh(fetchParams);
+        return {
+            ...locsState.query(params),
+            locsState,
+        };
+    }
+
     async requestTransactionLoc(params: CreateLocRequestParams): Promise<DraftRequest | PendingRequest> {
-        return this.requestLoc({
+        return this.requestLocOfType({
             ...params,
             locType: "Transaction"
         });
     }
 
     async requestCollectionLoc(params: CreateLocRequestParams): Promise<DraftRequest | PendingRequest> {
-        return this.requestLoc({
+        return this.requestLocOfType({
             ...params,
             locType: "Collection"
         });
@@ -300,13 +379,28 @@ export class LocsState extends State {
         if(this._client.currentAddress?.type === "Ethereum" && !params.sponsorshipId) {
             throw new Error("Identity LOC requests with an Ethereum address must be sponsored");
         }
-        return this.requestLoc({
+        return this.requestLocOfType({
             ...params,
             locType: "Identity"
         });
     }
 
-    async requestLoc(params: CreateLocRequestParams & { locType: LocType }): Promise<DraftRequest | PendingRequest> {
+    /**
+     * A template passed to this method is not registered with the client: it is known by the returned state and the
+     * states it leads to only, register it with {@link LogionClientConfig.locTemplates} for other states to know it.
+     */
+    async requestLoc(params: (CreateLocRequestParams & { locType: LocType }) | CreateLocRequestFromTemplateParams): Promise<DraftRequest | PendingRequest> {
+        if("locType" in params) {
+            return this.requestLocOfType(params);
+        } else {
+            return this.requestLocOfType(this.instantiateTemplate(params), params.template);
+        }
+    }
+
+    private async requestLocOfType(params: CreateLocRequestParams & { locType: LocType }, locTemplate?: LocTemplate): Promise<DraftRequest | PendingRequest> {
+        if(this.readOnly) {
+            throw new Error("Cannot request a LOC with a read-only LOCs state");
+        }
         const { legalOfficer, locType, description, userIdentity, userPostalAddress, company, draft, template, sponsorshipId } = params;
         const client = LocMultiClient.newLocMultiClient(this.sharedState).newLocClient(legalOfficer);
         const request = await client.createLocRequest({
@@ -320,7 +414,8 @@ export class LocsState extends State {
             template,
             sponsorshipId: sponsorshipId?.toString(),
         });
-        const locSharedState: LocSharedState = { ...this.sharedState, legalOfficer, client, locsState: this };
+        const locTemplates = locTemplate ? this.sharedState.locTemplates.with(locTemplate) : this.sharedState.locTemplates;
+        const locSharedState: LocSharedState = { ...this.sharedState, legalOfficer, client, locsState: this, locTemplates };
         if(draft) {
             return new DraftRequest(locSharedState, request, undefined, EMPTY_LOC_ISSUERS).veryNew(); // Discards this state
         } else {
@@ -328,21 +423,49 @@ export class LocsState extends State {
         }
     }
 
+    private instantiateTemplate(params: CreateLocRequestFromTemplateParams): CreateLocRequestParams & { locType: LocType } {
+        const { template } = params;
+        if(params.draft === false) {
+            const completeness = checkLocTemplateCompleteness(template, { metadata: [], files: [], links: [] });
+            if(!completeness.complete) {
+                throw newIncompleteLocError(completeness);
+            }
+        }
+        let legalOfficer = params.legalOfficer;
+        if(!legalOfficer) {
+            const templateLegalOfficer = requireDefined(template.legalOfficer, () => new Error("Template has no legal officer, one must be provided"));
+            legalOfficer = getLegalOfficer(this.sharedState, templateLegalOfficer);
+        }
+        return {
+            ...params,
+            legalOfficer,
+            locType: template.locType,
+            description: params.description || template.description,
+            draft: params.draft !== undefined ? params.draft : true,
+            template: template.id,
+        };
+    }
+
     async refresh(params?: FetchAllLocsParams): Promise<LocsState> {
         const current = this.getCurrentStateOrThrow() as LocsState; // Ensure no state discarded error
         return current.discardOnSuccess(() => current._refresh(params));
     }
 
     private async _refresh(params?: FetchAllLocsParams): Promise<LocsState> {
+        if(this.readOnlyParams) {
+            return this._refreshFromChain(this.readOnlyParams);
+        }
         const locsState = new LocsState(this.sharedState, {}, this._client, {});
         const locMultiClient = LocMultiClient.newLocMultiClient(this.sharedState);
+        const newLocClient = (legalOfficer: LegalOfficerClass) => locMultiClient.newLocClient(legalOfficer);
 
         const locRequests = await locMultiClient.fetchAll(params);
+        await locMultiClient.invalidateCachedLocs(locRequests);
         const locIds = locRequests
             .filter(request => request.status === "OPEN" || request.status === "CLOSED")
             .map(request => new UUID(request.id));
         const locBatch = await locMultiClient.getLocBatch(locIds);
-        locsState._locs = await this.toStates(locMultiClient, locsState, locRequests, locBatch);
+        locsState._locs = await this.toStates(newLocClient, locsState, locRequests, locBatch);
 
         if(locsState.isVerifiedIssuer) {
             const legalOfficers = this.getVerifiedIssuerLegalOfficers(locsState);
@@ -351,14 +474,40 @@ export class LocsState extends State {
                 .filter(request => request.status === "OPEN" || request.status === "CLOSED")
                 .map(request => new UUID(request.id));
             const verifiedIssuerLocBatch = await locMultiClient.getLocBatch(verifiedIssuerLocIds);
-            locsState._verifiedIssuerLocs = await this.toStates(locMultiClient, locsState, verifiedIssuerRequests, verifiedIssuerLocBatch);
+            locsState._verifiedIssuerLocs = await this.toStates(newLocClient, locsState, verifiedIssuerRequests, verifiedIssuerLocBatch);
         }
 
         return locsState;
     }
 
+    private async _refreshFromChain(params: ReadOnlyLocsParams): Promise<LocsState> {
+        const locsState = new LocsState(this.sharedState, {}, this._client, {}, params);
+        const requesterAddress = requireDefined(params.requesterAddress || this.sharedState.currentAddress,
+            () => new Error("Requester address must be provided"));
+        const api = this.sharedState.nodeApi;
+
+        const locIds = await api.queries.getAccountLocs(requesterAddress);
+        for(const requesterLocId of params.requesterLocIds || []) {
+            locIds.push(...await api.queries.getIdentityLocLocs(requesterLocId));
+        }
+        const locBatch = await LocMultiClient.getLocBatch({ api, locIds, locCache: this.sharedState.locCache });
+        const legalOfficerCases = await locBatch.getLocs();
+        const locRequests = locIds.map(locId => ChainLocClient.toLocRequest(locId, legalOfficerCases[locId.toDecimalString()]));
+        const newLocClient = (legalOfficer: LegalOfficerClass) => new ChainLocClient({
+            axiosFactory: this.sharedState.axiosFactory,
+            currentAddress: requesterAddress,
+            nodeApi: api,
+            legalOfficer,
+            componentFactory: this.sharedState.componentFactory,
+            locCache: this.sharedState.locCache,
+        });
+        locsState._locs = await this.toStates(newLocClient, locsState, locRequests, locBatch);
+
+        return locsState;
+    }
+
     private async toStates(
-        locMultiClient: LocMultiClient,
+        newLocClient: (legalOfficer: LegalOfficerClass) => AuthenticatedLocClient,
         locsState: LocsState,
         locRequests: LocRequest[],
         locBatch: LocBatch,
@@ -366,7 +515,7 @@ export class LocsState extends State {
         const refreshedLocs: Record<string, LocRequestState> = {};
         for (const locRequest of locRequests) {
             try {
-                const state = await this.toState(locMultiClient, locsState, locRequest, locBatch);
+                const state = await this.toState(newLocClient, locsState, locRequest, locBatch);
                 refreshedLocs[state.locId.toString()] = state;
             } catch(e) {
                 console.warn(e);
@@ -376,14 +525,15 @@ export class LocsState extends State {
     }
 
     private async toState(
-        locMultiClient: LocMultiClient,
+        newLocClient: (legalOfficer: LegalOfficerClass) => AuthenticatedLocClient,
         locsState: LocsState,
         locRequest: LocRequest,
         locBatch: LocBatch,
     ): Promise<AnyLocState> {
-        const legalOfficer = this.sharedState.legalOfficers.find(legalOfficer => legalOfficer.address === locRequest.ownerAddress);
+        const legalOfficers = this.readOnly ? this.sharedState.allLegalOfficers : this.sharedState.legalOfficers;
+        const legalOfficer = legalOfficers.find(legalOfficer => legalOfficer.address === locRequest.ownerAddress);
         if (legalOfficer) {
-            const client = locMultiClient.newLocClient(legalOfficer);
+            const client = newLocClient(legalOfficer);
             const locSharedState: LocSharedState = {
                 ...this.sharedState,
                 legalOfficer,
@@ -480,7 +630,7 @@ export class LegalOfficerLocsStateCommands {
     private locsState: LocsState;
 
     async createLoc(params: OpenLocParams & BlockchainSubmissionParams): Promise<OpenLoc> {
-        const { locType, description, userIdentity, userPostalAddress, company, template, signer, callback } = params;
+        const { locType, description, userIdentity, userPostalAddress, company, template, signer, callback, dryRun } = params;
         const legalOfficer = this.sharedState.legalOfficers.find(legalOfficer => legalOfficer.address === this.sharedState.currentAddress?.address);
         if(!legalOfficer) {
             throw new Error("Current user is not a Legal Officer");
@@ -510,6 +660,7 @@ export class LegalOfficerLocsStateCommands {
                     requesterLocId: params.requesterLocId,
                     signer,
                     callback,
+                    dryRun,
                 });
             } else {
                 throw new Error();
@@ -519,6 +670,7 @@ export class LegalOfficerLocsStateCommands {
                 locId,
                 signer,
                 callback,
+                dryRun,
             });
         } else {
             throw Error("Collection LOCs are opened by Polkadot requesters");
@@ -556,6 +708,15 @@ export interface CreateLocRequestParams {
     sponsorshipId?: UUID;
 }
 
+export interface CreateLocRequestFromTemplateParams extends Partial<Omit<CreateLocRequestParams, "template">> {
+    /**
+     * Provides LOC type, description and, if defined, the legal officer. The template is registered with the client
+     * so that its completeness is checked on submission. A draft is created unless `draft` is false, which is
+     * only possible if the template has no required item.
+     */
+    template: LocTemplate;
+}
+
 export interface CreateSofRequestParams {
     itemId: Hash;
 }
@@ -693,6 +854,20 @@ export abstract class LocRequestState extends State {
         return LocRequestState.checkHash(this.data(), hash);
     }
 
+    /**
+     * @param params The depth limit, defaults to {@link DEFAULT_LOC_GRAPH_MAX_DEPTH}.
+     * @returns The graph of the LOCs related to this LOC, built from chain data.
+     */
+    async graph(params?: { maxDepth?: number }): Promise<LocGraph> {
+        this.ensureCurrent();
+        return buildLocGraph({
+            api: this.locSharedState.nodeApi,
+            roots: [ this.locId ],
+            maxDepth: params?.maxDepth,
+            locCache: this.locSharedState.locCache,
+        });
+    }
+
     static checkHash(loc: LocData, hash: Hash): CheckHashResult {
         const result: CheckHashResult = {};
 
@@ -805,8 +980,11 @@ export abstract class LocRequestState extends State {
     }
 
     private static validatedValue(data: string, hash: Hash): string {
+        if(data === OFFCHAIN_DATA_UNAVAILABLE) {
+            return data;
+        }
         const calculatedHash = Hash.of(data);
-        if (calculatedHash === hash) {
+        if (calculatedHash.equalTo(hash)) {
             return data;
         }
         return `Deleted data - related hash: ${ hash })`;
@@ -936,6 +1114,32 @@ export abstract class EditableRequest extends LocRequestState {
         return await this.refresh() as EditableRequest;
     }
 
+    /**
+     * @returns The template this request was created from, if registered with {@link LogionClientConfig.locTemplates}
+     * or if this state was obtained from the template's instantiation (see {@link LocsState.requestLoc}).
+     */
+    get locTemplate(): LocTemplate | undefined {
+        this.ensureCurrent();
+        return this.locSharedState.locTemplates.find(this.request.template);
+    }
+
+    /**
+     * @returns Missing required items, the request is always complete if its template is unknown (see {@link locTemplate}).
+     */
+    checkTemplateCompleteness(): LocTemplateCompleteness {
+        const template = this.locTemplate;
+        if(template) {
+            return checkLocTemplateCompleteness(template, this.data());
+        } else {
+            return {
+                complete: true,
+                missingMetadata: [],
+                missingFiles: [],
+                missingLinks: [],
+            };
+        }
+    }
+
     get legalOfficer(): LegalOfficerEditableRequestCommands {
         return new LegalOfficerEditableRequestCommands({
             locId: this.locId,
@@ -1000,7 +1204,14 @@ export class DraftRequest extends EditableRequest {
         return await super.refresh() as DraftRequest;
     }
 
+    /**
+     * @throws ValidationError if the request was created from a template and required items are missing.
+     */
     async submit(): Promise<PendingRequest> {
+        const completeness = this.checkTemplateCompleteness();
+        if(!completeness.complete) {
+            throw newIncompleteLocError(completeness);
+        }
         await this.locSharedState.client.submit(this.locId);
         return await super.refresh() as PendingRequest;
     }
@@ -1227,6 +1438,7 @@ export class OpenLoc extends EditableRequest {
             },
             signer: parameters.signer,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
         return await this.refresh() as OpenLoc;
     }
@@ -1246,6 +1458,7 @@ export class OpenLoc extends EditableRequest {
             },
             signer: parameters.signer,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
         return await this.refresh() as OpenLoc;
     }
@@ -1294,6 +1507,7 @@ implements LegalOfficerNonVoidedCommands, LegalOfficerLocWithSelectableIssuersCo
             },
             signer: parameters.signer,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
         return await this.request.refresh() as OpenLoc;
     }
@@ -1309,6 +1523,7 @@ implements LegalOfficerNonVoidedCommands, LegalOfficerLocWithSelectableIssuersCo
             hash: parameters.hash,
             signer: parameters.signer,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
         return await this.request.refresh() as OpenLoc;
     }
@@ -1324,6 +1539,7 @@ implements LegalOfficerNonVoidedCommands, LegalOfficerLocWithSelectableIssuersCo
             nameHash: parameters.nameHash,
             signer: parameters.signer,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
         return await this.request.refresh() as OpenLoc;
     }
@@ -1469,6 +1685,11 @@ export class ClosedLoc extends LocRequestState {
         return this._withLocs(locsState, ClosedLoc);
     }
 
+    exportVerificationBundle(): VerificationBundle {
+        this.ensureCurrent();
+        return buildVerificationBundle(this.data(), requireDefined(this.legalOfficerCase));
+    }
+
     get legalOfficer(): LegalOfficerClosedLocCommands {
         return new LegalOfficerClosedLocCommands({
             locId: this.locId,
@@ -1646,6 +1867,11 @@ export interface UploadTokensRecordFileParams {
     file: ItemFileWithContent,
 }
 
+export interface AddCollectionItemsResult {
+    state: ClosedCollectionLoc | VoidedLoc;
+    progress: CollectionItemProgress[];
+}
+
 export class ClosedCollectionLoc extends ClosedOrVoidCollectionLoc {
 
     async addCollectionItem(parameters: AddCollectionItemParams): Promise<ClosedCollectionLoc> {
@@ -1663,6 +1889,40 @@ export class ClosedCollectionLoc extends ClosedOrVoidCollectionLoc {
         return this;
     }
 
+    /**
+     * Adds items in bulk, see {@link AuthenticatedLocClient.addCollectionItems}. Failing items do not fail the
+     * whole import, their progress tells what went wrong.
+     */
+    async addCollectionItems(parameters: AddCollectionItemsParams): Promise<AddCollectionItemsResult> {
+        this.ensureCurrent();
+        const client = this.locSharedState.client;
+        if(parameters.items.some(item => item.itemFiles && item.itemFiles.length > 0)
+            && (!this.legalOfficerCase?.collectionCanUpload || false)) {
+            throw new Error("This Collection LOC does not allow uploading files with items");
+        }
+        const progress = await client.addCollectionItems({
+            locId: this.locId,
+            ...parameters
+        });
+        const state = await this.refresh();
+        return {
+            state,
+            progress,
+        };
+    }
+
+    /**
+     * Validates a manifest against this collection's settings, see {@link parseCollectionManifest}.
+     * Items of the report may then be passed to {@link addCollectionItems}.
+     */
+    parseCollectionManifest(parameters: { manifest: string, format: CollectionManifestFormat }): CollectionManifestReport {
+        return parseCollectionManifest({
+            api: this.locSharedState.nodeApi,
+            canUpload: this.legalOfficerCase?.collectionCanUpload || false,
+            ...parameters
+        });
+    }
+
     async uploadCollectionItemFile(parameters: UploadCollectionItemFileParams): Promise<ClosedCollectionLoc> {
         this.ensureCurrent();
         const client = this.locSharedState.client;
@@ -1713,6 +1973,11 @@ export class ClosedCollectionLoc extends ClosedOrVoidCollectionLoc {
         return this._withLocs(locsState, ClosedCollectionLoc);
     }
 
+    exportVerificationBundle(): VerificationBundle {
+        this.ensureCurrent();
+        return buildVerificationBundle(this.data(), requireDefined(this.legalOfficerCase));
+    }
+
     get legalOfficer(): LegalOfficerClosedCollectionLocCommands {
         return new LegalOfficerClosedCollectionLocCommands({
             locId: this.locId,
@@ -1757,6 +2022,14 @@ async function requestSof(locSharedState: LocSharedState, locId: UUID, itemId?:
     return new PendingRequest(locSharedState, locRequest, undefined, EMPTY_LOC_ISSUERS).veryNew(); // Discards this state
 }
 
+async function getReplacementChain(locSharedState: LocSharedState, locId: UUID): Promise<ReplacementChain> {
+    return requireDefined(await resolveReplacementChain({
+        api: locSharedState.nodeApi,
+        locId,
+        locCache: locSharedState.locCache,
+    }));
+}
+
 export class VoidedLoc extends LocRequestState {
 
     async replacerLoc(): Promise<OpenLoc | ClosedLoc | VoidedLoc | undefined> {
@@ -1768,6 +2041,27 @@ export class VoidedLoc extends LocRequestState {
         return undefined;
     }
 
+    /**
+     * @returns The chain of successive replacements, starting with this LOC.
+     */
+    async replacementChain(): Promise<ReplacementChain> {
+        this.ensureCurrent();
+        return getReplacementChain(this.locSharedState, this.locId);
+    }
+
+    /**
+     * @returns The latest replacer of this LOC, or undefined if it was voided without replacement.
+     * @throws If the latest replacer is not part of this LOC's state, {@link replacementChain} still exposes its chain data.
+     */
+    async latestReplacerLoc(): Promise<OpenLoc | ClosedLoc | VoidedLoc | undefined> {
+        this.ensureCurrent();
+        const chain = await this.replacementChain();
+        if(chain.history.length > 1) {
+            return this.locSharedState.locsState.findById(chain.current.id) as OpenLoc | ClosedLoc | VoidedLoc;
+        }
+        return undefined;
+    }
+
     async refresh(): Promise<VoidedLoc> {
         return await super.refresh() as VoidedLoc;
     }
@@ -1788,6 +2082,27 @@ export class VoidedCollectionLoc extends ClosedOrVoidCollectionLoc {
         return undefined;
     }
 
+    /**
+     * @returns The chain of successive replacements, starting with this LOC.
+     */
+    async replacementChain(): Promise<ReplacementChain> {
+        this.ensureCurrent();
+        return getReplacementChain(this.locSharedState, this.locId);
+    }
+
+    /**
+     * @returns The latest replacer of this LOC, or undefined if it was voided without replacement.
+     * @throws If the latest replacer is not part of this LOC's state, {@link replacementChain} still exposes its chain data.
+     */
+    async latestReplacerLoc(): Promise<OpenLoc | ClosedCollectionLoc | VoidedCollectionLoc | undefined> {
+        this.ensureCurrent();
+        const chain = await this.replacementChain();
+        if(chain.history.length > 1) {
+            return this.locSharedState.locsState.findById(chain.current.id) as OpenLoc | ClosedCollectionLoc | VoidedCollectionLoc;
+        }
+        return undefined;
+    }
+
     async refresh(): Promise<VoidedCollectionLoc> {
         return await super.refresh() as VoidedCollectionLoc;
     }
@@ -0,0 +1,498 @@
+import {
+    CollectionItem,
+    Hash,
+    LegalOfficerCase,
+    LocBatch,
+    LocEvent,
+    LogionNodeApiClass,
+    UUID,
+    ValidAccountId,
+} from "@logion/node-api";
+import { HexString } from "@polkadot/util/types";
+
+import { LocRequest } from "./LocClient.js";
+
+/**
+ * A key-value storage backing a {@link LocCache}. Values are JSON strings.
+ */
+export interface CacheStore {
+    get(key: string): Promise<string | undefined>;
+    set(key: string, value: string): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export class InMemoryCacheStore implements CacheStore {
+
+    private readonly entries = new Map<string, string>();
+
+    async get(key: string): Promise<string | undefined> {
+        return this.entries.get(key);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        this.entries.set(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Stores each entry in its own file of given directory. Node.js only.
+ */
+export class FileSystemCacheStore implements CacheStore {
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    private readonly directory: string;
+
+    async get(key: string): Promise<string | undefined> {
+        const fs = await import('fs/promises');
+        try {
+            return await fs.readFile(await this.path(key), { encoding: "utf-8" });
+        } catch(e) {
+            return undefined;
+        }
+    }
+
+    private async path(key: string): Promise<string> {
+        const path = await import('path');
+        return path.join(this.directory, `${ encodeURIComponent(key) }.json`);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        const fs = await import('fs/promises');
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(await this.path(key), value, { encoding: "utf-8" });
+    }
+
+    async delete(key: string): Promise<void> {
+        const fs = await import('fs/promises');
+        await fs.rm(await this.path(key), { force: true });
+    }
+
+    async clear(): Promise<void> {
+        const fs = await import('fs/promises');
+        await fs.rm(this.directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Stores entries in an IndexedDB object store. Browser only.
+ */
+export class IndexedDbCacheStore implements CacheStore {
+
+    constructor(databaseName = "logion-cache") {
+        this.databaseName = databaseName;
+    }
+
+    private readonly databaseName: string;
+
+    private database: Promise<IDBDatabase> | undefined;
+
+    private openDatabase(): Promise<IDBDatabase> {
+        this.database ||= new Promise((resolve, reject) => {
+            const request = indexedDB.open(this.databaseName, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        return this.database;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const database = await this.openDatabase();
+        return new Promise((resolve, reject) => {
+            const request = operation(database.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        const value = await this.request("readonly", store => store.get(key));
+        return value !== undefined ? value as string : undefined;
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        await this.request("readwrite", store => store.put(value, key));
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.request("readwrite", store => store.delete(key));
+    }
+
+    async clear(): Promise<void> {
+        await this.request("readwrite", store => store.clear());
+    }
+}
+
+const OBJECT_STORE = "entries";
+
+export interface CacheEntry<T> {
+    /**
+     * The hash of the best block when the value was fetched.
+     */
+    readonly blockHash: HexString;
+    readonly value: T;
+}
+
+export const DEFAULT_LOC_CACHE_MAX_BLOCK_AGE = 100n;
+
+/**
+ * Caches closed LOCs and collection items. Entries are keyed by LOC ID and record the block at which they were fetched.
+ *
+ * Void LOCs never change. A closed LOC may still be voided, its entry expires when it was fetched more than
+ * `maxBlockAge` blocks before the best block (or at a block which is not part of the chain anymore).
+ * A cached LOC is also invalidated when a chain event reports its closure or voiding, or when its off-chain request
+ * does not match anymore. Collection items are refetched as soon as the collection size changes.
+ */
+export class LocCache {
+
+    constructor(api: LogionNodeApiClass, store: CacheStore, maxBlockAge = DEFAULT_LOC_CACHE_MAX_BLOCK_AGE) {
+        this.api = api;
+        this.store = store;
+        this.maxBlockAge = maxBlockAge;
+    }
+
+    private readonly api: LogionNodeApiClass;
+
+    private readonly store: CacheStore;
+
+    private readonly maxBlockAge: bigint;
+
+    /**
+     * @returns the cached LOC, undefined if missing or expired.
+     */
+    async getLoc(locId: UUID): Promise<CacheEntry<LegalOfficerCase> | undefined> {
+        return this.getValidLoc(locId, new BlockNumbers(this.api));
+    }
+
+    private async getValidLoc(locId: UUID, blockNumbers: BlockNumbers): Promise<CacheEntry<LegalOfficerCase> | undefined> {
+        const json = await this.store.get(locKey(locId));
+        if(!json) {
+            return undefined;
+        }
+        const entry = JSON.parse(json) as CacheEntry<SerializedLegalOfficerCase>;
+        if(!entry.value.voidInfo && await this.isExpired(entry.blockHash, blockNumbers)) {
+            await this.store.delete(locKey(locId));
+            return undefined;
+        }
+        return {
+            blockHash: entry.blockHash,
+            value: this.fromSerializedLegalOfficerCase(entry.value),
+        };
+    }
+
+    private async isExpired(blockHash: HexString, blockNumbers: BlockNumbers): Promise<boolean> {
+        const blockNumber = await blockNumbers.of(blockHash);
+        if(blockNumber === undefined) {
+            return true;
+        }
+        const bestBlockNumber = await blockNumbers.best();
+        return bestBlockNumber - blockNumber > this.maxBlockAge;
+    }
+
+    /**
+     * Builds a batch where cached LOCs are not fetched again. Fetched LOCs are cached if closed.
+     */
+    async getLocBatch(locIds: UUID[]): Promise<LocBatch> {
+        const cachedLocs: Record<string, LegalOfficerCase> = {};
+        const blockNumbers = new BlockNumbers(this.api);
+        for(const locId of locIds) {
+            const entry = await this.getValidLoc(locId, blockNumbers);
+            if(entry) {
+                cachedLocs[locId.toDecimalString()] = entry.value;
+            }
+        }
+
+        const batch = this.api.batch.preloadedLocs(locIds, cachedLocs);
+        const missingIds = locIds.filter(locId => !(locId.toDecimalString() in cachedLocs));
+        if(missingIds.length > 0) {
+            const locs = await batch.getLocs();
+            const blockHash = await this.bestBlockHash();
+            for(const locId of missingIds) {
+                const loc = locs[locId.toDecimalString()];
+                if(loc?.closed) {
+                    await this.setLoc(locId, { blockHash, value: loc });
+                }
+            }
+        }
+        return batch;
+    }
+
+    private async bestBlockHash(): Promise<HexString> {
+        const hash = await this.api.polkadot.rpc.chain.getBlockHash();
+        return hash.toHex();
+    }
+
+    private async setLoc(locId: UUID, entry: CacheEntry<LegalOfficerCase>): Promise<void> {
+        const serialized: CacheEntry<SerializedLegalOfficerCase> = {
+            blockHash: entry.blockHash,
+            value: toSerializedLegalOfficerCase(entry.value),
+        };
+        await this.store.set(locKey(locId), JSON.stringify(serialized));
+    }
+
+    /**
+     * @returns the on-chain items of given collection, fetched only if the collection size changed.
+     */
+    async getCollectionItems(locId: UUID): Promise<CollectionItem[]> {
+        const size = await this.api.queries.getCollectionSize(locId);
+        const json = await this.store.get(itemsKey(locId));
+        if(json) {
+            const entry = JSON.parse(json) as CacheEntry<SerializedCollectionItem[]>;
+            if(entry.value.length === size) {
+                return entry.value.map(fromSerializedCollectionItem);
+            }
+        }
+
+        const blockHash = await this.bestBlockHash();
+        const items = await this.api.queries.getCollectionItems(locId);
+        const serialized: CacheEntry<SerializedCollectionItem[]> = {
+            blockHash,
+            value: items.map(toSerializedCollectionItem),
+        };
+        await this.store.set(itemsKey(locId), JSON.stringify(serialized));
+        return items;
+    }
+
+    async invalidate(locId: UUID): Promise<void> {
+        await this.store.delete(locKey(locId));
+        await this.store.delete(itemsKey(locId));
+    }
+
+    async clear(): Promise<void> {
+        await this.store.clear();
+    }
+
+    async onLocEvent(event: LocEvent): Promise<void> {
+        if(event.type === "ItemAdded") {
+            await this.store.delete(itemsKey(event.locId));
+        } else if(event.type === "LocCreated" || event.type === "LocClosed" || event.type === "LocVoid") {
+            await this.store.delete(locKey(event.locId));
+        }
+    }
+
+    /**
+     * Invalidates the LOCs which do not match their request anymore
+     * i.e. requests not closed or voided while the cached LOC is not.
+     */
+    async invalidateOnStatusChange(requests: LocRequest[]): Promise<void> {
+        for(const request of requests) {
+            const locId = new UUID(request.id);
+            const entry = await this.getLoc(locId);
+            if(entry
+                && (request.status !== "CLOSED"
+                    || (request.voidInfo !== undefined && entry.value.voidInfo === undefined))) {
+                await this.invalidate(locId);
+            }
+        }
+    }
+
+    private fromSerializedLegalOfficerCase(loc: SerializedLegalOfficerCase): LegalOfficerCase {
+        return {
+            owner: loc.owner,
+            requesterAddress: loc.requesterAddress ? this.toAccount(loc.requesterAddress) : undefined,
+            requesterLocId: loc.requesterLocId ? new UUID(loc.requesterLocId) : undefined,
+            metadata: loc.metadata.map(item => ({
+                name: Hash.fromHex(item.name),
+                value: Hash.fromHex(item.value),
+                submitter: this.toAccount(item.submitter),
+                acknowledged: item.acknowledged,
+            })),
+            files: loc.files.map(file => ({
+                hash: Hash.fromHex(file.hash),
+                nature: Hash.fromHex(file.nature),
+                submitter: this.toAccount(file.submitter),
+                size: BigInt(file.size),
+                acknowledged: file.acknowledged,
+            })),
+            links: loc.links.map(link => ({
+                id: new UUID(link.id),
+                nature: Hash.fromHex(link.nature),
+            })),
+            closed: loc.closed,
+            locType: loc.locType,
+            voidInfo: loc.voidInfo ? {
+                replacer: loc.voidInfo.replacer ? new UUID(loc.voidInfo.replacer) : undefined,
+            } : undefined,
+            replacerOf: loc.replacerOf ? new UUID(loc.replacerOf) : undefined,
+            collectionLastBlockSubmission: loc.collectionLastBlockSubmission ? BigInt(loc.collectionLastBlockSubmission) : undefined,
+            collectionMaxSize: loc.collectionMaxSize,
+            collectionCanUpload: loc.collectionCanUpload,
+            seal: loc.seal,
+            sponsorshipId: loc.sponsorshipId ? new UUID(loc.sponsorshipId) : undefined,
+        };
+    }
+
+    private toAccount(key: string): ValidAccountId {
+        return ValidAccountId.parseKey(this.api.polkadot, key);
+    }
+}
+
+/**
+ * Fetches block numbers at most once per block hash.
+ */
+class BlockNumbers {
+
+    constructor(api: LogionNodeApiClass) {
+        this.api = api;
+    }
+
+    private readonly api: LogionNodeApiClass;
+
+    private readonly numbers = new Map<HexString, bigint | undefined>();
+
+    private bestNumber: bigint | undefined;
+
+    /**
+     * @returns the number of given block, undefined if the block is unknown.
+     */
+    async of(blockHash: HexString): Promise<bigint | undefined> {
+        if(!this.numbers.has(blockHash)) {
+            try {
+                const header = await this.api.polkadot.rpc.chain.getHeader(blockHash);
+                this.numbers.set(blockHash, header.number.toBigInt());
+            } catch(e) {
+                this.numbers.set(blockHash, undefined);
+            }
+        }
+        return this.numbers.get(blockHash);
+    }
+
+    async best(): Promise<bigint> {
+        if(this.bestNumber === undefined) {
+            const header = await this.api.polkadot.rpc.chain.getHeader();
+            this.bestNumber = header.number.toBigInt();
+        }
+        return this.bestNumber;
+    }
+}
+
+function locKey(locId: UUID): string {
+    return `loc/${ locId.toString() }`;
+}
+
+function itemsKey(locId: UUID): string {
+    return `items/${ locId.toString() }`;
+}
+
+interface SerializedLegalOfficerCase {
+    owner: string;
+    requesterAddress?: string;
+    requesterLocId?: string;
+    metadata: { name: HexString, value: HexString, submitter: string, acknowledged: boolean }[];
+    files: { hash: HexString, nature: HexString, submitter: string, size: string, acknowledged: boolean }[];
+    links: { id: string, nature: HexString }[];
+    closed: boolean;
+    locType: LegalOfficerCase["locType"];
+    voidInfo?: { replacer?: string };
+    replacerOf?: string;
+    collectionLastBlockSubmission?: string;
+    collectionMaxSize?: number;
+    collectionCanUpload: boolean;
+    seal?: string;
+    sponsorshipId?: string;
+}
+
+function toSerializedLegalOfficerCase(loc: LegalOfficerCase): SerializedLegalOfficerCase {
+    return {
+        owner: loc.owner,
+        requesterAddress: loc.requesterAddress?.toKey(),
+        requesterLocId: loc.requesterLocId?.toString(),
+        metadata: loc.metadata.map(item => ({
+            name: item.name.toHex(),
+            value: item.value.toHex(),
+            submitter: item.submitter.toKey(),
+            acknowledged: item.acknowledged,
+        })),
+        files: loc.files.map(file => ({
+            hash: file.hash.toHex(),
+            nature: file.nature.toHex(),
+            submitter: file.submitter.toKey(),
+            size: file.size.toString(),
+            acknowledged: file.acknowledged,
+        })),
+        links: loc.links.map(link => ({
+            id: link.id.toString(),
+            nature: link.nature.toHex(),
+        })),
+        closed: loc.closed,
+        locType: loc.locType,
+        voidInfo: loc.voidInfo ? {
+            replacer: loc.voidInfo.replacer?.toString(),
+        } : undefined,
+        replacerOf: loc.replacerOf?.toString(),
+        collectionLastBlockSubmission: loc.collectionLastBlockSubmission?.toString(),
+        collectionMaxSize: loc.collectionMaxSize,
+        collectionCanUpload: loc.collectionCanUpload,
+        seal: loc.seal,
+        sponsorshipId: loc.sponsorshipId?.toString(),
+    };
+}
+
+interface SerializedCollectionItem {
+    id: HexString;
+    description: HexString;
+    files: { name: HexString, contentType: HexString, size: string, hash: HexString }[];
+    token?: { type: HexString, id: HexString, issuance: string };
+    restrictedDelivery: boolean;
+    termsAndConditions: { tcType: HexString, tcLocId: string, details: HexString }[];
+}
+
+function toSerializedCollectionItem(item: CollectionItem): SerializedCollectionItem {
+    return {
+        id: item.id.toHex(),
+        description: item.description.toHex(),
+        files: item.files.map(file => ({
+            name: file.name.toHex(),
+            contentType: file.contentType.toHex(),
+            size: file.size.toString(),
+            hash: file.hash.toHex(),
+        })),
+        token: item.token ? {
+            type: item.token.type.toHex(),
+            id: item.token.id.toHex(),
+            issuance: item.token.issuance.toString(),
+        } : undefined,
+        restrictedDelivery: item.restrictedDelivery,
+        termsAndConditions: item.termsAndConditions.map(element => ({
+            tcType: element.tcType.toHex(),
+            tcLocId: element.tcLocId.toString(),
+            details: element.details.toHex(),
+        })),
+    };
+}
+
+function fromSerializedCollectionItem(item: SerializedCollectionItem): CollectionItem {
+    return {
+        id: Hash.fromHex(item.id),
+        description: Hash.fromHex(item.description),
+        files: item.files.map(file => ({
+            name: Hash.fromHex(file.name),
+            contentType: Hash.fromHex(file.contentType),
+            size: BigInt(file.size),
+            hash: Hash.fromHex(file.hash),
+        })),
+        token: item.token ? {
+            type: Hash.fromHex(item.token.type),
+            id: Hash.fromHex(item.token.id),
+            issuance: BigInt(item.token.issuance),
+        } : undefined,
+        restrictedDelivery: item.restrictedDelivery,
+        termsAndConditions: item.termsAndConditions.map(element => ({
+            tcType: Hash.fromHex(element.tcType),
+            tcLocId: new UUID(element.tcLocId),
+            details: Hash.fromHex(element.details),
+        })),
+    };
+}
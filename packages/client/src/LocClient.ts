@@ -11,6 +11,7 @@ import {
     Adapters,
     TypesTokensRecord,
     TypesTokensRecordFile,
+    TypesTokensRecordWithId,
     FileParams,
     Link,
     VoidInfo,
@@ -29,7 +30,8 @@ import { requireDefined } from "./assertions.js";
 import { initMultiSourceHttpClientState, MultiSourceHttpClient, aggregateArrays, Token } from "./Http.js";
 import { Signer, SignCallback } from "./Signer.js";
 import { ComponentFactory } from "./ComponentFactory.js";
-import { newBackendError } from "./Error.js";
+import { LocCache } from "./LocCache.js";
+import { newBackendError, ValidationError } from "./Error.js";
 import { HashOrContent, HashString } from "./Hash.js";
 import { MimeType } from "./Mime.js";
 import { validateToken, ItemTokenWithRestrictedType, TokenType } from "./Token.js";
@@ -44,6 +46,7 @@ import {
 } from "./license/index.js";
 import { CollectionDelivery, ItemDeliveries } from './Deliveries.js';
 import { Fees } from './Fees.js';
+import { CollectionItemProgress, CollectionItemProgressStatus, CollectionItemsJournal, InMemoryCollectionItemsJournal } from "./CollectionItemsJournal.js";
 
 export interface AddedOn {
     addedOn: string;
@@ -213,7 +216,7 @@ export class ItemFileWithContent {
         this._size = parameters.size;
 
         if (!this._size && !this._hashOrContent.hasContent) {
-            throw new Error("File size must be provided if no content is");
+            throw ValidationError.forField("size", "File size must be provided if no content is");
         }
     }
 
@@ -229,7 +232,7 @@ export class ItemFileWithContent {
             if(!this._size) {
                 this._size = contentSize;
             } else if(this._size !== contentSize) {
-                throw new Error(`Given size does not match content: got ${this._size}, should be ${contentSize}`);
+                throw ValidationError.forField("size", `Given size does not match content: got ${this._size}, should be ${contentSize}`);
             }
         }
     }
@@ -257,9 +260,13 @@ export class ItemFileWithContent {
 export interface BlockchainSubmissionParams {
     signer: Signer;
     callback?: SignCallback;
+    /**
+     * If true, the transaction is dry-run before being submitted (see SignParameters.dryRun).
+     */
+    dryRun?: boolean;
 }
 
-export interface AddCollectionItemParams extends BlockchainSubmissionParams {
+export interface CollectionItemParams {
     itemId: Hash,
     itemDescription: string,
     itemFiles?: ItemFileWithContent[],
@@ -270,6 +277,40 @@ export interface AddCollectionItemParams extends BlockchainSubmissionParams {
     creativeCommons?: CreativeCommons,
 }
 
+export interface AddCollectionItemParams extends CollectionItemParams, BlockchainSubmissionParams {
+}
+
+export const DEFAULT_COLLECTION_ITEMS_WINDOW_SIZE = 10;
+
+export interface AddCollectionItemsParams extends BlockchainSubmissionParams {
+    items: CollectionItemParams[],
+    /**
+     * The maximum number of transactions submitted without waiting for finalization, defaults to
+     * {@link DEFAULT_COLLECTION_ITEMS_WINDOW_SIZE}. Ignored with dry-run or with a signer not supporting
+     * explicit nonces (see {@link Signer.supportsNonce}): each transaction is then submitted only after
+     * the previous one was finalized.
+     */
+    windowSize?: number,
+    /**
+     * The journal used to track progress. Passing the journal of an interrupted import resumes it.
+     * If not provided, an in-memory journal is used.
+     */
+    journal?: CollectionItemsJournal,
+}
+
+interface CollectionItemImportStep {
+    item: CollectionItemParams;
+    progress: CollectionItemProgress;
+    /**
+     * Defined if the item remains to be added on-chain i.e. if status is PUBLIC_DATA_SUBMITTED.
+     */
+    submittable?: SubmittableExtrinsic;
+    /**
+     * True if the item was added on-chain by a previous import, some files may already be uploaded.
+     */
+    resumed?: boolean;
+}
+
 export interface FetchLocRequestSpecification {
     ownerAddress?: string;
     requesterAddress?: string,
@@ -346,6 +387,7 @@ export class LocMultiClient {
             token: token.value,
             nodeApi: sharedState.nodeApi,
             componentFactory: sharedState.componentFactory,
+            locCache: sharedState.locCache,
         });
     }
 
@@ -356,6 +398,7 @@ export class LocMultiClient {
         token: string,
         nodeApi: LogionNodeApiClass,
         componentFactory: ComponentFactory,
+        locCache?: LocCache,
     }) {
         this.networkState = params.networkState;
         this.axiosFactory = params.axiosFactory;
@@ -363,6 +406,7 @@ export class LocMultiClient {
         this.token = params.token;
         this.nodeApi = params.nodeApi;
         this.componentFactory = params.componentFactory;
+        this.locCache = params.locCache;
     }
 
     private readonly networkState: NetworkState<LegalOfficerEndpoint>;
@@ -377,6 +421,8 @@ export class LocMultiClient {
 
     private readonly componentFactory: ComponentFactory;
 
+    private readonly locCache?: LocCache;
+
     newLocClient(legalOfficer: LegalOfficerClass) {
         return new AuthenticatedLocClient({
             axiosFactory: this.axiosFactory,
@@ -384,6 +430,7 @@ export class LocMultiClient {
             nodeApi: this.nodeApi,
             legalOfficer,
             componentFactory: this.componentFactory,
+            locCache: this.locCache,
         });
     }
 
@@ -407,6 +454,7 @@ export class LocMultiClient {
             const response = await axios.put("/api/loc-request", specs);
             return response.data.requests;
         });
+        this.networkState.record(httpClient.getState());
 
         return aggregateArrays<LocRequest>(multiResponse);
     }
@@ -440,13 +488,21 @@ export class LocMultiClient {
         );
     }
 
-    static async getLocBatch(params: { api: LogionNodeApiClass, locIds: UUID[] }): Promise<LocBatch> {
-        const { api, locIds } = params;
-        return api.batch.locs(locIds);
+    static async getLocBatch(params: { api: LogionNodeApiClass, locIds: UUID[], locCache?: LocCache }): Promise<LocBatch> {
+        const { api, locIds, locCache } = params;
+        if(locCache) {
+            return locCache.getLocBatch(locIds);
+        } else {
+            return api.batch.locs(locIds);
+        }
     }
 
     async getLocBatch(locIds: UUID[]): Promise<LocBatch> {
-        return LocMultiClient.getLocBatch({ api: this.nodeApi, locIds });
+        return LocMultiClient.getLocBatch({ api: this.nodeApi, locIds, locCache: this.locCache });
+    }
+
+    async invalidateCachedLocs(requests: LocRequest[]): Promise<void> {
+        await this.locCache?.invalidateOnStatusChange(requests);
     }
 }
 
@@ -563,15 +619,18 @@ export abstract class LocClient {
         axiosFactory: AxiosFactory,
         nodeApi: LogionNodeApiClass,
         legalOfficer: LegalOfficerClass,
+        locCache?: LocCache,
     }) {
         this.axiosFactory = params.axiosFactory;
         this.nodeApi = params.nodeApi;
         this.legalOfficer = params.legalOfficer;
+        this.locCache = params.locCache;
     }
 
     protected readonly axiosFactory: AxiosFactory;
     protected readonly nodeApi: LogionNodeApiClass;
     protected readonly legalOfficer: LegalOfficerClass;
+    protected readonly locCache?: LocCache;
 
     async getLoc(parameters: FetchParameters): Promise<LegalOfficerCase> {
         return LocMultiClient.getLoc({ ...parameters, api: this.nodeApi });
@@ -601,7 +660,7 @@ export abstract class LocClient {
         return response.data;
     }
 
-    private mergeItems(onchainItem: CollectionItem, offchainItem: OffchainCollectionItem): UploadableCollectionItem {
+    protected mergeItems(onchainItem: CollectionItem, offchainItem: OffchainCollectionItem): UploadableCollectionItem {
         return {
             id: onchainItem.id,
             description: new HashString(onchainItem.description, offchainItem.description),
@@ -625,7 +684,9 @@ export abstract class LocClient {
 
     async getCollectionItems(parameters: FetchParameters): Promise<UploadableCollectionItem[]> {
         const { locId } = parameters;
-        const onchainItems = await this.nodeApi.queries.getCollectionItems(locId);
+        const onchainItems = this.locCache ?
+            await this.locCache.getCollectionItems(locId) :
+            await this.nodeApi.queries.getCollectionItems(locId);
 
         const onchainItemsMap: Record<string, CollectionItem> = {};
         for(const item of onchainItems) {
@@ -659,16 +720,13 @@ export abstract class LocClient {
 
     async getTokensRecord(parameters: { recordId: Hash } & FetchParameters): Promise<ClientTokensRecord | undefined> {
         const { locId, recordId } = parameters;
-        const onchainRecord = await this.nodeApi.polkadot.query.logionLoc.tokensRecordsMap(
-            this.nodeApi.adapters.toNonCompactLocId(locId),
-            this.nodeApi.adapters.toH256(recordId),
-        );
-        if(onchainRecord.isNone) {
+        const onchainRecord = await this.nodeApi.queries.getTokensRecord(locId, recordId);
+        if(!onchainRecord) {
             return undefined;
         }
         try {
             const offchainRecord = await this.getOffchainRecord({ locId, recordId });
-            return this.mergeRecords(Adapters.toTokensRecord(onchainRecord.unwrap()), offchainRecord);
+            return this.mergeRecords(onchainRecord, offchainRecord);
         } catch(e) {
             throw newBackendError(e);
         }
@@ -680,7 +738,7 @@ export abstract class LocClient {
         return response.data;
     }
 
-    private mergeRecords(onchainItem: TypesTokensRecord, offchainItem: OffchainTokensRecord): ClientTokensRecord {
+    protected mergeRecords(onchainItem: TypesTokensRecord, offchainItem: OffchainTokensRecord): ClientTokensRecord {
         return {
             id: Hash.fromHex(offchainItem.recordId as HexString),
             description: new HashString(onchainItem.description, offchainItem.description),
@@ -698,11 +756,11 @@ export abstract class LocClient {
 
     async getTokensRecords(parameters: GetTokensRecordsRequest): Promise<ClientTokensRecord[]> {
         const { locId } = parameters;
-        const onchainRecords = await this.nodeApi.polkadot.query.logionLoc.tokensRecordsMap.entries(locId.toDecimalString());
+        const onchainRecords = await this.nodeApi.queries.getTokensRecords(locId);
 
         const onchainRecordsMap: Record<string, TypesTokensRecord> = {};
-        for(const entry of onchainRecords) {
-            onchainRecordsMap[entry[0].args[1].toHex()] = Adapters.toTokensRecord(entry[1].unwrap());
+        for(const record of onchainRecords) {
+            onchainRecordsMap[record.id.toHex()] = record;
         }
 
         try {
@@ -792,11 +850,13 @@ export class AuthenticatedLocClient extends LocClient {
         nodeApi: LogionNodeApiClass,
         legalOfficer: LegalOfficerClass,
         componentFactory: ComponentFactory,
+        locCache?: LocCache,
     }) {
         super({
             axiosFactory: params.axiosFactory,
             legalOfficer: params.legalOfficer,
             nodeApi: params.nodeApi,
+            locCache: params.locCache,
         });
         this.currentAddress = params.currentAddress;
         this.componentFactory = params.componentFactory;
@@ -900,12 +960,154 @@ export class AuthenticatedLocClient extends LocClient {
     }
 
     async addCollectionItem(parameters: AddCollectionItemParams & FetchParameters): Promise<void> {
+        const { itemId, signer, callback, dryRun, locId } = parameters;
+
+        const { publicData, submittable } = await this.prepareCollectionItem(locId, parameters);
+        await this.submitItemPublicData(locId, publicData);
+        try {
+            await signer.signAndSend({
+                signerId: this.currentAddress.address,
+                submittable,
+                callback,
+                dryRun,
+            });
+        } catch(e) {
+            await this.cancelItemPublicDataSubmission(locId, itemId);
+            throw e;
+        }
+
+        await this.uploadItemFiles(locId, parameters);
+    }
+
+    /**
+     * Adds items by windows of {@link AddCollectionItemsParams.windowSize} items. The transactions of a window are
+     * submitted without waiting for the previous one to be finalized, using explicit consecutive nonces.
+     * Each item's progress is recorded in the journal. Items already completed in the journal are skipped,
+     * partially added items are resumed. The off-chain data of an item failing to be added on-chain are removed.
+     *
+     * @returns the progress of each item.
+     */
+    async addCollectionItems(parameters: AddCollectionItemsParams & FetchParameters): Promise<CollectionItemProgress[]> {
+        const { items, signer, callback, dryRun, locId } = parameters;
+        const journal = parameters.journal || new InMemoryCollectionItemsJournal();
+        const windowSize = dryRun || !signer.supportsNonce ? 1 : Math.max(1, parameters.windowSize ?? DEFAULT_COLLECTION_ITEMS_WINDOW_SIZE);
+        const progress: CollectionItemProgress[] = [];
+        for(let start = 0; start < items.length; start += windowSize) {
+            const window = items.slice(start, start + windowSize);
+            progress.push(...await this.addCollectionItemsWindow({ locId, items: window, signer, callback, dryRun, journal }));
+        }
+        return progress;
+    }
+
+    private async addCollectionItemsWindow(parameters: { items: CollectionItemParams[], journal: CollectionItemsJournal } & BlockchainSubmissionParams & FetchParameters): Promise<CollectionItemProgress[]> {
+        const { items, journal, signer, callback, dryRun, locId } = parameters;
+
+        const steps: CollectionItemImportStep[] = [];
+        for(const item of items) {
+            steps.push(await this.submitItemPublicDataWithJournal(locId, item, journal));
+        }
+
+        const submissions = steps.filter(step => step.progress.status === "PUBLIC_DATA_SUBMITTED");
+        const firstNonce = submissions.length > 1 ? await this.nextNonce() : undefined;
+        const results = await Promise.allSettled(submissions.map((step, index) => signer.signAndSend({
+            signerId: this.currentAddress.address,
+            submittable: step.submittable as SubmittableExtrinsic,
+            callback,
+            dryRun,
+            nonce: firstNonce !== undefined ? firstNonce + index : undefined,
+        })));
+        for(let index = 0; index < submissions.length; ++index) {
+            const step = submissions[index];
+            const result = results[index];
+            const { itemId } = step.item;
+            if(result.status === "fulfilled") {
+                step.progress = await this.setProgress(journal, itemId, "ADDED");
+            } else {
+                try {
+                    await this.cancelItemPublicDataSubmission(locId, itemId);
+                } catch(e) {
+                    // Off-chain data are rolled back when the import is resumed
+                }
+                step.progress = await this.setProgress(journal, itemId, "FAILED", result.reason);
+            }
+        }
+
+        const progress: CollectionItemProgress[] = [];
+        for(const step of steps) {
+            progress.push(await this.uploadItemFilesWithJournal(locId, step, journal));
+        }
+        return progress;
+    }
+
+    private async nextNonce(): Promise<number> {
+        const nonce = await this.nodeApi.polkadot.rpc.system.accountNextIndex(this.currentAddress.address);
+        return nonce.toNumber();
+    }
+
+    private async submitItemPublicDataWithJournal(locId: UUID, item: CollectionItemParams, journal: CollectionItemsJournal): Promise<CollectionItemImportStep> {
+        const { itemId } = item;
+        let progress = await journal.get(itemId);
+        if(progress?.status === "DONE") {
+            return { item, progress };
+        }
+        const resumed = progress?.status === "ADDED";
+        try {
+            if(progress && !resumed) {
+                progress = await this.recoverCollectionItem(locId, itemId, journal);
+            }
+            if(progress?.status === "ADDED") {
+                return { item, progress, resumed: true };
+            }
+            const { publicData, submittable } = await this.prepareCollectionItem(locId, item);
+            await this.submitItemPublicData(locId, publicData);
+            progress = await this.setProgress(journal, itemId, "PUBLIC_DATA_SUBMITTED");
+            return { item, progress, submittable };
+        } catch(e) {
+            return { item, progress: await this.setProgress(journal, itemId, "FAILED", e) };
+        }
+    }
+
+    private async uploadItemFilesWithJournal(locId: UUID, step: CollectionItemImportStep, journal: CollectionItemsJournal): Promise<CollectionItemProgress> {
+        const { item, progress, resumed } = step;
+        if(progress.status !== "ADDED") {
+            return progress;
+        }
+        try {
+            await this.uploadItemFiles(locId, item, resumed);
+        } catch(e) {
+            return this.setProgress(journal, item.itemId, "ADDED", e);
+        }
+        return this.setProgress(journal, item.itemId, "DONE");
+    }
+
+    private async recoverCollectionItem(locId: UUID, itemId: Hash, journal: CollectionItemsJournal): Promise<CollectionItemProgress | undefined> {
+        const chainItem = await this.nodeApi.queries.getCollectionItem(locId, itemId);
+        if(chainItem) {
+            return this.setProgress(journal, itemId, "ADDED");
+        } else {
+            try {
+                await this.cancelItemPublicDataSubmission(locId, itemId);
+            } catch(e) {
+                // Off-chain data may never have been submitted
+            }
+            return undefined;
+        }
+    }
+
+    private async setProgress(journal: CollectionItemsJournal, itemId: Hash, status: CollectionItemProgressStatus, error?: unknown): Promise<CollectionItemProgress> {
+        const progress: CollectionItemProgress = {
+            itemId: itemId.toHex(),
+            status,
+            error: error !== undefined ? (error instanceof Error ? error.message : String(error)) : undefined,
+        };
+        await journal.set(progress);
+        return progress;
+    }
+
+    private async prepareCollectionItem(locId: UUID, parameters: CollectionItemParams): Promise<{ publicData: CreateOffchainCollectionItem, submittable: SubmittableExtrinsic }> {
         const {
             itemId,
             itemDescription,
-            signer,
-            callback,
-            locId,
             itemFiles,
             itemToken,
             restrictedDelivery,
@@ -930,7 +1132,7 @@ export class AuthenticatedLocClient extends LocClient {
 
         if(booleanRestrictedDelivery
             && (chainItemFiles.length === 0 || !itemToken)) {
-            throw new Error("Restricted delivery requires a defined underlying token as well as at least one file");
+            throw ValidationError.forField("restrictedDelivery", "Restricted delivery requires a defined underlying token as well as at least one file");
         }
 
         if(itemToken) {
@@ -939,7 +1141,7 @@ export class AuthenticatedLocClient extends LocClient {
 
         const termsAndConditions: TermsAndConditionsElement[] = [];
         if (parameters.logionClassification && parameters.creativeCommons) {
-            throw new Error("Logion Classification and Creative Commons are mutually exclusive.");
+            throw ValidationError.forField("creativeCommons", "Logion Classification and Creative Commons are mutually exclusive.");
         } else if(parameters.logionClassification) {
             termsAndConditions.push(parameters.logionClassification);
         } else if (parameters.creativeCommons) {
@@ -949,7 +1151,7 @@ export class AuthenticatedLocClient extends LocClient {
             parameters.specificLicenses.forEach(specific => termsAndConditions.push(specific));
         }
 
-        await this.submitItemPublicData(locId, {
+        const publicData: CreateOffchainCollectionItem = {
             itemId: itemId.toHex(),
             files: itemFiles?.map(file => ({
                 name: file.name,
@@ -965,7 +1167,7 @@ export class AuthenticatedLocClient extends LocClient {
                 id: itemToken.id,
                 type: itemToken.type,
             } : undefined,
-        });
+        };
 
         const submittable = this.nodeApi.polkadot.tx.logionLoc.addCollectionItem(
             this.nodeApi.adapters.toLocId(locId),
@@ -984,20 +1186,22 @@ export class AuthenticatedLocClient extends LocClient {
                 details: Hash.of(element.details),
             })),
         );
-        try {
-            await signer.signAndSend({
-                signerId: this.currentAddress.address,
-                submittable,
-                callback
-            });
-        } catch(e) {
-            await this.cancelItemPublicDataSubmission(locId, itemId);
-            throw e;
-        }
 
+        return { publicData, submittable };
+    }
+
+    private async uploadItemFiles(locId: UUID, parameters: CollectionItemParams, skipUploaded = false) {
+        const { itemId, itemFiles } = parameters;
         if(itemFiles) {
+            let uploaded: Hash[] = [];
+            if(skipUploaded) {
+                const item = await this.getCollectionItem({ locId, itemId });
+                uploaded = item?.files.filter(file => file.uploaded).map(file => file.hash) || [];
+            }
             for(const file of itemFiles) {
-                if(file.hashOrContent.hasContent) {
+                await file.finalize();
+                if(file.hashOrContent.hasContent
+                    && !uploaded.some(hash => hash.equalTo(file.hashOrContent.contentHash))) {
                     await this.uploadItemFile({ locId, itemId, file });
                 }
             }
@@ -1046,13 +1250,13 @@ export class AuthenticatedLocClient extends LocClient {
         const result = validateToken(this.nodeApi, itemToken);
         if(!result.valid) {
             if(result.error) {
-                throw new Error("Given token definition is invalid");
+                throw ValidationError.forField("itemToken", "Given token definition is invalid");
             } else {
-                throw new Error(`Given token definition is invalid: ${result.error}`);
+                throw ValidationError.forField("itemToken", `Given token definition is invalid: ${result.error}`);
             }
         }
         if(itemToken.issuance < 1n) {
-            throw new Error("Token must have an issuance >= 1");
+            throw ValidationError.forField("itemToken", "Token must have an issuance >= 1");
         }
     }
 
@@ -1179,6 +1383,7 @@ export class AuthenticatedLocClient extends LocClient {
             description,
             signer,
             callback,
+            dryRun,
             locId,
             files,
         } = parameters;
@@ -1216,7 +1421,8 @@ export class AuthenticatedLocClient extends LocClient {
             await signer.signAndSend({
                 signerId: this.currentAddress.address,
                 submittable,
-                callback
+                callback,
+                dryRun,
             });
         } catch(e) {
             await this.cancelRecordPublicDataSubmission(locId, recordId);
@@ -1305,6 +1511,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
 
         try {
@@ -1324,6 +1531,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
 
         try {
@@ -1368,6 +1576,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
     
         try {
@@ -1388,6 +1597,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
 
         try {
@@ -1407,6 +1617,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
 
         try {
@@ -1429,7 +1640,7 @@ export class AuthenticatedLocClient extends LocClient {
     }
 
     async acceptTransactionLoc(parameters: { locId: UUID, requesterAccount?: SupportedAccountId, requesterLoc?: UUID } & Partial<BlockchainSubmissionParams>): Promise<void> {
-        const { locId, requesterAccount, requesterLoc, callback } = parameters;
+        const { locId, requesterAccount, requesterLoc, callback, dryRun } = parameters;
         if(requesterAccount) {
             await this.acceptLoc({ locId })
         } else if(requesterLoc) {
@@ -1442,15 +1653,16 @@ export class AuthenticatedLocClient extends LocClient {
                 signerId: this.currentAddress.address,
                 submittable,
                 callback,
+                dryRun,
             });
             await this.acceptLoc({ locId })
         } else {
-            throw new Error("No requester provided");
+            throw ValidationError.forField("requesterLoc", "No requester provided");
         }
     }
 
     async openTransactionLoc(parameters: { locId: UUID, legalOfficer: LegalOfficer } & BlockchainSubmissionParams ) {
-        const { locId, legalOfficer, signer, callback } = parameters
+        const { locId, legalOfficer, signer, callback, dryRun } = parameters
         const submittable = this.nodeApi.polkadot.tx.logionLoc.createPolkadotTransactionLoc(
             this.nodeApi.adapters.toLocId(locId),
             legalOfficer.address,
@@ -1459,12 +1671,13 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback,
+            dryRun,
         });
         await this.openLoc({ locId });
     }
 
     async openLogionTransactionLoc(parameters: { locId: UUID, requesterLocId: UUID } & BlockchainSubmissionParams ) {
-        const { locId, requesterLocId, signer, callback } = parameters;
+        const { locId, requesterLocId, signer, callback, dryRun } = parameters;
         const submittable = this.nodeApi.polkadot.tx.logionLoc.createLogionTransactionLoc(
             this.nodeApi.adapters.toLocId(locId),
             this.nodeApi.adapters.toNonCompactLocId(requesterLocId),
@@ -1473,6 +1686,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback,
+            dryRun,
         });
     }
 
@@ -1495,13 +1709,13 @@ export class AuthenticatedLocClient extends LocClient {
     }
 
     async acceptIdentityLoc(parameters: { locId: UUID, requesterAccount?: SupportedAccountId, sponsorshipId?: UUID } & Partial<BlockchainSubmissionParams>): Promise<void> {
-        const { locId, requesterAccount, sponsorshipId, callback } = parameters;
+        const { locId, requesterAccount, sponsorshipId, callback, dryRun } = parameters;
         if(requesterAccount) {
             if(requesterAccount.type === "Polkadot") {
                 await this.acceptLoc({ locId });
             } else {
                 if(!sponsorshipId) {
-                    throw new Error("Other Identity LOCs can only be created with a sponsorship");
+                    throw ValidationError.forField("sponsorshipId", "Other Identity LOCs can only be created with a sponsorship");
                 }
                 const signer = requireDefined(parameters.signer);
                 const otherAccountId = this.nodeApi.queries.getValidAccountId(requesterAccount.address, requesterAccount.type).toOtherAccountId();
@@ -1514,6 +1728,7 @@ export class AuthenticatedLocClient extends LocClient {
                     signerId: this.currentAddress.address,
                     submittable,
                     callback,
+                    dryRun,
                 });
                 await this.acceptLoc({ locId });
             }
@@ -1526,13 +1741,14 @@ export class AuthenticatedLocClient extends LocClient {
                 signerId: this.currentAddress.address,
                 submittable,
                 callback,
+                dryRun,
             });
             await this.acceptLoc({ locId });
         }
     }
 
     async openIdentityLoc(parameters: { locId: UUID, legalOfficer: LegalOfficer } & BlockchainSubmissionParams ) {
-        const { locId, legalOfficer, signer, callback } = parameters
+        const { locId, legalOfficer, signer, callback, dryRun } = parameters
         const submittable = this.nodeApi.polkadot.tx.logionLoc.createPolkadotIdentityLoc(
             this.nodeApi.adapters.toLocId(locId),
             legalOfficer.address,
@@ -1541,12 +1757,13 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback,
+            dryRun,
         });
         await this.openLoc({ locId });
     }
 
     async openLogionIdentityLoc(parameters: { locId: UUID } & BlockchainSubmissionParams ) {
-        const { locId, signer, callback } = parameters
+        const { locId, signer, callback, dryRun } = parameters
         const submittable = this.nodeApi.polkadot.tx.logionLoc.createLogionIdentityLoc(
             this.nodeApi.adapters.toLocId(locId),
         );
@@ -1554,6 +1771,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback,
+            dryRun,
         });
     }
 
@@ -1562,7 +1780,7 @@ export class AuthenticatedLocClient extends LocClient {
     }
 
     async openCollectionLoc(parameters: { locId: UUID, legalOfficer: LegalOfficer } & OpenCollectionLocParams) {
-        const { locId, legalOfficer, signer, callback } = parameters
+        const { locId, legalOfficer, signer, callback, dryRun } = parameters
         const submittable = this.nodeApi.polkadot.tx.logionLoc.createCollectionLoc(
             this.nodeApi.adapters.toLocId(locId),
             legalOfficer.address,
@@ -1574,6 +1792,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback,
+            dryRun,
         });
         await this.openLoc({ locId });
     }
@@ -1595,6 +1814,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
 
         try {
@@ -1605,7 +1825,7 @@ export class AuthenticatedLocClient extends LocClient {
     }
 
     async voidLoc(parameters: { locId: UUID } & VoidParams): Promise<void> {
-        const { locId, replacer, reason, signer, callback } = parameters;
+        const { locId, replacer, reason, signer, callback, dryRun } = parameters;
 
         let submittable;
         if(replacer) {
@@ -1621,7 +1841,8 @@ export class AuthenticatedLocClient extends LocClient {
         await signer.signAndSend({
             signerId: this.currentAddress.address,
             submittable,
-            callback
+            callback,
+            dryRun,
         });
 
         try {
@@ -1642,6 +1863,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
     }
 
@@ -1653,6 +1875,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: parameters.callback,
+            dryRun: parameters.dryRun,
         });
     }
 
@@ -1675,6 +1898,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: params.callback,
+            dryRun: params.dryRun,
         });
     }
 
@@ -1686,6 +1910,7 @@ export class AuthenticatedLocClient extends LocClient {
             signerId: this.currentAddress.address,
             submittable,
             callback: params.callback,
+            dryRun: params.dryRun,
         });
         const voteCreated = result.events.find(event => event.name === "VoteCreated" && event.section === "vote");
         if(!voteCreated) {
@@ -1711,6 +1936,130 @@ export class AuthenticatedLocClient extends LocClient {
     }
 }
 
+/**
+ * The value of off-chain only fields (descriptions, names, file names, etc.) when data are read from chain storage only.
+ */
+export const OFFCHAIN_DATA_UNAVAILABLE = "<unavailable>";
+
+/**
+ * The value of off-chain only dates (creation date, addition dates, etc.) when data are read from chain storage only.
+ * Being empty, it is not a valid ISO date and evaluates to false.
+ */
+export const OFFCHAIN_DATE_UNAVAILABLE = "";
+
+/**
+ * A LOC client reading chain storage only, legal officer nodes are never called. Off-chain only text fields
+ * are set to {@link OFFCHAIN_DATA_UNAVAILABLE}, off-chain only dates to {@link OFFCHAIN_DATE_UNAVAILABLE}. Items status is derived from chain data (published or acknowledged),
+ * review data (rejection reason, review date) are not available.
+ */
+export class ChainLocClient extends AuthenticatedLocClient {
+
+    override backend(): AxiosInstance {
+        throw new Error("Off-chain data are not available in read-only mode");
+    }
+
+    override async getLocRequest(parameters: FetchParameters): Promise<LocRequest> {
+        const { locId } = parameters;
+        const loc = await this.getLoc({ locId });
+        return ChainLocClient.toLocRequest(locId, loc);
+    }
+
+    static toLocRequest(locId: UUID, loc: LegalOfficerCase): LocRequest {
+        return {
+            id: locId.toString(),
+            ownerAddress: loc.owner,
+            requesterAddress: loc.requesterAddress ? { address: loc.requesterAddress.address, type: loc.requesterAddress.type } : undefined,
+            requesterIdentityLoc: loc.requesterLocId?.toString(),
+            description: OFFCHAIN_DATA_UNAVAILABLE,
+            locType: loc.locType,
+            createdOn: OFFCHAIN_DATE_UNAVAILABLE,
+            status: loc.closed ? "CLOSED" : "OPEN",
+            files: loc.files.map(file => ({
+                hash: file.hash.toHex(),
+                nature: OFFCHAIN_DATA_UNAVAILABLE,
+                submitter: { address: file.submitter.address, type: file.submitter.type },
+                name: OFFCHAIN_DATA_UNAVAILABLE,
+                restrictedDelivery: false,
+                contentType: OFFCHAIN_DATA_UNAVAILABLE,
+                status: file.acknowledged ? "ACKNOWLEDGED" : "PUBLISHED",
+                size: file.size.toString(),
+            })),
+            metadata: loc.metadata.map(item => ({
+                name: OFFCHAIN_DATA_UNAVAILABLE,
+                nameHash: item.name.toHex(),
+                value: OFFCHAIN_DATA_UNAVAILABLE,
+                submitter: { address: item.submitter.address, type: item.submitter.type },
+                status: item.acknowledged ? "ACKNOWLEDGED" : "PUBLISHED",
+            })),
+            links: loc.links.map(link => ({
+                target: link.id.toString(),
+                nature: OFFCHAIN_DATA_UNAVAILABLE,
+                addedOn: OFFCHAIN_DATE_UNAVAILABLE,
+            })),
+            voidInfo: loc.voidInfo ? {} : undefined,
+            seal: loc.seal,
+            selectedIssuers: [],
+            sponsorshipId: loc.sponsorshipId?.toString(),
+        };
+    }
+
+    override async getCollectionItem(parameters: { itemId: Hash } & FetchParameters): Promise<UploadableCollectionItem | undefined> {
+        const { locId, itemId } = parameters;
+        const onchainItem = await this.nodeApi.queries.getCollectionItem(locId, itemId);
+        if(!onchainItem) {
+            return undefined;
+        }
+        return this.mergeItems(onchainItem, ChainLocClient.unavailableOffchainItem(locId, onchainItem));
+    }
+
+    override async getCollectionItems(parameters: FetchParameters): Promise<UploadableCollectionItem[]> {
+        const { locId } = parameters;
+        const onchainItems = this.locCache ?
+            await this.locCache.getCollectionItems(locId) :
+            await this.nodeApi.queries.getCollectionItems(locId);
+        return onchainItems.map(item => this.mergeItems(item, ChainLocClient.unavailableOffchainItem(locId, item)));
+    }
+
+    private static unavailableOffchainItem(locId: UUID, onchainItem: CollectionItem): OffchainCollectionItem {
+        return {
+            collectionLocId: locId.toString(),
+            itemId: onchainItem.id.toHex(),
+            addedOn: OFFCHAIN_DATE_UNAVAILABLE,
+            files: [],
+            termsAndConditions: [],
+        };
+    }
+
+    override async getTokensRecord(parameters: { recordId: Hash } & FetchParameters): Promise<ClientTokensRecord | undefined> {
+        const { locId, recordId } = parameters;
+        const onchainRecord = await this.nodeApi.queries.getTokensRecord(locId, recordId);
+        if(!onchainRecord) {
+            return undefined;
+        }
+        return this.toClientTokensRecord(locId, { ...onchainRecord, id: recordId });
+    }
+
+    override async getTokensRecords(parameters: GetTokensRecordsRequest): Promise<ClientTokensRecord[]> {
+        const { locId } = parameters;
+        const onchainRecords = await this.nodeApi.queries.getTokensRecords(locId);
+        return onchainRecords.map(record => this.toClientTokensRecord(locId, record));
+    }
+
+    private toClientTokensRecord(locId: UUID, onchainRecord: TypesTokensRecordWithId): ClientTokensRecord {
+        const record = this.mergeRecords(onchainRecord, {
+            collectionLocId: locId.toString(),
+            recordId: onchainRecord.id.toHex(),
+            description: OFFCHAIN_DATA_UNAVAILABLE,
+            addedOn: OFFCHAIN_DATE_UNAVAILABLE,
+            files: [],
+        });
+        return {
+            ...record,
+            description: new HashString(onchainRecord.description),
+        };
+    }
+}
+
 export interface ReviewFileParams {
     hash: Hash;
     decision: ReviewResult;
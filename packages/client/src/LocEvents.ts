@@ -0,0 +1,140 @@
+import { LocEvent, LogionNodeApiClass, UUID } from "@logion/node-api";
+import { FrameSystemEventRecord } from "@polkadot/types/lookup";
+import { Vec } from "@polkadot/types-codec";
+
+import { LocsState } from "./Loc.js";
+import { LocCache } from "./LocCache.js";
+
+export interface LocEventNotification {
+    readonly event: LocEvent;
+    /**
+     * The next state when the event changed one of the LOCs of the state passed at subscription,
+     * undefined otherwise.
+     */
+    readonly locsState?: LocsState;
+    /**
+     * Set when the state or the cache could not be refreshed, in which case `locsState` is undefined.
+     */
+    readonly error?: unknown;
+}
+
+export type LocEventCallback = (notification: LocEventNotification) => void;
+
+export type Unsubscribe = () => void;
+
+export interface SubscribeParams {
+    readonly callback: LocEventCallback;
+    /**
+     * If provided, the state is automatically refreshed when an event changes one of its LOCs.
+     * Note that the subscription follows the state as it gets discarded in favor of a newer one.
+     */
+    readonly locsState?: LocsState;
+    /**
+     * Called with the errors thrown by `callback`. Such errors are otherwise ignored and do not
+     * prevent the notification of later events.
+     */
+    readonly onError?: (error: unknown) => void;
+}
+
+export async function subscribeToLocEvents(params: SubscribeParams & { api: LogionNodeApiClass, locCache?: LocCache }): Promise<Unsubscribe> {
+    const { api, callback, onError, locsState, locCache } = params;
+    const subscriber = new LocEventSubscriber({ api, callback, onError, locsState, locCache });
+    return api.polkadot.query.system.events((records: Vec<FrameSystemEventRecord>) => subscriber.onEvents(records));
+}
+
+class LocEventSubscriber {
+
+    constructor(args: {
+        api: LogionNodeApiClass,
+        callback: LocEventCallback,
+        onError?: (error: unknown) => void,
+        locsState?: LocsState,
+        locCache?: LocCache,
+    }) {
+        this.api = args.api;
+        this.callback = args.callback;
+        this.onError = args.onError;
+        this.locsState = args.locsState;
+        this.locCache = args.locCache;
+        this.queue = Promise.resolve();
+    }
+
+    private readonly api: LogionNodeApiClass;
+
+    private readonly callback: LocEventCallback;
+
+    private readonly onError?: (error: unknown) => void;
+
+    private locsState?: LocsState;
+
+    private readonly locCache?: LocCache;
+
+    private queue: Promise<void>;
+
+    onEvents(records: Vec<FrameSystemEventRecord>) {
+        const events = records
+            .map(record => this.api.adapters.fromLocEvent(record.event))
+            .filter(event => event !== undefined) as LocEvent[];
+        for(const event of events) {
+            this.queue = this.queue.then(() => this.notify(event)); // Preserves events ordering
+        }
+    }
+
+    private async notify(event: LocEvent) {
+        let locsState: LocsState | undefined;
+        let error: unknown;
+        try {
+            await this.locCache?.onLocEvent(event); // Must come first so that refreshed states do not use stale data
+            locsState = await this.nextLocsState(event);
+        } catch(e) {
+            error = e;
+        }
+        if(locsState) {
+            this.locsState = locsState;
+        }
+        try {
+            this.callback({
+                event,
+                locsState,
+                error,
+            });
+        } catch(e) {
+            this.reportCallbackError(e);
+        }
+    }
+
+    private reportCallbackError(error: unknown) {
+        try {
+            this.onError?.(error);
+        } catch {
+            // A failing error handler must not break the queue
+        }
+    }
+
+    private async nextLocsState(event: LocEvent): Promise<LocsState | undefined> {
+        const current = this.locsState?.getCurrentState() as LocsState | undefined;
+        if(!current || !("locId" in event) || event.type === "ItemAdded") {
+            return undefined;
+        }
+        const loc = current.findByIdOrUndefined(event.locId);
+        if(loc) {
+            const next = await loc.refresh();
+            return next.locsState();
+        } else if(event.type === "LocCreated" && await this.isCurrentAddressParty(current, event.locId)) {
+            return current.refresh();
+        } else {
+            return undefined;
+        }
+    }
+
+    private async isCurrentAddressParty(locsState: LocsState, locId: UUID): Promise<boolean> {
+        const currentAddress = locsState.client.currentAddress;
+        if(!currentAddress) {
+            return false;
+        }
+        const loc = await this.api.queries.getLegalOfficerCase(locId);
+        return loc !== undefined
+            && (loc.owner === currentAddress.address
+                || (loc.requesterAddress !== undefined && loc.requesterAddress.equals(currentAddress)));
+    }
+}
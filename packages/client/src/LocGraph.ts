@@ -0,0 +1,249 @@
+import { Hash, LegalOfficerCase, LocType, LogionNodeApiClass, UUID } from "@logion/node-api";
+import { HexString } from "@polkadot/util/types";
+
+import { LocCache } from "./LocCache.js";
+import { LocMultiClient } from "./LocClient.js";
+
+export const DEFAULT_LOC_GRAPH_MAX_DEPTH = 5;
+
+/**
+ * The relation represented by an edge:
+ * - LINK: source LOC links to target LOC;
+ * - REQUESTER_LOC: source LOC was requested with target Logion Identity LOC;
+ * - ISSUER_IDENTITY_LOC: target LOC is the identity LOC of a verified issuer selected on source LOC;
+ * - REPLACED_BY: source LOC was voided and replaced by target LOC.
+ */
+export type LocGraphEdgeType = "LINK" | "REQUESTER_LOC" | "ISSUER_IDENTITY_LOC" | "REPLACED_BY";
+
+export interface LocGraphNode {
+    id: UUID;
+    /**
+     * The distance to the closest root.
+     */
+    depth: number;
+    /**
+     * Undefined if the LOC was not fetched because of the depth limit, or if it does not exist.
+     */
+    loc?: LegalOfficerCase;
+}
+
+export interface LocGraphEdge {
+    from: UUID;
+    to: UUID;
+    type: LocGraphEdgeType;
+    /**
+     * The hash of link's nature, defined for LINK edges only.
+     */
+    nature?: Hash;
+}
+
+export interface LocGraphJson {
+    roots: string[];
+    maxDepth: number;
+    nodes: LocGraphNodeJson[];
+    edges: LocGraphEdgeJson[];
+}
+
+export interface LocGraphNodeJson {
+    id: string;
+    depth: number;
+    resolved: boolean;
+    locType?: LocType;
+    owner?: string;
+    closed?: boolean;
+    voided?: boolean;
+}
+
+export interface LocGraphEdgeJson {
+    from: string;
+    to: string;
+    type: LocGraphEdgeType;
+    nature?: HexString;
+}
+
+/**
+ * The graph of LOCs reachable from a set of root LOCs, see {@link buildLocGraph}.
+ */
+export class LocGraph {
+
+    constructor(args: {
+        roots: UUID[],
+        maxDepth: number,
+        nodes: LocGraphNode[],
+        edges: LocGraphEdge[],
+    }) {
+        this.roots = args.roots;
+        this.maxDepth = args.maxDepth;
+        this.nodes = args.nodes;
+        this.edges = args.edges;
+    }
+
+    readonly roots: UUID[];
+
+    readonly maxDepth: number;
+
+    readonly nodes: LocGraphNode[];
+
+    readonly edges: LocGraphEdge[];
+
+    node(locId: UUID): LocGraphNode | undefined {
+        return this.nodes.find(node => node.id.toString() === locId.toString());
+    }
+
+    outgoingEdges(locId: UUID): LocGraphEdge[] {
+        return this.edges.filter(edge => edge.from.toString() === locId.toString());
+    }
+
+    incomingEdges(locId: UUID): LocGraphEdge[] {
+        return this.edges.filter(edge => edge.to.toString() === locId.toString());
+    }
+
+    /**
+     * @returns True if some nodes were not fetched because of the depth limit.
+     */
+    get truncated(): boolean {
+        return this.nodes.some(node => node.loc === undefined && node.depth > this.maxDepth);
+    }
+
+    /**
+     * @returns True if the graph contains at least one directed cycle (e.g. two LOCs linking to each other).
+     */
+    hasCycle(): boolean {
+        const visiting = new Set<string>();
+        const visited = new Set<string>();
+        const visit = (locId: string): boolean => {
+            if(visiting.has(locId)) {
+                return true;
+            }
+            if(visited.has(locId)) {
+                return false;
+            }
+            visiting.add(locId);
+            const cycle = this.edges
+                .filter(edge => edge.from.toString() === locId)
+                .some(edge => visit(edge.to.toString()));
+            visiting.delete(locId);
+            visited.add(locId);
+            return cycle;
+        };
+        return this.nodes.some(node => visit(node.id.toString()));
+    }
+
+    toJSON(): LocGraphJson {
+        return {
+            roots: this.roots.map(root => root.toString()),
+            maxDepth: this.maxDepth,
+            nodes: this.nodes.map(node => ({
+                id: node.id.toString(),
+                depth: node.depth,
+                resolved: node.loc !== undefined,
+                locType: node.loc?.locType,
+                owner: node.loc?.owner,
+                closed: node.loc?.closed,
+                voided: node.loc ? node.loc.voidInfo !== undefined : undefined,
+            })),
+            edges: this.edges.map(edge => ({
+                from: edge.from.toString(),
+                to: edge.to.toString(),
+                type: edge.type,
+                nature: edge.nature?.toHex(),
+            })),
+        };
+    }
+
+    /**
+     * @returns The graph in Graphviz DOT format. Unresolved LOCs are rendered with a dashed border,
+     * void LOCs are greyed out.
+     */
+    toDot(): string {
+        const lines: string[] = [ "digraph locs {" ];
+        for(const node of this.nodes) {
+            lines.push(`    "${ node.id.toString() }" [${ LocGraph.dotNodeAttributes(node) }];`);
+        }
+        for(const edge of this.edges) {
+            lines.push(`    "${ edge.from.toString() }" -> "${ edge.to.toString() }" [label="${ edge.type }"];`);
+        }
+        lines.push("}");
+        return lines.join("\n");
+    }
+
+    private static dotNodeAttributes(node: LocGraphNode): string {
+        if(!node.loc) {
+            return `label="${ node.id.toString() }", style=dashed`;
+        }
+        const status = node.loc.voidInfo ? "VOID" : (node.loc.closed ? "CLOSED" : "OPEN");
+        const label = `label="${ node.id.toString() }\\n${ node.loc.locType } (${ status })"`;
+        return node.loc.voidInfo ? `${ label }, style=filled, fillcolor=lightgrey` : label;
+    }
+}
+
+/**
+ * Walks the relations between LOCs (links, requester LOCs, verified issuers identity LOCs and void replacements)
+ * breadth-first, starting from given roots. LOCs are fetched with one {@link LocBatch} per level. Each LOC is visited
+ * once so that cycles are not walked again. LOCs beyond the depth limit are added to the graph but not fetched.
+ */
+export async function buildLocGraph(params: {
+    api: LogionNodeApiClass,
+    roots: UUID[],
+    maxDepth?: number,
+    locCache?: LocCache,
+}): Promise<LocGraph> {
+    const { api, roots, locCache } = params;
+    const maxDepth = params.maxDepth !== undefined ? params.maxDepth : DEFAULT_LOC_GRAPH_MAX_DEPTH;
+    const nodes = new Map<string, LocGraphNode>();
+    const edges = new Map<string, LocGraphEdge>();
+    const addNode = (id: UUID, depth: number) => {
+        if(!nodes.has(id.toString())) {
+            nodes.set(id.toString(), { id, depth });
+        }
+    };
+    const addEdge = (edge: LocGraphEdge) => {
+        edges.set(`${ edge.from.toString() }:${ edge.to.toString() }:${ edge.type }`, edge);
+    };
+
+    roots.forEach(root => addNode(root, 0));
+    let level = [ ...nodes.values() ];
+    for(let depth = 0; depth <= maxDepth && level.length > 0; ++depth) {
+        const locBatch = await LocMultiClient.getLocBatch({ api, locIds: level.map(node => node.id), locCache });
+        const locs = await locBatch.getLocs();
+        const issuers = await locBatch.getLocsVerifiedIssuers();
+        const nextLevel: LocGraphNode[] = [];
+        const visit = (edge: LocGraphEdge, target: UUID) => {
+            addEdge(edge);
+            if(!nodes.has(target.toString())) {
+                addNode(target, depth + 1);
+                nextLevel.push(nodes.get(target.toString()) as LocGraphNode);
+            }
+        };
+        for(const node of level) {
+            const loc = locs[node.id.toDecimalString()];
+            if(!loc) {
+                continue;
+            }
+            node.loc = loc;
+            for(const link of loc.links) {
+                visit({ from: node.id, to: link.id, type: "LINK", nature: link.nature }, link.id);
+            }
+            if(loc.requesterLocId) {
+                visit({ from: node.id, to: loc.requesterLocId, type: "REQUESTER_LOC" }, loc.requesterLocId);
+            }
+            for(const issuer of issuers[node.id.toDecimalString()] || []) {
+                visit({ from: node.id, to: issuer.identityLocId, type: "ISSUER_IDENTITY_LOC" }, issuer.identityLocId);
+            }
+            if(loc.voidInfo?.replacer) {
+                visit({ from: node.id, to: loc.voidInfo.replacer, type: "REPLACED_BY" }, loc.voidInfo.replacer);
+            }
+            if(loc.replacerOf) {
+                visit({ from: loc.replacerOf, to: node.id, type: "REPLACED_BY" }, loc.replacerOf);
+            }
+        }
+        level = nextLevel;
+    }
+
+    return new LocGraph({
+        roots,
+        maxDepth,
+        nodes: Array.from(nodes.values()),
+        edges: Array.from(edges.values()),
+    });
+}
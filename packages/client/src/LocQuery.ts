@@ -0,0 +1,235 @@
+import { LocType } from "@logion/node-api";
+import { stringToU8a, u8aToString } from "@polkadot/util";
+import { base64Decode, base64Encode } from "@polkadot/util-crypto";
+import { DateTime } from "luxon";
+
+import { fromIsoString } from "./DateTimeUtil.js";
+import { LocData } from "./Loc.js";
+import { FetchAllLocsParams, LocRequestStatus } from "./LocClient.js";
+import { LegalOfficerClass } from "./Types.js";
+
+export const ALL_LOC_REQUEST_STATUSES: LocRequestStatus[] = [ "DRAFT", "REVIEW_PENDING", "REVIEW_REJECTED", "REVIEW_ACCEPTED", "OPEN", "CLOSED" ];
+
+export const ALL_LOC_TYPES: LocType[] = [ "Transaction", "Collection", "Identity" ];
+
+/**
+ * Inclusive bounds, an undefined bound is not checked.
+ */
+export interface LocQueryDateRange {
+    from?: DateTime;
+    to?: DateTime;
+}
+
+export interface LocQueryMetadataFilter {
+    name: string;
+    /**
+     * If undefined, any value matches.
+     */
+    value?: string;
+}
+
+/**
+ * LOC filters, a LOC must match all defined filters. Statuses, LOC types, requester and legal officers
+ * are applied by legal officer nodes when fetching LOCs, other filters are applied client-side.
+ */
+export interface LocQueryFilter {
+    statuses?: LocRequestStatus[];
+    locTypes?: LocType[];
+    requesterAddress?: string;
+    /**
+     * The addresses of the legal officers owning the LOCs.
+     */
+    legalOfficerAddresses?: string[];
+    createdOn?: LocQueryDateRange;
+    /**
+     * Only closed LOCs match a closing date range.
+     */
+    closedOn?: LocQueryDateRange;
+    /**
+     * The LOC must contain all given items, rejected items excluded.
+     */
+    metadata?: LocQueryMetadataFilter[];
+    /**
+     * The LOC must contain at least one file for each given nature, rejected files excluded.
+     */
+    fileNatures?: string[];
+    voided?: boolean;
+}
+
+export type LocQuerySortField = "createdOn" | "decisionOn" | "closedOn" | "description" | "status" | "locType";
+
+export type LocQuerySortDirection = "ASC" | "DESC";
+
+/**
+ * LOCs without a value for the sort field always come last. LOCs with the same value are ordered by ID.
+ */
+export interface LocQuerySort {
+    field: LocQuerySortField;
+    direction: LocQuerySortDirection;
+}
+
+export const DEFAULT_LOC_QUERY_SORT: LocQuerySort = {
+    field: "createdOn",
+    direction: "DESC",
+};
+
+export interface LocQueryParams {
+    filter?: LocQueryFilter;
+    /**
+     * Defaults to {@link DEFAULT_LOC_QUERY_SORT}.
+     */
+    sort?: LocQuerySort;
+    /**
+     * The maximum number of LOCs in the page, all matching LOCs are returned if undefined.
+     */
+    limit?: number;
+    /**
+     * The cursor returned with the previous page, the first page is returned if undefined.
+     * A cursor must be used with the same filter and sort.
+     */
+    cursor?: string;
+}
+
+export interface LocQueryPage<T> {
+    items: T[];
+    /**
+     * The number of LOCs matching the filter, all pages included.
+     */
+    total: number;
+    /**
+     * Undefined if this is the last page.
+     */
+    nextCursor?: string;
+}
+
+interface SortKey {
+    value?: string | number;
+    id: string;
+}
+
+/**
+ * Filters, sorts and paginates given LOCs.
+ */
+export function queryLocs<T extends { data(): LocData }>(locs: T[], params?: LocQueryParams): LocQueryPage<T> {
+    const filter = params?.filter || {};
+    const sort = params?.sort || DEFAULT_LOC_QUERY_SORT;
+    const sorted = locs
+        .filter(loc => matchesLocQueryFilter(loc.data(), filter))
+        .map(loc => ({ loc, key: sortKey(loc.data(), sort.field) }))
+        .sort((a, b) => compareSortKeys(a.key, b.key, sort.direction));
+
+    let start = 0;
+    if(params?.cursor) {
+        const cursorKey = decodeCursor(params.cursor);
+        const next = sorted.findIndex(item => compareSortKeys(item.key, cursorKey, sort.direction) > 0);
+        start = next === -1 ? sorted.length : next;
+    }
+    const end = params?.limit !== undefined ? Math.min(start + params.limit, sorted.length) : sorted.length;
+    const page = sorted.slice(start, end);
+    return {
+        items: page.map(item => item.loc),
+        total: sorted.length,
+        nextCursor: end < sorted.length && page.length > 0 ? encodeCursor(page[page.length - 1].key) : undefined,
+    };
+}
+
+export function matchesLocQueryFilter(data: LocData, filter: LocQueryFilter): boolean {
+    return (!filter.statuses || filter.statuses.includes(data.status))
+        && (!filter.locTypes || filter.locTypes.includes(data.locType))
+        && (!filter.requesterAddress || data.requesterAddress?.address === filter.requesterAddress)
+        && (!filter.legalOfficerAddresses || filter.legalOfficerAddresses.includes(data.ownerAddress))
+        && (!filter.createdOn || inRange(data.createdOn, filter.createdOn))
+        && (!filter.closedOn || inRange(data.closedOn, filter.closedOn))
+        && (!filter.metadata || filter.metadata.every(expected => data.metadata.some(item =>
+            item.name === expected.name
+            && (expected.value === undefined || item.value === expected.value)
+            && item.status !== "REVIEW_REJECTED")))
+        && (!filter.fileNatures || filter.fileNatures.every(nature => data.files.some(file =>
+            file.nature === nature
+            && file.status !== "REVIEW_REJECTED")))
+        && (filter.voided === undefined || (data.voidInfo !== undefined) === filter.voided);
+}
+
+function inRange(isoString: string | undefined, range: LocQueryDateRange): boolean {
+    if(!isoString) {
+        return false;
+    }
+    const moment = fromIsoString(isoString);
+    if(!moment.isValid) {
+        return false;
+    }
+    return (!range.from || moment >= range.from)
+        && (!range.to || moment <= range.to);
+}
+
+/**
+ * Builds the parameters of the LOC requests fetch from given filter, the filters not supported by legal officer
+ * nodes are ignored. Only the nodes of given legal officers are called.
+ */
+export function toFetchAllLocsParams(args: {
+    filter: LocQueryFilter,
+    legalOfficers: LegalOfficerClass[],
+    currentAddress?: string,
+}): FetchAllLocsParams {
+    const { filter, currentAddress } = args;
+    const legalOfficers = filter.legalOfficerAddresses
+        ? args.legalOfficers.filter(legalOfficer => filter.legalOfficerAddresses?.includes(legalOfficer.address))
+        : args.legalOfficers;
+    const ownerAddress = filter.legalOfficerAddresses?.length === 1 ? filter.legalOfficerAddresses[0] : undefined;
+    const requesterAddress = filter.requesterAddress
+        || (ownerAddress !== undefined && ownerAddress === currentAddress ? undefined : currentAddress);
+    return {
+        legalOfficers,
+        spec: {
+            ownerAddress,
+            requesterAddress,
+            statuses: filter.statuses || ALL_LOC_REQUEST_STATUSES,
+            locTypes: filter.locTypes || ALL_LOC_TYPES,
+        },
+    };
+}
+
+function sortKey(data: LocData, field: LocQuerySortField): SortKey {
+    let value: string | number | undefined;
+    if(field === "createdOn" || field === "decisionOn" || field === "closedOn") {
+        const isoString = data[field];
+        const moment = isoString ? fromIsoString(isoString) : undefined;
+        value = moment?.isValid ? moment.toMillis() : undefined;
+    } else {
+        value = data[field];
+    }
+    return {
+        value,
+        id: data.id.toString(),
+    };
+}
+
+function compareSortKeys(a: SortKey, b: SortKey, direction: LocQuerySortDirection): number {
+    if(a.value !== b.value) {
+        if(a.value === undefined) {
+            return 1;
+        } else if(b.value === undefined) {
+            return -1;
+        } else {
+            const order = a.value < b.value ? -1 : 1;
+            return direction === "ASC" ? order : -order;
+        }
+    }
+    return a.id < b.id ? -1 : (a.id > b.id ? 1 : 0);
+}
+
+function encodeCursor(key: SortKey): string {
+    return base64Encode(stringToU8a(JSON.stringify(key)));
+}
+
+function decodeCursor(cursor: string): SortKey {
+    try {
+        const key = JSON.parse(u8aToString(base64Decode(cursor)));
+        if(typeof key.id !== "string") {
+            throw new Error();
+        }
+        return key;
+    } catch {
+        throw new Error("Invalid cursor");
+    }
+}
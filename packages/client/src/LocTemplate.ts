@@ -0,0 +1,113 @@
+import { LocType } from "@logion/node-api";
+
+import { FieldError, ValidationError } from "./Error.js";
+import { LocData } from "./Loc.js";
+
+export interface LocTemplateMetadataItem {
+    name: string;
+    required: boolean;
+}
+
+export interface LocTemplateFile {
+    nature: string;
+    required: boolean;
+}
+
+export interface LocTemplateLink {
+    nature: string;
+    required: boolean;
+}
+
+/**
+ * Describes a recurring LOC request. Templates are registered with {@link LogionClientConfig.locTemplates}
+ * or when instantiated with {@link LocsState.requestLoc}. The ID of the template is stored with the request.
+ */
+export interface LocTemplate {
+    id: string;
+    locType: LocType;
+    description: string;
+    /**
+     * The address of the legal officer, the legal officer must be provided when instantiating the template if undefined.
+     */
+    legalOfficer?: string;
+    metadata: LocTemplateMetadataItem[];
+    /**
+     * Expected files, identified by their nature.
+     */
+    files: LocTemplateFile[];
+    /**
+     * Expected links, identified by their nature.
+     */
+    links: LocTemplateLink[];
+}
+
+export interface LocTemplateCompleteness {
+    complete: boolean;
+    missingMetadata: string[];
+    missingFiles: string[];
+    missingLinks: string[];
+}
+
+/**
+ * The templates known by a client, i.e. the ones of {@link LogionClientConfig.locTemplates}.
+ * A template replaces any previously registered template with the same ID.
+ */
+export class LocTemplateRegistry {
+
+    constructor(templates?: LocTemplate[]) {
+        templates?.forEach(template => this.register(template));
+    }
+
+    private readonly templates = new Map<string, LocTemplate>();
+
+    register(template: LocTemplate) {
+        this.templates.set(template.id, template);
+    }
+
+    /**
+     * @returns A copy of this registry including given template, this registry is left unchanged.
+     */
+    with(template: LocTemplate): LocTemplateRegistry {
+        return new LocTemplateRegistry([ ...this.templates.values(), template ]);
+    }
+
+    find(templateId: string | undefined): LocTemplate | undefined {
+        if(!templateId) {
+            return undefined;
+        }
+        return this.templates.get(templateId);
+    }
+}
+
+/**
+ * Tells which required items of given template are missing in given LOC. Rejected items are considered as missing.
+ */
+export function checkLocTemplateCompleteness(template: LocTemplate, data: Pick<LocData, "metadata" | "files" | "links">): LocTemplateCompleteness {
+    const missingMetadata = template.metadata
+        .filter(item => item.required)
+        .filter(item => !data.metadata.some(metadataItem => metadataItem.name === item.name && metadataItem.status !== "REVIEW_REJECTED"))
+        .map(item => item.name);
+    const missingFiles = template.files
+        .filter(file => file.required)
+        .filter(file => !data.files.some(locFile => locFile.nature === file.nature && locFile.status !== "REVIEW_REJECTED"))
+        .map(file => file.nature);
+    const missingLinks = template.links
+        .filter(link => link.required)
+        .filter(link => !data.links.some(locLink => locLink.nature === link.nature))
+        .map(link => link.nature);
+    return {
+        complete: missingMetadata.length === 0 && missingFiles.length === 0 && missingLinks.length === 0,
+        missingMetadata,
+        missingFiles,
+        missingLinks,
+    };
+}
+
+export function newIncompleteLocError(completeness: LocTemplateCompleteness): ValidationError {
+    const fields: FieldError[] = [
+        ...completeness.missingMetadata.map(name => ({ field: "metadata", message: `Missing required metadata item "${ name }"` })),
+        ...completeness.missingFiles.map(nature => ({ field: "files", message: `Missing required file with nature "${ nature }"` })),
+        ...completeness.missingLinks.map(nature => ({ field: "links", message: `Missing required link with nature "${ nature }"` })),
+    ];
+    return new ValidationError("LOC request does not match its template", { fields });
+}
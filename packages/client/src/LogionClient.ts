@@ -3,22 +3,39 @@ import { DateTime, DurationLike } from "luxon";
 import { LogionNodeApiClass, UUID, ValidAccountId } from "@logion/node-api";
 
 import { AccountTokens } from "./AuthenticationClient.js";
-import { BalanceState, getBalanceState } from "./Balance.js";
+import { BalanceState, BalanceStateParams, getBalanceState } from "./Balance.js";
 import { ComponentFactory, DefaultComponentFactory } from "./ComponentFactory.js";
 import { DirectoryClient } from "./DirectoryClient.js";
 import { initMultiSourceHttpClientState, MultiSourceHttpClient, Token } from "./Http.js";
 import { getInitialState, ProtectionState } from "./Recovery.js";
-import { RecoveryClient } from "./RecoveryClient.js";
+import { LoRecoveryClient, RecoveryClient } from "./RecoveryClient.js";
 import { authenticatedCurrentAddress, LegalOfficerEndpoint, LogionClientConfig, SharedState } from "./SharedClient.js";
 import { RawSigner } from "./Signer.js";
 import { LegalOfficer, LegalOfficerClass } from "./Types.js";
-import { LocsState } from "./Loc.js";
+import { LocsState, ReadOnlyLocsParams } from "./Loc.js";
 import { PublicApi } from "./Public.js";
 import { FetchAllLocsParams } from "./LocClient.js";
 import { NetworkState } from "./NetworkState.js";
 import { VoterApi } from "./Voter.js";
 import { SponsorshipState, SponsorshipApi } from "./Sponsorship.js";
 import { requireDefined } from "./assertions.js";
+import { subscribeToLocEvents, SubscribeParams, Unsubscribe } from "./LocEvents.js";
+import { TokenRefresher, TokensRefreshedErrorHandler } from "./TokenRefresher.js";
+import { LocCache } from "./LocCache.js";
+import { LocTemplateRegistry } from "./LocTemplate.js";
+import { LegalOfficerVaultState } from "./LegalOfficerVault.js";
+import { LegalOfficerRecoveryState } from "./LegalOfficerRecovery.js";
+import { VaultClient } from "./VaultClient.js";
+import { getTreasuryState, TreasuryState } from "./Treasury.js";
+import { getMultisigState, MultisigParams, MultisigState } from "./Multisig.js";
+import { isNodeUnavailable } from "./Error.js";
+import { parseSession, Session, SESSION_VERSION, SessionToken } from "./Session.js";
+import { fromIsoString, toIsoString } from "./DateTimeUtil.js";
+
+/**
+ * @param client A client using the refreshed tokens.
+ */
+export type ClientRefreshedListener = (client: LogionClient) => void;
 
 export class LogionClient {
 
@@ -34,6 +51,13 @@ export class LogionClient {
         const allLegalOfficers = await directoryClient.getLegalOfficers();
         const legalOfficers = allLegalOfficers.filter(legalOfficer => legalOfficer.node);
         const nodesUp: LegalOfficerEndpoint[] = legalOfficers.map(legalOfficer => ({ url: legalOfficer.node, legalOfficer: legalOfficer.address }));
+        const tokens = new AccountTokens(nodeApi, {});
+        const tokenRefresher = new TokenRefresher({
+            buildAuthenticationClient: () => componentFactory.buildAuthenticationClient(nodeApi, config.directoryEndpoint, legalOfficers, axiosFactory),
+            threshold: config.tokenRefreshThreshold,
+        });
+        axiosFactory.tokenRefreshHandler = tokenRefresher;
+        axiosFactory.retryPolicy = config.requestRetry;
         const sharedState: SharedState = {
             config,
             componentFactory,
@@ -42,15 +66,45 @@ export class LogionClient {
             nodeApi,
             legalOfficers,
             allLegalOfficers,
-            networkState: componentFactory.buildNetworkState(nodesUp, []),
-            tokens: new AccountTokens(nodeApi, {}),
+            networkState: componentFactory.buildNetworkState(nodesUp, [], config.nodeHealth),
+            tokens,
             currentAddress: undefined,
+            locCache: componentFactory.buildCacheStore ? new LocCache(nodeApi, componentFactory.buildCacheStore()) : undefined,
+            tokenRefresher,
+            locTemplates: new LocTemplateRegistry(config.locTemplates),
         };
         return new LogionClient(sharedState);
     }
 
+    /**
+     * Creates a client and restores given session (see {@link exportSession}). Expired tokens are discarded.
+     */
+    static async restore(config: LogionClientConfig, session: Session | string): Promise<LogionClient> {
+        const { tokens, currentAddress, nodesDown } = parseSession(session);
+        const client = await LogionClient.create(config);
+
+        const endpoints = client.networkState.nodesUp;
+        const nodesDownSet = new Set(nodesDown.map(endpoint => endpoint.url));
+        client.networkState.update({
+            nodesUp: endpoints.filter(endpoint => !nodesDownSet.has(endpoint.url)),
+            nodesDown: endpoints.filter(endpoint => nodesDownSet.has(endpoint.url)),
+        });
+
+        const store: Record<string, Token> = {};
+        for(const key in tokens) {
+            store[key] = {
+                value: tokens[key].value,
+                expirationDateTime: fromIsoString(tokens[key].expiredOn),
+            };
+        }
+        const accountTokens = new AccountTokens(client.logionApi, store).cleanUp(DateTime.now());
+        const restoredAddress = currentAddress ? client.logionApi.queries.getValidAccountId(currentAddress.address, currentAddress.type) : undefined;
+        return client.useTokens(accountTokens).withCurrentAddress(restoredAddress);
+    }
+
     constructor(sharedState: SharedState) {
         this.sharedState = sharedState;
+        this.sharedState.tokenRefresher?.register(sharedState.tokens);
         this._public = new PublicApi({ sharedState });
         this._voter = new VoterApi({ sharedState, logionClient: this });
     }
@@ -105,6 +159,48 @@ export class LogionClient {
         });
     }
 
+    /**
+     * Tokens are refreshed automatically in requests when they are about to expire or when a node rejects them,
+     * the tokens of this client are left unchanged. The listener is notified with a client using the refreshed
+     * tokens so that they can be persisted (see {@link exportSession}), for this and all subsequent refreshes.
+     * Errors thrown by the listener are passed to `onError`, if provided.
+     */
+    onTokensRefreshed(listener: ClientRefreshedListener, onError?: TokensRefreshedErrorHandler): Unsubscribe {
+        const tokenRefresher = requireDefined(this.sharedState.tokenRefresher, () => new Error("Automatic token refresh is not available"));
+        let tokens = this.sharedState.tokens;
+        return tokenRefresher.onTokensRefreshed((refreshedTokens, replacedTokens) => {
+            if(sharesToken(tokens, replacedTokens)) {
+                tokens = tokens.merge(refreshedTokens);
+                listener(this.withRefreshedTokens(tokens));
+            }
+        }, onError);
+    }
+
+    /**
+     * @returns a JSON-serializable snapshot of current session, see {@link restore}.
+     */
+    exportSession(): Session {
+        const accountTokens = this.tokens;
+        const tokens: Record<string, SessionToken> = {};
+        for(const address of accountTokens.addresses) {
+            const token = accountTokens.get(address);
+            if(token) {
+                tokens[address.toKey()] = {
+                    value: token.value,
+                    expiredOn: toIsoString(token.expirationDateTime),
+                };
+            }
+        }
+        const currentAddress = this.sharedState.currentAddress;
+        return {
+            version: SESSION_VERSION,
+            tokens,
+            currentAddress: currentAddress ? { address: currentAddress.address, type: currentAddress.type } : undefined,
+            nodesUp: this.sharedState.networkState.nodesUp.map(endpoint => ({ ...endpoint })),
+            nodesDown: this.sharedState.networkState.nodesDown.map(endpoint => ({ ...endpoint })),
+        };
+    }
+
     private ensureConnected() {
         if(!this.sharedState.nodeApi.polkadot.isConnected) {
             throw new Error("Client was disconnected");
@@ -131,7 +227,11 @@ export class LogionClient {
             this.sharedState.legalOfficers,
             this.sharedState.axiosFactory
         );
-        const tokens = await client.refresh(this.sharedState.tokens);
+        const tokens = await client.refresh(this.tokens);
+        return this.withRefreshedTokens(tokens);
+    }
+
+    private withRefreshedTokens(tokens: AccountTokens): LogionClient {
         const token = tokens.get(this.currentAddress)?.value;
         const sharedState = this.refreshLegalOfficers(this.sharedState, token);
         return new LogionClient({
@@ -178,6 +278,7 @@ export class LogionClient {
 
     logout(): LogionClient {
         this.ensureConnected();
+        const tokens = new AccountTokens(this.sharedState.nodeApi, {});
         const directoryClient = this.sharedState.componentFactory.buildDirectoryClient(
             this.sharedState.nodeApi,
             this.sharedState.config.directoryEndpoint,
@@ -185,7 +286,7 @@ export class LogionClient {
         );
         return new LogionClient({
             ...this.sharedState,
-            tokens: new AccountTokens(this.sharedState.nodeApi, {}),
+            tokens,
             currentAddress: undefined,
             directoryClient,
         });
@@ -213,8 +314,57 @@ export class LogionClient {
         return getInitialState(data, this.sharedState);
     }
 
+    /**
+     * The vault transfer requests submitted to current address, which must be a legal officer's.
+     */
+    async legalOfficerVaultState(): Promise<LegalOfficerVaultState> {
+        this.ensureConnected();
+        const { currentAddress, token } = authenticatedCurrentAddress(this.sharedState);
+        const legalOfficer = this.getLegalOfficer(currentAddress.address);
+        const vaultClient = new VaultClient({
+            axiosFactory: this.sharedState.axiosFactory,
+            networkState: this.sharedState.networkState,
+            currentAddress: currentAddress.address,
+            token: token.value,
+            isLegalOfficer: true,
+            isRecovery: false,
+        });
+        return LegalOfficerVaultState.create({
+            client: this,
+            vaultClient,
+            legalOfficer,
+        });
+    }
+
+    /**
+     * The protection and recovery requests submitted to current address, which must be a legal officer's.
+     */
+    async legalOfficerRecoveryState(): Promise<LegalOfficerRecoveryState> {
+        this.ensureConnected();
+        const { currentAddress, token } = authenticatedCurrentAddress(this.sharedState);
+        const legalOfficer = this.getLegalOfficer(currentAddress.address);
+        const recoveryClient = new RecoveryClient({
+            axiosFactory: this.sharedState.axiosFactory,
+            currentAddress: currentAddress.address,
+            networkState: this.sharedState.networkState,
+            token: token.value,
+            nodeApi: this.sharedState.nodeApi,
+        });
+        const loRecoveryClient = new LoRecoveryClient({
+            axiosFactory: this.sharedState.axiosFactory,
+            token: token.value,
+            legalOfficer,
+        });
+        return LegalOfficerRecoveryState.create({
+            client: this,
+            recoveryClient,
+            loRecoveryClient,
+            legalOfficer,
+        });
+    }
+
     isTokenValid(now: DateTime): boolean {
-        return this.sharedState.tokens.isAuthenticated(now, this.currentAddress);
+        return this.tokens.isAuthenticated(now, this.currentAddress);
     }
 
     async authenticate(addresses: ValidAccountId[], signer: RawSigner): Promise<LogionClient> {
@@ -292,11 +442,12 @@ export class LogionClient {
 
     updateNetworkState(multiSourceClient: MultiSourceHttpClient<LegalOfficerEndpoint>): LogionClient {
         const { nodesUp, nodesDown } = multiSourceClient.getState();
-        const networkState = this.sharedState.componentFactory.buildNetworkState(nodesUp, nodesDown);
+        const networkState = this.sharedState.componentFactory.buildNetworkState(nodesUp, nodesDown, this.sharedState.config.nodeHealth);
         if(networkState.equals(this.sharedState.networkState)) {
             return this;
         } else {
             this.sharedState.networkState.update({ nodesUp, nodesDown }); // To stay backward compatible, see RecoveryClient, LocClient and VaultClient
+            networkState.inheritHealth(this.sharedState.networkState);
 
             // Future code should use returned client so that LogionClient becomes immutable (i.e. NetworkState.update() can be removed)
             const unavailableNodesSet = new Set(nodesDown.map(endpoint => endpoint.url));
@@ -314,17 +465,51 @@ export class LogionClient {
         return this.sharedState.networkState;
     }
 
-    async balanceState(): Promise<BalanceState> {
+    /**
+     * Probes legal officer nodes and records their health in network state. Nodes waiting for their retry delay
+     * to expire are not probed. A node is healthy if it responds with a status lower than 500.
+     */
+    async checkNodesHealth(): Promise<void> {
+        this.ensureConnected();
+        await this.sharedState.networkState.checkHealth(endpoint => this.probeNode(endpoint));
+    }
+
+    private async probeNode(endpoint: LegalOfficerEndpoint): Promise<void> {
+        const axios = this.sharedState.axiosFactory.buildAxiosInstance(endpoint.url);
+        try {
+            await axios.get("/api/config");
+        } catch(e) {
+            if(isNodeUnavailable(e)) {
+                throw e;
+            }
+        }
+    }
+
+    async balanceState(params?: BalanceStateParams): Promise<BalanceState> {
         this.ensureConnected();
         if(!this.sharedState.currentAddress) {
             throw new Error("Current address was not selected");
         }
         return getBalanceState({
             ...this.sharedState,
+            ...params,
             isRecovery: false,
         });
     }
 
+    async treasuryState(): Promise<TreasuryState> {
+        this.ensureConnected();
+        return getTreasuryState(this.sharedState);
+    }
+
+    /**
+     * The multisig account defined by given signatories and threshold.
+     */
+    async multisigState(params: MultisigParams): Promise<MultisigState> {
+        this.ensureConnected();
+        return getMultisigState(this.sharedState, params);
+    }
+
     async isProtected(address: string): Promise<boolean> {
         this.ensureConnected();
         const config = await this.sharedState.nodeApi.queries.getRecoveryConfig(address);
@@ -340,6 +525,18 @@ export class LogionClient {
         return LocsState.getInitialLocsState(this.sharedState, this, params);
     }
 
+    /**
+     * Builds a LOCs state from chain storage only. Authentication is not required and
+     * legal officer nodes are not called, off-chain only data are marked as unavailable.
+     *
+     * @param params The requester whose LOCs are read, defaults to current address.
+     * @returns A read-only LOCs state.
+     */
+    async readOnlyLocsState(params?: ReadOnlyLocsParams): Promise<LocsState> {
+        this.ensureConnected();
+        return LocsState.getReadOnlyLocsState(this.sharedState, this, params);
+    }
+
     get public(): PublicApi {
         this.ensureConnected();
         return this._public;
@@ -364,6 +561,21 @@ export class LogionClient {
         });
     }
 
+    /**
+     * Subscribes to logionLoc pallet events.
+     *
+     * @param params the callback and, optionally, the LOCs state to refresh on change.
+     * @returns a function cancelling the subscription.
+     */
+    async subscribe(params: SubscribeParams): Promise<Unsubscribe> {
+        this.ensureConnected();
+        return subscribeToLocEvents({
+            ...params,
+            api: this.sharedState.nodeApi,
+            locCache: this.sharedState.locCache,
+        });
+    }
+
     sponsorshipState(sponsorshipId: UUID): Promise<SponsorshipState> {
         return SponsorshipState.getState({
             sharedState: this.sharedState,
@@ -387,3 +599,10 @@ function getComponentFactory(config: LogionClientConfig): ComponentFactory {
 
     return componentFactory
 }
+
+function sharesToken(tokens: AccountTokens, otherTokens: AccountTokens): boolean {
+    return tokens.addresses.some(address => {
+        const token = tokens.get(address);
+        return token !== undefined && otherTokens.get(address)?.value === token.value;
+    });
+}
@@ -0,0 +1,166 @@
+import { Hash as Hasher } from 'fast-sha256';
+import { Hash } from "@logion/node-api";
+import { HexString } from "@polkadot/util/types";
+
+import { AddMetadataParams } from "./LocClient.js";
+
+/**
+ * The default name of the metadata item anchoring a Merkle root.
+ */
+export const MERKLE_ROOT_METADATA_NAME = "Merkle Root";
+
+export interface MerkleProofStep {
+    /**
+     * The hash of the sibling node.
+     */
+    hash: HexString;
+    /**
+     * The position of the sibling node.
+     */
+    position: "left" | "right";
+}
+
+/**
+ * The path from a leaf to the root, JSON-serializable so that it can be shared with verifiers.
+ */
+export interface MerkleProof {
+    steps: MerkleProofStep[];
+}
+
+/**
+ * A binary Merkle tree using SHA-256. Leaves and inner nodes are hashed with a different prefix
+ * so that an inner node cannot be presented as a leaf. A node without sibling is moved up as is.
+ */
+export class MerkleTree {
+
+    /**
+     * Builds a tree whose leaves are the item IDs and the file hashes of given collection items.
+     * The order of items must be preserved in order to get the same root.
+     */
+    static fromCollectionItems(items: { id: Hash, files: { hash: Hash }[] }[]): MerkleTree {
+        const leaves: Hash[] = [];
+        for(const item of items) {
+            leaves.push(item.id);
+            item.files.forEach(file => leaves.push(file.hash));
+        }
+        return MerkleTree.build(leaves);
+    }
+
+    static build(leaves: Hash[]): MerkleTree {
+        if(leaves.length === 0) {
+            throw new Error("Cannot build a Merkle tree without leaves");
+        }
+        const levels: Hash[][] = [ leaves.map(leafHash) ];
+        let level = levels[0];
+        while(level.length > 1) {
+            const nextLevel: Hash[] = [];
+            for(let i = 0; i < level.length; i += 2) {
+                if(i + 1 < level.length) {
+                    nextLevel.push(nodeHash(level[i], level[i + 1]));
+                } else {
+                    nextLevel.push(level[i]);
+                }
+            }
+            levels.push(nextLevel);
+            level = nextLevel;
+        }
+        return new MerkleTree(leaves, levels);
+    }
+
+    private constructor(leaves: Hash[], levels: Hash[][]) {
+        this.levels = levels;
+        this.leafIndex = new Map();
+        leaves.forEach((leaf, index) => {
+            const hex = leaf.toHex();
+            if(!this.leafIndex.has(hex)) {
+                this.leafIndex.set(hex, index);
+            }
+        });
+    }
+
+    private readonly levels: Hash[][];
+
+    private readonly leafIndex: Map<HexString, number>;
+
+    get root(): Hash {
+        return this.levels[this.levels.length - 1][0];
+    }
+
+    get size(): number {
+        return this.levels[0].length;
+    }
+
+    contains(leaf: Hash): boolean {
+        return this.leafIndex.has(leaf.toHex());
+    }
+
+    proof(leaf: Hash): MerkleProof {
+        let index = this.leafIndex.get(leaf.toHex());
+        if(index === undefined) {
+            throw new Error(`Leaf ${ leaf.toHex() } not found`);
+        }
+        const steps: MerkleProofStep[] = [];
+        for(let i = 0; i < this.levels.length - 1; ++i) {
+            const level = this.levels[i];
+            const isRight = index % 2 === 1;
+            const siblingIndex = isRight ? index - 1 : index + 1;
+            if(siblingIndex < level.length) {
+                steps.push({
+                    hash: level[siblingIndex].toHex(),
+                    position: isRight ? "left" : "right",
+                });
+            }
+            index = Math.floor(index / 2);
+        }
+        return { steps };
+    }
+
+    /**
+     * @returns the parameters of the metadata item anchoring the root of this tree in a LOC.
+     */
+    toMetadata(name = MERKLE_ROOT_METADATA_NAME): AddMetadataParams {
+        return {
+            name,
+            value: this.root.toHex(),
+        };
+    }
+
+    /**
+     * Computes the root implied by given leaf and proof.
+     */
+    static computeRoot(leaf: Hash, proof: MerkleProof): Hash {
+        let hash = leafHash(leaf);
+        for(const step of proof.steps) {
+            const sibling = Hash.fromHex(step.hash);
+            if(step.position === "left") {
+                hash = nodeHash(sibling, hash);
+            } else {
+                hash = nodeHash(hash, sibling);
+            }
+        }
+        return hash;
+    }
+
+    static verify(leaf: Hash, proof: MerkleProof, root: Hash): boolean {
+        return MerkleTree.computeRoot(leaf, proof).equalTo(root);
+    }
+}
+
+const LEAF_PREFIX = new Uint8Array([ 0 ]);
+
+const NODE_PREFIX = new Uint8Array([ 1 ]);
+
+function leafHash(leaf: Hash): Hash {
+    const digest = new Hasher();
+    digest.update(LEAF_PREFIX);
+    digest.update(leaf.bytes);
+    return Hash.fromDigest(digest);
+}
+
+function nodeHash(left: Hash, right: Hash): Hash {
+    const digest = new Hasher();
+    digest.update(NODE_PREFIX);
+    digest.update(left.bytes);
+    digest.update(right.bytes);
+    return Hash.fromDigest(digest);
+}
@@ -0,0 +1,174 @@
+import {
+    CoinBalance,
+    MultisigOperation,
+} from "@logion/node-api";
+import type { SubmittableExtrinsic } from '@polkadot/api/promise/types';
+
+import { getDefinedCurrentAddress, SharedState } from "./SharedClient.js";
+import { SignCallback, Signer } from "./Signer.js";
+import { State } from "./State.js";
+
+export interface MultisigParams {
+    signatories: string[];
+    /**
+     * The number of approvals required to dispatch a call, at least 2.
+     */
+    threshold: number;
+}
+
+export interface MultisigSharedState extends SharedState, MultisigParams {
+    readonly pendingOperations: MultisigOperation[];
+    readonly balances: CoinBalance[];
+}
+
+export interface ProposeMultisigCallParams {
+    /**
+     * The call to dispatch with the multisig as origin, once approved by enough signatories.
+     */
+    call: SubmittableExtrinsic;
+    signer: Signer;
+    callback?: SignCallback;
+}
+
+export interface ApproveMultisigOperationParams extends ProposeMultisigCallParams {
+    operation: MultisigOperation;
+}
+
+export interface CancelMultisigOperationParams {
+    operation: MultisigOperation;
+    signer: Signer;
+    callback?: SignCallback;
+}
+
+export async function getMultisigState(sharedState: SharedState, params: MultisigParams): Promise<MultisigState> {
+    const { signatories, threshold } = params;
+    const multisig = sharedState.nodeApi.multisig(signatories, threshold);
+    const pendingOperations = await sharedState.nodeApi.queries.getMultisigOperations(multisig.address);
+    const balances = await sharedState.nodeApi.queries.getCoinBalances(multisig.address);
+    return new MultisigState({
+        ...sharedState,
+        signatories: multisig.signatories,
+        threshold,
+        pendingOperations,
+        balances,
+    });
+}
+
+/**
+ * A multisig account, shared by its signatories. Calls are dispatched with the multisig as origin
+ * once approved by a threshold of signatories.
+ */
+export class MultisigState extends State {
+
+    constructor(state: MultisigSharedState) {
+        super();
+        this.sharedState = state;
+    }
+
+    private sharedState: MultisigSharedState;
+
+    get address(): string {
+        this.ensureCurrent();
+        return this.multisig().address;
+    }
+
+    private multisig() {
+        return this.sharedState.nodeApi.multisig(this.sharedState.signatories, this.sharedState.threshold);
+    }
+
+    get signatories(): string[] {
+        this.ensureCurrent();
+        return this.sharedState.signatories;
+    }
+
+    get threshold(): number {
+        this.ensureCurrent();
+        return this.sharedState.threshold;
+    }
+
+    get pendingOperations(): MultisigOperation[] {
+        this.ensureCurrent();
+        return this.sharedState.pendingOperations;
+    }
+
+    get balances(): CoinBalance[] {
+        this.ensureCurrent();
+        return this.sharedState.balances;
+    }
+
+    /**
+     * Creates a new operation, current address' approval is the first one.
+     */
+    async propose(params: ProposeMultisigCallParams): Promise<MultisigState> {
+        return this.discardOnSuccess(() => this._propose(params));
+    }
+
+    private async _propose(params: ProposeMultisigCallParams): Promise<MultisigState> {
+        const { call, signer, callback } = params;
+        const callHash = call.method.hash.toHex();
+        if(this.sharedState.pendingOperations.find(operation => operation.callHash === callHash)) {
+            throw new Error("A similar operation is already pending");
+        }
+        const signerId = getDefinedCurrentAddress(this.sharedState).address;
+        await signer.signAndSend({
+            signerId,
+            submittable: await this.multisig().tx.asMulti({ signerId, call }),
+            callback,
+        });
+        return this._refresh();
+    }
+
+    /**
+     * Approves a pending operation. The call must be provided again as only its hash is stored on-chain.
+     * If the approval reaches the threshold, the call is dispatched.
+     */
+    async approve(params: ApproveMultisigOperationParams): Promise<MultisigState> {
+        return this.discardOnSuccess(() => this._approve(params));
+    }
+
+    private async _approve(params: ApproveMultisigOperationParams): Promise<MultisigState> {
+        const { operation, call, signer, callback } = params;
+        if(call.method.hash.toHex() !== operation.callHash) {
+            throw new Error("Call does not match operation");
+        }
+        const signerId = getDefinedCurrentAddress(this.sharedState).address;
+        if(operation.approvals.includes(signerId)) {
+            throw new Error("Operation already approved by current address");
+        }
+        await signer.signAndSend({
+            signerId,
+            submittable: await this.multisig().tx.asMulti({ signerId, call, timepoint: operation.when }),
+            callback,
+        });
+        return this._refresh();
+    }
+
+    /**
+     * Cancels a pending operation, current address must be the operation's depositor.
+     */
+    async cancel(params: CancelMultisigOperationParams): Promise<MultisigState> {
+        return this.discardOnSuccess(() => this._cancel(params));
+    }
+
+    private async _cancel(params: CancelMultisigOperationParams): Promise<MultisigState> {
+        const { operation, signer, callback } = params;
+        const signerId = getDefinedCurrentAddress(this.sharedState).address;
+        if(operation.depositor !== signerId) {
+            throw new Error("Only the depositor can cancel the operation");
+        }
+        await signer.signAndSend({
+            signerId,
+            submittable: this.multisig().tx.cancelAsMulti({ signerId, callHash: operation.callHash, timepoint: operation.when }),
+            callback,
+        });
+        return this._refresh();
+    }
+
+    private async _refresh(): Promise<MultisigState> {
+        return getMultisigState(this.sharedState, this.sharedState);
+    }
+
+    async refresh(): Promise<MultisigState> {
+        return this.discardOnSuccess(() => this._refresh());
+    }
+}
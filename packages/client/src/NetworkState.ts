@@ -1,15 +1,54 @@
 import { arrayEquals } from "./Collections.js";
 import { Endpoint } from "./Http.js";
 
+export interface NetworkStateOptions {
+    /**
+     * The number of consecutive failures after which a node's circuit opens i.e. requests are
+     * not routed to the node anymore until its retry delay expires. Defaults to 1.
+     */
+    failureThreshold?: number;
+    /**
+     * The delay, in milliseconds, before a node is retried after its circuit opened. The delay doubles with each
+     * additional failure. Defaults to 5 seconds.
+     */
+    initialRetryDelay?: number;
+    /**
+     * The maximum delay, in milliseconds, before a node is retried. Defaults to 5 minutes.
+     */
+    maxRetryDelay?: number;
+}
+
+export interface NodeHealth {
+    readonly consecutiveFailures: number;
+    readonly lastFailure?: number;
+    /**
+     * The timestamp after which the node may be retried, undefined if the node is healthy.
+     */
+    readonly retryAt?: number;
+}
+
+/**
+ * Tells if a node is healthy. The probe should reject if the node is unhealthy.
+ */
+export type HealthProbe<E extends Endpoint> = (endpoint: E) => Promise<void>;
+
+const DEFAULT_FAILURE_THRESHOLD = 1;
+const DEFAULT_INITIAL_RETRY_DELAY = 5000;
+const DEFAULT_MAX_RETRY_DELAY = 300000;
+
 export class NetworkState<E extends Endpoint> {
 
     static allUp<E extends Endpoint>(nodesUp: E[]): NetworkState<E> {
         return new NetworkState(nodesUp, []);
     }
 
-    constructor(nodesUp: E[], nodesDown: E[]) {
+    constructor(nodesUp: E[], nodesDown: E[], options?: NetworkStateOptions) {
         this._nodesUp = nodesUp;
         this._nodesDown = nodesDown;
+        this.failureThreshold = options?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+        this.initialRetryDelay = options?.initialRetryDelay ?? DEFAULT_INITIAL_RETRY_DELAY;
+        this.maxRetryDelay = options?.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+        this.health = new Map();
     }
 
     private _nodesUp: E[];
@@ -24,11 +63,112 @@ export class NetworkState<E extends Endpoint> {
         return this._nodesDown;
     }
 
+    private readonly failureThreshold: number;
+
+    private readonly initialRetryDelay: number;
+
+    private readonly maxRetryDelay: number;
+
+    private health: Map<string, NodeHealth>;
+
+    /**
+     * Replaces the nodes up and down, recording a failure for each available node now down.
+     */
     update(params: { nodesUp: E[], nodesDown: E[] }) {
+        this.record(params);
         this._nodesUp = params.nodesUp;
         this._nodesDown = params.nodesDown;
     }
 
+    /**
+     * Records the outcome of requests sent to a subset of the nodes.
+     */
+    record(params: { nodesUp: E[], nodesDown: E[] }) {
+        params.nodesDown
+            .filter(endpoint => this.isAvailable(endpoint))
+            .forEach(endpoint => this.recordFailure(endpoint));
+        params.nodesUp.forEach(endpoint => this.recordSuccess(endpoint));
+    }
+
+    recordSuccess(endpoint: E) {
+        this.health.delete(endpoint.url);
+        this._nodesDown = this._nodesDown.filter(node => node.url !== endpoint.url);
+        if(!this._nodesUp.find(node => node.url === endpoint.url)) {
+            this._nodesUp = this._nodesUp.concat([ endpoint ]);
+        }
+    }
+
+    recordFailure(endpoint: E) {
+        const now = Date.now();
+        const consecutiveFailures = (this.health.get(endpoint.url)?.consecutiveFailures || 0) + 1;
+        let retryAt: number | undefined;
+        if(consecutiveFailures >= this.failureThreshold) {
+            const delay = this.initialRetryDelay * Math.pow(2, consecutiveFailures - this.failureThreshold);
+            retryAt = now + Math.min(delay, this.maxRetryDelay);
+        }
+        this.health.set(endpoint.url, {
+            consecutiveFailures,
+            lastFailure: now,
+            retryAt,
+        });
+        this._nodesUp = this._nodesUp.filter(node => node.url !== endpoint.url);
+        if(!this._nodesDown.find(node => node.url === endpoint.url)) {
+            this._nodesDown = this._nodesDown.concat([ endpoint ]);
+        }
+    }
+
+    getHealth(endpoint: E): NodeHealth {
+        return this.health.get(endpoint.url) || { consecutiveFailures: 0 };
+    }
+
+    /**
+     * A node is available if its circuit is closed or if its retry delay expired.
+     */
+    isAvailable(endpoint: E): boolean {
+        const health = this.health.get(endpoint.url);
+        if(!health) {
+            return !this._nodesDown.find(node => node.url === endpoint.url);
+        } else {
+            return health.retryAt === undefined || Date.now() >= health.retryAt;
+        }
+    }
+
+    /**
+     * The nodes requests should be routed to.
+     */
+    get availableNodes(): E[] {
+        return this._nodesUp.concat(this._nodesDown).filter(endpoint => this.isAvailable(endpoint));
+    }
+
+    /**
+     * The nodes requests should not be routed to.
+     */
+    get unavailableNodes(): E[] {
+        return this._nodesUp.concat(this._nodesDown).filter(endpoint => !this.isAvailable(endpoint));
+    }
+
+    /**
+     * Probes available nodes and records the outcome. Nodes waiting for their retry delay to expire are not probed.
+     */
+    async checkHealth(probe: HealthProbe<E>): Promise<void> {
+        const nodes = this.availableNodes;
+        const results = await Promise.allSettled(nodes.map(endpoint => probe(endpoint)));
+        for(let i = 0; i < results.length; ++i) {
+            if(results[i].status === "fulfilled") {
+                this.recordSuccess(nodes[i]);
+            } else {
+                this.recordFailure(nodes[i]);
+            }
+        }
+    }
+
+    /**
+     * Copies the health of the nodes tracked by another state.
+     */
+    inheritHealth(otherState: NetworkState<E>) {
+        this.health = new Map(otherState.health);
+    }
+
     equals(otherState: NetworkState<E>): boolean {
         return arrayEquals(this._nodesUp.map(endpoint => endpoint.url), otherState._nodesUp.map(endpoint => endpoint.url))
             && arrayEquals(this._nodesDown.map(endpoint => endpoint.url), otherState._nodesDown.map(endpoint => endpoint.url));
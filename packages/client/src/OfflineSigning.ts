@@ -0,0 +1,133 @@
+import { LogionNodeApiClass } from "@logion/node-api";
+import type { Signer as PolkadotSigner } from "@polkadot/api/types";
+import type { SubmittableExtrinsic } from "@polkadot/api/promise/types";
+import type { SignerPayloadJSON } from "@polkadot/types/types";
+
+import { requireDefined } from "./assertions.js";
+import {
+    BaseSigner,
+    nonceOptions,
+    SignAndSendFunction,
+    SignAndSendStrategy,
+    SignCallback,
+    SignParameters,
+    SuccessfulSubmission,
+    TypedSignature,
+} from "./Signer.js";
+
+/**
+ * An extrinsic ready to be signed on an air-gapped machine. The payload is JSON-serializable
+ * and contains all the data to sign (method, era, nonce, genesis hash, spec and transaction versions, etc.).
+ */
+export interface UnsignedTransaction {
+    payload: SignerPayloadJSON;
+}
+
+export interface SignedTransaction extends UnsignedTransaction {
+    /**
+     * The hex-encoded signature, prefixed with the key type (see MultiSignature).
+     */
+    signature: string;
+}
+
+export interface ExportUnsignedTransactionParams {
+    signerId: string;
+    submittable: SubmittableExtrinsic;
+    /**
+     * The number of blocks the transaction remains valid, 0 for an immortal transaction which can be broadcast
+     * at any time. Defaults to the chain's default (a few minutes).
+     */
+    mortalityPeriod?: number;
+}
+
+class PayloadCaptured extends Error {
+}
+
+/**
+ * Exports the payload of given submittable, without signing it. Must be called online in order to fetch
+ * the nonce, era and chain versions.
+ */
+export async function exportUnsignedTransaction(params: ExportUnsignedTransactionParams): Promise<UnsignedTransaction> {
+    const { signerId, submittable, mortalityPeriod } = params;
+    let payload: SignerPayloadJSON | undefined;
+    const signer: PolkadotSigner = {
+        signPayload: async capturedPayload => {
+            payload = capturedPayload;
+            throw new PayloadCaptured();
+        }
+    };
+    try {
+        await submittable.signAsync(signerId, { signer, era: mortalityPeriod });
+    } catch(e) {
+        if(!(e instanceof PayloadCaptured)) {
+            throw e;
+        }
+    }
+    return { payload: requireDefined(payload) };
+}
+
+/**
+ * Submits a transaction signed offline.
+ */
+export async function broadcastSignedTransaction(params: {
+    api: LogionNodeApiClass,
+    transaction: SignedTransaction,
+    callback?: SignCallback,
+}): Promise<SuccessfulSubmission> {
+    const { api, transaction, callback } = params;
+    const { payload, signature } = transaction;
+    const call = api.polkadot.createType("Call", payload.method);
+    const submittable = api.polkadot.tx(call);
+    submittable.addSignature(payload.address, signature as `0x${ string }`, payload);
+    return new SignedTransactionBroadcaster().signAndSend({
+        signerId: payload.address,
+        submittable,
+        callback,
+    });
+}
+
+class SignedTransactionBroadcaster extends BaseSigner {
+
+    async signToHex(): Promise<TypedSignature> {
+        throw new Error("Broadcaster cannot sign");
+    }
+
+    async buildSignAndSendFunction(parameters: SignParameters): Promise<SignAndSendFunction> {
+        return statusCallback => parameters.submittable.send(statusCallback);
+    }
+}
+
+export type OfflineSignatureProvider = (transaction: UnsignedTransaction) => Promise<SignedTransaction>;
+
+/**
+ * A signer sending each extrinsic payload to an air-gapped machine, e.g. through QR codes.
+ * It enables offline signing for submittables built by the SDK (LOCs, vault, balance, etc.).
+ */
+export class OfflineSigner extends BaseSigner {
+
+    constructor(signatureProvider: OfflineSignatureProvider, signAndSendStrategy?: SignAndSendStrategy) {
+        super(signAndSendStrategy);
+        this.signatureProvider = signatureProvider;
+    }
+
+    private readonly signatureProvider: OfflineSignatureProvider;
+
+    private nextId = 0;
+
+    async signToHex(): Promise<TypedSignature> {
+        throw new Error("Offline signer does not support raw signatures");
+    }
+
+    async buildSignAndSendFunction(parameters: SignParameters): Promise<SignAndSendFunction> {
+        const signer: PolkadotSigner = {
+            signPayload: async payload => {
+                const { signature } = await this.signatureProvider({ payload });
+                return {
+                    id: ++this.nextId,
+                    signature: signature as `0x${ string }`,
+                };
+            }
+        };
+        return statusCallback => parameters.submittable.signAndSend(parameters.signerId, { signer, ...nonceOptions(parameters) }, statusCallback);
+    }
+}
@@ -12,7 +12,17 @@ import {
     GetTokensRecordsRequest
 } from "./LocClient.js";
 import { SharedState } from "./SharedClient.js";
+import { MerkleProof, MerkleTree, MERKLE_ROOT_METADATA_NAME } from "./MerkleTree.js";
 import { TokensRecord } from "./TokensRecord.js";
+import {
+    buildVerificationBundle,
+    BundleVerificationResult,
+    verifyBundle,
+    VerificationBundle
+} from "./VerificationBundle.js";
+import { requireDefined } from "./assertions.js";
+import { buildLocGraph, LocGraph } from "./LocGraph.js";
+import { ReplacementChain, resolveReplacementChain } from "./ReplacementChain.js";
 
 export class PublicApi {
 
@@ -27,18 +37,43 @@ export class PublicApi {
 
     readonly fees: FeesEstimator;
 
-    async findLocById(params: FetchParameters): Promise<PublicLoc | undefined> {
-        const locAndClient = await this.getLocAndClient(params);
+    /**
+     * @param params If `followReplacements` is true and requested LOC was voided and replaced,
+     * the latest replacer is returned instead and {@link PublicLoc.redirected} is true.
+     */
+    async findLocById(params: FetchParameters & { followReplacements?: boolean }): Promise<PublicLoc | undefined> {
+        const replacementChain = params.followReplacements ? await resolveReplacementChain({
+            api: this.sharedState.nodeApi,
+            locId: params.locId,
+            locCache: this.sharedState.locCache,
+        }) : undefined;
+        const locId = replacementChain ? replacementChain.current.id : params.locId;
+        const locAndClient = await this.getLocAndClient({ locId });
         if(!locAndClient) {
             return undefined;
         }
         const { loc, client } = locAndClient;
 
-        const locRequest = await client.getLocRequest(params);
+        const locRequest = await client.getLocRequest({ locId });
         const data = LocRequestState.buildLocData(this.sharedState.nodeApi, loc, locRequest, EMPTY_LOC_ISSUERS);
         return new PublicLoc({
             data,
             client,
+            legalOfficerCase: loc,
+            replacementChain: replacementChain && replacementChain.history.length > 1 ? replacementChain : undefined,
+        });
+    }
+
+    /**
+     * @param params The root LOC and the depth limit, defaults to {@link DEFAULT_LOC_GRAPH_MAX_DEPTH}.
+     * @returns The graph of the LOCs related to given LOC, built from chain data.
+     */
+    async getLocGraph(params: FetchParameters & { maxDepth?: number }): Promise<LocGraph> {
+        return buildLocGraph({
+            api: this.sharedState.nodeApi,
+            roots: [ params.locId ],
+            maxDepth: params.maxDepth,
+            locCache: this.sharedState.locCache,
         });
     }
 
@@ -55,6 +90,7 @@ export class PublicApi {
             axiosFactory: this.sharedState.axiosFactory,
             nodeApi: this.sharedState.nodeApi,
             legalOfficer,
+            locCache: this.sharedState.locCache,
         });
         return {
             loc,
@@ -90,6 +126,19 @@ export class PublicApi {
             jwtToken,
         })
     }
+
+    /**
+     * Verifies an exported bundle. If no chain snapshot is provided, the LOC is fetched
+     * from the chain.
+     */
+    async verifyBundle(params: { bundle: VerificationBundle, snapshot?: LegalOfficerCase }): Promise<BundleVerificationResult> {
+        const { bundle } = params;
+        const snapshot = params.snapshot || await LocMultiClient.getLoc({
+            locId: new UUID(bundle.loc.id),
+            api: this.sharedState.nodeApi,
+        });
+        return verifyBundle(bundle, snapshot);
+    }
 }
 
 export class PublicLoc {
@@ -97,19 +146,37 @@ export class PublicLoc {
     constructor(args: {
         data: LocData,
         client: PublicLocClient,
+        legalOfficerCase?: LegalOfficerCase,
+        replacementChain?: ReplacementChain,
     }) {
         this._data = args.data;
         this.client = args.client;
+        this.legalOfficerCase = args.legalOfficerCase;
+        this.replacementChain = args.replacementChain;
     }
 
     private readonly _data: LocData;
 
     private readonly client: PublicLocClient;
 
+    private readonly legalOfficerCase?: LegalOfficerCase;
+
+    /**
+     * Defined only if this LOC is the latest replacer of the requested LOC, the first entry being the requested LOC.
+     */
+    readonly replacementChain?: ReplacementChain;
+
     get data(): LocData {
         return this._data;
     }
 
+    /**
+     * True if this is not the requested LOC but its latest replacer (see {@link PublicApi.findLocById}).
+     */
+    get redirected(): boolean {
+        return this.replacementChain !== undefined;
+    }
+
     async checkHash(hash: Hash, itemId?: Hash): Promise<CheckHashResult> {
         const result = LocRequestState.checkHash(this._data, hash);
         let collectionItem = undefined;
@@ -136,6 +203,27 @@ export class PublicLoc {
         };
     }
 
+    /**
+     * Checks that given hash (a collection item ID or file hash) is a leaf of the Merkle tree
+     * whose root is anchored in this LOC's on-chain metadata, no backend is trusted.
+     *
+     * @throws If this LOC's on-chain data are not available.
+     */
+    checkMerkleProof(hash: Hash, proof: MerkleProof, metadataName = MERKLE_ROOT_METADATA_NAME): boolean {
+        const legalOfficerCase = requireDefined(this.legalOfficerCase, () => new Error("On-chain LOC data are required to check a Merkle proof"));
+        const root = MerkleTree.computeRoot(hash, proof).toHex();
+        const nameHash = Hash.of(metadataName);
+        const valueHash = Hash.of(root);
+        return legalOfficerCase.metadata.some(item => item.name.equalTo(nameHash) && item.value.equalTo(valueHash));
+    }
+
+    exportVerificationBundle(): VerificationBundle {
+        if(!this._data.closed) {
+            throw new Error("Only closed LOCs can be exported");
+        }
+        return buildVerificationBundle(this._data, requireDefined(this.legalOfficerCase));
+    }
+
     isLogionIdentityLoc(): boolean {
         return this._data.locType === "Identity" && !this._data.requesterAddress && !this._data.requesterLocId;
     }
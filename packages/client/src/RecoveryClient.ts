@@ -1,7 +1,8 @@
-import { LogionNodeApiClass, TypesRecoveryConfig } from "@logion/node-api";
+import { LogionNodeApiClass, TypesRecoveryConfig, UUID } from "@logion/node-api";
 import { AxiosInstance } from "axios";
 
 import { AxiosFactory } from "./AxiosFactory.js";
+import { newBackendError } from "./Error.js";
 import { aggregateArrays, MultiSourceHttpClient, initMultiSourceHttpClientState } from "./Http.js";
 import { NetworkState } from "./NetworkState.js";
 import { LegalOfficerEndpoint } from "./SharedClient.js";
@@ -40,6 +41,7 @@ export type ProtectionRequestKind = 'RECOVERY' | 'PROTECTION_ONLY' | 'ANY';
 
 export interface FetchProtectionRequestSpecification {
     requesterAddress?: string,
+    legalOfficerAddress?: string,
     kind: ProtectionRequestKind,
     statuses?: ProtectionRequestStatus[],
 }
@@ -63,6 +65,12 @@ export interface FetchAllResult {
     recoveredAddress: string | undefined;
 }
 
+export interface LegalOfficerFetchAllResult {
+    pendingProtectionRequests: ProtectionRequest[];
+    acceptedProtectionRequests: ProtectionRequest[];
+    rejectedProtectionRequests: ProtectionRequest[];
+}
+
 export interface UserActionParameters {
     id: string,
 }
@@ -71,6 +79,14 @@ export interface UpdateParameters {
     otherLegalOfficer: LegalOfficer
 }
 
+export interface AcceptParameters {
+    identityLocId: UUID,
+}
+
+export interface RejectParameters {
+    reason: string,
+}
+
 export class RecoveryClient {
 
     constructor(params: {
@@ -116,13 +132,8 @@ export class RecoveryClient {
         const rejectedProtectionRequests = this.filterByStatuses(allRequests, [ "REJECTED" ]);
         const cancelledProtectionRequests = this.filterByStatuses(allRequests, [ "CANCELLED", "REJECTED_CANCELLED", "ACCEPTED_CANCELLED" ]);
 
-        if (legalOfficers === undefined) {
-            const newState = multiClient.getState();
-            this.networkState.update({
-                nodesUp: newState.nodesUp,
-                nodesDown: newState.nodesDown
-            });
-        }
+        // Only the queried nodes are recorded, the health of the nodes of other legal officers is unchanged
+        this.networkState.record(multiClient.getState());
 
         const recoveryConfig = await this.nodeApi.queries.getRecoveryConfig(this.currentAddress);
         const recoveredAddress = await this.nodeApi.queries.getProxy(this.currentAddress);
@@ -141,8 +152,12 @@ export class RecoveryClient {
         axios: AxiosInstance,
         specification: FetchProtectionRequestSpecification
     ): Promise<ProtectionRequest[]> {
-        const response = await axios.put("/api/protection-request", specification);
-        return response.data.requests;
+        try {
+            const response = await axios.put("/api/protection-request", specification);
+            return response.data.requests;
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     private filterByStatuses(requests: ProtectionRequest[], statuses: ProtectionRequestStatus[]): ProtectionRequest[] {
@@ -169,6 +184,23 @@ export class RecoveryClient {
         }));
         return aggregateArrays(result);
     }
+
+    /**
+     * Fetches the protection and recovery requests submitted to given legal officer by all users.
+     */
+    async fetchAllOfLegalOfficer(legalOfficer: LegalOfficer): Promise<LegalOfficerFetchAllResult> {
+        const axios = this.axiosFactory.buildAxiosInstance(legalOfficer.node, this.token);
+        const allRequests = await this.fetchProtectionRequests(axios, {
+            legalOfficerAddress: legalOfficer.address,
+            statuses: [ "PENDING", "ACCEPTED", "ACTIVATED", "REJECTED" ],
+            kind: "ANY",
+        });
+        return {
+            pendingProtectionRequests: this.filterByStatuses(allRequests, [ "PENDING" ]),
+            acceptedProtectionRequests: this.filterByStatuses(allRequests, [ "ACCEPTED", "ACTIVATED" ]),
+            rejectedProtectionRequests: this.filterByStatuses(allRequests, [ "REJECTED" ]),
+        };
+    }
 }
 
 export class LoRecoveryClient {
@@ -188,25 +220,63 @@ export class LoRecoveryClient {
     private readonly legalOfficer: LegalOfficer;
 
     async createProtectionRequest(request: CreateProtectionRequest): Promise<ProtectionRequest> {
-        const response = await this.backend().post("/api/protection-request", request);
-        return response.data;
+        try {
+            const response = await this.backend().post("/api/protection-request", request);
+            return response.data;
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     async resubmit(params: UserActionParameters): Promise<void> {
         const { id } = params;
-        return this.backend().post(`/api/protection-request/${ id }/resubmit`)
+        try {
+            await this.backend().post(`/api/protection-request/${ id }/resubmit`);
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     async cancel(params: UserActionParameters): Promise<void> {
         const { id } = params;
-        return this.backend().post(`/api/protection-request/${ id }/cancel`)
+        try {
+            await this.backend().post(`/api/protection-request/${ id }/cancel`);
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     async update(params: UserActionParameters & UpdateParameters): Promise<void> {
         const { id, otherLegalOfficer } = params;
-        return this.backend().put(`/api/protection-request/${ id }/update`, {
-            otherLegalOfficerAddress: otherLegalOfficer.address
-        })
+        try {
+            await this.backend().put(`/api/protection-request/${ id }/update`, {
+                otherLegalOfficerAddress: otherLegalOfficer.address
+            });
+        } catch(e) {
+            throw newBackendError(e);
+        }
+    }
+
+    async accept(params: UserActionParameters & AcceptParameters): Promise<void> {
+        const { id, identityLocId } = params;
+        try {
+            await this.backend().post(`/api/protection-request/${ id }/accept`, {
+                locId: identityLocId.toString()
+            });
+        } catch(e) {
+            throw newBackendError(e);
+        }
+    }
+
+    async reject(params: UserActionParameters & RejectParameters): Promise<void> {
+        const { id, reason } = params;
+        try {
+            await this.backend().post(`/api/protection-request/${ id }/reject`, {
+                reason
+            });
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     private backend(): AxiosInstance {
@@ -0,0 +1,160 @@
+import { ValidAccountId } from "@logion/node-api";
+import type { Signer as PolkadotSigner, SignerResult } from "@polkadot/api/types";
+import type { SignerPayloadJSON } from "@polkadot/types/types";
+import { Registry } from "@polkadot/types-codec/types";
+import { hexToU8a, u8aConcat, u8aToHex } from "@polkadot/util";
+
+import { AxiosFactory } from "./AxiosFactory.js";
+import { BaseSigner, DryRunFunction, nonceOptions, SignAndSendFunction, SignAndSendStrategy, SignParameters, TypedSignature } from "./Signer.js";
+
+export type RemoteKeyType = "ed25519" | "sr25519" | "ecdsa";
+
+export interface RemoteSignRequest {
+    /**
+     * The SS58 address of the account whose key must be used.
+     */
+    address: string;
+    /**
+     * The hex-encoded bytes to sign.
+     */
+    payload: string;
+}
+
+export interface RemoteSignResponse {
+    /**
+     * The hex-encoded signature.
+     */
+    signature: string;
+    type: RemoteKeyType;
+}
+
+/**
+ * Signs raw payloads with keys kept outside of the application e.g. in an HSM or a KMS.
+ */
+export interface RemoteSigningService {
+    sign(request: RemoteSignRequest): Promise<RemoteSignResponse>;
+}
+
+/**
+ * Sends requests to a signing service exposing a POST /sign resource.
+ */
+export class HttpRemoteSigningService implements RemoteSigningService {
+
+    constructor(endpoint: string, token?: string, axiosFactory?: AxiosFactory) {
+        this.endpoint = endpoint;
+        this.token = token;
+        this.axiosFactory = axiosFactory || new AxiosFactory();
+    }
+
+    private readonly endpoint: string;
+
+    private readonly token?: string;
+
+    private readonly axiosFactory: AxiosFactory;
+
+    async sign(request: RemoteSignRequest): Promise<RemoteSignResponse> {
+        const axios = this.axiosFactory.buildAxiosInstance(this.endpoint, this.token);
+        const response = await axios.post("/sign", request);
+        return response.data;
+    }
+}
+
+/**
+ * Runs a command for each request, the request is written as JSON to its standard input and the response
+ * is read as JSON from its standard output. Node.js only.
+ */
+export class CommandRemoteSigningService implements RemoteSigningService {
+
+    constructor(command: string, args?: string[]) {
+        this.command = command;
+        this.args = args || [];
+    }
+
+    private readonly command: string;
+
+    private readonly args: string[];
+
+    async sign(request: RemoteSignRequest): Promise<RemoteSignResponse> {
+        const childProcess = await import('child_process');
+        return new Promise((resolve, reject) => {
+            const child = childProcess.spawn(this.command, this.args);
+            let stdout = "";
+            let stderr = "";
+            child.stdout.on("data", data => stdout += data);
+            child.stderr.on("data", data => stderr += data);
+            child.on("error", reject);
+            child.on("close", code => {
+                if(code === 0) {
+                    try {
+                        resolve(JSON.parse(stdout));
+                    } catch(e) {
+                        reject(e);
+                    }
+                } else {
+                    reject(new Error(`Signing command exited with code ${ code }: ${ stderr }`));
+                }
+            });
+            child.stdin.end(JSON.stringify(request));
+        });
+    }
+}
+
+const MULTI_SIGNATURE_PREFIX: Record<RemoteKeyType, number> = {
+    ed25519: 0,
+    sr25519: 1,
+    ecdsa: 2,
+};
+
+/**
+ * A signer delegating signatures to a {@link RemoteSigningService}. Extrinsics are signed by building their payload
+ * locally, the signature being injected back using polkadot's `signer.signPayload`.
+ */
+export class RemoteSigner extends BaseSigner {
+
+    constructor(service: RemoteSigningService, signAndSendStrategy?: SignAndSendStrategy) {
+        super(signAndSendStrategy);
+        this.service = service;
+    }
+
+    private readonly service: RemoteSigningService;
+
+    private nextId = 0;
+
+    async signToHex(signerId: ValidAccountId, message: string): Promise<TypedSignature> {
+        const { signature } = await this.service.sign({
+            address: signerId.address,
+            payload: message,
+        });
+        return { signature, type: "POLKADOT" };
+    }
+
+    async buildSignAndSendFunction(parameters: SignParameters): Promise<SignAndSendFunction> {
+        const signer = this.buildPolkadotSigner(parameters.submittable.registry);
+        return statusCallback => parameters.submittable.signAndSend(parameters.signerId, { signer, ...nonceOptions(parameters) }, statusCallback);
+    }
+
+    override async buildDryRunFunction(parameters: SignParameters): Promise<DryRunFunction> {
+        const signer = this.buildPolkadotSigner(parameters.submittable.registry);
+        return () => parameters.submittable.dryRun(parameters.signerId, { signer, ...nonceOptions(parameters) });
+    }
+
+    private buildPolkadotSigner(registry: Registry): PolkadotSigner {
+        return {
+            signPayload: (payload: SignerPayloadJSON) => this.signPayload(registry, payload),
+        };
+    }
+
+    private async signPayload(registry: Registry, payload: SignerPayloadJSON): Promise<SignerResult> {
+        const extrinsicPayload = registry.createType("ExtrinsicPayload", payload, { version: payload.version });
+        const bytes = extrinsicPayload.toU8a({ method: true });
+        const bytesToSign = bytes.length > 256 ? registry.hash(bytes) : bytes; // Same as polkadot's ExtrinsicPayload.sign
+        const { signature, type } = await this.service.sign({
+            address: payload.address,
+            payload: u8aToHex(bytesToSign),
+        });
+        return {
+            id: ++this.nextId,
+            signature: u8aToHex(u8aConcat([ MULTI_SIGNATURE_PREFIX[type] ], hexToU8a(signature))),
+        };
+    }
+}
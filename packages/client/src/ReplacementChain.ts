@@ -0,0 +1,77 @@
+import { LegalOfficerCase, LogionNodeApiClass, UUID } from "@logion/node-api";
+
+import { LocCache } from "./LocCache.js";
+import { LocMultiClient } from "./LocClient.js";
+
+export interface ReplacementChainEntry {
+    id: UUID;
+    loc: LegalOfficerCase;
+}
+
+/**
+ * The LOCs successively voided and replaced, starting with a given LOC.
+ */
+export interface ReplacementChain {
+    /**
+     * The LOCs from the given one to the current one, in replacement order.
+     */
+    history: ReplacementChainEntry[];
+    /**
+     * The last LOC of the chain. It is void only if it was voided without replacement.
+     */
+    current: ReplacementChainEntry;
+}
+
+/**
+ * Follows void replacers until a non-void LOC, or a LOC voided without replacement, is reached.
+ * Void information being final, only void LOCs are read from given cache. Other LOCs are fetched from chain
+ * so that a LOC voided after it was cached is followed.
+ *
+ * @returns The replacement chain or undefined if given LOC does not exist.
+ */
+export async function resolveReplacementChain(params: {
+    api: LogionNodeApiClass,
+    locId: UUID,
+    locCache?: LocCache,
+}): Promise<ReplacementChain | undefined> {
+    const { api, locCache } = params;
+    const history: ReplacementChainEntry[] = [];
+    const visited = new Set<string>();
+    let nextLocId: UUID | undefined = params.locId;
+    while(nextLocId) {
+        const locId: UUID = nextLocId;
+        if(visited.has(locId.toString())) {
+            throw new Error(`Replacement cycle detected at LOC ${ locId.toString() }`);
+        }
+        visited.add(locId.toString());
+
+        const loc = await getLoc({ api, locId, locCache });
+        if(!loc) {
+            if(history.length === 0) {
+                return undefined;
+            } else {
+                throw new Error(`Replacer LOC not found: ${ locId.toString() }`);
+            }
+        }
+        history.push({ id: locId, loc });
+        nextLocId = loc.voidInfo?.replacer;
+    }
+    return {
+        history,
+        current: history[history.length - 1],
+    };
+}
+
+async function getLoc(params: { api: LogionNodeApiClass, locId: UUID, locCache?: LocCache }): Promise<LegalOfficerCase | undefined> {
+    const { api, locId, locCache } = params;
+    const cached = await locCache?.getLoc(locId);
+    if(cached?.value.voidInfo) {
+        return cached.value;
+    }
+    const locBatch = await LocMultiClient.getLocBatch({ api, locIds: [ locId ] });
+    const loc: LegalOfficerCase | undefined = (await locBatch.getLocs())[locId.toDecimalString()];
+    if(cached && loc?.voidInfo) {
+        await locCache?.invalidate(locId);
+    }
+    return loc;
+}
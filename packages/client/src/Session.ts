@@ -0,0 +1,70 @@
+import { AccountType } from "@logion/node-api";
+
+import { LegalOfficerEndpoint } from "./SharedClient.js";
+import { CacheStore } from "./LocCache.js";
+
+export const SESSION_VERSION = 1;
+
+export interface SessionToken {
+    value: string;
+    expiredOn: string;
+}
+
+/**
+ * A JSON-serializable snapshot of a {@link LogionClient}'s session.
+ */
+export interface Session {
+    version: number;
+    /**
+     * Tokens indexed by account key (see ValidAccountId.toKey).
+     */
+    tokens: Record<string, SessionToken>;
+    currentAddress?: {
+        address: string;
+        type: AccountType;
+    };
+    nodesUp: LegalOfficerEndpoint[];
+    nodesDown: LegalOfficerEndpoint[];
+}
+
+export function parseSession(session: Session | string): Session {
+    const parsed: Session = typeof session === "string" ? JSON.parse(session) : session;
+    if(parsed.version !== SESSION_VERSION) {
+        throw new Error(`Unsupported session version ${ parsed.version }`);
+    }
+    return parsed;
+}
+
+const DEFAULT_SESSION_KEY = "logion-session";
+
+/**
+ * Persists a session in a key-value storage. Any {@link CacheStore} may be used e.g. {@link FileSystemCacheStore}
+ * on the server-side or {@link IndexedDbCacheStore} in a browser.
+ */
+export class SessionStore {
+
+    constructor(store: CacheStore, key = DEFAULT_SESSION_KEY) {
+        this.store = store;
+        this.key = key;
+    }
+
+    private readonly store: CacheStore;
+
+    private readonly key: string;
+
+    async save(session: Session): Promise<void> {
+        await this.store.set(this.key, JSON.stringify(session));
+    }
+
+    /**
+     * @returns the stored session, undefined if none was saved.
+     */
+    async load(): Promise<Session | undefined> {
+        const value = await this.store.get(this.key);
+        return value ? parseSession(value) : undefined;
+    }
+
+    async clear(): Promise<void> {
+        await this.store.delete(this.key);
+    }
+}
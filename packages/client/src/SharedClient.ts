@@ -1,18 +1,40 @@
 import { LogionNodeApiClass, ValidAccountId } from "@logion/node-api";
+import { DurationLike } from "luxon";
 
 import { AccountTokens } from "./AuthenticationClient.js";
-import { AxiosFactory } from "./AxiosFactory.js";
+import { AxiosFactory, RequestRetryPolicy } from "./AxiosFactory.js";
 import { findOrThrow } from "./Collections.js";
 import { ComponentFactory, FormDataLike } from "./ComponentFactory.js";
 import { DirectoryClient } from "./DirectoryClient.js";
 import { Endpoint, Token } from "./Http.js";
-import { NetworkState } from "./NetworkState.js";
+import { NetworkState, NetworkStateOptions } from "./NetworkState.js";
 import { LegalOfficerClass } from "./Types.js";
+import { LocCache } from "./LocCache.js";
+import { TokenRefresher } from "./TokenRefresher.js";
+import { LocTemplate, LocTemplateRegistry } from "./LocTemplate.js";
 
 export interface LogionClientConfig {
     rpcEndpoints: string[];
     directoryEndpoint: string;
     formDataLikeFactory?: () => FormDataLike;
+    /**
+     * Tunes the circuit breaker applied to legal officer nodes.
+     */
+    nodeHealth?: NetworkStateOptions;
+    /**
+     * Enables the retry of requests sent to unavailable legal officer nodes, see {@link DEFAULT_REQUEST_RETRY_POLICY}.
+     * Requests are not retried if undefined.
+     */
+    requestRetry?: RequestRetryPolicy;
+    /**
+     * Tokens are automatically refreshed when the earliest expiration is closer than this threshold.
+     * Defaults to 30 minutes.
+     */
+    tokenRefreshThreshold?: DurationLike;
+    /**
+     * The templates LOC requests may be created from, see {@link LocsState.requestLoc}.
+     */
+    locTemplates?: LocTemplate[];
 }
 
 export interface LegalOfficerEndpoint extends Endpoint {
@@ -30,6 +52,9 @@ export interface SharedState {
     allLegalOfficers: LegalOfficerClass[];
     tokens: AccountTokens;
     currentAddress?: ValidAccountId;
+    locCache?: LocCache;
+    tokenRefresher?: TokenRefresher;
+    locTemplates: LocTemplateRegistry;
 }
 
 export function getLegalOfficer(sharedState: SharedState, address: string): LegalOfficerClass {
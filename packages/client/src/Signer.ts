@@ -1,14 +1,19 @@
 import { TypesEvent, Adapters, ValidAccountId } from '@logion/node-api';
 import { Keyring } from '@polkadot/api';
 import type { SubmittableExtrinsic } from '@polkadot/api/promise/types';
+import type { SignerOptions } from '@polkadot/api/types';
 import { ISubmittableResult } from '@polkadot/types/types';
+import { ApplyExtrinsicResult } from '@polkadot/types/interfaces';
 import { Registry } from '@polkadot/types-codec/types';
+import { TypeRegistry } from '@polkadot/types';
 import { base64Encode } from '@polkadot/util-crypto';
 import { stringToHex } from '@polkadot/util';
 import { Hash } from 'fast-sha256';
 import { DateTime } from "luxon";
 import { toIsoString } from "./DateTimeUtil.js";
 import { requireDefined } from "./assertions.js";
+import { ChainDispatchError, LogionError } from "./Error.js";
+import { SignedTransaction, UnsignedTransaction } from "./OfflineSigning.js";
 
 export interface SignRawParameters {
     signerId: ValidAccountId;
@@ -37,6 +42,16 @@ export interface SignParameters {
     submittable: SubmittableExtrinsic;
     callback?: SignCallback;
     strategy?: SignAndSendStrategy;
+    /**
+     * If true, the transaction is dry-run (see RPC system_dryRun) before being submitted.
+     * If the dry-run fails, a LogionError is thrown and the transaction is not submitted i.e. no fees are paid.
+     */
+    dryRun?: boolean;
+    /**
+     * If provided, the transaction is signed with this nonce instead of the account's next index. This enables
+     * the submission of several transactions without waiting for the previous ones to be finalized.
+     */
+    nonce?: number;
 }
 
 export interface SuccessfulSubmission {
@@ -48,12 +63,20 @@ export interface SuccessfulSubmission {
 export interface Signer {
 
     signAndSend(parameters: SignParameters): Promise<SuccessfulSubmission>;
+
+    /**
+     * True if transactions are signed with {@link SignParameters.nonce} when provided. Otherwise, transactions
+     * are submitted one after the other.
+     */
+    readonly supportsNonce?: boolean;
 }
 
 export type FullSigner = RawSigner & Signer;
 
 export type SignAndSendFunction = (statusCallback: (result: ISubmittableResult) => void) => Promise<() => void>;
 
+export type DryRunFunction = () => Promise<ApplyExtrinsicResult>;
+
 export interface SignAndSendStrategy {
     canUnsub(result: ISubmittableResult): boolean;
 }
@@ -81,6 +104,11 @@ export abstract class BaseSigner implements FullSigner {
 
     private signAndSendStrategy: SignAndSendStrategy;
 
+    /**
+     * Signers ignoring {@link SignParameters.nonce} must override this property.
+     */
+    readonly supportsNonce: boolean = true;
+
     async signRaw(parameters: SignRawParameters): Promise<TypedSignature> {
         const message = this.buildMessage(parameters);
         return await this.signToHex(parameters.signerId, message);
@@ -99,6 +127,9 @@ export abstract class BaseSigner implements FullSigner {
     }
 
     async signAndSend(parameters: SignParameters): Promise<SuccessfulSubmission> {
+        if(parameters.dryRun) {
+            await this.dryRun(parameters);
+        }
         const signAndSendFunction = await this.buildSignAndSendFunction(parameters);
         return this.buildSignAndSendPromise({
             ...parameters,
@@ -108,6 +139,31 @@ export abstract class BaseSigner implements FullSigner {
 
     abstract buildSignAndSendFunction(parameters: SignParameters): Promise<SignAndSendFunction>;
 
+    /**
+     * Signs the submittable and applies it to the state of the best block, without submitting it.
+     *
+     * @throws LogionError if the transaction is invalid or its dispatch fails.
+     */
+    async dryRun(parameters: SignParameters): Promise<void> {
+        const dryRunFunction = await this.buildDryRunFunction(parameters);
+        const result = await dryRunFunction();
+        if(result.isErr) {
+            throw LogionError.fromTransactionValidityError(result.asErr);
+        }
+        const outcome = result.asOk;
+        if(outcome.isErr) {
+            throw ChainDispatchError.fromDispatchError(outcome.asErr);
+        }
+    }
+
+    /**
+     * Signers supporting dry-run must override this method. The dry-run function is called before the function
+     * built by {@link buildSignAndSendFunction}.
+     */
+    async buildDryRunFunction(_parameters: SignParameters): Promise<DryRunFunction> { // eslint-disable-line @typescript-eslint/no-unused-vars
+        throw new Error("Dry-run is not supported by this signer");
+    }
+
     private buildSignAndSendPromise(parameters: SignParameters & { signAndSend: SignAndSendFunction }): Promise<SuccessfulSubmission> {
         const registry = parameters.submittable.registry;
         const next = parameters.callback;
@@ -152,7 +208,7 @@ export abstract class BaseSigner implements FullSigner {
         if (params.result.dispatchError || params.signAndSendStrategy.canUnsub(params.result)) {
             params.unsub();
             if(params.result.dispatchError) {
-                params.reject(new Error(Adapters.getErrorMessage(params.result.dispatchError)));
+                params.reject(ChainDispatchError.fromDispatchError(params.result.dispatchError));
             } else {
                 params.resolve({
                     block: requireDefined(params.submissionState.block),
@@ -184,8 +240,40 @@ export class KeyringSigner extends BaseSigner {
 
     async buildSignAndSendFunction(parameters: SignParameters): Promise<SignAndSendFunction> {
         const keypair = this.keyring.getPair(parameters.signerId);
-        return statusCallback => parameters.submittable.signAndSend(keypair, statusCallback);
+        return statusCallback => parameters.submittable.signAndSend(keypair, nonceOptions(parameters), statusCallback);
+    }
+
+    /**
+     * The submittable is signed in place by the dry-run, it is signed again when actually submitted.
+     */
+    override async buildDryRunFunction(parameters: SignParameters): Promise<DryRunFunction> {
+        const keypair = this.keyring.getPair(parameters.signerId);
+        return () => parameters.submittable.dryRun(keypair, nonceOptions(parameters));
     }
+
+    /**
+     * Signs a transaction exported with {@link exportUnsignedTransaction}, typically on an air-gapped machine.
+     * No connection to a node is required: the payload is encoded with the signed extensions it lists.
+     */
+    signOffline(transaction: UnsignedTransaction, registry?: Registry): SignedTransaction {
+        const { payload } = transaction;
+        const keypair = this.keyring.getPair(payload.address);
+        const payloadRegistry = registry || new TypeRegistry();
+        payloadRegistry.setSignedExtensions(payload.signedExtensions);
+        const extrinsicPayload = payloadRegistry.createType("ExtrinsicPayload", payload, { version: payload.version });
+        const { signature } = extrinsicPayload.sign(keypair);
+        return {
+            payload,
+            signature,
+        };
+    }
+}
+
+/**
+ * @returns The signature options setting the nonce of given parameters, if any.
+ */
+export function nonceOptions(parameters: SignParameters): Partial<SignerOptions> {
+    return parameters.nonce !== undefined ? { nonce: parameters.nonce } : {};
 }
 
 export function hashAttributes(attributes: any[]): string { // eslint-disable-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,164 @@
+import { DateTime, DurationLike } from "luxon";
+
+import { AccountTokens, AuthenticationClient } from "./AuthenticationClient.js";
+import { TokenRefreshHandler } from "./AxiosFactory.js";
+import { Unsubscribe } from "./LocEvents.js";
+
+/**
+ * @param tokens The refreshed tokens, merged with the tokens they replace.
+ * @param replacedTokens The tokens which were refreshed.
+ */
+export type TokensRefreshedListener = (tokens: AccountTokens, replacedTokens: AccountTokens) => void;
+
+/**
+ * Called with the error thrown by a {@link TokensRefreshedListener}, the refresh itself succeeded.
+ */
+export type TokensRefreshedErrorHandler = (error: unknown) => void;
+
+interface TokensRefreshedSubscription {
+    listener: TokensRefreshedListener;
+    onError?: TokensRefreshedErrorHandler;
+}
+
+export const DEFAULT_TOKEN_REFRESH_THRESHOLD: DurationLike = { minutes: 30 };
+
+/**
+ * Refreshes the tokens of a session when one of them is about to expire or was rejected by a node.
+ * Axios instances built with a token issued before a refresh keep working, the token replacing it being used instead.
+ *
+ * The refresher only swaps tokens in requests, the tokens held by clients never change. Sessions are
+ * registered by the clients using them.
+ */
+export class TokenRefresher implements TokenRefreshHandler {
+
+    constructor(params: {
+        buildAuthenticationClient: () => AuthenticationClient,
+        threshold?: DurationLike,
+    }) {
+        this.buildAuthenticationClient = params.buildAuthenticationClient;
+        this.threshold = params.threshold || DEFAULT_TOKEN_REFRESH_THRESHOLD;
+    }
+
+    private readonly buildAuthenticationClient: () => AuthenticationClient;
+
+    private readonly threshold: DurationLike;
+
+    /**
+     * Registered sessions indexed by the value of their tokens.
+     */
+    private readonly sessions = new Map<string, AccountTokens>();
+
+    /**
+     * Replacing token values indexed by replaced token values.
+     */
+    private readonly replacements = new Map<string, string>();
+
+    private readonly pendingRefreshes = new Map<AccountTokens, Promise<void>>();
+
+    private subscriptions: TokensRefreshedSubscription[] = [];
+
+    /**
+     * Registers a session so that its tokens are refreshed when used in a request.
+     */
+    register(tokens: AccountTokens) {
+        for(const token of tokens.tokens) {
+            if(!this.sessions.has(token.value)) {
+                this.sessions.set(token.value, tokens);
+            }
+        }
+    }
+
+    /**
+     * A failing listener does not prevent the other listeners from being notified nor the refreshed tokens
+     * from being used, its error is passed to `onError` if provided.
+     *
+     * @returns a function removing the listener.
+     */
+    onTokensRefreshed(listener: TokensRefreshedListener, onError?: TokensRefreshedErrorHandler): Unsubscribe {
+        const subscription = { listener, onError };
+        this.subscriptions.push(subscription);
+        return () => {
+            this.subscriptions = this.subscriptions.filter(otherSubscription => otherSubscription !== subscription);
+        };
+    }
+
+    async freshToken(token: string): Promise<string> {
+        const currentToken = this.latestToken(token);
+        const session = this.sessions.get(currentToken);
+        if(!session) {
+            return currentToken;
+        }
+        const earliestExpiration = session.earliestExpiration();
+        if(earliestExpiration && earliestExpiration <= DateTime.now().plus(this.threshold)) {
+            try {
+                await this.refresh(session);
+            } catch(e) {
+                // Current token is still valid, refresh will be retried with next request
+            }
+        }
+        return this.latestToken(currentToken);
+    }
+
+    async refreshToken(token: string): Promise<string | undefined> {
+        const currentToken = this.latestToken(token);
+        if(currentToken !== token) {
+            return currentToken; // Already refreshed
+        }
+        const session = this.sessions.get(token);
+        if(!session) {
+            return undefined;
+        }
+        try {
+            await this.refresh(session);
+        } catch(e) {
+            return undefined;
+        }
+        const refreshedToken = this.latestToken(token);
+        return refreshedToken !== token ? refreshedToken : undefined;
+    }
+
+    private latestToken(token: string): string {
+        let latest = token;
+        let replacement = this.replacements.get(latest);
+        while(replacement) {
+            latest = replacement;
+            replacement = this.replacements.get(latest);
+        }
+        return latest;
+    }
+
+    private async refresh(session: AccountTokens): Promise<void> {
+        let pendingRefresh = this.pendingRefreshes.get(session);
+        if(!pendingRefresh) {
+            pendingRefresh = this.doRefresh(session).finally(() => this.pendingRefreshes.delete(session));
+            this.pendingRefreshes.set(session, pendingRefresh);
+        }
+        return pendingRefresh;
+    }
+
+    private async doRefresh(session: AccountTokens) {
+        const refreshedTokens = await this.buildAuthenticationClient().refresh(session);
+        const tokens = session.merge(refreshedTokens);
+        for(const address of refreshedTokens.addresses) {
+            const replacedToken = session.get(address);
+            const refreshedToken = refreshedTokens.get(address);
+            if(replacedToken && refreshedToken) {
+                this.replacements.set(replacedToken.value, refreshedToken.value);
+            }
+        }
+        this.register(tokens);
+        this.subscriptions.forEach(subscription => this.notify(subscription, tokens, session));
+    }
+
+    private notify(subscription: TokensRefreshedSubscription, tokens: AccountTokens, replacedTokens: AccountTokens) {
+        try {
+            subscription.listener(tokens, replacedTokens);
+        } catch(e) {
+            try {
+                subscription.onError?.(e);
+            } catch {
+                // A failing error handler must not break the refresh
+            }
+        }
+    }
+}
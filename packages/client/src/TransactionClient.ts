@@ -3,7 +3,7 @@ import { AxiosInstance } from "axios";
 import { NetworkState } from "./NetworkState.js";
 import { LegalOfficerEndpoint } from "./SharedClient.js";
 import { AxiosFactory } from "./AxiosFactory.js";
-import { AnySourceHttpClient, Endpoint } from "./Http.js";
+import { AnySourceHttpClient, initMultiSourceHttpClientState } from "./Http.js";
 import { Fees } from "./Fees.js";
 
 interface FetchTransactionsSpecification {
@@ -61,10 +61,12 @@ export class TransactionClient {
     private readonly currentAddress: string;
 
     async fetchTransactions(): Promise<Transaction []> {
-        const anyClient = new AnySourceHttpClient<Endpoint, TransactionsSet>(this.networkState, this.axiosFactory);
+        const initialState = initMultiSourceHttpClientState(this.networkState);
+        const anyClient = new AnySourceHttpClient<LegalOfficerEndpoint, TransactionsSet>(initialState, this.axiosFactory);
         const transactionsSet = await anyClient.fetch(axios => this.getTransactions(axios, {
             address: this.currentAddress
         }));
+        this.networkState.record(anyClient.getState());
         return transactionsSet ? transactionsSet.transactions : []
     }
 
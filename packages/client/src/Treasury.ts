@@ -0,0 +1,127 @@
+import {
+    CoinBalance,
+    Currency,
+    Fees,
+    Numbers,
+    TreasuryProposal,
+} from "@logion/node-api";
+import type { SubmittableExtrinsic } from '@polkadot/api/promise/types';
+
+import { getDefinedCurrentAddress, SharedState } from "./SharedClient.js";
+import { SignCallback, Signer } from "./Signer.js";
+import { State } from "./State.js";
+
+export interface TreasurySharedState extends SharedState {
+    readonly proposals: TreasuryProposal[];
+    readonly balances: CoinBalance[];
+}
+
+export interface ProposeSpendParams {
+    amount: Numbers.PrefixedNumber;
+    beneficiary: string;
+}
+
+export interface ProposeSpendEstimate {
+    /**
+     * The fees paid when submitting the proposal.
+     */
+    fees: Fees;
+    /**
+     * The amount reserved from the proposer's account, returned if the proposal is approved.
+     */
+    bond: bigint;
+}
+
+export async function getTreasuryState(sharedState: SharedState): Promise<TreasuryState> {
+    const proposals = await sharedState.nodeApi.queries.getTreasuryProposals();
+    const balances = await sharedState.nodeApi.queries.getTreasuryBalances();
+    return new TreasuryState({
+        ...sharedState,
+        proposals,
+        balances,
+    });
+}
+
+export class TreasuryState extends State {
+
+    constructor(state: TreasurySharedState) {
+        super();
+        this.sharedState = state;
+    }
+
+    private sharedState: TreasurySharedState;
+
+    get treasuryAddress(): string {
+        this.ensureCurrent();
+        return this.sharedState.nodeApi.queries.getTreasuryAccount();
+    }
+
+    get proposals(): TreasuryProposal[] {
+        this.ensureCurrent();
+        return this.sharedState.proposals;
+    }
+
+    /**
+     * The proposals waiting for the next spend period to be awarded.
+     */
+    get approvals(): TreasuryProposal[] {
+        this.ensureCurrent();
+        return this.sharedState.proposals.filter(proposal => proposal.approved);
+    }
+
+    get balances(): CoinBalance[] {
+        this.ensureCurrent();
+        return this.sharedState.balances;
+    }
+
+    async estimateProposeSpend(params: ProposeSpendParams): Promise<ProposeSpendEstimate> {
+        this.ensureCurrent();
+        const canonicalAmount = Currency.toCanonicalAmount(params.amount);
+        const fees = await this.sharedState.nodeApi.fees.estimateWithoutStorage({
+            origin: getDefinedCurrentAddress(this.sharedState).address,
+            submittable: this.proposeSpendSubmittable(canonicalAmount, params.beneficiary),
+        });
+        const bond = this.sharedState.nodeApi.queries.getTreasuryProposalBond(canonicalAmount);
+        return { fees, bond };
+    }
+
+    private proposeSpendSubmittable(canonicalAmount: bigint, beneficiary: string): SubmittableExtrinsic {
+        return this.sharedState.nodeApi.polkadot.tx.treasury.proposeSpend(canonicalAmount, beneficiary);
+    }
+
+    /**
+     * Submits a spend proposal. Current account must be able to pay the fees and the proposal's bond.
+     */
+    async proposeSpend(params: ProposeSpendParams & {
+        signer: Signer,
+        callback?: SignCallback,
+    }): Promise<TreasuryState> {
+        return this.discardOnSuccess(() => this._proposeSpend(params));
+    }
+
+    private async _proposeSpend(params: ProposeSpendParams & {
+        signer: Signer,
+        callback?: SignCallback,
+    }): Promise<TreasuryState> {
+        const { amount, beneficiary, signer, callback } = params;
+        const signerId = getDefinedCurrentAddress(this.sharedState).address;
+
+        const { fees, bond } = await this.estimateProposeSpend({ amount, beneficiary });
+        const accountData = await this.sharedState.nodeApi.queries.getAccountData(signerId);
+        if(BigInt(accountData.available) < fees.totalFee + bond) {
+            throw new Error("Not enough funds available to pay fees and bond");
+        }
+
+        await signer.signAndSend({
+            signerId,
+            submittable: this.proposeSpendSubmittable(Currency.toCanonicalAmount(amount), beneficiary),
+            callback,
+        });
+
+        return getTreasuryState(this.sharedState);
+    }
+
+    async refresh(): Promise<TreasuryState> {
+        return this.discardOnSuccess(() => getTreasuryState(this.sharedState));
+    }
+}
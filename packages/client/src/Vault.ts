@@ -12,6 +12,7 @@ import { LegalOfficer } from "./Types.js";
 import { requestSort, VaultClient, VaultTransferRequest } from "./VaultClient.js";
 import { Transaction, TransactionClient } from "./TransactionClient.js";
 import { State } from "./State.js";
+import { buildVaultTransferQuorums, VaultTransfer, VaultTransferQuorum } from "./VaultTransferQuorum.js";
 
 export interface VaultSharedState extends SharedState {
     client: VaultClient,
@@ -149,7 +150,68 @@ export class VaultState extends State {
         signer: Signer,
         callback?: SignCallback,
     }): Promise<VaultState> {
-        const { amount, destination, signer, callback, legalOfficer } = params;
+        const { legalOfficer } = params;
+        const transfer = await this.submitVaultTransfer(params);
+        const newPendingRequest = await this.sharedState.client.createVaultTransferRequest(legalOfficer, {
+            ...transfer,
+            legalOfficerAddress: legalOfficer.address,
+        });
+
+        const pendingVaultTransferRequests = this.sharedState.pendingVaultTransferRequests.concat([ newPendingRequest ]).sort(requestSort);
+
+        return new VaultState({
+            ...this.sharedState,
+            pendingVaultTransferRequests,
+        });
+    }
+
+    /**
+     * Submits a vault transfer and sends a request to each legal officer of the vault's multisig.
+     * The transfer being already submitted, failing to notify a legal officer does not fail the whole operation:
+     * the approval of this legal officer remains "NOT_NOTIFIED" and may be requested again with
+     * {@link notifyMissingApprovals}.
+     */
+    async createVaultTransferQuorum(params: {
+        amount: Numbers.PrefixedNumber,
+        destination: string,
+        signer: Signer,
+        callback?: SignCallback,
+    }): Promise<VaultState> {
+        return this.discardOnSuccess(() => this._createVaultTransferQuorum(params));
+    }
+
+    private async _createVaultTransferQuorum(params: {
+        amount: Numbers.PrefixedNumber,
+        destination: string,
+        signer: Signer,
+        callback?: SignCallback,
+    }): Promise<VaultState> {
+        const transfer = await this.submitVaultTransfer(params);
+        const results = await Promise.allSettled(this.sharedState.selectedLegalOfficers.map(legalOfficer =>
+            this.sharedState.client.createVaultTransferRequest(legalOfficer, {
+                ...transfer,
+                legalOfficerAddress: legalOfficer.address,
+            })
+        ));
+        const newPendingRequests = results
+            .filter((result): result is PromiseFulfilledResult<VaultTransferRequest> => result.status === "fulfilled")
+            .map(result => result.value);
+
+        const pendingVaultTransferRequests = this.sharedState.pendingVaultTransferRequests.concat(newPendingRequests).sort(requestSort);
+
+        return new VaultState({
+            ...this.sharedState,
+            pendingVaultTransferRequests,
+        });
+    }
+
+    private async submitVaultTransfer(params: {
+        amount: Numbers.PrefixedNumber,
+        destination: string,
+        signer: Signer,
+        callback?: SignCallback,
+    }): Promise<VaultTransfer> {
+        const { amount, destination, signer, callback } = params;
 
         const currentAddress = getDefinedCurrentAddress(this.sharedState);
         const signerId = currentAddress.address;
@@ -174,21 +236,13 @@ export class VaultState extends State {
             origin = signerId;
         }
         const blockHeader = await this.sharedState.nodeApi.polkadot.rpc.chain.getHeader(successfulSubmission.block);
-        const newPendingRequest = await this.sharedState.client.createVaultTransferRequest(legalOfficer, {
+        return {
             origin,
             destination,
-            legalOfficerAddress: legalOfficer.address,
             block: blockHeader.number.toString(),
             index: successfulSubmission.index,
             amount: Currency.toCanonicalAmount(amount).toString(),
-        });
-
-        const pendingVaultTransferRequests = this.sharedState.pendingVaultTransferRequests.concat([ newPendingRequest ]).sort(requestSort);
-
-        return new VaultState({
-            ...this.sharedState,
-            pendingVaultTransferRequests,
-        });
+        };
     }
 
     private async recoveryTransferSubmittable(params: {
@@ -232,6 +286,16 @@ export class VaultState extends State {
         signer: Signer,
         callback?: SignCallback,
     ): Promise<VaultState> {
+        await this.submitVaultTransferCancellation(request, signer, callback);
+        await this.sharedState.client.cancelVaultTransferRequest(legalOfficer, request);
+        return this.withCancelledRequests([ request ]);
+    }
+
+    private async submitVaultTransferCancellation(
+        request: VaultTransferRequest,
+        signer: Signer,
+        callback?: SignCallback,
+    ): Promise<void> {
         const signerId = getDefinedCurrentAddress(this.sharedState).address;
         const amount = Currency.toPrefixedNumberAmount(BigInt(request.amount));
 
@@ -261,34 +325,116 @@ export class VaultState extends State {
             submittable,
             callback,
         });
+    }
 
-        await this.sharedState.client.cancelVaultTransferRequest(legalOfficer, request);
-
-        const cancelledRequest: VaultTransferRequest = {
+    private withCancelledRequests(requests: VaultTransferRequest[]): VaultState {
+        const cancelledRequests: VaultTransferRequest[] = requests.map(request => ({
             ...request,
             status: request.status === "PENDING" ? "CANCELLED" : "REJECTED_CANCELLED",
-        };
+        }));
+        const cancelledIds = requests.map(request => request.id);
+
+        const pendingVaultTransferRequests = this.sharedState.pendingVaultTransferRequests.filter(pendingRequest => !cancelledIds.includes(pendingRequest.id));
+        const cancelledVaultTransferRequests = this.sharedState.cancelledVaultTransferRequests.concat(cancelledRequests).sort(requestSort);
+        const rejectedVaultTransferRequests = this.sharedState.rejectedVaultTransferRequests.filter(rejectedRequest => !cancelledIds.includes(rejectedRequest.id));
 
-        let pendingVaultTransferRequests = this.sharedState.pendingVaultTransferRequests;
-        if(request.status === "PENDING") {
-            pendingVaultTransferRequests = pendingVaultTransferRequests.filter(pendingRequest => request.id !== pendingRequest.id);
+        return new VaultState({
+            ...this.sharedState,
+            pendingVaultTransferRequests,
+            cancelledVaultTransferRequests,
+            rejectedVaultTransferRequests,
+        });
+    }
+
+    /**
+     * Cancels the transfer on-chain, then cancels the request of each legal officer which did not accept it.
+     * An approved transfer was already executed and cannot be cancelled.
+     */
+    async cancelVaultTransferQuorum(
+        quorum: VaultTransferQuorum,
+        signer: Signer,
+        callback?: SignCallback,
+    ): Promise<VaultState> {
+        return this.discardOnSuccess(() => this._cancelVaultTransferQuorum(quorum, signer, callback));
+    }
+
+    private async _cancelVaultTransferQuorum(
+        quorum: VaultTransferQuorum,
+        signer: Signer,
+        callback?: SignCallback,
+    ): Promise<VaultState> {
+        if(quorum.isApproved) {
+            throw new Error("Transfer was already executed");
+        }
+        const cancellableApprovals = quorum.approvals.flatMap(approval => approval.status === "PENDING" || approval.status === "REJECTED" ? [ approval ] : []);
+        if(cancellableApprovals.length === 0) {
+            throw new Error("Transfer cannot be cancelled");
+        }
+        const requests = cancellableApprovals.map(approval => approval.request);
+        await this.submitVaultTransferCancellation(requests[0], signer, callback);
+        for(const approval of cancellableApprovals) {
+            await this.sharedState.client.cancelVaultTransferRequest(approval.legalOfficer, approval.request);
         }
+        return this.withCancelledRequests(requests);
+    }
 
-        const cancelledVaultTransferRequests = this.sharedState.cancelledVaultTransferRequests.concat([ cancelledRequest ]).sort(requestSort);
+    /**
+     * Requests again the approval of the legal officers which did not accept the transfer yet:
+     * a request is created for legal officers which were not notified and rejected requests are resubmitted.
+     * Pending requests are left untouched.
+     */
+    async notifyMissingApprovals(quorum: VaultTransferQuorum): Promise<VaultState> {
+        return this.discardOnSuccess(() => this._notifyMissingApprovals(quorum));
+    }
 
-        let rejectedVaultTransferRequests = this.sharedState.rejectedVaultTransferRequests;
-        if(request.status === "REJECTED") {
-            rejectedVaultTransferRequests = rejectedVaultTransferRequests.filter(rejectedRequest => request.id !== rejectedRequest.id);
+    private async _notifyMissingApprovals(quorum: VaultTransferQuorum): Promise<VaultState> {
+        if(quorum.isCancelled) {
+            throw new Error("Cannot request approvals for a cancelled transfer");
+        }
+        if(quorum.isApproved) {
+            throw new Error("Cannot request approvals for an executed transfer");
+        }
+        const newPendingRequests: VaultTransferRequest[] = [];
+        const resubmittedIds: string[] = [];
+        for(const approval of quorum.approvals) {
+            if(approval.status === "NOT_NOTIFIED") {
+                newPendingRequests.push(await this.sharedState.client.createVaultTransferRequest(approval.legalOfficer, {
+                    ...quorum.transfer,
+                    legalOfficerAddress: approval.legalOfficer.address,
+                }));
+            } else if(approval.status === "REJECTED" && approval.request) {
+                await this.sharedState.client.resubmitVaultTransferRequest(approval.legalOfficer, approval.request);
+                newPendingRequests.push({
+                    ...approval.request,
+                    status: "PENDING",
+                });
+                resubmittedIds.push(approval.request.id);
+            }
         }
 
+        const pendingVaultTransferRequests = this.sharedState.pendingVaultTransferRequests.concat(newPendingRequests).sort(requestSort);
+        const rejectedVaultTransferRequests = this.sharedState.rejectedVaultTransferRequests.filter(rejectedRequest => !resubmittedIds.includes(rejectedRequest.id));
+
         return new VaultState({
             ...this.sharedState,
             pendingVaultTransferRequests,
-            cancelledVaultTransferRequests,
             rejectedVaultTransferRequests,
         });
     }
 
+    /**
+     * The vault transfers with the approval state of each legal officer of the vault's multisig, most recent first.
+     */
+    get vaultTransferQuorums(): VaultTransferQuorum[] {
+        this.ensureCurrent();
+        const requests = this.sharedState.pendingVaultTransferRequests
+            .concat(this.sharedState.acceptedVaultTransferRequests)
+            .concat(this.sharedState.rejectedVaultTransferRequests)
+            .concat(this.sharedState.cancelledVaultTransferRequests)
+            .sort(requestSort);
+        return buildVaultTransferQuorums(requests, this.sharedState.selectedLegalOfficers);
+    }
+
     async resubmitVaultTransferRequest(
         legalOfficer: LegalOfficer,
         request: VaultTransferRequest,
@@ -1,5 +1,6 @@
 import { AxiosInstance } from "axios";
 import { AxiosFactory } from "./AxiosFactory.js";
+import { newBackendError } from "./Error.js";
 import { aggregateArrays, MultiSourceHttpClient, initMultiSourceHttpClientState } from "./Http.js";
 import { NetworkState } from "./NetworkState.js";
 import { LegalOfficerEndpoint } from "./SharedClient.js";
@@ -48,6 +49,8 @@ export interface FetchAllResult {
     acceptedVaultTransferRequests: VaultTransferRequest[];
 }
 
+const ALL_STATUSES: VaultTransferRequestStatus[] = [ "PENDING", "CANCELLED", "REJECTED_CANCELLED", "REJECTED", "ACCEPTED" ];
+
 export class VaultClient {
 
     constructor(params: {
@@ -100,49 +103,50 @@ export class VaultClient {
 
         const allRequests = aggregateArrays(await vaultTransferRequestsMultiClient.fetch((axios, endpoint) => this.getVaultTransferRequests(axios, endpoint.legalOfficer, {
             ...vaultSpecificationFragment,
-            statuses: [ "PENDING", "CANCELLED", "REJECTED_CANCELLED", "REJECTED", "ACCEPTED" ]
+            statuses: ALL_STATUSES
         }))).sort(requestSort);
 
-        let pendingVaultTransferRequests = this.filterByStatuses(allRequests, [ "PENDING" ]);
-        let cancelledVaultTransferRequests = this.filterByStatuses(allRequests, [ "CANCELLED", "REJECTED_CANCELLED" ]);
-        let rejectedVaultTransferRequests = this.filterByStatuses(allRequests, [ "REJECTED" ]);
-        let acceptedVaultTransferRequests = this.filterByStatuses(allRequests, [ "ACCEPTED" ]);
-
-        if(legalOfficers === undefined) {
-            const newState = vaultTransferRequestsMultiClient.getState();
-            this.networkState.update({
-                nodesUp: newState.nodesUp,
-                nodesDown: newState.nodesDown
-            });
-        }
+        // Only the queried nodes are recorded, the health of the nodes of other legal officers is unchanged
+        this.networkState.record(vaultTransferRequestsMultiClient.getState());
 
         if(this.isRecovery) {
-            pendingVaultTransferRequests = pendingVaultTransferRequests.filter(request => request.origin !== this.currentAddress);
-            cancelledVaultTransferRequests = cancelledVaultTransferRequests.filter(request => request.origin !== this.currentAddress);
-            rejectedVaultTransferRequests = rejectedVaultTransferRequests.filter(request => request.origin !== this.currentAddress);
-            acceptedVaultTransferRequests = acceptedVaultTransferRequests.filter(request => request.origin !== this.currentAddress);
+            return this.splitByStatus(allRequests.filter(request => request.origin !== this.currentAddress));
         } else {
-            pendingVaultTransferRequests = pendingVaultTransferRequests.filter(request => request.origin === this.currentAddress);
-            cancelledVaultTransferRequests = cancelledVaultTransferRequests.filter(request => request.origin === this.currentAddress);
-            rejectedVaultTransferRequests = rejectedVaultTransferRequests.filter(request => request.origin === this.currentAddress);
-            acceptedVaultTransferRequests = acceptedVaultTransferRequests.filter(request => request.origin === this.currentAddress);
+            return this.splitByStatus(allRequests.filter(request => request.origin === this.currentAddress));
         }
+    }
 
+    /**
+     * Fetches the requests of all users submitted to given legal officer.
+     */
+    async fetchAllOfLegalOfficer(legalOfficer: LegalOfficer): Promise<FetchAllResult> {
+        const axios = this.axiosFactory.buildAxiosInstance(legalOfficer.node, this.token);
+        const allRequests = (await this.getVaultTransferRequests(axios, legalOfficer.address, {
+            statuses: ALL_STATUSES
+        })).sort(requestSort);
+        return this.splitByStatus(allRequests);
+    }
+
+    private splitByStatus(requests: VaultTransferRequest[]): FetchAllResult {
         return {
-            pendingVaultTransferRequests,
-            cancelledVaultTransferRequests,
-            rejectedVaultTransferRequests,
-            acceptedVaultTransferRequests,
+            pendingVaultTransferRequests: this.filterByStatuses(requests, [ "PENDING" ]),
+            cancelledVaultTransferRequests: this.filterByStatuses(requests, [ "CANCELLED", "REJECTED_CANCELLED" ]),
+            rejectedVaultTransferRequests: this.filterByStatuses(requests, [ "REJECTED" ]),
+            acceptedVaultTransferRequests: this.filterByStatuses(requests, [ "ACCEPTED" ]),
         };
     }
 
     private async getVaultTransferRequests(axios: AxiosInstance, legalOfficerAddress: string, fetch: FetchVaultTransferRequest): Promise<VaultTransferRequest[]> {
-        const requests = (await axios.put("/api/vault-transfer-request", fetch)
-            .then(response => response.data.requests)) as VaultTransferRequest[];
-        return requests.map(request => ({
-            ...request,
-            legalOfficerAddress,
-        }));
+        try {
+            const requests = (await axios.put("/api/vault-transfer-request", fetch)
+                .then(response => response.data.requests)) as VaultTransferRequest[];
+            return requests.map(request => ({
+                ...request,
+                legalOfficerAddress,
+            }));
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     private filterByStatuses(requests: VaultTransferRequest[], statuses: VaultTransferRequestStatus[]): VaultTransferRequest[] {
@@ -154,11 +158,15 @@ export class VaultClient {
         params: CreateVaultTransferRequest,
     ): Promise<VaultTransferRequest> {
         const axios = this.axiosFactory.buildAxiosInstance(legalOfficer.node, this.token);
-        const response = await axios.post('/api/vault-transfer-request', params);
-        return {
-            ...response.data,
-            legalOfficerAddress: legalOfficer.address,
-        };
+        try {
+            const response = await axios.post('/api/vault-transfer-request', params);
+            return {
+                ...response.data,
+                legalOfficerAddress: legalOfficer.address,
+            };
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     async cancelVaultTransferRequest(
@@ -166,7 +174,11 @@ export class VaultClient {
         request: VaultTransferRequest,
     ): Promise<void> {
         const axios = this.axiosFactory.buildAxiosInstance(legalOfficer.node, this.token);
-        return await axios.post(`/api/vault-transfer-request/${request.id}/cancel`);
+        try {
+            await axios.post(`/api/vault-transfer-request/${request.id}/cancel`);
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     async acceptVaultTransferRequest(
@@ -174,7 +186,11 @@ export class VaultClient {
         request: VaultTransferRequest,
     ): Promise<void> {
         const axios = this.axiosFactory.buildAxiosInstance(legalOfficer.node, this.token);
-        return await axios.post(`/api/vault-transfer-request/${request.id}/accept`);
+        try {
+            await axios.post(`/api/vault-transfer-request/${request.id}/accept`);
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     async rejectVaultTransferRequest(
@@ -183,7 +199,11 @@ export class VaultClient {
         rejectReason: string
     ): Promise<void> {
         const axios = this.axiosFactory.buildAxiosInstance(legalOfficer.node, this.token);
-        return await axios.post(`/api/vault-transfer-request/${request.id}/reject`, { rejectReason });
+        try {
+            await axios.post(`/api/vault-transfer-request/${request.id}/reject`, { rejectReason });
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 
     async resubmitVaultTransferRequest(
@@ -191,7 +211,11 @@ export class VaultClient {
         request: VaultTransferRequest,
     ): Promise<void> {
         const axios = this.axiosFactory.buildAxiosInstance(legalOfficer.node, this.token);
-        return await axios.post(`/api/vault-transfer-request/${request.id}/resubmit`);
+        try {
+            await axios.post(`/api/vault-transfer-request/${request.id}/resubmit`);
+        } catch(e) {
+            throw newBackendError(e);
+        }
     }
 }
 
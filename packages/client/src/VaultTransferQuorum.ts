@@ -0,0 +1,111 @@
+import { Vault } from "@logion/node-api";
+
+import { LegalOfficer } from "./Types.js";
+import { VaultTransferRequest, VaultTransferRequestDecision, VaultTransferRequestStatus } from "./VaultClient.js";
+
+/**
+ * The on-chain identity of a vault transfer, shared by the requests sent to each legal officer.
+ */
+export interface VaultTransfer {
+    origin: string;
+    destination: string;
+    amount: string;
+    block: string;
+    index: number;
+}
+
+/**
+ * "NOT_NOTIFIED" means that no request was received by the legal officer yet.
+ */
+export type VaultTransferApprovalStatus = VaultTransferRequestStatus | "NOT_NOTIFIED";
+
+export type VaultTransferApproval = NotifiedVaultTransferApproval | NotNotifiedVaultTransferApproval;
+
+export interface NotifiedVaultTransferApproval {
+    legalOfficer: LegalOfficer;
+    status: VaultTransferRequestStatus;
+    decision?: VaultTransferRequestDecision;
+    request: VaultTransferRequest;
+}
+
+export interface NotNotifiedVaultTransferApproval {
+    legalOfficer: LegalOfficer;
+    status: "NOT_NOTIFIED";
+    decision?: undefined;
+    request?: undefined;
+}
+
+export interface VaultTransferQuorum {
+    transfer: VaultTransfer;
+    /**
+     * One approval per legal officer of the vault's multisig.
+     */
+    approvals: VaultTransferApproval[];
+    /**
+     * The legal officers which did not accept the transfer yet, empty if the transfer is approved.
+     */
+    missingApprovals: LegalOfficer[];
+    /**
+     * The vault's multisig threshold includes the requester, the transfer is executed as soon as
+     * {@link REQUIRED_VAULT_TRANSFER_APPROVALS} legal officer(s) accepted it. An approved transfer is final.
+     */
+    isApproved: boolean;
+    /**
+     * A vault transfer is cancelled on-chain, a single cancelled request thus cancels the whole transfer.
+     */
+    isCancelled: boolean;
+}
+
+export const REQUIRED_VAULT_TRANSFER_APPROVALS = Vault.THRESHOLD - 1;
+
+export function vaultTransferKey(transfer: VaultTransfer): string {
+    return `${ transfer.origin }/${ transfer.destination }/${ transfer.amount }/${ transfer.block }/${ transfer.index }`;
+}
+
+export function buildVaultTransferQuorums(requests: VaultTransferRequest[], legalOfficers: LegalOfficer[]): VaultTransferQuorum[] {
+    const requestsByTransfer = new Map<string, VaultTransferRequest[]>();
+    for(const request of requests) {
+        const key = vaultTransferKey(request);
+        const transferRequests = requestsByTransfer.get(key);
+        if(transferRequests) {
+            transferRequests.push(request);
+        } else {
+            requestsByTransfer.set(key, [ request ]);
+        }
+    }
+    return [ ...requestsByTransfer.values() ].map(transferRequests => buildVaultTransferQuorum(transferRequests, legalOfficers));
+}
+
+function buildVaultTransferQuorum(requests: VaultTransferRequest[], legalOfficers: LegalOfficer[]): VaultTransferQuorum {
+    const { origin, destination, amount, block, index } = requests[0];
+    const approvals = legalOfficers.map(legalOfficer => buildApproval(legalOfficer, requests));
+    const acceptedApprovals = approvals.filter(approval => approval.status === "ACCEPTED").length;
+    const isApproved = acceptedApprovals >= REQUIRED_VAULT_TRANSFER_APPROVALS;
+    const missingApprovals = isApproved ? [] : approvals
+        .filter(approval => approval.status !== "ACCEPTED")
+        .map(approval => approval.legalOfficer);
+    return {
+        transfer: { origin, destination, amount, block, index },
+        approvals,
+        missingApprovals,
+        isApproved,
+        isCancelled: approvals.some(approval => approval.status === "CANCELLED" || approval.status === "REJECTED_CANCELLED"),
+    };
+}
+
+function buildApproval(legalOfficer: LegalOfficer, requests: VaultTransferRequest[]): VaultTransferApproval {
+    const request = requests.find(request => request.legalOfficerAddress === legalOfficer.address);
+    if(request) {
+        return {
+            legalOfficer,
+            status: request.status,
+            decision: request.decision,
+            request,
+        };
+    } else {
+        return {
+            legalOfficer,
+            status: "NOT_NOTIFIED",
+        };
+    }
+}
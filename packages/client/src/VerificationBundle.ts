@@ -0,0 +1,372 @@
+import { Hash, LegalOfficerCase, LocType, UUID, AccountId } from "@logion/node-api";
+import { HexString } from "@polkadot/util/types";
+
+import { LocData } from "./Loc.js";
+import { LocRequestStatus, SupportedAccountId } from "./LocClient.js";
+import { HashString } from "./Hash.js";
+
+export const VERIFICATION_BUNDLE_VERSION = 1;
+
+/**
+ * A self-contained, JSON-serializable proof of a LOC. It can be verified
+ * without any credentials against a snapshot of the chain. Only published
+ * files, metadata and links are included.
+ */
+export interface VerificationBundle {
+    version: number;
+    exportedOn: string;
+    loc: BundledLocData;
+    chain: BundledLegalOfficerCase;
+}
+
+export interface BundledLocData {
+    id: string;
+    ownerAddress: string;
+    requesterAddress?: SupportedAccountId;
+    requesterLocId?: string;
+    description: string;
+    locType: LocType;
+    status: LocRequestStatus;
+    createdOn: string;
+    decisionOn?: string;
+    closedOn?: string;
+    seal?: string;
+    files: BundledFile[];
+    metadata: BundledMetadataItem[];
+    links: BundledLink[];
+}
+
+export interface BundledFile {
+    hash: HexString;
+    name: string;
+    nature: string;
+    contentType: string;
+    size: string;
+    submitter: SupportedAccountId;
+}
+
+export interface BundledMetadataItem {
+    name: string;
+    nameHash: HexString;
+    value: string;
+    submitter: SupportedAccountId;
+}
+
+export interface BundledLink {
+    target: string;
+    nature: string;
+}
+
+export interface BundledLegalOfficerCase {
+    owner: string;
+    requesterAddress?: SupportedAccountId;
+    requesterLocId?: string;
+    locType: LocType;
+    closed: boolean;
+    voided: boolean;
+    replacer?: string;
+    replacerOf?: string;
+    seal?: string;
+    sponsorshipId?: string;
+    collectionLastBlockSubmission?: string;
+    collectionMaxSize?: number;
+    collectionCanUpload: boolean;
+    files: {
+        hash: HexString;
+        nature: HexString;
+        submitter: SupportedAccountId;
+        size: string;
+        acknowledged: boolean;
+    }[];
+    metadata: {
+        name: HexString;
+        value: HexString;
+        submitter: SupportedAccountId;
+        acknowledged: boolean;
+    }[];
+    links: {
+        id: string;
+        nature: HexString;
+    }[];
+}
+
+export function buildVerificationBundle(data: LocData, legalOfficerCase: LegalOfficerCase): VerificationBundle {
+    return {
+        version: VERIFICATION_BUNDLE_VERSION,
+        exportedOn: new Date().toISOString(),
+        loc: {
+            id: data.id.toString(),
+            ownerAddress: data.ownerAddress,
+            requesterAddress: toBundledAccount(data.requesterAddress),
+            requesterLocId: data.requesterLocId?.toString(),
+            description: data.description,
+            locType: data.locType,
+            status: data.status,
+            createdOn: data.createdOn,
+            decisionOn: data.decisionOn,
+            closedOn: data.closedOn,
+            seal: data.seal,
+            files: data.files.filter(file => file.published).map(file => ({
+                hash: file.hash.toHex(),
+                name: file.name,
+                nature: file.nature,
+                contentType: file.contentType,
+                size: file.size.toString(),
+                submitter: toDefinedBundledAccount(file.submitter),
+            })),
+            metadata: data.metadata.filter(item => item.published).map(item => ({
+                name: item.name,
+                nameHash: item.nameHash.toHex(),
+                value: item.value,
+                submitter: toDefinedBundledAccount(item.submitter),
+            })),
+            links: data.links.filter(link => link.published).map(link => ({
+                target: link.target,
+                nature: link.nature,
+            })),
+        },
+        chain: toBundledLegalOfficerCase(legalOfficerCase),
+    };
+}
+
+function toBundledAccount(account: AccountId | undefined): SupportedAccountId | undefined {
+    return account ? toDefinedBundledAccount(account) : undefined;
+}
+
+function toDefinedBundledAccount(account: AccountId): SupportedAccountId {
+    return {
+        address: account.address,
+        type: account.type,
+    };
+}
+
+function toBundledLegalOfficerCase(loc: LegalOfficerCase): BundledLegalOfficerCase {
+    return {
+        owner: loc.owner,
+        requesterAddress: toBundledAccount(loc.requesterAddress),
+        requesterLocId: loc.requesterLocId?.toString(),
+        locType: loc.locType,
+        closed: loc.closed,
+        voided: loc.voidInfo !== undefined,
+        replacer: loc.voidInfo?.replacer?.toString(),
+        replacerOf: loc.replacerOf?.toString(),
+        seal: loc.seal,
+        sponsorshipId: loc.sponsorshipId?.toString(),
+        collectionLastBlockSubmission: loc.collectionLastBlockSubmission?.toString(),
+        collectionMaxSize: loc.collectionMaxSize,
+        collectionCanUpload: loc.collectionCanUpload,
+        files: loc.files.map(file => ({
+            hash: file.hash.toHex(),
+            nature: file.nature.toHex(),
+            submitter: toDefinedBundledAccount(file.submitter),
+            size: file.size.toString(),
+            acknowledged: file.acknowledged,
+        })),
+        metadata: loc.metadata.map(item => ({
+            name: item.name.toHex(),
+            value: item.value.toHex(),
+            submitter: toDefinedBundledAccount(item.submitter),
+            acknowledged: item.acknowledged,
+        })),
+        links: loc.links.map(link => ({
+            id: link.id.toString(),
+            nature: link.nature.toHex(),
+        })),
+    };
+}
+
+export function serializeVerificationBundle(bundle: VerificationBundle): string {
+    return JSON.stringify(bundle);
+}
+
+export function parseVerificationBundle(json: string): VerificationBundle {
+    const bundle = JSON.parse(json) as VerificationBundle;
+    if(bundle.version !== VERIFICATION_BUNDLE_VERSION) {
+        throw new Error(`Unsupported verification bundle version ${ bundle.version }`);
+    }
+    if(!bundle.loc || !bundle.chain) {
+        throw new Error("Malformed verification bundle");
+    }
+    return bundle;
+}
+
+export type BundleItemType = "LOC" | "FILE" | "METADATA" | "LINK";
+
+export type BundleItemStatus = "VALID" | "MISMATCH" | "NOT_FOUND";
+
+export interface BundleItemVerification {
+    type: BundleItemType;
+    /**
+     * The LOC ID, the file hash, the metadata name or the link target.
+     */
+    id: string;
+    status: BundleItemStatus;
+    /**
+     * The names of the fields not matching the chain snapshot.
+     */
+    mismatches: string[];
+}
+
+export interface BundleVerificationResult {
+    valid: boolean;
+    locId: UUID;
+    items: BundleItemVerification[];
+}
+
+/**
+ * Checks a bundle against a chain snapshot i.e. the LOC as fetched from the chain by the verifier.
+ * Only the hashes and fields available on-chain are verified, both in the off-chain data and in the chain data
+ * embedded in the bundle.
+ */
+export function verifyBundle(bundle: VerificationBundle, snapshot: LegalOfficerCase): BundleVerificationResult {
+    const { chain } = bundle;
+    const items: BundleItemVerification[] = [
+        verifyLoc(bundle, snapshot),
+        ...bundle.loc.files.map(file => verifyFile(file, chain, snapshot)),
+        ...bundle.loc.metadata.map(item => verifyMetadataItem(item, chain, snapshot)),
+        ...bundle.loc.links.map(link => verifyLink(link, chain, snapshot)),
+    ];
+    return {
+        valid: items.every(item => item.status === "VALID"),
+        locId: new UUID(bundle.loc.id),
+        items,
+    };
+}
+
+function verifyLoc(bundle: VerificationBundle, snapshot: LegalOfficerCase): BundleItemVerification {
+    const { loc, chain } = bundle;
+    const mismatches: string[] = [];
+    if(loc.ownerAddress !== snapshot.owner || chain.owner !== snapshot.owner) {
+        mismatches.push("owner");
+    }
+    if(!accountEquals(loc.requesterAddress, snapshot.requesterAddress) || !accountEquals(chain.requesterAddress, snapshot.requesterAddress)) {
+        mismatches.push("requesterAddress");
+    }
+    if(loc.requesterLocId !== snapshot.requesterLocId?.toString() || chain.requesterLocId !== snapshot.requesterLocId?.toString()) {
+        mismatches.push("requesterLocId");
+    }
+    if(loc.locType !== snapshot.locType || chain.locType !== snapshot.locType) {
+        mismatches.push("locType");
+    }
+    if(chain.closed !== snapshot.closed) {
+        mismatches.push("closed");
+    }
+    if(chain.voided !== (snapshot.voidInfo !== undefined)) {
+        mismatches.push("voidInfo");
+    }
+    if(chain.replacer !== snapshot.voidInfo?.replacer?.toString()) {
+        mismatches.push("replacer");
+    }
+    if(chain.replacerOf !== snapshot.replacerOf?.toString()) {
+        mismatches.push("replacerOf");
+    }
+    if(loc.seal !== snapshot.seal || chain.seal !== snapshot.seal) {
+        mismatches.push("seal");
+    }
+    if(chain.sponsorshipId !== snapshot.sponsorshipId?.toString()) {
+        mismatches.push("sponsorshipId");
+    }
+    if(chain.collectionLastBlockSubmission !== snapshot.collectionLastBlockSubmission?.toString()) {
+        mismatches.push("collectionLastBlockSubmission");
+    }
+    if(chain.collectionMaxSize !== snapshot.collectionMaxSize) {
+        mismatches.push("collectionMaxSize");
+    }
+    if(chain.collectionCanUpload !== snapshot.collectionCanUpload) {
+        mismatches.push("collectionCanUpload");
+    }
+    if(loc.files.length !== snapshot.files.length || chain.files.length !== snapshot.files.length) {
+        mismatches.push("files");
+    }
+    if(loc.metadata.length !== snapshot.metadata.length || chain.metadata.length !== snapshot.metadata.length) {
+        mismatches.push("metadata");
+    }
+    if(loc.links.length !== snapshot.links.length || chain.links.length !== snapshot.links.length) {
+        mismatches.push("links");
+    }
+    return toVerification("LOC", loc.id, mismatches);
+}
+
+function verifyFile(file: BundledFile, chain: BundledLegalOfficerCase, snapshot: LegalOfficerCase): BundleItemVerification {
+    const chainFile = snapshot.files.find(chainFile => chainFile.hash.toHex() === file.hash);
+    if(!chainFile) {
+        return notFound("FILE", file.hash);
+    }
+    const bundledChainFile = chain.files.find(bundledChainFile => bundledChainFile.hash === file.hash);
+    const mismatches: string[] = [];
+    if(!new HashString(chainFile.nature, file.nature).isValidValue() || bundledChainFile?.nature !== chainFile.nature.toHex()) {
+        mismatches.push("nature");
+    }
+    if(BigInt(file.size) !== chainFile.size || bundledChainFile?.size !== chainFile.size.toString()) {
+        mismatches.push("size");
+    }
+    if(!accountEquals(file.submitter, chainFile.submitter) || !accountEquals(bundledChainFile?.submitter, chainFile.submitter)) {
+        mismatches.push("submitter");
+    }
+    if(bundledChainFile?.acknowledged !== chainFile.acknowledged) {
+        mismatches.push("acknowledged");
+    }
+    return toVerification("FILE", file.hash, mismatches);
+}
+
+function verifyMetadataItem(item: BundledMetadataItem, chain: BundledLegalOfficerCase, snapshot: LegalOfficerCase): BundleItemVerification {
+    const nameHash = Hash.fromHex(item.nameHash);
+    const chainItem = snapshot.metadata.find(chainItem => chainItem.name.equalTo(nameHash));
+    if(!chainItem) {
+        return notFound("METADATA", item.name);
+    }
+    const bundledChainItem = chain.metadata.find(bundledChainItem => bundledChainItem.name === chainItem.name.toHex());
+    const mismatches: string[] = [];
+    if(!new HashString(chainItem.name, item.name).isValidValue()) {
+        mismatches.push("name");
+    }
+    if(!new HashString(chainItem.value, item.value).isValidValue() || bundledChainItem?.value !== chainItem.value.toHex()) {
+        mismatches.push("value");
+    }
+    if(!accountEquals(item.submitter, chainItem.submitter) || !accountEquals(bundledChainItem?.submitter, chainItem.submitter)) {
+        mismatches.push("submitter");
+    }
+    if(bundledChainItem?.acknowledged !== chainItem.acknowledged) {
+        mismatches.push("acknowledged");
+    }
+    return toVerification("METADATA", item.name, mismatches);
+}
+
+function verifyLink(link: BundledLink, chain: BundledLegalOfficerCase, snapshot: LegalOfficerCase): BundleItemVerification {
+    const chainLink = snapshot.links.find(chainLink => chainLink.id.toString() === link.target);
+    if(!chainLink) {
+        return notFound("LINK", link.target);
+    }
+    const bundledChainLink = chain.links.find(bundledChainLink => bundledChainLink.id === link.target);
+    const mismatches: string[] = [];
+    if(!new HashString(chainLink.nature, link.nature).isValidValue() || bundledChainLink?.nature !== chainLink.nature.toHex()) {
+        mismatches.push("nature");
+    }
+    return toVerification("LINK", link.target, mismatches);
+}
+
+function accountEquals(bundled: SupportedAccountId | undefined, chain: AccountId | undefined): boolean {
+    if(!bundled || !chain) {
+        return bundled === chain;
+    } else {
+        return bundled.address === chain.address && bundled.type === chain.type;
+    }
+}
+
+function notFound(type: BundleItemType, id: string): BundleItemVerification {
+    return {
+        type,
+        id,
+        status: "NOT_FOUND",
+        mismatches: [],
+    };
+}
+
+function toVerification(type: BundleItemType, id: string, mismatches: string[]): BundleItemVerification {
+    return {
+        type,
+        id,
+        status: mismatches.length === 0 ? "VALID" : "MISMATCH",
+        mismatches,
+    };
+}
@@ -176,6 +176,7 @@ export class PendingVote extends Vote {
             signerId: super.currentAddress(),
             submittable,
             callback: params.callback,
+            dryRun: params.dryRun,
         });
         const ballots = {
             ...this._data.ballots,
@@ -8,30 +8,50 @@ export * from './AuthenticationClient.js';
 export * from './AxiosFactory.js';
 export * from './Balance.js';
 export * from './CollectionItem.js';
+export * from './CollectionItemsJournal.js';
+export * from './CollectionManifest.js';
 export * from './ComponentFactory.js';
 export * from './DateTimeUtil.js';
 export * from './DirectoryClient.js';
+export * from './Error.js';
 export * from './Ethereum.js';
 export * from './Hash.js';
 export * from './Http.js';
+export * from './LegalOfficerRecovery.js';
+export * from './LegalOfficerVault.js';
 export * from './Loc.js';
+export * from './LocCache.js';
 export * from './LocClient.js';
+export * from './LocEvents.js';
+export * from './LocGraph.js';
+export * from './LocQuery.js';
+export * from './LocTemplate.js';
 export * from './LogionClient.js';
+export * from './MerkleTree.js';
 export * from './Mime.js';
+export * from './Multisig.js';
 export * from './NetworkState.js';
+export * from './OfflineSigning.js';
 export * from './Polling.js';
 export * from './Public.js';
 export * from './Recovery.js';
-export { LegalOfficerDecision, LoRecoveryClient, ProtectionRequest, ProtectionRequestStatus, UpdateParameters, UserActionParameters, CreateProtectionRequest } from './RecoveryClient.js';
+export * from './RemoteSigner.js';
+export * from './ReplacementChain.js';
+export { AcceptParameters, LegalOfficerDecision, LegalOfficerFetchAllResult, LoRecoveryClient, RejectParameters, ProtectionRequest, ProtectionRequestStatus, UpdateParameters, UserActionParameters, CreateProtectionRequest } from './RecoveryClient.js';
+export * from './Session.js';
 export * from './SharedClient.js';
 export * from './Signer.js';
 export * from './State.js';
 export * from './Sponsorship.js';
 export * from './Token.js';
+export * from './TokenRefresher.js';
 export * from './TransactionClient.js';
+export * from './Treasury.js';
 export * from './Types.js';
 export * from './Vault.js';
 export * from './VaultClient.js';
+export * from './VaultTransferQuorum.js';
+export * from './VerificationBundle.js';
 export * from './Voter.js';
 export * from './license/index.js';
 export * from './Deliveries.js';
@@ -48,9 +48,9 @@ export function newTermsAndConditions(onchainTCs: ChainTermsAndConditionsElement
         const oneOnchainTC = onchainTCs[i];
         const oneOffchainTC = offchainTCs[i];
         newTCs.push(new MergedTermsAndConditionsElement({
-            type: new HashString(oneOnchainTC.tcType, oneOffchainTC.type),
+            type: new HashString(oneOnchainTC.tcType, oneOffchainTC?.type),
             tcLocId: oneOnchainTC.tcLocId,
-            details: new HashString(oneOnchainTC.details, oneOffchainTC.details),
+            details: new HashString(oneOnchainTC.details, oneOffchainTC?.details),
         }));
     }
     return newTCs;
@@ -0,0 +1,2 @@
+export * from "./FakeBackend.js";
+export * from "./FakeNetwork.js";
@@ -6,7 +6,7 @@ import { AccountTokens, AuthenticationClient, LegalOfficer, LegalOfficerClass }
 import { AxiosFactory } from "../src/index.js";
 import { Token } from "../src/index.js";
 import { RawSigner, SignRawParameters } from "../src/index.js";
-import { ALICE, buildAliceTokens, buildSimpleNodeApi, buildValidPolkadotAccountId, DIRECTORY_ENDPOINT } from "./Utils.js";
+import { ALICE, BOB, buildAliceTokens, buildSimpleNodeApi, buildValidPolkadotAccountId, DIRECTORY_ENDPOINT } from "./Utils.js";
 import { ValidAccountId } from "@logion/node-api";
 
 describe("AuthenticationClient", () => {
@@ -20,6 +20,32 @@ describe("AuthenticationClient", () => {
         await testAuthentication(legalOfficers, ALICE.node);
     });
 
+    it("authenticates with next legal officer if first is unavailable", async () => {
+        const axiosFactory = new Mock<AxiosFactory>();
+        const aliceAxios = new Mock<AxiosInstance>();
+        aliceAxios.setup(instance => instance.post(It.IsAny(), It.IsAny())).returns(Promise.reject({ message: "Network Error", request: {} }));
+        axiosFactory.setup(instance => instance.buildAxiosInstance(ALICE.node, undefined)).returns(aliceAxios.object());
+        const bobAxios = new Mock<AxiosInstance>();
+        axiosFactory.setup(instance => instance.buildAxiosInstance(BOB.node, undefined)).returns(bobAxios.object());
+
+        const addresses = [ buildValidPolkadotAccountId("some-address")! ];
+        const sessionId = "session-id";
+        setupSignIn(bobAxios, addresses, sessionId);
+        const signatures = [ "signature" ];
+        const signer = new Mock<RawSigner>();
+        setupSignatures(signer, addresses, sessionId, signatures);
+        setupAuthenticate(bobAxios, addresses, sessionId, signatures);
+
+        const client = new AuthenticationClient(buildSimpleNodeApi(), DIRECTORY_ENDPOINT, [ ALICE, BOB ].map(legalOfficer => new LegalOfficerClass({
+            legalOfficer,
+            axiosFactory: axiosFactory.object(),
+        })), axiosFactory.object());
+        spyOn(console, "log");
+        const tokens = await client.authenticate(addresses, signer.object());
+
+        expect(tokens.get(addresses[0])?.value).toBe("some-address-token");
+    });
+
     it("refreshes tokens", async () => {
         const axiosFactory = new Mock<AxiosFactory>();
         const api = buildSimpleNodeApi();
@@ -0,0 +1,56 @@
+import { AxiosRequestConfig, AxiosResponse } from "axios";
+
+import { AxiosFactory, RequestRetryPolicy } from "../src/index.js";
+import { ALICE } from "./Utils.js";
+
+describe("AxiosFactory", () => {
+
+    it("retries idempotent request sent to unavailable node", async () => {
+        const { axios, methods } = buildAxios(2, RETRY_POLICY);
+
+        const response = await axios.get("/api/loc-request");
+
+        expect(response.status).toBe(200);
+        expect(methods).toEqual([ "get", "get", "get" ]);
+    });
+
+    it("gives up after max retries", async () => {
+        const { axios, methods } = buildAxios(3, RETRY_POLICY);
+
+        await expectAsync(axios.put("/api/loc-request")).toBeRejected();
+        expect(methods).toEqual([ "put", "put", "put" ]);
+    });
+
+    it("does not retry non-idempotent request", async () => {
+        const { axios, methods } = buildAxios(1, RETRY_POLICY);
+
+        await expectAsync(axios.post("/api/loc-request")).toBeRejected();
+        expect(methods).toEqual([ "post" ]);
+    });
+
+    it("does not retry without policy", async () => {
+        const { axios, methods } = buildAxios(1);
+
+        await expectAsync(axios.get("/api/loc-request")).toBeRejected();
+        expect(methods).toEqual([ "get" ]);
+    });
+});
+
+const RETRY_POLICY: RequestRetryPolicy = { maxRetries: 2, initialDelay: 1 };
+
+function buildAxios(failures: number, retryPolicy?: RequestRetryPolicy) {
+    const axiosFactory = new AxiosFactory();
+    axiosFactory.retryPolicy = retryPolicy;
+    const axios = axiosFactory.buildAxiosInstance(ALICE.node);
+    const methods: unknown[] = [];
+    axios.defaults.adapter = async (config: AxiosRequestConfig) => {
+        methods.push(config.method);
+        const response = { data: {}, status: 200, statusText: "OK", headers: {}, config } as AxiosResponse;
+        if(methods.length > failures) {
+            return response;
+        } else {
+            throw Object.assign(new Error("Service Unavailable"), { config, request: {}, response: { ...response, status: 503 } });
+        }
+    };
+    return { axios, methods };
+}
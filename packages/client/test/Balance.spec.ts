@@ -252,6 +252,105 @@ describe("Balance", () => {
         signer.verify(instance => instance.signAndSend(It.IsAny()), Times.Once());
     })
 
+    it("transfers asset from account", async () => {
+        const token = "some-token";
+        const tokens = new AccountTokens(
+            buildSimpleNodeApi(),
+            {
+                [REQUESTER_ADDRESS.toKey()]: {
+                    value: token,
+                    expirationDateTime: DateTime.now().plus({hours: 1})
+                }
+            }
+        );
+        const assetId = 42n;
+        const amount = new Numbers.PrefixedNumber("1.5", Numbers.NONE);
+        const transfer = new Mock<SubmittableExtrinsic>();
+        const balances: CoinBalance[] = [ COIN_BALANCE ];
+        const assetBalances: CoinBalance[] = [
+            {
+                coin: {
+                    iconId: "asset",
+                    iconType: "svg",
+                    id: "asset:42",
+                    name: "Token",
+                    symbol: "TOK",
+                    decimals: 6,
+                    assetId,
+                },
+                available: new Numbers.PrefixedNumber("2", Numbers.NONE),
+                balance: new Numbers.PrefixedNumber("2", Numbers.NONE),
+                level: 1,
+            }
+        ];
+        const sharedState = await buildTestAuthenticatedSharedSate(
+            testConfigFactory => {
+                const axiosFactory = testConfigFactory.setupAxiosFactoryMock();
+                testConfigFactory.setupDefaultNetworkState();
+                const nodeApi = testConfigFactory.setupNodeApiMock(LOGION_CLIENT_CONFIG);
+                const directoryClient = testConfigFactory.setupDirectoryClientMock(LOGION_CLIENT_CONFIG);
+
+                directoryClient.setup(instance => instance.getLegalOfficers()).returns(Promise.resolve([]));
+
+                nodeApi.setup(instance => instance.queries.getCoinBalances(REQUESTER_ADDRESS.address))
+                    .returns(Promise.resolve(balances));
+                nodeApi.setup(instance => instance.queries.getAssetBalances(REQUESTER_ADDRESS.address))
+                    .returns(Promise.resolve(assetBalances));
+
+                nodeApi.setup(instance => instance.polkadot.tx.assets.transferKeepAlive(assetId, BOB.address, 1500000n))
+                    .returns(transfer.object());
+
+                nodeApi.setup(instance => instance.fees.estimateWithoutStorage(It.IsAny()))
+                    .returnsAsync(new Fees({ inclusionFee: 0n }));
+
+                setupFetchTransactions(axiosFactory, [], REQUESTER_ADDRESS.address);
+            },
+            REQUESTER_ADDRESS,
+            [ ALICE, BOB ],
+            tokens,
+        );
+
+        const balanceState = new BalanceState({
+            ...sharedState,
+            balances,
+            assetBalances,
+            withAssets: true,
+            transactions: [],
+            isRecovery: false,
+        });
+
+        const signer = new Mock<Signer>();
+        signer.setup(instance => instance.signAndSend(It.Is<{ signerId: string, submittable: SubmittableExtrinsic }>(params =>
+            params.signerId === REQUESTER_ADDRESS.address
+            && params.submittable === transfer.object()))
+        ).returns(Promise.resolve(SUCCESSFUL_SUBMISSION));
+
+        await expectAsync(balanceState.transfer({
+            signer: signer.object(),
+            amount,
+            destination: BOB.address,
+            assetId: 43n,
+        })).toBeRejectedWithError("No balance for asset 43");
+
+        await expectAsync(balanceState.transfer({
+            signer: signer.object(),
+            amount: new Numbers.PrefixedNumber("1.0000005", Numbers.NONE),
+            destination: BOB.address,
+            assetId,
+        })).toBeRejectedWithError("Amount 1.0000005 has more than 6 decimals");
+
+        const newState = await balanceState.transfer({
+            signer: signer.object(),
+            amount,
+            destination: BOB.address,
+            assetId,
+        });
+
+        expect(newState.assetBalances).toEqual(assetBalances);
+
+        signer.verify(instance => instance.signAndSend(It.IsAny()), Times.Once());
+    })
+
     it("fails transferring with insufficient funds", async () => {
         const token = "some-token";
         const tokens = new AccountTokens(
@@ -0,0 +1,122 @@
+import { Hash, UUID } from "@logion/node-api";
+
+import { parseCollectionManifest } from "../src/index.js";
+import { buildSimpleNodeApi } from "./Utils.js";
+
+describe("CollectionManifest", () => {
+
+    it("parses valid CSV manifest", () => {
+        const manifest = [
+            "id,description,file_paths,file_content_types,token_type,token_id,token_issuance,cc4_loc_id,cc4_code",
+            `item-1,"Some item, with comma",test/file.txt,text/plain,ethereum_erc721,"{""contract"":""0x765df6da33c1ec1f83be42db171d7ee334a46df5"",""id"":""4391""}",1,${ TC_LOC_ID.toString() },BY`,
+            `${ ITEM_ID.toHex() },Other item,,,,,,,`,
+        ].join("\r\n");
+
+        const report = parseCollectionManifest({ api: buildSimpleNodeApi(), manifest, format: "CSV" });
+
+        expect(report.valid).toBeTrue();
+        expect(report.items.length).toBe(2);
+
+        const first = report.items[0];
+        expect(first.itemId).toEqual(Hash.of("item-1"));
+        expect(first.itemDescription).toBe("Some item, with comma");
+        expect(first.itemFiles?.length).toBe(1);
+        expect(first.itemFiles?.[0].name).toBe("file.txt");
+        expect(first.itemFiles?.[0].contentType.mimeType).toBe("text/plain");
+        expect(first.itemToken?.type).toBe("ethereum_erc721");
+        expect(first.itemToken?.issuance).toBe(1n);
+        expect(first.creativeCommons?.details).toBe("BY");
+        expect(first.logionClassification).toBeUndefined();
+
+        expect(report.items[1].itemId).toEqual(ITEM_ID);
+    });
+
+    it("reports errors row by row", () => {
+        const manifest = JSON.stringify([
+            {
+                id: "item-1",
+                description: "Valid item",
+                specificLicenses: [ { tcLocId: TC_LOC_ID.toString(), details: "Some details" } ],
+            },
+            {
+                id: "item-2",
+                files: [ { path: "test/file.txt", contentType: "unknown/type" } ],
+                token: { type: "ethereum_erc721", id: "not JSON" },
+            },
+            {
+                id: "item-3",
+                description: "Conflicting T&C",
+                restrictedDelivery: true,
+                logionClassification: { tcLocId: TC_LOC_ID.toString(), transferredRights: [ "PER-PRIV", "PER-PUB" ] },
+                creativeCommons: { tcLocId: "not a UUID", code: "BY" },
+            },
+            {
+                id: "item-1",
+                description: "Duplicate",
+            },
+        ]);
+
+        const report = parseCollectionManifest({ api: buildSimpleNodeApi(), manifest, format: "JSON", canUpload: false });
+
+        expect(report.valid).toBeFalse();
+        expect(report.items.length).toBe(1);
+        expect(report.items[0].specificLicenses?.[0].details).toBe("Some details");
+
+        expect(report.rows.map(row => row.row)).toEqual([ 1, 2, 3, 4 ]);
+        expect(report.rows[0].errors).toEqual([]);
+        expect(report.rows[1].errors).toEqual([
+            "missing description",
+            "file 1: unknown content type 'unknown/type'",
+            "invalid token: token ID is not a valid JSON object",
+        ]);
+        expect(report.rows[2].errors.length).toBe(4);
+        expect(report.rows[2].errors[0]).toBe("restricted delivery requires a defined underlying token as well as at least one file");
+        expect(report.rows[2].errors[1]).toMatch(/^invalid Logion Classification: /);
+        expect(report.rows[2].errors[2]).toBe("invalid Creative Commons LOC ID 'not a UUID'");
+        expect(report.rows[3].errors).toEqual([ `duplicate item ID ${ Hash.of("item-1").toHex() }` ]);
+    });
+
+    it("reports rows which are not objects", () => {
+        const manifest = JSON.stringify([
+            null,
+            42,
+            "item-1",
+            [ "item-2" ],
+            {
+                id: "item-3",
+                description: "Valid item",
+            },
+        ]);
+
+        const report = parseCollectionManifest({ api: buildSimpleNodeApi(), manifest, format: "JSON" });
+
+        expect(report.valid).toBeFalse();
+        expect(report.items.length).toBe(1);
+        expect(report.rows.map(row => row.row)).toEqual([ 1, 2, 3, 4, 5 ]);
+        expect(report.rows.slice(0, 4).map(row => row.errors)).toEqual([
+            [ "row must be an object" ],
+            [ "row must be an object" ],
+            [ "row must be an object" ],
+            [ "row must be an object" ],
+        ]);
+        expect(report.rows[4].errors).toEqual([]);
+    });
+
+    it("rejects files if collection does not allow upload", () => {
+        const manifest = JSON.stringify([
+            {
+                id: "item-1",
+                description: "Item with file",
+                files: [ { path: "test/file.txt", contentType: "text/plain" } ],
+            },
+        ]);
+
+        const report = parseCollectionManifest({ api: buildSimpleNodeApi(), manifest, format: "JSON", canUpload: false });
+
+        expect(report.rows[0].errors).toEqual([ "collection does not allow uploading files with items" ]);
+    });
+});
+
+const TC_LOC_ID = new UUID("d97c99fd-9bcc-4f92-b9ea-b6be93abbbcd");
+
+const ITEM_ID = Hash.of("some item");
@@ -0,0 +1,71 @@
+import {
+    BackendError,
+    Conflict,
+    newBackendError,
+    NodeUnavailable,
+    NotFound,
+    Unauthorized,
+    ValidationError,
+} from "../src/index.js";
+
+describe("newBackendError", () => {
+
+    it("maps 400 to ValidationError", () => {
+        const error = newBackendError(axiosError(400, {
+            errorMessage: "Invalid request",
+            errors: [ { field: "description", message: "Must not be empty" } ],
+        }));
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.message).toBe("Request failed: Invalid request");
+        expect((error as ValidationError).status).toBe(400);
+        expect((error as ValidationError).errorMessage).toBe("Invalid request");
+        expect((error as ValidationError).fields).toEqual([ { field: "description", message: "Must not be empty" } ]);
+    });
+
+    it("maps 401 and 403 to Unauthorized", () => {
+        expect(newBackendError(axiosError(401))).toBeInstanceOf(Unauthorized);
+        expect(newBackendError(axiosError(403))).toBeInstanceOf(Unauthorized);
+    });
+
+    it("maps 404 to NotFound", () => {
+        const error = newBackendError(axiosError(404, { errorMessage: "Not found" }));
+
+        expect(error).toBeInstanceOf(NotFound);
+        expect(error.name).toBe("NotFound");
+    });
+
+    it("maps 409 to Conflict", () => {
+        expect(newBackendError(axiosError(409))).toBeInstanceOf(Conflict);
+    });
+
+    it("maps other status to BackendError", () => {
+        const error = newBackendError(axiosError(500, { some: "data" }));
+
+        expect(error).toBeInstanceOf(BackendError);
+        expect(error.message).toBe(`Request failed: {"some":"data"}`);
+    });
+
+    it("maps missing response to NodeUnavailable", () => {
+        const error = newBackendError({ message: "Network Error", request: {} });
+
+        expect(error).toBeInstanceOf(NodeUnavailable);
+    });
+
+    it("returns other errors unchanged", () => {
+        const other = new Error("Other");
+
+        expect(newBackendError(other)).toBe(other);
+    });
+});
+
+function axiosError(status: number, data?: unknown) {
+    return {
+        message: "Request failed",
+        request: {},
+        response: {
+            status,
+            data,
+        },
+    };
+}
@@ -0,0 +1,216 @@
+import { Hash, UUID } from "@logion/node-api";
+import { DateTime } from "luxon";
+
+import {
+    AcceptedRequest,
+    ClosedLoc,
+    HashOrContent,
+    LogionClient,
+    LogionClientConfig,
+    OFFCHAIN_DATA_UNAVAILABLE,
+    OFFCHAIN_DATE_UNAVAILABLE,
+    OpenLoc,
+    PendingRequest,
+} from "../src/index.js";
+import { FakeLogionNetwork, FakeSigner } from "../src/testing.js";
+import { ALICE, REQUESTER } from "./Utils.js";
+
+describe("FakeLogionNetwork", () => {
+
+    it("runs transaction LOC from request to close", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+        const signer = new FakeSigner();
+        const client = await network.createClient();
+        const requesterClient = await client.authenticate([ REQUESTER ], signer);
+        const aliceClient = await authenticateAlice(client, signer);
+
+        const requesterLocs = await requesterClient.locsState();
+        const pendingRequest = await requesterLocs.requestTransactionLoc({
+            legalOfficer: requesterClient.getLegalOfficer(ALICE.address),
+            description: "This is a Transaction LOC",
+            draft: false,
+        }) as PendingRequest;
+        const locId = pendingRequest.locId;
+
+        const aliceLocs = await aliceClient.locsState({ spec: { ownerAddress: ALICE.address, statuses: [ "REVIEW_PENDING" ], locTypes: [ "Transaction" ] } });
+        const alicePendingRequest = aliceLocs.findById(locId) as PendingRequest;
+        await alicePendingRequest.legalOfficer.accept({ signer });
+
+        const acceptedRequest = await pendingRequest.refresh() as AcceptedRequest;
+        let openLoc = await acceptedRequest.open({ signer });
+        expect(openLoc).toBeInstanceOf(OpenLoc);
+
+        const name = "Some name";
+        const nameHash = Hash.of(name);
+        openLoc = await openLoc.addMetadata({ name, value: "Some value" }) as OpenLoc;
+        openLoc = await openLoc.requestMetadataReview(nameHash) as OpenLoc;
+        openLoc = await openLoc.addFile({
+            fileName: "test.txt",
+            nature: "Some nature",
+            file: HashOrContent.fromContent(Buffer.from("test")),
+        }) as OpenLoc;
+        const fileHash = openLoc.data().files[0].hash;
+        openLoc = await openLoc.requestFileReview(fileHash) as OpenLoc;
+
+        let aliceOpenLoc = (await aliceClient.locsState({ spec: { ownerAddress: ALICE.address, statuses: [ "OPEN" ], locTypes: [ "Transaction" ] } })).findById(locId) as OpenLoc;
+        aliceOpenLoc = await aliceOpenLoc.legalOfficer.reviewMetadata({ nameHash, decision: "ACCEPT" }) as OpenLoc;
+        aliceOpenLoc = await aliceOpenLoc.legalOfficer.reviewFile({ hash: fileHash, decision: "ACCEPT" }) as OpenLoc;
+
+        openLoc = await openLoc.refresh() as OpenLoc;
+        openLoc = await openLoc.publishMetadata({ nameHash, signer });
+        openLoc = await openLoc.publishFile({ hash: fileHash, signer });
+        expect(openLoc.data().metadata[0].status).toBe("PUBLISHED");
+        expect(openLoc.data().files[0].size).toBe(4n);
+
+        aliceOpenLoc = await aliceOpenLoc.refresh() as OpenLoc;
+        aliceOpenLoc = await aliceOpenLoc.legalOfficer.acknowledgeMetadata({ nameHash, signer }) as OpenLoc;
+        aliceOpenLoc = await aliceOpenLoc.legalOfficer.acknowledgeFile({ hash: fileHash, signer }) as OpenLoc;
+        const closedLoc = await aliceOpenLoc.legalOfficer.close({ signer });
+
+        expect(closedLoc).toBeInstanceOf(ClosedLoc);
+        expect(closedLoc.data().closed).toBeTrue();
+        expect(closedLoc.data().metadata[0].status).toBe("ACKNOWLEDGED");
+        expect(closedLoc.data().metadata[0].value).toBe("Some value");
+        expect(network.backend.getLocRequest(locId)?.status).toBe("CLOSED");
+        expect(network.node.submissions.map(submission => submission.method)).toEqual([
+            "createPolkadotTransactionLoc",
+            "addMetadata",
+            "addFile",
+            "acknowledgeMetadata",
+            "acknowledgeFile",
+            "close",
+        ]);
+    });
+
+    it("rejects unauthenticated requests", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+        const client = await network.createClient();
+
+        await expectAsync(client.withCurrentAddress(REQUESTER).locsState()).toBeRejected();
+    });
+
+    it("does not serve out-of-scope routes", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+
+        const response = await network.backend.handle({ method: "put", endpoint: ALICE.node, path: "/api/vault-transfer-request", data: {} });
+
+        expect(response.status).toBe(404);
+        expect(response.data).toEqual({ errorMessage: "Unsupported route PUT /api/vault-transfer-request" });
+    });
+
+    it("reads LOCs from chain storage only", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+        const signer = new FakeSigner();
+        const client = await network.createClient();
+        const api = client.logionApi;
+        const locId = new UUID();
+        const nameHash = Hash.of("Some name");
+        await signer.signAndSend({
+            signerId: REQUESTER.address,
+            submittable: api.polkadot.tx.logionLoc.createPolkadotTransactionLoc(api.adapters.toLocId(locId), ALICE.address),
+        });
+        await signer.signAndSend({
+            signerId: REQUESTER.address,
+            submittable: api.polkadot.tx.logionLoc.addMetadata(api.adapters.toLocId(locId), api.adapters.toPalletLogionLocMetadataItem({
+                name: nameHash,
+                value: Hash.of("Some value"),
+                submitter: REQUESTER,
+            })),
+        });
+
+        const locsState = await client.withCurrentAddress(REQUESTER).readOnlyLocsState();
+
+        expect(locsState.readOnly).toBeTrue();
+        const openLoc = locsState.findById(locId) as OpenLoc;
+        expect(locsState.openLocs["Transaction"]).toEqual([ openLoc ]);
+        expect(openLoc.data().description).toBe(OFFCHAIN_DATA_UNAVAILABLE);
+        expect(openLoc.data().createdOn).toBe(OFFCHAIN_DATE_UNAVAILABLE);
+        expect(openLoc.data().requesterAddress?.equals(REQUESTER)).toBeTrue();
+        expect(openLoc.data().metadata[0].nameHash).toEqual(nameHash);
+        expect(openLoc.data().metadata[0].name).toBe(OFFCHAIN_DATA_UNAVAILABLE);
+        expect(openLoc.data().metadata[0].status).toBe("PUBLISHED");
+        await expectAsync(locsState.requestTransactionLoc({
+            legalOfficer: client.getLegalOfficer(ALICE.address),
+            description: "This is a Transaction LOC",
+            draft: false,
+        })).toBeRejectedWithError("Cannot request a LOC with a read-only LOCs state");
+
+        await signer.signAndSend({
+            signerId: ALICE.address,
+            submittable: api.polkadot.tx.logionLoc.acknowledgeMetadata(api.adapters.toLocId(locId), api.adapters.toH256(nameHash)),
+        });
+        await signer.signAndSend({
+            signerId: ALICE.address,
+            submittable: api.polkadot.tx.logionLoc.close(api.adapters.toLocId(locId)),
+        });
+        const closedLoc = await openLoc.refresh();
+
+        expect(closedLoc).toBeInstanceOf(ClosedLoc);
+        expect(closedLoc.data().metadata[0].status).toBe("ACKNOWLEDGED");
+        expect(network.backend.getLocRequest(locId)).toBeUndefined();
+    });
+
+    it("publishes client with automatically refreshed tokens", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+        const client = await LogionClient.create({
+            ...network.config,
+            tokenRefreshThreshold: { hours: 2 },
+            __componentFactory: network.componentFactory,
+        } as LogionClientConfig);
+        const authenticatedClient = await client.authenticate([ REQUESTER ], new FakeSigner());
+        const initialToken = authenticatedClient.tokens.get(REQUESTER)?.value;
+        const errors: unknown[] = [];
+        const refreshedClients: LogionClient[] = [];
+        authenticatedClient.onTokensRefreshed(() => { throw new Error("Listener failure") }, error => errors.push(error));
+        authenticatedClient.onTokensRefreshed(refreshedClient => refreshedClients.push(refreshedClient));
+
+        await authenticatedClient.locsState();
+
+        expect(authenticatedClient.tokens.get(REQUESTER)?.value).toBe(initialToken);
+        expect(refreshedClients.length).toBe(1);
+        const refreshedToken = refreshedClients[0].tokens.get(REQUESTER)?.value;
+        expect(refreshedToken).toBeDefined();
+        expect(refreshedToken).not.toBe(initialToken);
+        expect(refreshedClients[0].currentAddress?.address).toBe(REQUESTER.address);
+        expect(refreshedClients[0].isTokenValid(DateTime.now())).toBeTrue();
+        expect(network.backend.authenticatedAccount(refreshedToken)?.address).toBe(REQUESTER.address);
+        expect(errors).toEqual([ new Error("Listener failure") ]);
+    });
+
+    it("keeps tokens of other clients on logout", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+        const client = await network.createClient();
+        const authenticatedClient = await client.authenticate([ REQUESTER ], new FakeSigner());
+        const token = authenticatedClient.tokens.get(REQUESTER)?.value;
+
+        const loggedOutClient = authenticatedClient.withCurrentAddress(REQUESTER).logout();
+
+        expect(loggedOutClient.tokens.length).toBe(0);
+        expect(authenticatedClient.tokens.get(REQUESTER)?.value).toBe(token);
+        expect(authenticatedClient.isTokenValid(DateTime.now())).toBeTrue();
+        expect(await authenticatedClient.locsState()).toBeDefined();
+    });
+
+    it("reads LOCs of legal officers without node from chain storage only", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ { ...ALICE, node: "" } ] });
+        const signer = new FakeSigner();
+        const client = await network.createClient();
+        const api = client.logionApi;
+        const locId = new UUID();
+        await signer.signAndSend({
+            signerId: REQUESTER.address,
+            submittable: api.polkadot.tx.logionLoc.createPolkadotTransactionLoc(api.adapters.toLocId(locId), ALICE.address),
+        });
+
+        const locsState = await client.withCurrentAddress(REQUESTER).readOnlyLocsState();
+
+        expect(client.legalOfficers.length).toBe(0);
+        expect(locsState.findById(locId).data().ownerAddress).toBe(ALICE.address);
+    });
+});
+
+async function authenticateAlice(client: LogionClient, signer: FakeSigner): Promise<LogionClient> {
+    const alice = client.logionApi.queries.getValidAccountId(ALICE.address, "Polkadot");
+    const authenticated = await client.authenticate([ alice ], signer);
+    return authenticated.withCurrentAddress(alice);
+}
@@ -0,0 +1,134 @@
+import { LogionNodeApiClass, UUID } from "@logion/node-api";
+import type { SubmittableExtrinsic } from '@polkadot/api/promise/types';
+import { DateTime } from "luxon";
+import { It, Mock } from "moq.ts";
+
+import {
+    LegalOfficerRecoveryState,
+    LogionClient,
+    LoRecoveryClient,
+    PostalAddress,
+    ProtectionRequest,
+    Signer,
+    SignParameters,
+    UserIdentity,
+} from "../src/index.js";
+import { RecoveryClient } from "../src/RecoveryClient.js";
+import { ALICE, BOB, RECOVERED_ADDRESS, REQUESTER } from "./Utils.js";
+
+describe("LegalOfficerRecoveryState", () => {
+
+    it("fetches requests", async () => {
+        const state = await buildState(new Mock<LogionClient>(), new Mock<LoRecoveryClient>());
+
+        expect(state.pendingProtectionRequests).toEqual([ protectionRequest ]);
+        expect(state.pendingRecoveryRequests).toEqual([ recoveryRequest ]);
+        expect(state.acceptedProtectionRequests).toEqual([]);
+        expect(state.rejectedProtectionRequests).toEqual([]);
+    });
+
+    it("accepts protection request", async () => {
+        const loRecoveryClient = new Mock<LoRecoveryClient>();
+        const identityLocId = new UUID();
+        loRecoveryClient.setup(instance => instance.accept(It.IsAny())).returns(Promise.resolve());
+        const state = await buildState(new Mock<LogionClient>(), loRecoveryClient);
+
+        const nextState = await state.acceptProtectionRequest({ request: protectionRequest, identityLocId });
+
+        loRecoveryClient.verify(instance => instance.accept(It.Is<{ id: string, identityLocId: UUID }>(params =>
+            params.id === protectionRequest.id
+            && params.identityLocId === identityLocId
+        )));
+        expect(nextState.pendingProtectionRequests.length).toBe(0);
+        expect(nextState.acceptedProtectionRequests[0].decision.locId).toBe(identityLocId.toString());
+    });
+
+    it("does not accept recovery request without vouching", async () => {
+        const state = await buildState(new Mock<LogionClient>(), new Mock<LoRecoveryClient>());
+
+        await expectAsync(state.acceptProtectionRequest({ request: recoveryRequest, identityLocId: new UUID() })).toBeRejected();
+    });
+
+    it("vouches and accepts recovery request", async () => {
+        const vouch = new Mock<SubmittableExtrinsic>().object();
+        const api = new Mock<LogionNodeApiClass>();
+        api.setup(instance => instance.polkadot.tx.recovery.vouchRecovery(RECOVERED_ADDRESS.address, REQUESTER.address)).returns(vouch);
+        const client = new Mock<LogionClient>();
+        client.setup(instance => instance.logionApi).returns(api.object());
+        const loRecoveryClient = new Mock<LoRecoveryClient>();
+        loRecoveryClient.setup(instance => instance.accept(It.IsAny())).returns(Promise.resolve());
+        const signer = new Mock<Signer>();
+        signer.setup(instance => instance.signAndSend(It.Is<SignParameters>(params =>
+            params.signerId === ALICE.address
+            && params.submittable === vouch
+        ))).returns(Promise.resolve({
+            block: "0x1234",
+            index: 1,
+            events: [],
+        }));
+        const state = await buildState(client, loRecoveryClient);
+
+        const nextState = await state.acceptRecoveryRequest({ request: recoveryRequest, identityLocId: new UUID(), signer: signer.object() });
+
+        signer.verify(instance => instance.signAndSend(It.IsAny()));
+        loRecoveryClient.verify(instance => instance.accept(It.IsAny()));
+        expect(nextState.pendingRecoveryRequests.length).toBe(0);
+        expect(nextState.acceptedProtectionRequests[0].status).toBe("ACCEPTED");
+    });
+
+    it("rejects request", async () => {
+        const loRecoveryClient = new Mock<LoRecoveryClient>();
+        const reason = "Because";
+        loRecoveryClient.setup(instance => instance.reject(It.IsAny())).returns(Promise.resolve());
+        const state = await buildState(new Mock<LogionClient>(), loRecoveryClient);
+
+        const nextState = await state.rejectRequest({ request: protectionRequest, reason });
+
+        loRecoveryClient.verify(instance => instance.reject(It.Is<{ id: string, reason: string }>(params =>
+            params.id === protectionRequest.id
+            && params.reason === reason
+        )));
+        expect(state.discarded).toBeTrue();
+        expect(nextState.pendingProtectionRequests.length).toBe(0);
+        expect(nextState.rejectedProtectionRequests[0].decision.rejectReason).toBe(reason);
+    });
+});
+
+const protectionRequest: ProtectionRequest = {
+    id: "1",
+    requesterAddress: REQUESTER.address,
+    decision: {
+        decisionOn: null,
+        rejectReason: null,
+    },
+    userIdentity: {} as UserIdentity,
+    userPostalAddress: {} as PostalAddress,
+    createdOn: DateTime.now().toISO(),
+    isRecovery: false,
+    addressToRecover: null,
+    status: "PENDING",
+    legalOfficerAddress: ALICE.address,
+    otherLegalOfficerAddress: BOB.address,
+};
+
+const recoveryRequest: ProtectionRequest = {
+    ...protectionRequest,
+    id: "2",
+    isRecovery: true,
+    addressToRecover: RECOVERED_ADDRESS.address,
+};
+
+function buildState(client: Mock<LogionClient>, loRecoveryClient: Mock<LoRecoveryClient>): Promise<LegalOfficerRecoveryState> {
+    const recoveryClient = new Mock<RecoveryClient>();
+    recoveryClient.setup(instance => instance.fetchAllOfLegalOfficer(ALICE)).returns(Promise.resolve({
+        pendingProtectionRequests: [ protectionRequest, recoveryRequest ],
+        acceptedProtectionRequests: [],
+        rejectedProtectionRequests: [],
+    }));
+    return LegalOfficerRecoveryState.create({
+        client: client.object(),
+        recoveryClient: recoveryClient.object(),
+        loRecoveryClient: loRecoveryClient.object(),
+        legalOfficer: ALICE,
+    });
+}
@@ -0,0 +1,122 @@
+import { LogionNodeApiClass, Vault } from "@logion/node-api";
+import type { SubmittableExtrinsic } from '@polkadot/api/promise/types';
+import { DateTime } from "luxon";
+import { It, Mock } from "moq.ts";
+
+import {
+    LegalOfficerVaultState,
+    LogionClient,
+    PostalAddress,
+    Signer,
+    SignParameters,
+    UserIdentity,
+    VaultClient,
+    VaultTransferRequest,
+} from "../src/index.js";
+import { ALICE, BOB, REQUESTER } from "./Utils.js";
+
+describe("LegalOfficerVaultState", () => {
+
+    it("fetches requests", async () => {
+        const vaultClient = mockVaultClient();
+
+        const state = await LegalOfficerVaultState.create({
+            client: new Mock<LogionClient>().object(),
+            vaultClient: vaultClient.object(),
+            legalOfficer: ALICE,
+        });
+
+        expect(state.pendingVaultTransferRequests).toEqual([ pendingRequest ]);
+        expect(state.acceptedVaultTransferRequests).toEqual([]);
+        expect(state.rejectedVaultTransferRequests).toEqual([]);
+    });
+
+    it("accepts request", async () => {
+        const vaultClient = mockVaultClient();
+        vaultClient.setup(instance => instance.acceptVaultTransferRequest(ALICE, pendingRequest)).returns(Promise.resolve());
+
+        const approve = new Mock<SubmittableExtrinsic>().object();
+        const vault = new Mock<Vault>();
+        vault.setup(instance => instance.tx.approveVaultTransfer(It.Is<{ signerId: string, block: bigint, index: number }>(params =>
+            params.signerId === ALICE.address
+            && params.block === 42n
+            && params.index === 1
+        ))).returns(Promise.resolve(approve));
+        const api = new Mock<LogionNodeApiClass>();
+        api.setup(instance => instance.queries.getRecoveryConfig(REQUESTER.address)).returns(Promise.resolve({ legalOfficers: [ ALICE.address, BOB.address ] }));
+        api.setup(instance => instance.vault(REQUESTER.address, It.Is<string[]>(legalOfficers => legalOfficers.length === 2))).returns(vault.object());
+        const client = new Mock<LogionClient>();
+        client.setup(instance => instance.logionApi).returns(api.object());
+
+        const signer = new Mock<Signer>();
+        signer.setup(instance => instance.signAndSend(It.Is<SignParameters>(params =>
+            params.signerId === ALICE.address
+            && params.submittable === approve
+        ))).returns(Promise.resolve({
+            block: "0x1234",
+            index: 1,
+            events: [],
+        }));
+
+        const state = await LegalOfficerVaultState.create({
+            client: client.object(),
+            vaultClient: vaultClient.object(),
+            legalOfficer: ALICE,
+        });
+        const nextState = await state.acceptVaultTransferRequest({
+            request: pendingRequest,
+            signer: signer.object(),
+        });
+
+        vaultClient.verify(instance => instance.acceptVaultTransferRequest(ALICE, pendingRequest));
+        expect(state.discarded).toBeTrue();
+        expect(nextState.pendingVaultTransferRequests.length).toBe(0);
+        expect(nextState.acceptedVaultTransferRequests.length).toBe(1);
+        expect(nextState.acceptedVaultTransferRequests[0].status).toBe("ACCEPTED");
+    });
+
+    it("rejects request", async () => {
+        const vaultClient = mockVaultClient();
+        const rejectReason = "Because";
+        vaultClient.setup(instance => instance.rejectVaultTransferRequest(ALICE, pendingRequest, rejectReason)).returns(Promise.resolve());
+
+        const state = await LegalOfficerVaultState.create({
+            client: new Mock<LogionClient>().object(),
+            vaultClient: vaultClient.object(),
+            legalOfficer: ALICE,
+        });
+        const nextState = await state.rejectVaultTransferRequest({
+            request: pendingRequest,
+            rejectReason,
+        });
+
+        vaultClient.verify(instance => instance.rejectVaultTransferRequest(ALICE, pendingRequest, rejectReason));
+        expect(nextState.pendingVaultTransferRequests.length).toBe(0);
+        expect(nextState.rejectedVaultTransferRequests[0].decision?.rejectReason).toBe(rejectReason);
+    });
+});
+
+const pendingRequest: VaultTransferRequest = {
+    id: "1",
+    amount: "200",
+    block: "42",
+    createdOn: DateTime.now().toISO(),
+    destination: BOB.address,
+    index: 1,
+    legalOfficerAddress: ALICE.address,
+    origin: REQUESTER.address,
+    requesterIdentity: {} as UserIdentity,
+    requesterPostalAddress: {} as PostalAddress,
+    status: "PENDING"
+};
+
+function mockVaultClient(): Mock<VaultClient> {
+    const vaultClient = new Mock<VaultClient>();
+    vaultClient.setup(instance => instance.fetchAllOfLegalOfficer(ALICE)).returns(Promise.resolve({
+        pendingVaultTransferRequests: [ pendingRequest ],
+        acceptedVaultTransferRequests: [],
+        rejectedVaultTransferRequests: [],
+        cancelledVaultTransferRequests: [],
+    }));
+    return vaultClient;
+}
@@ -1,5 +1,6 @@
 import { Hash, LogionNodeApiClass, UUID, VerifiedIssuerType } from "@logion/node-api";
 import type { SubmittableExtrinsic } from '@polkadot/api/promise/types';
+import type { Index } from '@polkadot/types/interfaces';
 import { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
 import { DateTime } from "luxon";
 import { It, Mock, Times } from "moq.ts";
@@ -34,6 +35,8 @@ import {
     SharedState,
     FormDataLike,
     LegalOfficerClass,
+    InMemoryCollectionItemsJournal,
+    EMPTY_LOC_ISSUERS,
 } from "../src/index.js";
 import {
     ALICE,
@@ -125,6 +128,47 @@ async function testGetInitialState(isVerifiedIssuer: boolean) {
     }
 }
 
+describe("LocRequestState", () => {
+
+    it("keeps off-chain values matching on-chain hashes", () => {
+        const data = buildLocDataWithMetadata("Some value");
+
+        expect(data.metadata[0].name).toBe("Some name");
+        expect(data.metadata[0].value).toBe("Some value");
+        expect(data.files[0].nature).toBe("Some nature");
+    });
+
+    it("hides off-chain values not matching on-chain hashes", () => {
+        const data = buildLocDataWithMetadata("Other value");
+
+        expect(data.metadata[0].name).toBe("Some name");
+        expect(data.metadata[0].value).toMatch(/^Deleted data/);
+    });
+});
+
+function buildLocDataWithMetadata(offchainValue: string): LocData {
+    const { request, loc } = buildLocAndRequest(ALICE.address, "CLOSED", "Transaction");
+    const name = Hash.of("Some name");
+    return LocRequestState.buildLocData(buildSimpleNodeApi(), {
+        ...loc,
+        metadata: [ {
+            name,
+            value: Hash.of("Some value"),
+            submitter: REQUESTER,
+            acknowledged: true,
+        } ],
+    }, {
+        ...request,
+        metadata: [ {
+            name: "Some name",
+            nameHash: name.toHex(),
+            value: offchainValue,
+            submitter: REQUESTER,
+            status: "ACKNOWLEDGED",
+        } ],
+    }, EMPTY_LOC_ISSUERS);
+}
+
 describe("DraftRequest", () => {
 
     it("adds metadata", async () => testAddMetadata(await getDraftRequest()));
@@ -407,6 +451,106 @@ describe("ClosedCollectionLoc", () => {
         signer.verify(instance => instance.signAndSend(It.IsAny()), Times.Never());
     });
 
+    it("adds collection items", async () => {
+        const closedLoc = await getClosedCollectionLoc();
+
+        const signer = new Mock<Signer>();
+        signer.setup(instance => instance.signAndSend(It.Is<SignParameters>(params => params.signerId === REQUESTER.address))).returnsAsync(SUCCESSFUL_SUBMISSION);
+        signer.setup(instance => instance.supportsNonce).returns(true);
+        const journal = new InMemoryCollectionItemsJournal();
+        const { state, progress } = await closedLoc.addCollectionItems({
+            items: [
+                { itemId: ITEM_ID, itemDescription: ITEM_DESCRIPTION },
+                { itemId: OTHER_ITEM_ID, itemDescription: ITEM_DESCRIPTION },
+            ],
+            signer: signer.object(),
+            journal,
+        });
+
+        expect(state).toBeInstanceOf(ClosedCollectionLoc);
+        expect(closedLoc.discarded).toBeTrue();
+        expect(progress.map(item => item.status)).toEqual([ "DONE", "DONE" ]);
+        expect(journal.progress.length).toBe(2);
+        signer.verify(instance => instance.signAndSend(It.Is<SignParameters>(params => params.nonce === NEXT_NONCE)), Times.Once());
+        signer.verify(instance => instance.signAndSend(It.Is<SignParameters>(params => params.nonce === NEXT_NONCE + 1)), Times.Once());
+    });
+
+    it("adds collection items one after the other if signer does not support nonce", async () => {
+        const closedLoc = await getClosedCollectionLoc();
+
+        const signer = new Mock<Signer>();
+        signer.setup(instance => instance.signAndSend(It.Is<SignParameters>(params => params.signerId === REQUESTER.address))).returnsAsync(SUCCESSFUL_SUBMISSION);
+        const { progress } = await closedLoc.addCollectionItems({
+            items: [
+                { itemId: ITEM_ID, itemDescription: ITEM_DESCRIPTION },
+                { itemId: OTHER_ITEM_ID, itemDescription: ITEM_DESCRIPTION },
+            ],
+            signer: signer.object(),
+        });
+
+        expect(progress.map(item => item.status)).toEqual([ "DONE", "DONE" ]);
+        signer.verify(instance => instance.signAndSend(It.Is<SignParameters>(params => params.nonce === undefined)), Times.Exactly(2));
+    });
+
+    it("resumes adding collection items", async () => {
+        const closedLoc = await getClosedCollectionLoc();
+
+        const signer = new Mock<Signer>();
+        signer.setup(instance => instance.signAndSend(It.Is<SignParameters>(params => params.signerId === REQUESTER.address))).returnsAsync(SUCCESSFUL_SUBMISSION);
+        const journal = new InMemoryCollectionItemsJournal([ { itemId: ITEM_ID.toHex(), status: "DONE" } ]);
+        const { progress } = await closedLoc.addCollectionItems({
+            items: [
+                { itemId: ITEM_ID, itemDescription: ITEM_DESCRIPTION },
+                { itemId: OTHER_ITEM_ID, itemDescription: ITEM_DESCRIPTION },
+            ],
+            signer: signer.object(),
+            journal,
+        });
+
+        expect(progress.map(item => item.status)).toEqual([ "DONE", "DONE" ]);
+        signer.verify(instance => instance.signAndSend(It.IsAny()), Times.Once());
+    });
+
+    it("resumes adding collection items with submitted public data", async () => {
+        const closedLoc = await getClosedCollectionLoc();
+
+        const signer = new Mock<Signer>();
+        signer.setup(instance => instance.signAndSend(It.Is<SignParameters>(params => params.signerId === REQUESTER.address))).returnsAsync(SUCCESSFUL_SUBMISSION);
+        const journal = new InMemoryCollectionItemsJournal([
+            { itemId: EXISTING_ITEM_ID.toHex(), status: "PUBLIC_DATA_SUBMITTED" },
+            { itemId: ITEM_ID.toHex(), status: "PUBLIC_DATA_SUBMITTED" },
+        ]);
+        const { progress } = await closedLoc.addCollectionItems({
+            items: [
+                { itemId: EXISTING_ITEM_ID, itemDescription: ITEM_DESCRIPTION },
+                { itemId: ITEM_ID, itemDescription: ITEM_DESCRIPTION },
+            ],
+            signer: signer.object(),
+            journal,
+        });
+
+        expect(progress.map(item => item.status)).toEqual([ "DONE", "DONE" ]);
+        signer.verify(instance => instance.signAndSend(It.Is<SignParameters>(params => params.nonce === undefined)), Times.Once());
+        aliceAxiosMock.verify(instance => instance.delete(`/api/collection/${ closedLoc.locId.toString() }/items/${ EXISTING_ITEM_ID.toHex() }`), Times.Never());
+        aliceAxiosMock.verify(instance => instance.delete(`/api/collection/${ closedLoc.locId.toString() }/items/${ ITEM_ID.toHex() }`), Times.Once());
+    });
+
+    it("rolls back public data of failed collection items", async () => {
+        const closedLoc = await getClosedCollectionLoc();
+
+        const signer = new Mock<Signer>();
+        signer.setup(instance => instance.signAndSend(It.IsAny())).returns(Promise.reject(new Error("Failure")));
+        const { progress } = await closedLoc.addCollectionItems({
+            items: [
+                { itemId: ITEM_ID, itemDescription: ITEM_DESCRIPTION },
+            ],
+            signer: signer.object(),
+        });
+
+        expect(progress).toEqual([ { itemId: ITEM_ID.toHex(), status: "FAILED", error: "Failure" } ]);
+        aliceAxiosMock.verify(instance => instance.delete(`/api/collection/${ closedLoc.locId.toString() }/items/${ ITEM_ID.toHex() }`), Times.Once());
+    });
+
     it("requests Statement of Facts (SoF)", async () => {
         const closedLoc = await getClosedCollectionLoc();
 
@@ -593,6 +737,9 @@ const client = new Mock<LogionClient>();
 const legalOfficers: LegalOfficer[] = [ ALICE, BOB, CHARLIE ];
 
 const ITEM_ID = Hash.fromHex("0x186bf67f32bb45187a1c50286dbd9adf8751874831aeba2a66760a74a9c898cc");
+const OTHER_ITEM_ID = Hash.of("other item");
+
+const NEXT_NONCE = 5;
 
 const ALICE_DRAFT_TRANSACTION_LOC = buildLocAndRequest(ALICE.address, "DRAFT", "Transaction");
 const ALICE_OPEN_TRANSACTION_LOC = buildLocAndRequest(ALICE.address, "OPEN", "Transaction");
@@ -840,6 +987,9 @@ async function buildSharedState(isVerifiedIssuer: boolean = false): Promise<Shar
             nodeApiMock.setup(instance => instance.queries.getCollectionItem(ItIsUuid(new UUID(BOB_VOID_COLLECTION_LOC.request.id)), EXISTING_ITEM_ID))
                 .returnsAsync(COLLECTION_ITEM);
 
+            nodeApiMock.setup(instance => instance.polkadot.rpc.system.accountNextIndex(REQUESTER.address))
+                .returnsAsync({ toNumber: () => NEXT_NONCE } as Index);
+
             const addTokensRecordExtrinsic = new Mock<SubmittableExtrinsic>();
             nodeApiMock.setup(instance => instance.polkadot.tx.logionLoc.addTokensRecord(
                 new UUID(ALICE_CLOSED_COLLECTION_LOC.request.id).toDecimalString(),
@@ -0,0 +1,142 @@
+import { CollectionItem, LegalOfficerCase, LocBatch, LogionNodeApiClass, UUID } from "@logion/node-api";
+import { Mock, Times } from "moq.ts";
+
+import { InMemoryCacheStore, LocCache, LocRequest } from "../src/index.js";
+import { ALICE } from "./Utils.js";
+import { buildCollectionItem, buildLoc, buildLocRequest } from "./LocUtils.js";
+
+describe("LocCache", () => {
+
+    it("fetches only missing LOCs", async () => {
+        const { api, locs } = mockApi();
+        const cache = new LocCache(api.object(), new InMemoryCacheStore());
+
+        await cache.getLocBatch([ CLOSED_LOC_ID, OPEN_LOC_ID ]);
+        await cache.getLocBatch([ CLOSED_LOC_ID, OPEN_LOC_ID ]);
+
+        const preloadedIds = locs.calls.allArgs()
+            .map(args => Object.keys(args[1] as Record<string, LegalOfficerCase>));
+        expect(preloadedIds).toEqual([ [], [ CLOSED_LOC_ID.toDecimalString() ] ]);
+        const cached = await cache.getLoc(CLOSED_LOC_ID);
+        expect(cached?.blockHash).toBe(BLOCK_HASH);
+        expect(cached?.value.files[0].hash).toEqual(CLOSED_LOC.files[0].hash);
+        expect(cached?.value.files[0].size).toBe(CLOSED_LOC.files[0].size);
+        expect(cached?.value.requesterAddress?.address).toBe(CLOSED_LOC.requesterAddress?.address);
+        expect(await cache.getLoc(OPEN_LOC_ID)).toBeUndefined();
+    });
+
+    it("invalidates LOC on void event", async () => {
+        const { api } = mockApi();
+        const cache = new LocCache(api.object(), new InMemoryCacheStore());
+        await cache.getLocBatch([ CLOSED_LOC_ID ]);
+
+        await cache.onLocEvent({ type: "LocVoid", locId: CLOSED_LOC_ID });
+
+        expect(await cache.getLoc(CLOSED_LOC_ID)).toBeUndefined();
+    });
+
+    it("invalidates LOC on request change", async () => {
+        const { api } = mockApi();
+        const cache = new LocCache(api.object(), new InMemoryCacheStore());
+        await cache.getLocBatch([ CLOSED_LOC_ID ]);
+
+        const request: LocRequest = {
+            ...buildLocRequest(ALICE.address, "CLOSED", "Transaction"),
+            id: CLOSED_LOC_ID.toString(),
+            voidInfo: { reason: "Some reason", voidedOn: "2023-01-01T00:00:00.000Z" },
+        };
+        await cache.invalidateOnStatusChange([ request ]);
+
+        expect(await cache.getLoc(CLOSED_LOC_ID)).toBeUndefined();
+    });
+
+    it("expires closed LOC fetched too long ago", async () => {
+        const { api, chain } = mockApi();
+        const cache = new LocCache(api.object(), new InMemoryCacheStore(), 10n);
+        await cache.getLocBatch([ CLOSED_LOC_ID ]);
+
+        chain.bestBlockNumber = FETCH_BLOCK_NUMBER + 10n;
+        expect(await cache.getLoc(CLOSED_LOC_ID)).toBeDefined();
+
+        chain.bestBlockNumber = FETCH_BLOCK_NUMBER + 11n;
+        expect(await cache.getLoc(CLOSED_LOC_ID)).toBeUndefined();
+    });
+
+    it("keeps void LOC", async () => {
+        const { api, chain } = mockApi();
+        const cache = new LocCache(api.object(), new InMemoryCacheStore(), 10n);
+        await cache.getLocBatch([ VOID_LOC_ID ]);
+
+        chain.bestBlockNumber = FETCH_BLOCK_NUMBER + 11n;
+
+        expect(await cache.getLoc(VOID_LOC_ID)).toBeDefined();
+    });
+
+    it("refetches collection items only if size changed", async () => {
+        const { api, queries } = mockApi();
+        const cache = new LocCache(api.object(), new InMemoryCacheStore());
+
+        const items = await cache.getCollectionItems(CLOSED_LOC_ID);
+        const cachedItems = await cache.getCollectionItems(CLOSED_LOC_ID);
+
+        expect(items.length).toBe(1);
+        expect(cachedItems[0].id).toEqual(ITEM.id);
+        expect(cachedItems[0].description).toEqual(ITEM.description);
+        queries.verify(instance => instance.getCollectionItems(CLOSED_LOC_ID), Times.Once());
+
+        await cache.onLocEvent({ type: "ItemAdded", locId: CLOSED_LOC_ID, itemId: ITEM.id });
+        await cache.getCollectionItems(CLOSED_LOC_ID);
+        queries.verify(instance => instance.getCollectionItems(CLOSED_LOC_ID), Times.Exactly(2));
+    });
+});
+
+const CLOSED_LOC_ID = new UUID("a7d71dfa-b3c1-4dc0-9cbb-0ec4bb8b3c5f");
+const OPEN_LOC_ID = new UUID("06dca5b7-81cf-4b4c-9b3b-f5d80db1ed4a");
+const VOID_LOC_ID = new UUID("2b7c9b4e-5b0e-4a3f-8f43-8f4f0c8b2f5d");
+const CLOSED_LOC = buildLoc(ALICE.address, "CLOSED", "Collection");
+const OPEN_LOC = buildLoc(ALICE.address, "OPEN", "Transaction");
+const VOID_LOC = buildLoc(ALICE.address, "CLOSED", "Transaction", {});
+const ITEM = buildCollectionItem();
+const BLOCK_HASH = "0x0102";
+const FETCH_BLOCK_NUMBER = 42n;
+
+function mockApi() {
+    const locs = jasmine.createSpy("preloadedLocs").and.callFake((ids: UUID[], preloadedLocs: Record<string, LegalOfficerCase>) => {
+        const batchLocs: Record<string, LegalOfficerCase> = {};
+        for(const id of ids) {
+            batchLocs[id.toDecimalString()] = preloadedLocs[id.toDecimalString()] || fetchedLoc(id);
+        }
+        return { getLocs: () => Promise.resolve(batchLocs) } as unknown as LocBatch;
+    });
+    const batch = { preloadedLocs: locs } as unknown as LogionNodeApiClass["batch"];
+
+    const queries = new Mock<LogionNodeApiClass["queries"]>();
+    queries.setup(instance => instance.getCollectionSize(CLOSED_LOC_ID)).returnsAsync(1);
+    queries.setup(instance => instance.getCollectionItems(CLOSED_LOC_ID)).returnsAsync([ ITEM ] as CollectionItem[]);
+
+    const api = new Mock<LogionNodeApiClass>();
+    api.setup(instance => instance.batch).returns(batch);
+    api.setup(instance => instance.queries).returns(queries.object());
+    const chain = {
+        bestBlockNumber: FETCH_BLOCK_NUMBER,
+        getBlockHash: () => Promise.resolve({ toHex: () => BLOCK_HASH }),
+        getHeader: (hash?: string) => Promise.resolve({
+            number: { toBigInt: () => hash === BLOCK_HASH ? FETCH_BLOCK_NUMBER : chain.bestBlockNumber },
+        }),
+    };
+    api.setup(instance => instance.polkadot).returns({
+        createType: () => undefined,
+        rpc: { chain },
+    } as unknown as LogionNodeApiClass["polkadot"]);
+    return { api, locs, queries, chain };
+}
+
+function fetchedLoc(locId: UUID): LegalOfficerCase {
+    if(locId === CLOSED_LOC_ID) {
+        return CLOSED_LOC;
+    } else if(locId === VOID_LOC_ID) {
+        return VOID_LOC;
+    } else {
+        return OPEN_LOC;
+    }
+}
@@ -0,0 +1,130 @@
+import { LocEvent, LogionNodeApiClass, UUID } from "@logion/node-api";
+import { FrameSystemEventRecord } from "@polkadot/types/lookup";
+import { Vec } from "@polkadot/types-codec";
+import { It, Mock } from "moq.ts";
+
+import { ClosedLoc, LocEventNotification, LocsState, OpenLoc, subscribeToLocEvents } from "../src/index.js";
+
+describe("LocEvents", () => {
+
+    it("notifies decoded events", async () => {
+        const { api, emit } = mockApi();
+        const notification = waitForNotification();
+
+        const unsubscribe = await subscribeToLocEvents({ api, callback: notification.callback });
+        emit([ { type: "LocCreated", locId: LOC_ID } ]);
+
+        const received = await notification.promise;
+        expect(received.event.type).toBe("LocCreated");
+        expect(received.locsState).toBeUndefined();
+        expect(unsubscribe).toBe(UNSUBSCRIBE);
+    });
+
+    it("produces next state on LOC change", async () => {
+        const { api, emit } = mockApi();
+        const notification = waitForNotification();
+
+        const nextLocsState = new Mock<LocsState>();
+        const closedLoc = new Mock<ClosedLoc>();
+        closedLoc.setup(instance => instance.locsState()).returns(nextLocsState.object());
+        const openLoc = new Mock<OpenLoc>();
+        openLoc.setup(instance => instance.refresh()).returnsAsync(closedLoc.object());
+        const locsState = new Mock<LocsState>();
+        locsState.setup(instance => instance.getCurrentState()).returns(locsState.object());
+        locsState.setup(instance => instance.findByIdOrUndefined(It.Is<UUID>(id => id.toString() === LOC_ID.toString())))
+            .returns(openLoc.object());
+
+        await subscribeToLocEvents({ api, callback: notification.callback, locsState: locsState.object() });
+        emit([ { type: "LocClosed", locId: LOC_ID } ]);
+
+        const received = await notification.promise;
+        expect(received.event.type).toBe("LocClosed");
+        expect(received.locsState).toBe(nextLocsState.object());
+    });
+
+    it("does not refresh state on fee event", async () => {
+        const { api, emit } = mockApi();
+        const notification = waitForNotification();
+        const locsState = new Mock<LocsState>();
+        locsState.setup(instance => instance.getCurrentState()).returns(locsState.object());
+
+        await subscribeToLocEvents({ api, callback: notification.callback, locsState: locsState.object() });
+        emit([ { type: "StorageFeeWithdrawn", payer: "payer", fee: 42n } ]);
+
+        const received = await notification.promise;
+        expect(received.event.type).toBe("StorageFeeWithdrawn");
+        expect(received.locsState).toBeUndefined();
+    });
+
+    it("keeps notifying after callback failure", async () => {
+        const { api, emit } = mockApi();
+        const notification = waitForNotification();
+        const errors: unknown[] = [];
+        const callback = (received: LocEventNotification) => {
+            if(received.event.type === "LocCreated") {
+                throw new Error("Callback failure");
+            }
+            notification.callback(received);
+        };
+
+        await subscribeToLocEvents({ api, callback, onError: error => errors.push(error) });
+        emit([ { type: "LocCreated", locId: LOC_ID }, { type: "LocClosed", locId: LOC_ID } ]);
+
+        const received = await notification.promise;
+        expect(received.event.type).toBe("LocClosed");
+        expect(errors).toEqual([ new Error("Callback failure") ]);
+    });
+
+    it("reports refresh failure", async () => {
+        const { api, emit } = mockApi();
+        const notification = waitForNotification();
+        const openLoc = new Mock<OpenLoc>();
+        openLoc.setup(instance => instance.refresh()).returns(Promise.reject(new Error("Refresh failure")));
+        const locsState = new Mock<LocsState>();
+        locsState.setup(instance => instance.getCurrentState()).returns(locsState.object());
+        locsState.setup(instance => instance.findByIdOrUndefined(It.IsAny())).returns(openLoc.object());
+
+        await subscribeToLocEvents({ api, callback: notification.callback, locsState: locsState.object() });
+        emit([ { type: "LocClosed", locId: LOC_ID } ]);
+
+        const received = await notification.promise;
+        expect(received.locsState).toBeUndefined();
+        expect(received.error).toEqual(new Error("Refresh failure"));
+    });
+});
+
+const LOC_ID = new UUID();
+
+const UNSUBSCRIBE = () => undefined;
+
+function mockApi(): { api: LogionNodeApiClass, emit: (events: LocEvent[]) => void } {
+    let handler: ((records: Vec<FrameSystemEventRecord>) => void) | undefined;
+    const api = {
+        polkadot: {
+            query: {
+                system: {
+                    events: (callback: (records: Vec<FrameSystemEventRecord>) => void) => {
+                        handler = callback;
+                        return Promise.resolve(UNSUBSCRIBE);
+                    },
+                },
+            },
+        },
+        adapters: {
+            fromLocEvent: (event: LocEvent) => event,
+        },
+    } as unknown as LogionNodeApiClass;
+    const emit = (events: LocEvent[]) => {
+        const records = events.map(event => ({ event })) as unknown as Vec<FrameSystemEventRecord>;
+        handler!(records);
+    };
+    return { api, emit };
+}
+
+function waitForNotification(): { promise: Promise<LocEventNotification>, callback: (notification: LocEventNotification) => void } {
+    let callback: ((notification: LocEventNotification) => void) | undefined;
+    const promise = new Promise<LocEventNotification>(resolve => {
+        callback = resolve;
+    });
+    return { promise, callback: notification => callback!(notification) };
+}
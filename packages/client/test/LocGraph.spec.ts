@@ -0,0 +1,79 @@
+import { Hash, LogionNodeApiClass, UUID } from "@logion/node-api";
+import type { SubmittableExtrinsic } from "@polkadot/api/promise/types";
+
+import { LogionClient } from "../src/index.js";
+import { FakeLogionNetwork, FakeSigner } from "../src/testing.js";
+import { ALICE, REQUESTER } from "./Utils.js";
+
+describe("LocGraph", () => {
+
+    it("walks requester LOCs, links and replacements", async () => {
+        const { client, locs } = await buildLocs();
+
+        const graph = await client.public.getLocGraph({ locId: locs.linking });
+
+        expect(graph.nodes.length).toBe(4);
+        expect(graph.edges.map(edge => [ edge.from.toString(), edge.to.toString(), edge.type ])).toEqual(jasmine.arrayWithExactContents([
+            [ locs.linking.toString(), locs.identity.toString(), "REQUESTER_LOC" ],
+            [ locs.linking.toString(), locs.voided.toString(), "LINK" ],
+            [ locs.voided.toString(), locs.linking.toString(), "LINK" ],
+            [ locs.voided.toString(), locs.replacer.toString(), "REPLACED_BY" ],
+        ]));
+        expect(graph.node(locs.replacer)?.depth).toBe(2);
+        expect(graph.hasCycle()).toBeTrue();
+        expect(graph.truncated).toBeFalse();
+    });
+
+    it("stops at depth limit", async () => {
+        const { client, locs } = await buildLocs();
+
+        const graph = await client.public.getLocGraph({ locId: locs.linking, maxDepth: 0 });
+
+        expect(graph.node(locs.linking)?.loc).toBeDefined();
+        expect(graph.node(locs.voided)?.loc).toBeUndefined();
+        expect(graph.node(locs.replacer)).toBeUndefined();
+        expect(graph.truncated).toBeTrue();
+    });
+
+    it("exports JSON and DOT", async () => {
+        const { client, locs } = await buildLocs();
+
+        const graph = await client.public.getLocGraph({ locId: locs.replacer });
+
+        const json = JSON.parse(JSON.stringify(graph));
+        expect(json.roots).toEqual([ locs.replacer.toString() ]);
+        expect(json.nodes.find((node: { id: string }) => node.id === locs.voided.toString()).voided).toBeTrue();
+        const dot = graph.toDot();
+        expect(dot).toMatch(/^digraph locs \{/);
+        expect(dot).toContain(`"${ locs.voided.toString() }" -> "${ locs.replacer.toString() }" [label="REPLACED_BY"];`);
+    });
+});
+
+async function buildLocs() {
+    const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+    const client: LogionClient = await network.createClient();
+    const api = client.logionApi;
+    const signer = new FakeSigner();
+    const submit = (signerId: string, submittable: SubmittableExtrinsic) => signer.signAndSend({ signerId, submittable });
+
+    const identity = new UUID();
+    const linking = new UUID();
+    const voided = new UUID();
+    const replacer = new UUID();
+    await submit(ALICE.address, api.polkadot.tx.logionLoc.createLogionIdentityLoc(api.adapters.toLocId(identity)));
+    await submit(ALICE.address, api.polkadot.tx.logionLoc.createLogionTransactionLoc(api.adapters.toLocId(linking), api.adapters.toNonCompactLocId(identity)));
+    await submit(REQUESTER.address, api.polkadot.tx.logionLoc.createPolkadotTransactionLoc(api.adapters.toLocId(voided), ALICE.address));
+    await submit(REQUESTER.address, api.polkadot.tx.logionLoc.createPolkadotTransactionLoc(api.adapters.toLocId(replacer), ALICE.address));
+    await submit(ALICE.address, addLink(api, linking, voided));
+    await submit(ALICE.address, addLink(api, voided, linking));
+    await submit(ALICE.address, api.polkadot.tx.logionLoc.makeVoidAndReplace(api.adapters.toLocId(voided), api.adapters.toLocId(replacer)));
+
+    return { client, locs: { identity, linking, voided, replacer } };
+}
+
+function addLink(api: LogionNodeApiClass, from: UUID, to: UUID): SubmittableExtrinsic {
+    return api.polkadot.tx.logionLoc.addLink(
+        api.adapters.toLocId(from),
+        api.adapters.toPalletLogionLocLocLink({ id: to, nature: Hash.of("Some nature") }),
+    );
+}
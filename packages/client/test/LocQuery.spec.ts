@@ -0,0 +1,106 @@
+import { DateTime } from "luxon";
+import { Mock } from "moq.ts";
+
+import {
+    AxiosFactory,
+    DraftRequest,
+    LegalOfficerClass,
+    LocsState,
+    LocRequestState,
+    LogionClient,
+    toFetchAllLocsParams,
+} from "../src/index.js";
+import { FakeLogionNetwork, FakeSigner } from "../src/testing.js";
+import { ALICE, BOB, REQUESTER } from "./Utils.js";
+
+describe("LocQuery", () => {
+
+    it("searches with server-side and client-side filters", async () => {
+        const locsState = await buildLocsState();
+
+        const result = await locsState.search({
+            filter: {
+                statuses: [ "DRAFT" ],
+                locTypes: [ "Transaction" ],
+                metadata: [ { name: "Contract ID", value: "1" } ],
+                createdOn: { from: DateTime.now().minus({ hours: 1 }) },
+            },
+        });
+
+        expect(descriptions(result.items)).toEqual([ "A" ]);
+        expect(result.total).toBe(1);
+        expect(result.nextCursor).toBeUndefined();
+        expect(result.locsState.pendingRequests["Transaction"].length).toBe(0);
+        expect(result.locsState.draftRequests["Transaction"].length).toBe(3);
+        expect(locsState.discarded).toBeTrue();
+    });
+
+    it("sorts and paginates", async () => {
+        const locsState = await buildLocsState();
+        const sort = { field: "description" as const, direction: "DESC" as const };
+
+        const firstPage = locsState.query({ sort, limit: 2 });
+        const secondPage = locsState.query({ sort, limit: 2, cursor: firstPage.nextCursor });
+        const lastPage = locsState.query({ sort, limit: 2, cursor: secondPage.nextCursor });
+
+        expect(descriptions(firstPage.items)).toEqual([ "E", "D" ]);
+        expect(descriptions(secondPage.items)).toEqual([ "C", "B" ]);
+        expect(descriptions(lastPage.items)).toEqual([ "A" ]);
+        expect(lastPage.nextCursor).toBeUndefined();
+        expect(lastPage.total).toBe(5);
+    });
+
+    it("filters on voided and dates client-side", async () => {
+        const locsState = await buildLocsState();
+
+        expect(locsState.query({ filter: { voided: true } }).total).toBe(0);
+        expect(locsState.query({ filter: { voided: false } }).total).toBe(5);
+        expect(locsState.query({ filter: { closedOn: { from: DateTime.now().minus({ hours: 1 }) } } }).total).toBe(0);
+        expect(locsState.query({ filter: { createdOn: { to: DateTime.now().minus({ hours: 1 }) } } }).total).toBe(0);
+        expect(descriptions(locsState.query({ filter: { locTypes: [ "Collection" ] } }).items)).toEqual([ "E" ]);
+    });
+
+    it("builds server-side parameters", () => {
+        const axiosFactory = new Mock<AxiosFactory>().object();
+        const alice = new LegalOfficerClass({ legalOfficer: ALICE, axiosFactory });
+        const bob = new LegalOfficerClass({ legalOfficer: BOB, axiosFactory });
+
+        const params = toFetchAllLocsParams({
+            filter: {
+                legalOfficerAddresses: [ ALICE.address ],
+                statuses: [ "OPEN" ],
+                fileNatures: [ "Contract" ],
+            },
+            legalOfficers: [ alice, bob ],
+            currentAddress: ALICE.address,
+        });
+
+        expect(params.legalOfficers).toEqual([ alice ]);
+        expect(params.spec).toEqual({
+            ownerAddress: ALICE.address,
+            requesterAddress: undefined,
+            statuses: [ "OPEN" ],
+            locTypes: [ "Transaction", "Collection", "Identity" ],
+        });
+    });
+});
+
+async function buildLocsState(): Promise<LocsState> {
+    const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+    const client: LogionClient = await network.createClient();
+    const requesterClient = await client.authenticate([ REQUESTER ], new FakeSigner());
+    const legalOfficer = requesterClient.getLegalOfficer(ALICE.address);
+
+    let locsState = await requesterClient.locsState();
+    for(const description of [ "A", "B", "C" ]) {
+        const draftRequest = await locsState.requestTransactionLoc({ legalOfficer, description, draft: true }) as DraftRequest;
+        locsState = (await draftRequest.addMetadata({ name: "Contract ID", value: description === "A" ? "1" : "2" })).locsState();
+    }
+    locsState = (await locsState.requestTransactionLoc({ legalOfficer, description: "D", draft: false })).locsState();
+    locsState = (await locsState.requestCollectionLoc({ legalOfficer, description: "E", draft: false })).locsState();
+    return locsState;
+}
+
+function descriptions(locs: LocRequestState[]): string[] {
+    return locs.map(loc => loc.data().description);
+}
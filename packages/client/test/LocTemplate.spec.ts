@@ -0,0 +1,111 @@
+import {
+    DraftRequest,
+    HashOrContent,
+    LocTemplate,
+    LogionClient,
+    LogionClientConfig,
+    PendingRequest,
+    ValidationError,
+} from "../src/index.js";
+import { FakeLogionNetwork, FakeSigner } from "../src/testing.js";
+import { ALICE, REQUESTER } from "./Utils.js";
+
+describe("LocTemplate", () => {
+
+    it("instantiates template", async () => {
+        const client = await buildRequesterClient();
+        const locsState = await client.locsState();
+
+        const draftRequest = await locsState.requestLoc({ template: TEMPLATE }) as DraftRequest;
+
+        expect(draftRequest).toBeInstanceOf(DraftRequest);
+        expect(draftRequest.data().locType).toBe("Transaction");
+        expect(draftRequest.data().description).toBe(TEMPLATE.description);
+        expect(draftRequest.data().template).toBe(TEMPLATE.id);
+        expect(draftRequest.locTemplate).toEqual(TEMPLATE);
+    });
+
+    it("blocks submission of incomplete request", async () => {
+        const client = await buildRequesterClient();
+        const locsState = await client.locsState();
+        const draftRequest = await locsState.requestLoc({ template: TEMPLATE }) as DraftRequest;
+
+        const completeness = draftRequest.checkTemplateCompleteness();
+
+        expect(completeness.complete).toBeFalse();
+        expect(completeness.missingMetadata).toEqual([ "Contract ID" ]);
+        expect(completeness.missingFiles).toEqual([ "Contract" ]);
+        expect(completeness.missingLinks).toEqual([]);
+        await expectAsync(draftRequest.submit()).toBeRejectedWith(jasmine.any(ValidationError));
+    });
+
+    it("blocks submission of incomplete request from unregistered template", async () => {
+        const client = await buildRequesterClient([]);
+        const locsState = await client.locsState();
+        const draftRequest = await locsState.requestLoc({ template: TEMPLATE }) as DraftRequest;
+
+        expect(draftRequest.locTemplate).toEqual(TEMPLATE);
+        expect(draftRequest.checkTemplateCompleteness().complete).toBeFalse();
+        await expectAsync(draftRequest.submit()).toBeRejectedWith(jasmine.any(ValidationError));
+    });
+
+    it("does not register instantiated template", async () => {
+        const client = await buildRequesterClient([]);
+        const locsState = await client.locsState();
+        const draftRequest = await locsState.requestLoc({ template: TEMPLATE }) as DraftRequest;
+
+        const otherLocsState = await client.locsState();
+
+        expect((otherLocsState.findById(draftRequest.locId) as DraftRequest).locTemplate).toBeUndefined();
+    });
+
+    it("rejects non-draft request from template with required items", async () => {
+        const client = await buildRequesterClient();
+        const locsState = await client.locsState();
+
+        await expectAsync(locsState.requestLoc({ template: TEMPLATE, draft: false })).toBeRejectedWith(jasmine.any(ValidationError));
+    });
+
+    it("submits complete request", async () => {
+        const client = await buildRequesterClient();
+        const locsState = await client.locsState();
+        let draftRequest = await locsState.requestLoc({ template: TEMPLATE }) as DraftRequest;
+        draftRequest = await draftRequest.addMetadata({ name: "Contract ID", value: "123" }) as DraftRequest;
+        draftRequest = await draftRequest.addFile({
+            fileName: "contract.txt",
+            nature: "Contract",
+            file: HashOrContent.fromContent(Buffer.from("test")),
+        }) as DraftRequest;
+
+        expect(draftRequest.checkTemplateCompleteness().complete).toBeTrue();
+        const pendingRequest = await draftRequest.submit();
+        expect(pendingRequest).toBeInstanceOf(PendingRequest);
+    });
+});
+
+const TEMPLATE: LocTemplate = {
+    id: "contract",
+    locType: "Transaction",
+    description: "Contract",
+    legalOfficer: ALICE.address,
+    metadata: [
+        { name: "Contract ID", required: true },
+        { name: "Comment", required: false },
+    ],
+    files: [
+        { nature: "Contract", required: true },
+    ],
+    links: [
+        { nature: "Previous contract", required: false },
+    ],
+};
+
+async function buildRequesterClient(locTemplates: LocTemplate[] = [ TEMPLATE ]): Promise<LogionClient> {
+    const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+    const client = await LogionClient.create({
+        ...network.config,
+        locTemplates,
+        __componentFactory: network.componentFactory,
+    } as LogionClientConfig);
+    return client.authenticate([ REQUESTER ], new FakeSigner());
+}
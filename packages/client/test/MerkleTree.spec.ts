@@ -0,0 +1,49 @@
+import { Hash } from "@logion/node-api";
+
+import { MerkleTree } from "../src/index.js";
+
+describe("MerkleTree", () => {
+
+    it("proves inclusion of all leaves", () => {
+        const leaves = [ 1, 2, 3, 4, 5 ].map(i => Hash.of(`leaf ${ i }`));
+        const tree = MerkleTree.build(leaves);
+
+        expect(tree.size).toBe(5);
+        for(const leaf of leaves) {
+            const proof = tree.proof(leaf);
+            expect(MerkleTree.verify(leaf, JSON.parse(JSON.stringify(proof)), tree.root)).toBeTrue();
+        }
+    });
+
+    it("rejects wrong leaf", () => {
+        const leaves = [ 1, 2, 3 ].map(i => Hash.of(`leaf ${ i }`));
+        const tree = MerkleTree.build(leaves);
+
+        const proof = tree.proof(leaves[0]);
+
+        expect(MerkleTree.verify(leaves[1], proof, tree.root)).toBeFalse();
+    });
+
+    it("builds from collection items", () => {
+        const fileHash = Hash.of("file");
+        const tree = MerkleTree.fromCollectionItems([
+            { id: Hash.of("item 1"), files: [ { hash: fileHash } ] },
+            { id: Hash.of("item 2"), files: [] },
+        ]);
+
+        expect(tree.size).toBe(3);
+        expect(tree.contains(fileHash)).toBeTrue();
+        expect(MerkleTree.verify(fileHash, tree.proof(fileHash), tree.root)).toBeTrue();
+    });
+
+    it("does not accept inner node as leaf", () => {
+        const leaves = [ 1, 2 ].map(i => Hash.of(`leaf ${ i }`));
+        const tree = MerkleTree.build(leaves);
+
+        expect(MerkleTree.verify(tree.root, { steps: [] }, tree.root)).toBeFalse();
+    });
+
+    it("fails building without leaves", () => {
+        expect(() => MerkleTree.build([])).toThrowError("Cannot build a Merkle tree without leaves");
+    });
+});
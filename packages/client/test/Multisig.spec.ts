@@ -0,0 +1,53 @@
+import { FakeLogionNetwork, FakeSigner } from "../src/testing.js";
+import { ALICE, BOB, buildValidPolkadotAccountId, RECOVERED_ADDRESS, REQUESTER } from "./Utils.js";
+
+describe("MultisigState", () => {
+
+    it("proposes and approves operation", async () => {
+        const { network, client } = await buildNetwork();
+        const signer = new FakeSigner();
+        const params = { signatories: SIGNATORIES, threshold: 2 };
+        let state = await client.withCurrentAddress(REQUESTER).multisigState(params);
+        network.node.setBalance(state.address, 1000n);
+        const call = client.logionApi.polkadot.tx.balances.transfer(RECOVERED_ADDRESS.address, 400n);
+
+        state = await state.propose({ call, signer });
+
+        expect(state.pendingOperations.length).toBe(1);
+        const operation = state.pendingOperations[0];
+        expect(operation.depositor).toBe(REQUESTER.address);
+        await expectAsync(state.propose({ call, signer })).toBeRejectedWithError("A similar operation is already pending");
+
+        const aliceState = await client.withCurrentAddress(ALICE_ACCOUNT).multisigState(params);
+        const nextState = await aliceState.approve({ operation, call, signer });
+
+        expect(nextState.pendingOperations).toEqual([]);
+        expect(network.node.getBalance(RECOVERED_ADDRESS.address)).toBe(400n);
+    });
+
+    it("cancels operation", async () => {
+        const { client } = await buildNetwork();
+        const signer = new FakeSigner();
+        const params = { signatories: SIGNATORIES, threshold: 2 };
+        let state = await client.withCurrentAddress(REQUESTER).multisigState(params);
+        const call = client.logionApi.polkadot.tx.balances.transfer(RECOVERED_ADDRESS.address, 400n);
+        state = await state.propose({ call, signer });
+        const operation = state.pendingOperations[0];
+
+        const aliceState = await client.withCurrentAddress(ALICE_ACCOUNT).multisigState(params);
+        await expectAsync(aliceState.cancel({ operation, signer })).toBeRejectedWithError("Only the depositor can cancel the operation");
+        state = await state.cancel({ operation, signer });
+
+        expect(state.pendingOperations).toEqual([]);
+    });
+});
+
+const ALICE_ACCOUNT = buildValidPolkadotAccountId(ALICE.address)!;
+
+const SIGNATORIES = [ REQUESTER.address, ALICE.address, BOB.address ];
+
+async function buildNetwork() {
+    const network = new FakeLogionNetwork({ legalOfficers: [ ALICE, BOB ] });
+    const client = await network.createClient();
+    return { network, client };
+}
@@ -28,4 +28,75 @@ describe("NetworkState", () => {
         const networkState2 = new NetworkState(nodesUp, nodesDown2);
         expect(networkState1.equals(networkState2)).toBeFalse();
     });
+
+    it("accepts zero retry delay", () => {
+        const networkState = new NetworkState([ NODE1 ], [], { initialRetryDelay: 0 });
+
+        networkState.recordFailure(NODE1);
+
+        expect(networkState.isAvailable(NODE1)).toBeTrue();
+    });
+
+    it("opens circuit after failure threshold", () => {
+        const networkState = new NetworkState([ NODE1, NODE2 ], [], { failureThreshold: 2, initialRetryDelay: 1000 });
+
+        networkState.recordFailure(NODE1);
+        expect(networkState.isAvailable(NODE1)).toBeTrue();
+        networkState.recordFailure(NODE1);
+
+        expect(networkState.isAvailable(NODE1)).toBeFalse();
+        expect(networkState.availableNodes).toEqual([ NODE2 ]);
+        expect(networkState.nodesDown).toEqual([ NODE1 ]);
+    });
+
+    it("retries node with backoff", () => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(0));
+        try {
+            const networkState = new NetworkState([ NODE1 ], [], { initialRetryDelay: 1000 });
+
+            networkState.recordFailure(NODE1);
+            jasmine.clock().tick(1000);
+            expect(networkState.isAvailable(NODE1)).toBeTrue();
+
+            networkState.recordFailure(NODE1);
+            jasmine.clock().tick(1000);
+            expect(networkState.isAvailable(NODE1)).toBeFalse();
+            jasmine.clock().tick(1000);
+            expect(networkState.isAvailable(NODE1)).toBeTrue();
+
+            networkState.recordSuccess(NODE1);
+            expect(networkState.getHealth(NODE1).consecutiveFailures).toBe(0);
+            expect(networkState.nodesUp).toEqual([ NODE1 ]);
+        } finally {
+            jasmine.clock().uninstall();
+        }
+    });
+
+    it("checks health of available nodes", async () => {
+        const networkState = new NetworkState([ NODE1, NODE2 ], []);
+        const probed: string[] = [];
+
+        await networkState.checkHealth(async endpoint => {
+            probed.push(endpoint.url);
+            if(endpoint.url === NODE2.url) {
+                throw new Error();
+            }
+        });
+        expect(probed).toEqual([ NODE1.url, NODE2.url ]);
+        expect(networkState.nodesUp).toEqual([ NODE1 ]);
+        expect(networkState.nodesDown).toEqual([ NODE2 ]);
+
+        probed.length = 0;
+        await networkState.checkHealth(async endpoint => { probed.push(endpoint.url) });
+        expect(probed).toEqual([ NODE1.url ]);
+    });
 });
+
+const NODE1 = {
+    url: "http://domain1.com",
+};
+
+const NODE2 = {
+    url: "http://domain2.com",
+};
@@ -0,0 +1,165 @@
+import { LogionNodeApiClass } from "@logion/node-api";
+import { ApiPromise, Keyring } from "@polkadot/api";
+import type { SubmittableExtrinsic } from "@polkadot/api/promise/types";
+import { TypeRegistry } from "@polkadot/types";
+import type { Signer as PolkadotSigner, SignerPayloadJSON, ISubmittableResult } from "@polkadot/types/types";
+import { compactToU8a, hexToU8a, u8aConcat } from "@polkadot/util";
+import { cryptoWaitReady, signatureVerify } from "@polkadot/util-crypto";
+import { It, Mock } from "moq.ts";
+
+import {
+    broadcastSignedTransaction,
+    exportUnsignedTransaction,
+    KeyringSigner,
+    OfflineSigner,
+    SignAndSendFunction,
+} from "../src/index.js";
+
+describe("OfflineSigning", () => {
+
+    beforeAll(async () => {
+        await cryptoWaitReady();
+    });
+
+    it("exports unsigned transaction", async () => {
+        const { pair } = buildKeyring();
+        const payload = buildPayload(pair.address);
+        const submittable = new Mock<SubmittableExtrinsic>();
+        submittable.setup(instance => instance.signAsync(pair.address, It.Is<{ era: number }>(options => options.era === 0)))
+            .callback(async ({ args }) => {
+                const options = args[1] as { signer: PolkadotSigner };
+                await options.signer.signPayload!(payload);
+                return submittable.object();
+            });
+
+        const transaction = await exportUnsignedTransaction({
+            signerId: pair.address,
+            submittable: submittable.object(),
+            mortalityPeriod: 0,
+        });
+
+        expect(transaction.payload).toEqual(payload);
+    });
+
+    it("signs offline with keyring", () => {
+        const { keyring, pair } = buildKeyring();
+        const signer = new KeyringSigner(keyring);
+        const payload = buildPayload(pair.address);
+
+        const signed = signer.signOffline({ payload });
+
+        const hash = hexToU8a(payload.genesisHash);
+        const signedBytes = u8aConcat(
+            hexToU8a(payload.method),
+            hexToU8a(payload.era),
+            compactToU8a(0), // nonce
+            compactToU8a(0), // tip
+            new Uint8Array([ 1, 0, 0, 0 ]), // spec version
+            new Uint8Array([ 1, 0, 0, 0 ]), // transaction version
+            hash, // genesis hash
+            hash, // block hash
+        );
+        expect(signed.payload).toBe(payload);
+        expect(signatureVerify(signedBytes, signed.signature, pair.address).isValid).toBeTrue();
+    });
+
+    it("broadcasts signed transaction", async () => {
+        const { pair } = buildKeyring();
+        const payload = buildPayload(pair.address);
+        const submittable = new Mock<SubmittableExtrinsic>();
+        submittable.setup(instance => instance.registry).returns(new TypeRegistry());
+        submittable.setup(instance => instance.addSignature(pair.address, "0x01", payload)).returns(submittable.object());
+        submittable.setup(instance => instance.send(It.IsAny()))
+            .callback(({ args }) => {
+                const statusCallback = args[0] as (result: ISubmittableResult) => void;
+                setTimeout(() => {
+                    statusCallback(result({ isInBlock: true, asInBlock: "0x02", isFinalized: false }));
+                    statusCallback(result({ isInBlock: false, isFinalized: true }));
+                });
+                return Promise.resolve(() => undefined);
+            });
+        const api = mockApi(payload.method, submittable.object());
+
+        const submission = await broadcastSignedTransaction({
+            api,
+            transaction: { payload, signature: "0x01" },
+        });
+
+        expect(submission.block).toBe("0x02");
+        expect(submission.index).toBe(1);
+    });
+
+    it("gets signatures from signature provider", async () => {
+        const { keyring, pair } = buildKeyring();
+        const offlineSigner = new KeyringSigner(keyring);
+        const signer = new OfflineSigner(async transaction => offlineSigner.signOffline(transaction));
+        const payload = buildPayload(pair.address);
+        let signature: string | undefined;
+        const submittable = new Mock<SubmittableExtrinsic>();
+        submittable.setup(instance => instance.signAndSend(pair.address, It.IsAny(), It.IsAny()))
+            .callback(async ({ args }) => {
+                const options = args[1] as { signer: PolkadotSigner };
+                signature = (await options.signer.signPayload!(payload)).signature;
+                return () => undefined;
+            });
+
+        const signAndSend: SignAndSendFunction = await signer.buildSignAndSendFunction({
+            signerId: pair.address,
+            submittable: submittable.object(),
+        });
+        await signAndSend(() => undefined);
+
+        expect(signature).toBe(offlineSigner.signOffline({ payload }).signature);
+    });
+});
+
+function buildKeyring() {
+    const keyring = new Keyring({ type: "ed25519" });
+    const pair = keyring.addFromUri("//Alice");
+    return { keyring, pair };
+}
+
+function buildPayload(address: string): SignerPayloadJSON {
+    const hash = `0x${ "01".repeat(32) }`;
+    return {
+        address,
+        blockHash: hash,
+        blockNumber: "0x00000001",
+        era: "0x00",
+        genesisHash: hash,
+        method: "0x0000",
+        nonce: "0x00000000",
+        signedExtensions: [
+            "CheckNonZeroSender",
+            "CheckSpecVersion",
+            "CheckTxVersion",
+            "CheckGenesis",
+            "CheckMortality",
+            "CheckNonce",
+            "CheckWeight",
+            "ChargeTransactionPayment",
+        ],
+        specVersion: "0x00000001",
+        tip: "0x00000000000000000000000000000000",
+        transactionVersion: "0x00000001",
+        version: 4,
+    };
+}
+
+function result(status: unknown): ISubmittableResult {
+    return {
+        status,
+        txIndex: 1,
+        events: [],
+    } as unknown as ISubmittableResult;
+}
+
+function mockApi(method: string, submittable: SubmittableExtrinsic): LogionNodeApiClass {
+    const call = {};
+    const polkadot = new Mock<ApiPromise>();
+    polkadot.setup(instance => instance.createType("Call", method)).returns(call as never);
+    polkadot.setup(instance => instance.tx(call as never)).returns(submittable);
+    const api = new Mock<LogionNodeApiClass>();
+    api.setup(instance => instance.polkadot).returns(polkadot.object());
+    return api.object();
+}
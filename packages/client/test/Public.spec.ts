@@ -13,6 +13,8 @@ import {
     PublicApi,
     PublicLoc,
     HashString,
+    MerkleTree,
+    MergedMetadataItem,
 } from "../src/index.js";
 import {
     ALICE,
@@ -47,6 +49,18 @@ describe("PublicApi", () => {
 
         expect(publicLoc).toBeDefined();
         expect(publicLoc).toBeInstanceOf(PublicLoc);
+        expect(publicLoc?.redirected).toBeFalse();
+    });
+
+    it("redirects to latest replacer", async () => {
+        const sharedState = await buildSharedState();
+        const publicApi = new PublicApi({ sharedState });
+
+        const publicLoc = await publicApi.findLocById({ locId: new UUID(VOIDED_LOC.request.id), followReplacements: true });
+
+        expect(publicLoc?.data.id.toString()).toBe(LOC.request.id);
+        expect(publicLoc?.redirected).toBeTrue();
+        expect(publicLoc?.replacementChain?.history.map(entry => entry.id.toString())).toEqual([ VOIDED_LOC.request.id, LOC.request.id ]);
     });
 
     it("finds collection item", async () => {
@@ -156,10 +170,51 @@ describe("PublicLoc", () => {
 
         expect(result.collectionItemFile).toBeDefined();
     });
+
+    it("checks Merkle proof against on-chain root", () => {
+        const tree = MerkleTree.build([ Hash.of("item 1"), Hash.of("item 2"), Hash.of("item 3") ]);
+        const { name, value } = tree.toMetadata();
+        const publicLoc = new PublicLoc({
+            data: new Mock<LocData>().object(),
+            client: new Mock<PublicLocClient>().object(),
+            legalOfficerCase: {
+                ...LOC.loc,
+                metadata: [ {
+                    name: Hash.of(name),
+                    value: Hash.of(value),
+                    submitter: REQUESTER,
+                    acknowledged: true,
+                } ],
+            },
+        });
+
+        expect(publicLoc.checkMerkleProof(Hash.of("item 2"), tree.proof(Hash.of("item 2")))).toBeTrue();
+        expect(publicLoc.checkMerkleProof(Hash.of("item 4"), tree.proof(Hash.of("item 2")))).toBeFalse();
+    });
+
+    it("does not check Merkle proof against off-chain root", () => {
+        const tree = MerkleTree.build([ Hash.of("item 1"), Hash.of("item 2"), Hash.of("item 3") ]);
+        const { name, value } = tree.toMetadata();
+        const data = new Mock<LocData>();
+        data.setup(instance => instance.metadata).returns([ {
+            name,
+            value,
+            published: true,
+        } as MergedMetadataItem ]);
+        const publicLoc = new PublicLoc({
+            data: data.object(),
+            client: new Mock<PublicLocClient>().object(),
+        });
+
+        expect(() => publicLoc.checkMerkleProof(Hash.of("item 2"), tree.proof(Hash.of("item 2"))))
+            .toThrowError("On-chain LOC data are required to check a Merkle proof");
+    });
 });
 
 const LOC = buildLocAndRequest(ALICE.address, "CLOSED", "Collection");
 
+const VOIDED_LOC = buildLocAndRequest(ALICE.address, "CLOSED", "Collection", { replacer: new UUID(LOC.request.id) });
+
 const COLLECTION_ITEM = buildCollectionItem();
 const OFFCHAIN_COLLECTION_ITEM = buildOffchainCollectionItem(LOC.request.id);
 
@@ -186,8 +241,8 @@ async function buildSharedState(): Promise<SharedState> {
                 .returns(aliceAxiosMock.object());
 
             nodeApiMock = factory.setupNodeApiMock(LOGION_CLIENT_CONFIG);
-            nodeApiMock.setup(instance => instance.queries.getLegalOfficerCase).returns(mockGetLegalOfficerCase([LOC]));
-            nodeApiMock.setup(instance => instance.batch.locs).returns(mockLocBatchFactory([LOC]));
+            nodeApiMock.setup(instance => instance.queries.getLegalOfficerCase).returns(mockGetLegalOfficerCase([LOC, VOIDED_LOC]));
+            nodeApiMock.setup(instance => instance.batch.locs).returns(mockLocBatchFactory([LOC, VOIDED_LOC]));
 
             nodeApiMock.setup(instance => instance.queries.getCollectionItem(ItIsUuid(new UUID(LOC.request.id)), EXISTING_ITEM_ID))
                 .returnsAsync(COLLECTION_ITEM);
@@ -0,0 +1,109 @@
+import { Keyring } from "@polkadot/api";
+import type { SubmittableExtrinsic } from "@polkadot/api/promise/types";
+import { TypeRegistry } from "@polkadot/types";
+import type { ApplyExtrinsicResult } from "@polkadot/types/interfaces";
+import type { Signer as PolkadotSigner, SignerPayloadJSON } from "@polkadot/types/types";
+import { u8aToHex } from "@polkadot/util";
+import { cryptoWaitReady, signatureVerify } from "@polkadot/util-crypto";
+import { It, Mock } from "moq.ts";
+
+import { RemoteSigner, RemoteSigningService, RemoteSignRequest } from "../src/index.js";
+import { buildValidPolkadotAccountId } from "./Utils.js";
+
+describe("RemoteSigner", () => {
+
+    beforeAll(async () => {
+        await cryptoWaitReady();
+    });
+
+    it("signs raw messages remotely", async () => {
+        const { signer, pair, requests } = buildSigner();
+        const message = "0x1234";
+
+        const signature = await signer.signToHex(buildValidPolkadotAccountId(pair.address)!, message);
+
+        expect(requests).toEqual([ { address: pair.address, payload: message } ]);
+        expect(signature.type).toBe("POLKADOT");
+        expect(signatureVerify(message, signature.signature, pair.address).isValid).toBeTrue();
+    });
+
+    it("injects remote signature of extrinsic payload", async () => {
+        const { signer, pair, requests } = buildSigner();
+        const registry = new TypeRegistry();
+        const payload = buildPayload(pair.address);
+        let signature: string | undefined;
+        const submittable = new Mock<SubmittableExtrinsic>();
+        submittable.setup(instance => instance.registry).returns(registry);
+        submittable.setup(instance => instance.signAndSend(pair.address, It.IsAny(), It.IsAny()))
+            .callback(async ({ args }) => {
+                const options = args[1] as { signer: PolkadotSigner };
+                signature = (await options.signer.signPayload!(payload)).signature;
+                return () => undefined;
+            });
+
+        const signAndSend = await signer.buildSignAndSendFunction({
+            signerId: pair.address,
+            submittable: submittable.object(),
+        });
+        await signAndSend(() => undefined);
+
+        const signedBytes = registry.createType("ExtrinsicPayload", payload, { version: payload.version }).toU8a({ method: true });
+        expect(requests[0].payload).toBe(u8aToHex(signedBytes));
+        expect(signatureVerify(signedBytes, signature!, pair.address).isValid).toBeTrue();
+    });
+
+    it("dry-runs with given nonce", async () => {
+        const { signer, pair } = buildSigner();
+        const submittable = new Mock<SubmittableExtrinsic>();
+        submittable.setup(instance => instance.registry).returns(new TypeRegistry());
+        let options: { nonce?: number } | undefined;
+        submittable.setup(instance => instance.dryRun(pair.address, It.IsAny()))
+            .callback(async ({ args }) => {
+                options = args[1] as { nonce?: number };
+                return {} as ApplyExtrinsicResult;
+            });
+
+        const dryRun = await signer.buildDryRunFunction({
+            signerId: pair.address,
+            submittable: submittable.object(),
+            nonce: 42,
+        });
+        await dryRun();
+
+        expect(options?.nonce).toBe(42);
+    });
+});
+
+function buildSigner() {
+    const keyring = new Keyring({ type: "sr25519" });
+    const pair = keyring.addFromUri("//Alice");
+    const requests: RemoteSignRequest[] = [];
+    const service: RemoteSigningService = {
+        sign: async request => {
+            requests.push(request);
+            return {
+                signature: u8aToHex(pair.sign(request.payload)),
+                type: "sr25519",
+            };
+        }
+    };
+    return { signer: new RemoteSigner(service), pair, requests };
+}
+
+function buildPayload(address: string): SignerPayloadJSON {
+    const hash = `0x${ "01".repeat(32) }`;
+    return {
+        address,
+        blockHash: hash,
+        blockNumber: "0x00000001",
+        era: "0x00",
+        genesisHash: hash,
+        method: "0x0000",
+        nonce: "0x00000000",
+        signedExtensions: [],
+        specVersion: "0x00000001",
+        tip: "0x00000000000000000000000000000000",
+        transactionVersion: "0x00000001",
+        version: 4,
+    };
+}
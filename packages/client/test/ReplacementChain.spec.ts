@@ -0,0 +1,123 @@
+import { UUID } from "@logion/node-api";
+
+import {
+    AcceptedRequest,
+    InMemoryCacheStore,
+    LocCache,
+    LogionClient,
+    OpenLoc,
+    PendingRequest,
+    resolveReplacementChain,
+    VoidedLoc,
+} from "../src/index.js";
+import { FakeLogionNetwork, FakeSigner } from "../src/testing.js";
+import { ALICE, BOB, REQUESTER } from "./Utils.js";
+
+describe("ReplacementChain", () => {
+
+    it("follows replacers up to latest LOC", async () => {
+        const { client, locIds } = await buildReplacedLocs();
+
+        const chain = await resolveReplacementChain({ api: client.logionApi, locId: locIds[0] });
+
+        expect(chain?.history.map(entry => entry.id.toString())).toEqual(locIds.map(locId => locId.toString()));
+        expect(chain?.current.id.toString()).toBe(locIds[2].toString());
+        expect(chain?.current.loc.voidInfo).toBeUndefined();
+    });
+
+    it("returns single entry chain with non-void LOC", async () => {
+        const { client, locIds } = await buildReplacedLocs();
+
+        const chain = await resolveReplacementChain({ api: client.logionApi, locId: locIds[2] });
+
+        expect(chain?.history.length).toBe(1);
+    });
+
+    it("returns undefined with unknown LOC", async () => {
+        const { client } = await buildReplacedLocs();
+
+        const chain = await resolveReplacementChain({ api: client.logionApi, locId: new UUID() });
+
+        expect(chain).toBeUndefined();
+    });
+
+    it("follows LOC voided after being cached", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+        const client = await network.createClient();
+        const api = client.logionApi;
+        const signer = new FakeSigner();
+        const [ voidedLocId, replacerLocId ] = await createLocs(client, signer, 2);
+        await signer.signAndSend({
+            signerId: ALICE.address,
+            submittable: api.polkadot.tx.logionLoc.close(api.adapters.toLocId(voidedLocId)),
+        });
+        const locCache = new LocCache(api, new InMemoryCacheStore());
+        await locCache.getLocBatch([ voidedLocId ]);
+        await signer.signAndSend({
+            signerId: ALICE.address,
+            submittable: api.polkadot.tx.logionLoc.makeVoidAndReplace(api.adapters.toLocId(voidedLocId), api.adapters.toLocId(replacerLocId)),
+        });
+
+        const chain = await resolveReplacementChain({ api, locId: voidedLocId, locCache });
+
+        expect(chain?.current.id.toString()).toBe(replacerLocId.toString());
+        expect(await locCache.getLoc(voidedLocId)).toBeUndefined();
+    });
+
+    it("does not provide latest replacer missing from LOCs state", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+        const signer = new FakeSigner();
+        const client = await network.createClient();
+        const requesterClient = await client.authenticate([ REQUESTER ], signer);
+        const alice = client.logionApi.queries.getValidAccountId(ALICE.address, "Polkadot");
+        const aliceClient = (await client.authenticate([ alice ], signer)).withCurrentAddress(alice);
+        const [ replacerLocId ] = await createLocs(client, signer, 1, BOB.address);
+
+        const pendingRequest = await (await requesterClient.locsState()).requestTransactionLoc({
+            legalOfficer: requesterClient.getLegalOfficer(ALICE.address),
+            description: "This LOC will be voided",
+            draft: false,
+        }) as PendingRequest;
+        const locId = pendingRequest.locId;
+        const alicePendingRequest = (await aliceClient.locsState({ spec: { ownerAddress: ALICE.address, statuses: [ "REVIEW_PENDING" ], locTypes: [ "Transaction" ] } })).findById(locId) as PendingRequest;
+        await alicePendingRequest.legalOfficer.accept({ signer });
+        await (await pendingRequest.refresh() as AcceptedRequest).open({ signer });
+        const aliceOpenLoc = (await aliceClient.locsState({ spec: { ownerAddress: ALICE.address, statuses: [ "OPEN" ], locTypes: [ "Transaction" ] } })).findById(locId) as OpenLoc;
+        await aliceOpenLoc.legalOfficer.voidLoc({ reason: "Replaced", replacer: replacerLocId, signer });
+
+        const voidedLoc = (await requesterClient.locsState()).findById(locId) as VoidedLoc;
+
+        expect(voidedLoc).toBeInstanceOf(VoidedLoc);
+        expect((await voidedLoc.replacementChain()).current.id.toString()).toBe(replacerLocId.toString());
+        await expectAsync(voidedLoc.latestReplacerLoc()).toBeRejectedWithError("LOC not found");
+    });
+});
+
+async function createLocs(client: LogionClient, signer: FakeSigner, count: number, requester = REQUESTER.address): Promise<UUID[]> {
+    const api = client.logionApi;
+    const locIds: UUID[] = [];
+    for(let i = 0; i < count; ++i) {
+        const locId = new UUID();
+        await signer.signAndSend({
+            signerId: requester,
+            submittable: api.polkadot.tx.logionLoc.createPolkadotTransactionLoc(api.adapters.toLocId(locId), ALICE.address),
+        });
+        locIds.push(locId);
+    }
+    return locIds;
+}
+
+async function buildReplacedLocs() {
+    const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+    const client = await network.createClient();
+    const api = client.logionApi;
+    const signer = new FakeSigner();
+    const locIds = await createLocs(client, signer, 3);
+    for(let i = 0; i < locIds.length - 1; ++i) {
+        await signer.signAndSend({
+            signerId: ALICE.address,
+            submittable: api.polkadot.tx.logionLoc.makeVoidAndReplace(api.adapters.toLocId(locIds[i]), api.adapters.toLocId(locIds[i + 1])),
+        });
+    }
+    return { client, locIds };
+}
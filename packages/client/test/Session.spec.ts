@@ -0,0 +1,47 @@
+import { DateTime } from "luxon";
+
+import { InMemoryCacheStore, LogionClient, SessionStore } from "../src/index.js";
+import { FakeLogionNetwork, FakeSigner } from "../src/testing.js";
+import { ALICE, BOB, REQUESTER } from "./Utils.js";
+
+describe("Session", () => {
+
+    it("is exported and restored", async () => {
+        const { client } = await buildAuthenticatedClient();
+        client.networkState.recordFailure(client.networkState.nodesUp.find(endpoint => endpoint.url === BOB.node)!);
+        const store = new SessionStore(new InMemoryCacheStore());
+
+        await store.save(client.exportSession());
+        const restored = await LogionClient.restore(client.config, (await store.load())!);
+
+        expect(restored.currentAddress?.toKey()).toBe(REQUESTER.toKey());
+        expect(restored.tokens.get(REQUESTER)?.value).toBe(client.tokens.get(REQUESTER)?.value);
+        expect(restored.isTokenValid(DateTime.now())).toBeTrue();
+        expect(restored.networkState.nodesDown.map(endpoint => endpoint.url)).toEqual([ BOB.node ]);
+    });
+
+    it("discards expired tokens on restore", async () => {
+        const { client } = await buildAuthenticatedClient();
+        const session = client.exportSession();
+        session.tokens[REQUESTER.toKey()].expiredOn = "2020-01-01T00:00:00.000Z";
+
+        const restored = await LogionClient.restore(client.config, JSON.stringify(session));
+
+        expect(restored.tokens.length).toBe(0);
+        expect(restored.currentAddress?.toKey()).toBe(REQUESTER.toKey());
+        expect(restored.isTokenValid(DateTime.now())).toBeFalse();
+    });
+
+    it("rejects unsupported version", async () => {
+        const { client } = await buildAuthenticatedClient();
+        const session = { ...client.exportSession(), version: 0 };
+
+        await expectAsync(LogionClient.restore(client.config, session)).toBeRejectedWithError("Unsupported session version 0");
+    });
+});
+
+async function buildAuthenticatedClient() {
+    const network = new FakeLogionNetwork({ legalOfficers: [ ALICE, BOB ] });
+    const client = await (await network.createClient()).authenticate([ REQUESTER ], new FakeSigner());
+    return { network, client };
+}
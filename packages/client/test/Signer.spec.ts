@@ -1,4 +1,12 @@
-import { hashAttributes } from '../src/Signer.js';
+import { Keyring } from '@polkadot/api';
+import type { SubmittableExtrinsic } from '@polkadot/api/promise/types';
+import { ApplyExtrinsicResult, DispatchError } from '@polkadot/types/interfaces';
+import { KeyringPair } from '@polkadot/keyring/types';
+import { It, Mock, Times } from 'moq.ts';
+
+import { hashAttributes, KeyringSigner } from '../src/Signer.js';
+import { LogionError } from '../src/Error.js';
+import { REQUESTER } from './Utils.js';
 
 describe("Signer", () => {
 
@@ -21,4 +29,87 @@ describe("Signer", () => {
         const result = hashAttributes(["ABC", 123, true]);
         expect(result).toBe("L1IAt8dg2CXiUjCoVZ3wf4uIJWocNgsmhmswXmH0oAU=");
     });
+
+    it("aborts submission if dry-run fails", async () => {
+        const submittable = mockSubmittable({
+            isErr: false,
+            asOk: {
+                isErr: true,
+                asErr: {
+                    isModule: true,
+                    asModule: { index: 1, error: 2 },
+                    registry: {
+                        findMetaError: () => ({ section: "logionLoc", name: "AlreadyExists", docs: [ "Occurs when trying to create a LOC with an existing ID" ] }),
+                    },
+                } as unknown as DispatchError,
+            },
+        });
+        const signer = new KeyringSigner(mockKeyring());
+
+        const result = signer.signAndSend({
+            signerId: REQUESTER.address,
+            submittable: submittable.object(),
+            dryRun: true,
+        });
+
+        await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({
+            name: "ChainDispatchError",
+            pallet: "logionLoc",
+            errorName: "AlreadyExists",
+            docs: [ "Occurs when trying to create a LOC with an existing ID" ],
+        }));
+        await expectAsync(result).toBeRejectedWithError(LogionError);
+        submittable.verify(instance => instance.signAndSend, Times.Never());
+    });
+
+    it("decodes transaction validity error on dry-run", async () => {
+        const submittable = mockSubmittable({
+            isErr: true,
+            asErr: {
+                type: "Invalid",
+                isInvalid: true,
+                asInvalid: { type: "Payment" },
+            },
+        });
+        const signer = new KeyringSigner(mockKeyring());
+
+        await expectAsync(signer.dryRun({ signerId: REQUESTER.address, submittable: submittable.object() }))
+            .toBeRejectedWithError(LogionError, "Got error Payment from pallet transaction: Invalid transaction");
+    });
+
+    it("dry-runs successfully", async () => {
+        const submittable = mockSubmittable({
+            isErr: false,
+            asOk: { isErr: false },
+        });
+        const signer = new KeyringSigner(mockKeyring());
+
+        await expectAsync(signer.dryRun({ signerId: REQUESTER.address, submittable: submittable.object() })).toBeResolved();
+    });
+
+    it("dry-runs with given nonce", async () => {
+        const submittable = mockSubmittable({
+            isErr: false,
+            asOk: { isErr: false },
+        });
+        const signer = new KeyringSigner(mockKeyring());
+
+        await signer.dryRun({ signerId: REQUESTER.address, submittable: submittable.object(), nonce: 42 });
+
+        submittable.verify(instance => instance.dryRun(KEYPAIR, It.Is(options => (options as { nonce?: number }).nonce === 42)), Times.Once());
+    });
 });
+
+const KEYPAIR = new Mock<KeyringPair>().object();
+
+function mockKeyring(): Keyring {
+    const keyring = new Mock<Keyring>();
+    keyring.setup(instance => instance.getPair(REQUESTER.address)).returns(KEYPAIR);
+    return keyring.object();
+}
+
+function mockSubmittable(result: unknown): Mock<SubmittableExtrinsic> {
+    const submittable = new Mock<SubmittableExtrinsic>();
+    submittable.setup(instance => instance.dryRun(KEYPAIR, It.IsAny())).returns(Promise.resolve(result as ApplyExtrinsicResult) as never);
+    return submittable;
+}
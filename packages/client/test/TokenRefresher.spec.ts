@@ -0,0 +1,93 @@
+import { AxiosRequestConfig, AxiosResponse } from "axios";
+import { DateTime } from "luxon";
+import { It, Mock, Times } from "moq.ts";
+
+import { AccountTokens, AuthenticationClient, AxiosFactory, TokenRefresher } from "../src/index.js";
+import { ALICE, buildAliceTokens, buildSimpleNodeApi } from "./Utils.js";
+
+describe("TokenRefresher", () => {
+
+    it("refreshes tokens expiring soon", async () => {
+        const { refresher, authenticationClient } = buildRefresher(DateTime.now().plus({ minutes: 10 }));
+        let refreshed: AccountTokens | undefined;
+        refresher.onTokensRefreshed(tokens => refreshed = tokens);
+
+        const token = await refresher.freshToken("alice token");
+
+        expect(token).toBe("new alice token");
+        expect(refreshed?.get(refreshed.addresses[0])?.value).toBe("new alice token");
+        expect(await refresher.freshToken("alice token")).toBe("new alice token");
+        authenticationClient.verify(instance => instance.refresh(It.IsAny()), Times.Once());
+    });
+
+    it("uses refreshed tokens despite failing listener", async () => {
+        const { refresher } = buildRefresher(DateTime.now().plus({ minutes: 10 }));
+        let refreshed: AccountTokens | undefined;
+        let error: unknown;
+        refresher.onTokensRefreshed(() => { throw new Error("Listener failure") }, e => error = e);
+        refresher.onTokensRefreshed(tokens => refreshed = tokens);
+
+        const token = await refresher.freshToken("alice token");
+
+        expect(token).toBe("new alice token");
+        expect(refreshed).toBeDefined();
+        expect(error).toEqual(new Error("Listener failure"));
+    });
+
+    it("does not refresh unregistered tokens", async () => {
+        const { refresher, authenticationClient } = buildRefresher(DateTime.now().plus({ minutes: 10 }));
+
+        expect(await refresher.freshToken("bob token")).toBe("bob token");
+        expect(await refresher.refreshToken("bob token")).toBeUndefined();
+        authenticationClient.verify(instance => instance.refresh(It.IsAny()), Times.Never());
+    });
+
+    it("does not refresh valid tokens", async () => {
+        const { refresher, authenticationClient } = buildRefresher(DateTime.now().plus({ hours: 2 }));
+
+        const token = await refresher.freshToken("alice token");
+
+        expect(token).toBe("alice token");
+        authenticationClient.verify(instance => instance.refresh(It.IsAny()), Times.Never());
+    });
+
+    it("retries once rejected request with refreshed token", async () => {
+        const { refresher } = buildRefresher(DateTime.now().plus({ hours: 2 }));
+        const axiosFactory = new AxiosFactory();
+        axiosFactory.tokenRefreshHandler = refresher;
+        const axios = axiosFactory.buildAxiosInstance(ALICE.node, "alice token");
+        const authorizations: unknown[] = [];
+        axios.defaults.adapter = async (config: AxiosRequestConfig) => {
+            const authorization = config.headers?.Authorization;
+            authorizations.push(authorization);
+            const response = { data: {}, status: 200, statusText: "OK", headers: {}, config } as AxiosResponse;
+            if(authorization === "Bearer new alice token") {
+                return response;
+            } else {
+                throw Object.assign(new Error("Unauthorized"), { config, response: { ...response, status: 401 } });
+            }
+        };
+
+        const response = await axios.get("/api/loc-request");
+
+        expect(response.status).toBe(200);
+        expect(authorizations).toEqual([ "Bearer alice token", "Bearer new alice token" ]);
+    });
+});
+
+function buildRefresher(expirationDateTime: DateTime) {
+    const api = buildSimpleNodeApi();
+    const tokens = buildAliceTokens(api, expirationDateTime);
+    const authenticationClient = new Mock<AuthenticationClient>();
+    authenticationClient.setup(instance => instance.refresh(It.IsAny())).returnsAsync(new AccountTokens(api, {
+        [`Polkadot:${ALICE.address}`]: {
+            value: "new alice token",
+            expirationDateTime: DateTime.now().plus({ hours: 2 }),
+        }
+    }));
+    const refresher = new TokenRefresher({
+        buildAuthenticationClient: () => authenticationClient.object(),
+    });
+    refresher.register(tokens);
+    return { refresher, authenticationClient };
+}
@@ -0,0 +1,48 @@
+import { Currency } from "@logion/node-api";
+
+import { FakeLogionNetwork, FakeSigner } from "../src/testing.js";
+import { ALICE, BOB, REQUESTER } from "./Utils.js";
+
+describe("TreasuryState", () => {
+
+    it("lists proposals and balances", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+        const client = await network.createClient();
+        network.node.setBalance(client.logionApi.queries.getTreasuryAccount(), 5000n);
+
+        const treasury = await client.treasuryState();
+
+        expect(treasury.proposals).toEqual([]);
+        expect(treasury.approvals).toEqual([]);
+        expect(Currency.toCanonicalAmount(treasury.balances[0].available)).toBe(5000n);
+    });
+
+    it("estimates and proposes spend", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ], balances: { [ REQUESTER.address ]: 10000000n } });
+        const signer = new FakeSigner();
+        const client = await (await network.createClient()).authenticate([ REQUESTER ], signer);
+        const amount = Currency.toPrefixedNumberAmount(4000n);
+
+        let treasury = await client.treasuryState();
+        const estimate = await treasury.estimateProposeSpend({ amount, beneficiary: BOB.address });
+        treasury = await treasury.proposeSpend({ amount, beneficiary: BOB.address, signer });
+
+        expect(estimate.bond).toBe(200n);
+        expect(estimate.fees.totalFee > 0n).toBeTrue();
+        expect(treasury.proposals.length).toBe(1);
+        expect(treasury.proposals[0].proposer).toBe(REQUESTER.address);
+        expect(treasury.proposals[0].beneficiary).toBe(BOB.address);
+        expect(treasury.proposals[0].value).toBe(4000n);
+    });
+
+    it("fails proposing spend without funds for bond", async () => {
+        const network = new FakeLogionNetwork({ legalOfficers: [ ALICE ] });
+        const signer = new FakeSigner();
+        const client = await (await network.createClient()).authenticate([ REQUESTER ], signer);
+
+        const treasury = await client.treasuryState();
+
+        await expectAsync(treasury.proposeSpend({ amount: Currency.toPrefixedNumberAmount(4000n), beneficiary: BOB.address, signer }))
+            .toBeRejectedWithError("Not enough funds available to pay fees and bond");
+    });
+});
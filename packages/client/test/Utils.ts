@@ -15,7 +15,8 @@ import {
     SuccessfulSubmission,
     LegalOfficerClass,
     Signer,
-    SignParameters
+    SignParameters,
+    LocTemplateRegistry,
 } from "../src/index.js";
 import { TestConfigFactory } from "./TestConfigFactory.js";
 import { It, Mock } from "moq.ts";
@@ -124,6 +125,7 @@ export async function buildAuthenticatedSharedStateUsingTestConfig(
         allLegalOfficers: legalOfficerClasses,
         tokens,
         legalOfficerClasses,
+        locTemplates: new LocTemplateRegistry(config.locTemplates),
     };
 }
 
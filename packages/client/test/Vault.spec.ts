@@ -5,7 +5,7 @@ import type { Header, BlockNumber } from '@polkadot/types/interfaces/runtime';
 import type { IU8a } from '@polkadot/types-codec/types';
 import type { Compact } from '@polkadot/types-codec/base';
 import { DateTime } from 'luxon';
-import { It, Mock } from "moq.ts";
+import { It, Mock, Times } from "moq.ts";
 
 import {
     AccountTokens,
@@ -327,8 +327,173 @@ describe("Vault", () => {
         expect(nextState.cancelledVaultTransferRequests.length).toBe(1);
         expect(nextState.cancelledVaultTransferRequests[0].status).toBe("CANCELLED");
     });
+
+    it("creates transfer quorum", async () => {
+        const currentAddress = REQUESTER;
+        const tokens = buildTokens(currentAddress);
+        const transfer = buildTransferSubmittable(vaultAddress, "100000");
+
+        const signer = new Mock<Signer>();
+        const multisigBlockHash = "0x1234567890abcdef";
+        signer.setup(instance => instance.signAndSend(It.IsAny())).returns(Promise.resolve({
+            block: multisigBlockHash,
+            index: 1,
+            events: [],
+        }));
+
+        const vault = new Mock<Vault>();
+        vault.setup(instance => instance.address).returns(vaultAddress);
+        vault.setup(instance => instance.tx.transferFromVault(It.IsAny())).returns(Promise.resolve(transfer));
+
+        const client = new Mock<VaultClient>();
+        client.setup(instance => instance.createVaultTransferRequest(ALICE, It.IsAny())).returns(Promise.resolve(expectedPendingRequest));
+        client.setup(instance => instance.createVaultTransferRequest(BOB, It.IsAny())).returns(Promise.reject(new Error("Node down")));
+
+        const sharedState = await buildTestAuthenticatedSharedSate(
+            (factory: TestConfigFactory) => {
+                factory.setupDefaultNetworkState();
+                factory.setupDirectoryClientMock(LOGION_CLIENT_CONFIG);
+                factory.setupAxiosFactoryMock();
+
+                const nodeApi = factory.setupNodeApiMock(LOGION_CLIENT_CONFIG);
+                const blockHeader = new Mock<Header>();
+                const blockNumber = new Mock<Compact<BlockNumber>>();
+                blockHeader.setup(instance => instance.number).returns(blockNumber.object());
+                blockNumber.setup(instance => instance.toString()).returns(expectedPendingRequest.block);
+                nodeApi.setup(instance => instance.polkadot.rpc.chain.getHeader(multisigBlockHash)).returns(Promise.resolve(blockHeader.object()));
+            },
+            currentAddress,
+            LEGAL_OFFICERS,
+            tokens,
+        );
+        const state = new VaultState({
+            ...sharedState,
+            client: client.object(),
+            pendingVaultTransferRequests: [],
+            cancelledVaultTransferRequests: [],
+            rejectedVaultTransferRequests: [],
+            acceptedVaultTransferRequests: [],
+            selectedLegalOfficers: [ ALICE, BOB ],
+            isRecovery: false,
+            balances: [],
+            transactions: [],
+            vault: vault.object(),
+        });
+
+        const nextState = await state.createVaultTransferQuorum({
+            amount: new Numbers.PrefixedNumber(amount, Numbers.ATTO),
+            destination,
+            signer: signer.object()
+        });
+
+        expect(nextState.pendingVaultTransferRequests.length).toBe(1);
+        const quorums = nextState.vaultTransferQuorums;
+        expect(quorums.length).toBe(1);
+        expect(quorums[0].transfer.block).toBe(expectedPendingRequest.block);
+        expect(quorums[0].approvals.map(approval => approval.status)).toEqual([ "PENDING", "NOT_NOTIFIED" ]);
+        expect(quorums[0].missingApprovals).toEqual([ ALICE, BOB ]);
+        expect(quorums[0].isApproved).toBeFalse();
+        signer.verify(instance => instance.signAndSend(It.IsAny()), Times.Once());
+    });
+
+    it("notifies missing approvals", async () => {
+        const pendingRequest: VaultTransferRequest = {
+            ...expectedPendingRequest,
+            id: "2",
+        };
+        const rejectedRequest: VaultTransferRequest = {
+            ...expectedPendingRequest,
+            id: "3",
+            legalOfficerAddress: BOB.address,
+            status: "REJECTED",
+            decision: {
+                decisionOn: DateTime.now().toISO(),
+                rejectReason: "Because",
+            },
+        };
+
+        const client = new Mock<VaultClient>();
+        client.setup(instance => instance.resubmitVaultTransferRequest(BOB, rejectedRequest)).returns(Promise.resolve());
+        const state = await buildQuorumState(client.object(), {
+            pendingVaultTransferRequests: [ pendingRequest ],
+            rejectedVaultTransferRequests: [ rejectedRequest ],
+        });
+
+        const quorum = state.vaultTransferQuorums[0];
+        expect(quorum.missingApprovals).toEqual([ ALICE, BOB ]);
+        expect(quorum.approvals[1].decision?.rejectReason).toBe("Because");
+
+        const nextState = await state.notifyMissingApprovals(quorum);
+
+        client.verify(instance => instance.resubmitVaultTransferRequest(BOB, rejectedRequest));
+        client.verify(instance => instance.createVaultTransferRequest(It.IsAny(), It.IsAny()), Times.Never());
+        expect(nextState.rejectedVaultTransferRequests.length).toBe(0);
+        expect(nextState.vaultTransferQuorums[0].approvals.map(approval => approval.status)).toEqual([ "PENDING", "PENDING" ]);
+    });
+
+    it("approves transfer with one legal officer out of two", async () => {
+        const acceptedRequest: VaultTransferRequest = {
+            ...expectedPendingRequest,
+            id: "2",
+            status: "ACCEPTED",
+            decision: {
+                decisionOn: DateTime.now().toISO(),
+            },
+        };
+        const pendingRequest: VaultTransferRequest = {
+            ...expectedPendingRequest,
+            id: "3",
+            legalOfficerAddress: BOB.address,
+        };
+
+        const client = new Mock<VaultClient>();
+        const signer = new Mock<Signer>();
+        const state = await buildQuorumState(client.object(), {
+            pendingVaultTransferRequests: [ pendingRequest ],
+            acceptedVaultTransferRequests: [ acceptedRequest ],
+        });
+
+        const quorum = state.vaultTransferQuorums[0];
+        expect(quorum.isApproved).toBeTrue();
+        expect(quorum.missingApprovals).toEqual([]);
+        await expectAsync(state.notifyMissingApprovals(quorum)).toBeRejectedWithError("Cannot request approvals for an executed transfer");
+        await expectAsync(state.cancelVaultTransferQuorum(quorum, signer.object())).toBeRejectedWithError("Transfer was already executed");
+        signer.verify(instance => instance.signAndSend(It.IsAny()), Times.Never());
+    });
 });
 
+async function buildQuorumState(client: VaultClient, requests: {
+    pendingVaultTransferRequests?: VaultTransferRequest[],
+    rejectedVaultTransferRequests?: VaultTransferRequest[],
+    acceptedVaultTransferRequests?: VaultTransferRequest[],
+}): Promise<VaultState> {
+    const currentAddress = REQUESTER;
+    const sharedState = await buildTestAuthenticatedSharedSate(
+        (factory: TestConfigFactory) => {
+            factory.setupDefaultNetworkState();
+            factory.setupDirectoryClientMock(LOGION_CLIENT_CONFIG);
+            factory.setupAxiosFactoryMock();
+            factory.setupNodeApiMock(LOGION_CLIENT_CONFIG);
+        },
+        currentAddress,
+        LEGAL_OFFICERS,
+        buildTokens(currentAddress),
+    );
+    return new VaultState({
+        ...sharedState,
+        client,
+        pendingVaultTransferRequests: requests.pendingVaultTransferRequests || [],
+        cancelledVaultTransferRequests: [],
+        rejectedVaultTransferRequests: requests.rejectedVaultTransferRequests || [],
+        acceptedVaultTransferRequests: requests.acceptedVaultTransferRequests || [],
+        selectedLegalOfficers: [ ALICE, BOB ],
+        isRecovery: false,
+        balances: [],
+        transactions: [],
+        vault: new Mock<Vault>().object(),
+    });
+}
+
 function buildTokens(currentAddress: ValidAccountId): AccountTokens {
     const token = "some-token";
     return new AccountTokens(
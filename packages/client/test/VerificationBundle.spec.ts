@@ -0,0 +1,95 @@
+import { Hash } from "@logion/node-api";
+
+import {
+    EMPTY_LOC_ISSUERS,
+    LocRequestState,
+    parseVerificationBundle,
+    serializeVerificationBundle,
+    buildVerificationBundle,
+    verifyBundle,
+    VerificationBundle,
+} from "../src/index.js";
+import { ALICE, buildSimpleNodeApi } from "./Utils.js";
+import { buildLocAndRequest, EXISTING_FILE_HASH } from "./LocUtils.js";
+
+describe("VerificationBundle", () => {
+
+    it("exports and verifies closed LOC", () => {
+        const bundle = buildBundle();
+
+        const result = verifyBundle(parseVerificationBundle(serializeVerificationBundle(bundle)), LOC.loc);
+
+        expect(result.valid).toBeTrue();
+        expect(result.locId.toString()).toBe(LOC.request.id);
+        expect(result.items.length).toBe(2);
+        expect(bundle.loc.files[0].nature).toBe("Some nature");
+    });
+
+    it("reports mismatching file", () => {
+        const bundle = buildBundle();
+        bundle.loc.files[0].nature = "Other nature";
+
+        const result = verifyBundle(bundle, LOC.loc);
+
+        expect(result.valid).toBeFalse();
+        const fileResult = result.items.find(item => item.type === "FILE");
+        expect(fileResult?.id).toBe(EXISTING_FILE_HASH.toHex());
+        expect(fileResult?.status).toBe("MISMATCH");
+        expect(fileResult?.mismatches).toEqual([ "nature" ]);
+    });
+
+    it("reports tampered chain data of file", () => {
+        const bundle = buildBundle();
+        bundle.chain.files[0].size = "42";
+        bundle.chain.files[0].nature = Hash.of("Other nature").toHex();
+
+        const result = verifyBundle(bundle, LOC.loc);
+
+        expect(result.valid).toBeFalse();
+        const fileResult = result.items.find(item => item.type === "FILE");
+        expect(fileResult?.status).toBe("MISMATCH");
+        expect(fileResult?.mismatches).toEqual([ "nature", "size" ]);
+    });
+
+    it("reports missing chain data of file", () => {
+        const bundle = buildBundle();
+        bundle.chain.files = [];
+
+        const result = verifyBundle(bundle, LOC.loc);
+
+        expect(result.valid).toBeFalse();
+        expect(result.items.find(item => item.type === "LOC")?.mismatches).toEqual([ "files" ]);
+        expect(result.items.find(item => item.type === "FILE")?.mismatches).toEqual([ "nature", "size", "submitter", "acknowledged" ]);
+    });
+
+    it("reports file not found", () => {
+        const bundle = buildBundle();
+        bundle.loc.files[0].hash = Hash.of("other").toHex();
+
+        const result = verifyBundle(bundle, LOC.loc);
+
+        expect(result.valid).toBeFalse();
+        expect(result.items.find(item => item.type === "FILE")?.status).toBe("NOT_FOUND");
+    });
+
+    it("reports LOC mismatch", () => {
+        const bundle = buildBundle();
+
+        const result = verifyBundle(bundle, { ...LOC.loc, seal: "0x1234" });
+
+        expect(result.valid).toBeFalse();
+        expect(result.items.find(item => item.type === "LOC")?.mismatches).toEqual([ "seal" ]);
+    });
+
+    it("rejects unsupported version", () => {
+        const json = JSON.stringify({ ...buildBundle(), version: 42 });
+        expect(() => parseVerificationBundle(json)).toThrowError("Unsupported verification bundle version 42");
+    });
+});
+
+const LOC = buildLocAndRequest(ALICE.address, "CLOSED", "Transaction");
+
+function buildBundle(): VerificationBundle {
+    const data = LocRequestState.buildLocData(buildSimpleNodeApi(), LOC.loc, LOC.request, EMPTY_LOC_ISSUERS);
+    return buildVerificationBundle(data, LOC.loc);
+}
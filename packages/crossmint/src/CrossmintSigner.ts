@@ -14,6 +14,8 @@ export class CrossmintSigner extends BaseSigner {
 
     private crossmint: CrossmintEVMWalletAdapter;
 
+    override readonly supportsNonce = false;
+
     async signToHex(_signerId: ValidAccountId, message: string): Promise<TypedSignature> {
         const signature = await this.crossmint.signMessage(message);
         return { signature, type: "CROSSMINT_ETHEREUM" };
@@ -1,4 +1,4 @@
-import { SignParameters, SignAndSendFunction, BaseSigner, TypedSignature, SignatureType, SignAndSendStrategy } from '@logion/client';
+import { SignParameters, SignAndSendFunction, BaseSigner, TypedSignature, SignatureType, SignAndSendStrategy, DryRunFunction, nonceOptions } from '@logion/client';
 import { ValidAccountId } from '@logion/node-api';
 import { web3FromAddress } from '@polkadot/extension-dapp';
 import { META_MASK_NAME } from "./Extension.js";
@@ -24,9 +24,25 @@ export class ExtensionSigner extends BaseSigner {
     }
 
     async buildSignAndSendFunction(parameters: SignParameters): Promise<SignAndSendFunction> {
+        if(parameters.dryRun && parameters.submittable.isSigned) {
+            // Signed by the dry-run, the user approves the transaction only once
+            return statusCallback => parameters.submittable.send(statusCallback);
+        }
         const extension = await web3FromAddress(parameters.signerId);
         return statusCallback => parameters.submittable.signAndSend(parameters.signerId, {
-            signer: extension.signer
+            signer: extension.signer,
+            ...nonceOptions(parameters),
         }, statusCallback);
     }
+
+    /**
+     * The submittable is signed in place by the dry-run, the same signed transaction is then submitted.
+     */
+    override async buildDryRunFunction(parameters: SignParameters): Promise<DryRunFunction> {
+        const extension = await web3FromAddress(parameters.signerId);
+        return () => parameters.submittable.dryRun(parameters.signerId, {
+            signer: extension.signer,
+            ...nonceOptions(parameters),
+        });
+    }
 }
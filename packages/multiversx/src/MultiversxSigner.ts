@@ -12,6 +12,8 @@ export class MultiversxSigner extends BaseSigner {
 
     private readonly provider: ExtensionProvider;
 
+    override readonly supportsNonce = false;
+
     async login(): Promise<string> {
         if (await this.provider.init()) {
             return await this.provider.login();
@@ -1,5 +1,5 @@
 import { ApiPromise } from "@polkadot/api";
-import { Call, FunctionMetadataLatest } from "@polkadot/types/interfaces";
+import { Call, Event, FunctionMetadataLatest } from "@polkadot/types/interfaces";
 import {
     FrameSystemAccountInfo,
     LogionNodeRuntimeRegion,
@@ -14,6 +14,9 @@ import {
     PalletLogionLocMetadataItemParams,
     PalletLogionLocSponsorship,
     PalletLogionLocLocLink,
+    LogionSharedBeneficiary,
+    PalletTreasuryProposal,
+    PalletMultisigMultisig,
 } from '@polkadot/types/lookup';
 import type { SubmittableExtrinsic } from '@polkadot/api/promise/types';
 import { ISubmittableResult } from "@polkadot/types/types";
@@ -45,6 +48,9 @@ import {
     Region,
     Link,
     ItemToken,
+    LocEvent,
+    TreasuryProposal,
+    MultisigOperation,
 } from "./Types.js";
 import { UUID } from "./UUID.js";
 import { stringToU8a, u8aToHex } from "@polkadot/util";
@@ -536,6 +542,30 @@ export class Adapters {
         }
     }
 
+    toTreasuryProposal(id: number, proposal: PalletTreasuryProposal, approved: boolean): TreasuryProposal {
+        return {
+            id,
+            proposer: proposal.proposer.toString(),
+            value: proposal.value.toBigInt(),
+            beneficiary: proposal.beneficiary.toString(),
+            bond: proposal.bond.toBigInt(),
+            approved,
+        };
+    }
+
+    toMultisigOperation(callHash: string, multisig: PalletMultisigMultisig): MultisigOperation {
+        return {
+            callHash,
+            when: {
+                block: multisig.when.height.toBigInt(),
+                index: multisig.when.index.toNumber(),
+            },
+            deposit: multisig.deposit.toBigInt(),
+            depositor: multisig.depositor.toString(),
+            approvals: multisig.approvals.map(approval => approval.toString()),
+        };
+    }
+
     toAccountId(account: PalletLogionLocSupportedAccountId): AccountId {
         let type: string = account.type;
         if (account.isPolkadot) {
@@ -606,6 +636,60 @@ export class Adapters {
         return { baseUrl, nodeId, region };
     }
 
+    /**
+     * Decodes an event emitted by the logionLoc pallet.
+     *
+     * @param event the raw event.
+     * @returns the typed event or undefined if the event was not emitted by logionLoc or is not supported.
+     */
+    fromLocEvent(event: Event): LocEvent | undefined {
+        if(event.section !== "logionLoc") {
+            return undefined;
+        }
+        const data = event.data;
+        switch(event.method) {
+            case "LocCreated":
+            case "LocClosed":
+            case "LocVoid":
+                return {
+                    type: event.method,
+                    locId: this.fromLocId(data[0] as u128),
+                };
+            case "ItemAdded":
+                return {
+                    type: event.method,
+                    locId: this.fromLocId(data[0] as u128),
+                    itemId: Hash.fromHex((data[1] as H256).toHex()),
+                };
+            case "SponsorshipCreated":
+            case "SponsorshipWithdrawn":
+                return {
+                    type: event.method,
+                    sponsorshipId: this.fromSponsorshipId(data[0] as u128),
+                    sponsor: this.getValidAccountId(data[1].toString(), "Polkadot"),
+                    sponsoredAccount: this.fromPalletLogionLocSupportedAccountId(data[2] as PalletLogionLocSupportedAccountId),
+                };
+            case "StorageFeeWithdrawn":
+            case "CertificateFeeWithdrawn":
+                return {
+                    type: event.method,
+                    payer: data[0].toString(),
+                    fee: (data[1] as u128).toBigInt(),
+                };
+            case "LegalFeeWithdrawn": {
+                const beneficiary = data[1] as LogionSharedBeneficiary;
+                return {
+                    type: event.method,
+                    payer: data[0].toString(),
+                    legalOfficer: beneficiary.isLegalOfficer ? beneficiary.asLegalOfficer.toString() : undefined,
+                    fee: (data[2] as u128).toBigInt(),
+                };
+            }
+            default:
+                return undefined;
+        }
+    }
+
     toH256(data: Hash): H256 {
         return this.api.createType<H256>("H256", data.bytes);
     }
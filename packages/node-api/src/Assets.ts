@@ -0,0 +1,26 @@
+import * as Numbers from "./numbers.js";
+
+/**
+ * Amounts of assets (see pallet assets) are stored as integers, the asset's metadata
+ * defining the number of decimals of the actual amount.
+ *
+ * @throws Error if given amount has more decimals than the asset.
+ */
+export function toRawAmount(amount: Numbers.PrefixedNumber, decimals: number): bigint {
+    const rawAmount = amount.convertTo(smallestUnit(decimals)).coefficient.unnormalize();
+    if(rawAmount.includes(".")) {
+        throw new Error(`Amount ${ amount.coefficient.unnormalize() }${ amount.prefix.symbol } has more than ${ decimals } decimals`);
+    }
+    return BigInt(rawAmount);
+}
+
+export function toPrefixedNumberAmount(rawAmount: bigint, decimals: number): Numbers.PrefixedNumber {
+    return new Numbers.PrefixedNumber(rawAmount.toString(), smallestUnit(decimals));
+}
+
+function smallestUnit(decimals: number): Numbers.UnitPrefix {
+    return {
+        symbol: "",
+        tenExponent: -decimals,
+    };
+}
@@ -10,6 +10,7 @@ import { FeesEstimator } from './FeesEstimator.js';
 import { Queries } from './Queries.js';
 import { ChainTime } from './ChainTime.js';
 import { Vault } from './VaultClass.js';
+import { Multisig } from './MultisigClass.js';
 import { LocBatch } from './LocBatch.js';
 import { UUID } from './UUID.js';
 import { LegalOfficerCase, VerifiedIssuerType } from './Types.js';
@@ -46,6 +47,10 @@ export class LogionNodeApiClass {
         return new Vault(this.polkadot, requester, legalOfficers);
     }
 
+    multisig(signatories: string[], threshold: number) {
+        return new Multisig(this.polkadot, signatories, threshold);
+    }
+
     readonly batch = {
         /**
          * Builds a LocBatch instance.
@@ -62,6 +67,19 @@ export class LogionNodeApiClass {
             locs,
             availableVerifiedIssuers,
         }),
+        /**
+         * Builds a LocBatch instance where given LOCs are not fetched again.
+         *
+         * @param ids The LOCs to consider.
+         * @param preloadedLocs Already fetched LOCs indexed by decimal LOC ID, the other LOCs are fetched when needed.
+         * @returns a LocBatch instance
+         */
+        preloadedLocs: (ids: UUID[], preloadedLocs: Record<string, LegalOfficerCase>) => new LocBatch({
+            api: this.polkadot,
+            adapters: this.adapters,
+            locIds: ids,
+            preloadedLocs,
+        }),
     }
 }
 
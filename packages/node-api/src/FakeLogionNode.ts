@@ -0,0 +1,1051 @@
+import { ApiPromise } from "@polkadot/api";
+import { TypeRegistry } from "@polkadot/types";
+import { Codec, RegistryTypes } from "@polkadot/types-codec/types";
+import { stringToU8a, u8aToHex } from "@polkadot/util";
+import { createKeyMulti, encodeAddress } from "@polkadot/util-crypto";
+import {
+    PalletLogionLocCollectionItem,
+    PalletLogionLocSponsorship,
+    PalletLogionLocSupportedAccountId,
+} from "@polkadot/types/lookup";
+import lookup from "./interfaces/lookup.js";
+import { LogionNodeApiClass } from "./Connection.js";
+
+export interface FakeLegalOfficer {
+    address: string;
+    baseUrl?: string;
+}
+
+export interface FakeLogionNodeParameters {
+    legalOfficers?: FakeLegalOfficer[];
+    /**
+     * Initial free balances, indexed by SS58 address.
+     */
+    balances?: Record<string, bigint>;
+    /**
+     * The inclusion fee returned by all submittables.
+     */
+    inclusionFee?: bigint;
+}
+
+export interface FakeAsset {
+    id: bigint;
+    name: string;
+    symbol: string;
+    decimals: number;
+    owner: string;
+    /**
+     * Initial balances, indexed by SS58 address.
+     */
+    balances?: Record<string, bigint>;
+}
+
+/**
+ * A transaction successfully submitted to the fake node.
+ */
+export interface FakeSubmission {
+    readonly section: string;
+    readonly method: string;
+    readonly args: unknown[];
+    readonly origin: string;
+    readonly block: bigint;
+    readonly nonce: number;
+}
+
+interface FakeMultisig {
+    when: { height: bigint, index: number };
+    deposit: bigint;
+    depositor: string;
+    approvals: string[];
+}
+
+interface FakeEventRecord {
+    phase: { isApplyExtrinsic: boolean };
+    event: {
+        section: string;
+        method: string;
+        data: Codec[];
+        toHuman: () => unknown;
+    };
+}
+
+type FakeTransaction = (origin: string, args: unknown[]) => FakeEventRecord[];
+
+type FakeStorageKey = { args: Codec[] };
+
+type FakeLocItem = Record<string, unknown> & { acknowledged: boolean };
+
+interface FakeLoc {
+    owner: string;
+    requester: Record<string, unknown>;
+    metadata: FakeLocItem[];
+    files: FakeLocItem[];
+    closed: boolean;
+    locType: "Transaction" | "Identity" | "Collection";
+    links: Record<string, unknown>[];
+    voidInfo: { replacer: string | null } | null;
+    replacerOf: string | null;
+    collectionLastBlockSubmission: unknown;
+    collectionMaxSize: unknown;
+    collectionCanUpload: boolean;
+    seal: unknown;
+    sponsorshipId: string | null;
+}
+
+const DEFAULT_INCLUSION_FEE = 1000000n;
+
+const DEFAULT_LEGAL_FEE = 2000n;
+
+const DEFAULT_STORAGE_FEE_PER_BYTE = 1n;
+
+const TREASURY_PROPOSAL_BOND_PERMILL = 50000n;
+
+const TREASURY_PROPOSAL_BOND_MINIMUM = 100n;
+
+/**
+ * An in-process fake of a logion node. It implements the subset of Polkadot's ApiPromise used by
+ * LogionNodeApiClass and the client. Only the LOC pallet, balances and assets transfers, treasury proposals and multisig operations
+ * are simulated. Vault, recovery and vote are out of scope: their storage is empty and their transactions are rejected,
+ * as are all other unsupported transactions.
+ *
+ * Transactions are included in a new block and finalized right after submission, in submission order.
+ * Signatures are not checked, the origin is the address of the signing account.
+ */
+export class FakeLogionNode {
+
+    constructor(parameters?: FakeLogionNodeParameters) {
+        this.registry = new TypeRegistry();
+        this.registry.register(toRegistryTypes(lookup));
+        this.inclusionFee = parameters?.inclusionFee || DEFAULT_INCLUSION_FEE;
+
+        for(const legalOfficer of parameters?.legalOfficers || []) {
+            this.addLegalOfficer(legalOfficer);
+        }
+        for(const address of Object.keys(parameters?.balances || {})) {
+            this.setBalance(address, parameters?.balances?.[address] || 0n);
+        }
+
+        this.api = this.buildApi();
+    }
+
+    readonly registry: TypeRegistry;
+
+    /**
+     * The fake Polkadot API.
+     */
+    readonly api: ApiPromise;
+
+    private readonly inclusionFee: bigint;
+
+    private blockNumber = 0n;
+
+    private readonly legalOfficers = new Map<string, FakeLegalOfficer>();
+
+    private readonly balances = new Map<string, bigint>();
+
+    private readonly locs = new Map<string, FakeLoc>();
+
+    private readonly collectionItems = new Map<string, Map<string, Record<string, unknown>>>();
+
+    private readonly tokensRecords = new Map<string, Map<string, Record<string, unknown>>>();
+
+    private readonly verifiedIssuers = new Map<string, Map<string, string>>();
+
+    private readonly selectedIssuers = new Map<string, Set<string>>();
+
+    private readonly sponsorships = new Map<string, Record<string, unknown>>();
+
+    private readonly reserved = new Map<string, bigint>();
+
+    private readonly treasuryProposals = new Map<number, Record<string, unknown>>();
+
+    private readonly treasuryApprovals: number[] = [];
+
+    private readonly assets = new Map<string, { asset: FakeAsset, balances: Map<string, bigint> }>();
+
+    private readonly multisigs = new Map<string, Map<string, FakeMultisig>>();
+
+    private transactions: Record<string, Record<string, FakeTransaction>> = {};
+
+    private readonly eventListeners: ((records: FakeEventRecord[]) => void)[] = [];
+
+    private readonly _submissions: FakeSubmission[] = [];
+
+    private readonly nonces = new Map<string, number>();
+
+    get submissions(): FakeSubmission[] {
+        return [ ...this._submissions ];
+    }
+
+    get currentBlock(): bigint {
+        return this.blockNumber;
+    }
+
+    buildApiClass(): LogionNodeApiClass {
+        return new LogionNodeApiClass(this.api);
+    }
+
+    addLegalOfficer(legalOfficer: FakeLegalOfficer) {
+        this.legalOfficers.set(this.accountKey(legalOfficer.address), legalOfficer);
+    }
+
+    setBalance(address: string, free: bigint) {
+        this.balances.set(this.accountKey(address), free);
+    }
+
+    getBalance(address: string): bigint {
+        return this.balances.get(this.accountKey(address)) || 0n;
+    }
+
+    createAsset(asset: FakeAsset) {
+        const balances = new Map<string, bigint>();
+        for(const address of Object.keys(asset.balances || {})) {
+            balances.set(this.accountKey(address), asset.balances?.[address] || 0n);
+        }
+        this.assets.set(asset.id.toString(), { asset, balances });
+    }
+
+    getAssetBalance(assetId: bigint, address: string): bigint | undefined {
+        return this.assets.get(assetId.toString())?.balances.get(this.accountKey(address));
+    }
+
+    private accountKey(address: unknown): string {
+        return this.registry.createType("AccountId32", address).toString();
+    }
+
+    private locKey(locId: unknown): string {
+        return BigInt(String(locId)).toString();
+    }
+
+    private otherAccountKey(otherAccount: unknown): string {
+        return this.registry.createType("PalletLogionLocOtherAccountId", otherAccount).toString();
+    }
+
+    private hashKey(hash: unknown): string {
+        return this.registry.createType("H256", hash).toHex();
+    }
+
+    private blockHash(blockNumber: bigint): Codec {
+        return this.registry.createType("H256", this.registry.hash(stringToU8a(`block-${ blockNumber }`)));
+    }
+
+    private buildApi(): ApiPromise {
+        const registry = this.registry;
+        const api = {
+            registry,
+            isConnected: true,
+            createType: (type: string, ...params: unknown[]) => registry.createType(type, ...params),
+            disconnect: () => Promise.resolve(),
+            consts: {
+                timestamp: {
+                    minimumPeriod: registry.createType("u64", 3000),
+                },
+                treasury: {
+                    palletId: registry.createType("FrameSupportPalletId", stringToU8a("py/trsry")),
+                    proposalBond: registry.createType("Permill", TREASURY_PROPOSAL_BOND_PERMILL),
+                    proposalBondMinimum: registry.createType("u128", TREASURY_PROPOSAL_BOND_MINIMUM),
+                    proposalBondMaximum: registry.createType("Option<u128>", null),
+                },
+            },
+            rpc: {
+                system: {
+                    accountNextIndex: (address: unknown) => Promise.resolve(registry.createType("u32", this.nonces.get(this.accountKey(address)) || 0)),
+                },
+                chain: {
+                    getBlock: () => Promise.resolve(this.block(this.blockNumber)),
+                    getBlockHash: (blockNumber?: unknown) => Promise.resolve(this.blockHash(blockNumber !== undefined ? BigInt(String(blockNumber)) : this.blockNumber)),
+                    getHeader: (hash?: unknown) => Promise.resolve(this.block(this.findBlockNumber(hash)).block.header),
+                },
+            },
+            query: this.buildQueries(),
+            tx: this.buildTransactions(),
+            call: {
+                feesApi: {
+                    queryFileStorageFee: (numOfEntries: unknown, totSize: unknown) => Promise.resolve(registry.createType("u128", BigInt(String(numOfEntries)) + BigInt(String(totSize)) * DEFAULT_STORAGE_FEE_PER_BYTE)),
+                    queryLegalFee: () => Promise.resolve(registry.createType("u128", DEFAULT_LEGAL_FEE)),
+                    queryCertificateFee: (tokenIssuance: unknown) => Promise.resolve(registry.createType("u128", BigInt(String(tokenIssuance)))),
+                },
+            },
+        };
+        return Object.create(ApiPromise.prototype, Object.getOwnPropertyDescriptors(api));
+    }
+
+    private block(blockNumber: bigint) {
+        return {
+            block: {
+                header: {
+                    number: this.registry.createType("Compact<u32>", blockNumber),
+                    hash: this.blockHash(blockNumber),
+                },
+            },
+        };
+    }
+
+    private findBlockNumber(hash?: unknown): bigint {
+        if(hash === undefined) {
+            return this.blockNumber;
+        }
+        const hex = this.hashKey(hash);
+        for(let blockNumber = this.blockNumber; blockNumber >= 0n; --blockNumber) {
+            if(this.blockHash(blockNumber).toHex() === hex) {
+                return blockNumber;
+            }
+        }
+        throw new Error(`Unknown block ${ hex }`);
+    }
+
+    private buildQueries() {
+        const registry = this.registry;
+        const emptySection = this.emptySection();
+        return {
+            system: {
+                account: (address: unknown) => Promise.resolve(registry.createType("FrameSystemAccountInfo", {
+                    nonce: 0,
+                    providers: 1,
+                    data: {
+                        free: this.getBalance(String(address)),
+                        reserved: this.reserved.get(this.accountKey(address)) || 0n,
+                    },
+                })),
+                events: (callback: (records: FakeEventRecord[]) => void) => {
+                    this.eventListeners.push(callback);
+                    return Promise.resolve(() => {
+                        const index = this.eventListeners.indexOf(callback);
+                        if(index !== -1) {
+                            this.eventListeners.splice(index, 1);
+                        }
+                    });
+                },
+            },
+            loAuthorityList: {
+                legalOfficerSet: this.storageMap(
+                    "Option<PalletLoAuthorityListLegalOfficerData>",
+                    (address: unknown) => this.legalOfficerData(this.legalOfficers.get(this.accountKey(address))),
+                    () => Array.from(this.legalOfficers.keys()).map(address => [
+                        [ registry.createType("AccountId32", address) ],
+                        this.legalOfficerData(this.legalOfficers.get(address)),
+                    ]),
+                ),
+            },
+            logionLoc: {
+                accountLocsMap: this.storageMap(
+                    "Option<Vec<u128>>",
+                    (address: unknown) => this.locsOf(loc => loc.requester.Account !== undefined && this.accountKey(loc.requester.Account) === this.accountKey(address)),
+                ),
+                otherAccountLocsMap: this.storageMap(
+                    "Option<Vec<u128>>",
+                    (otherAccount: unknown) => this.locsOf(loc => loc.requester.OtherAccount !== undefined
+                        && this.otherAccountKey(loc.requester.OtherAccount) === this.otherAccountKey(otherAccount)),
+                ),
+                identityLocLocsMap: this.storageMap(
+                    "Option<Vec<u128>>",
+                    (identityLocId: unknown) => this.locsOf(loc => loc.requester.Loc !== undefined && this.locKey(loc.requester.Loc) === this.locKey(identityLocId)),
+                ),
+                locMap: this.storageMap(
+                    "Option<PalletLogionLocLegalOfficerCase>",
+                    (locId: unknown) => this.locs.get(this.locKey(locId)) || null,
+                ),
+                collectionItemsMap: this.storageMap(
+                    "Option<PalletLogionLocCollectionItem>",
+                    (locId: unknown, itemId: unknown) => this.collectionItems.get(this.locKey(locId))?.get(this.hashKey(itemId)) || null,
+                    (locId: unknown) => Array.from(this.collectionItems.get(this.locKey(locId))?.entries() || []).map(([ itemId, item ]) => [
+                        [ registry.createType("u128", this.locKey(locId)), registry.createType("H256", itemId) ],
+                        item,
+                    ]),
+                ),
+                collectionSizeMap: this.storageMap(
+                    "Option<u32>",
+                    (locId: unknown) => this.collectionItems.get(this.locKey(locId))?.size || null,
+                ),
+                tokensRecordsMap: this.storageMap(
+                    "Option<PalletLogionLocTokensRecord>",
+                    (locId: unknown, recordId: unknown) => this.tokensRecords.get(this.locKey(locId))?.get(this.hashKey(recordId)) || null,
+                    (locId: unknown) => Array.from(this.tokensRecords.get(this.locKey(locId))?.entries() || []).map(([ recordId, record ]) => [
+                        [ registry.createType("u128", this.locKey(locId)), registry.createType("H256", recordId) ],
+                        record,
+                    ]),
+                ),
+                verifiedIssuersMap: this.storageMap(
+                    "Option<PalletLogionLocVerifiedIssuer>",
+                    (legalOfficer: unknown, issuer: unknown) => this.verifiedIssuer(this.accountKey(legalOfficer), this.accountKey(issuer)),
+                    (legalOfficer: unknown) => Array.from(this.verifiedIssuers.get(this.accountKey(legalOfficer))?.keys() || []).map(issuer => [
+                        [ registry.createType("AccountId32", legalOfficer), registry.createType("AccountId32", issuer) ],
+                        this.verifiedIssuer(this.accountKey(legalOfficer), issuer),
+                    ]),
+                ),
+                verifiedIssuersByLocMap: this.storageMap(
+                    "Option<Null>",
+                    (locId: unknown, issuer: unknown) => this.selectedIssuers.get(this.locKey(locId))?.has(this.accountKey(issuer)) ? registry.createType("Null") : null,
+                ),
+                locsByVerifiedIssuerMap: this.storageMap(
+                    "Option<Null>",
+                    () => null,
+                    (issuer: unknown) => Array.from(this.selectedIssuers.entries())
+                        .filter(([ , issuers ]) => issuers.has(this.accountKey(issuer)))
+                        .map(([ locId ]) => [
+                            [ registry.createType("AccountId32", issuer), registry.createType("AccountId32", this.locs.get(locId)?.owner), registry.createType("u128", locId) ],
+                            registry.createType("Null"),
+                        ]),
+                ),
+                sponsorshipMap: this.storageMap(
+                    "Option<PalletLogionLocSponsorship>",
+                    (sponsorshipId: unknown) => this.sponsorships.get(this.locKey(sponsorshipId)) || null,
+                ),
+            },
+            treasury: {
+                proposals: this.storageMap(
+                    "Option<PalletTreasuryProposal>",
+                    (proposalId: unknown) => this.treasuryProposals.get(Number(String(proposalId))) || null,
+                    () => Array.from(this.treasuryProposals.entries()).map(([ proposalId, proposal ]) => [
+                        [ registry.createType("u32", proposalId) ],
+                        proposal,
+                    ]),
+                ),
+                approvals: this.storageMap("Vec<u32>", () => this.treasuryApprovals),
+                proposalCount: this.storageMap("u32", () => this.treasuryProposals.size),
+            },
+            assets: {
+                asset: this.storageMap(
+                    "Option<PalletAssetsAssetDetails>",
+                    (assetId: unknown) => this.assetDetails(String(assetId)),
+                    () => Array.from(this.assets.keys()).map(assetId => [
+                        [ registry.createType("u64", assetId) ],
+                        this.assetDetails(assetId),
+                    ]),
+                ),
+                account: this.storageMap(
+                    "Option<PalletAssetsAssetAccount>",
+                    (assetId: unknown, address: unknown) => {
+                        const balance = this.assets.get(String(assetId))?.balances.get(this.accountKey(address));
+                        return balance !== undefined ? { balance, status: "Liquid" } : null;
+                    },
+                ),
+                metadata: this.storageMap(
+                    "PalletAssetsAssetMetadata",
+                    (assetId: unknown) => {
+                        const asset = this.assets.get(String(assetId))?.asset;
+                        return asset ? { name: asset.name, symbol: asset.symbol, decimals: asset.decimals } : {};
+                    },
+                ),
+            },
+            multisig: {
+                multisigs: this.storageMap(
+                    "Option<PalletMultisigMultisig>",
+                    (address: unknown, callHash: unknown) => this.multisigs.get(this.accountKey(address))?.get(this.hashKey(callHash)) || null,
+                    (address: unknown) => Array.from(this.multisigs.get(this.accountKey(address))?.entries() || []).map(([ callHash, multisig ]) => [
+                        [ registry.createType("AccountId32", address), registry.createType("H256", callHash) ],
+                        multisig,
+                    ]),
+                ),
+            },
+            recovery: emptySection,
+            vault: emptySection,
+            vote: emptySection,
+        };
+    }
+
+    private assetDetails(assetId: string) {
+        const asset = this.assets.get(assetId);
+        if(!asset) {
+            return null;
+        }
+        const owner = this.accountKey(asset.asset.owner);
+        return {
+            owner,
+            issuer: owner,
+            admin: owner,
+            freezer: owner,
+            supply: Array.from(asset.balances.values()).reduce((sum, balance) => sum + balance, 0n),
+            minBalance: 1,
+            isSufficient: true,
+            accounts: asset.balances.size,
+            status: "Live",
+        };
+    }
+
+    private legalOfficerData(legalOfficer: FakeLegalOfficer | undefined) {
+        if(!legalOfficer) {
+            return null;
+        }
+        return {
+            Host: {
+                nodeId: null,
+                baseUrl: legalOfficer.baseUrl || null,
+                region: "Europe",
+            }
+        };
+    }
+
+    private locsOf(predicate: (loc: FakeLoc) => boolean): string[] | null {
+        const locIds = Array.from(this.locs.entries())
+            .filter(([ , loc ]) => predicate(loc))
+            .map(([ locId ]) => locId);
+        return locIds.length > 0 ? locIds : null;
+    }
+
+    private verifiedIssuer(legalOfficer: string, issuer: string) {
+        const identityLoc = this.verifiedIssuers.get(legalOfficer)?.get(issuer);
+        return identityLoc ? { identityLoc } : null;
+    }
+
+    /**
+     * Builds a fake storage map query: callable with the map's keys, with multi and entries.
+     */
+    private storageMap(
+        type: string,
+        get: (...keys: unknown[]) => unknown,
+        entries?: (...prefix: unknown[]) => [ unknown[], unknown ][],
+    ) {
+        const query = (...keys: unknown[]) => Promise.resolve(this.registry.createType(type, get(...keys)));
+        query.multi = (keys: unknown[]) => Promise.resolve(keys.map(key => this.registry.createType(type, Array.isArray(key) ? get(...key) : get(key))));
+        query.entries = (...prefix: unknown[]) => Promise.resolve((entries ? entries(...prefix) : []).map(([ args, value ]): [ FakeStorageKey, Codec ] => [
+            { args: args as Codec[] },
+            this.registry.createType(type, value),
+        ]));
+        return query;
+    }
+
+    /**
+     * A section whose storage items are all empty.
+     */
+    private emptySection() {
+        return new Proxy({}, {
+            get: () => this.storageMap("Option<Null>", () => null),
+        });
+    }
+
+    private buildTransactions() {
+        const transactions: Record<string, Record<string, FakeTransaction>> = {
+            balances: {
+                transfer: (origin, args) => this.transfer(origin, args),
+                transferKeepAlive: (origin, args) => this.transfer(origin, args),
+            },
+            logionLoc: {
+                createPolkadotTransactionLoc: (origin, [ locId, legalOfficer ]) => this.createLoc(locId, legalOfficer, { Account: origin }, "Transaction"),
+                createLogionTransactionLoc: (origin, [ locId, requesterLocId ]) => this.createLoc(locId, origin, { Loc: this.locKey(requesterLocId) }, "Transaction"),
+                createPolkadotIdentityLoc: (origin, [ locId, legalOfficer ]) => this.createLoc(locId, legalOfficer, { Account: origin }, "Identity"),
+                createLogionIdentityLoc: (origin, [ locId ]) => this.createLoc(locId, origin, { None: null }, "Identity"),
+                createOtherIdentityLoc: (origin, [ locId, requester, sponsorshipId ]) => this.createLoc(locId, origin, { OtherAccount: requester }, "Identity", { sponsorshipId: this.locKey(sponsorshipId) }),
+                createCollectionLoc: (origin, [ locId, legalOfficer, collectionLastBlockSubmission, collectionMaxSize, collectionCanUpload ]) => this.createLoc(locId, legalOfficer, { Account: origin }, "Collection", {
+                    collectionLastBlockSubmission,
+                    collectionMaxSize,
+                    collectionCanUpload: collectionCanUpload === true || String(collectionCanUpload) === "true",
+                }),
+                addMetadata: (origin, [ locId, item ]) => this.addMetadata(locId, item),
+                addFile: (origin, [ locId, file ]) => this.addFile(locId, file),
+                addLink: (origin, [ locId, link ]) => this.addLink(locId, link),
+                acknowledgeMetadata: (origin, [ locId, name ]) => this.acknowledge(locId, "metadata", "name", name),
+                acknowledgeFile: (origin, [ locId, hash ]) => this.acknowledge(locId, "files", "hash", hash),
+                close: (origin, [ locId ]) => this.close(locId, null),
+                closeAndSeal: (origin, [ locId, seal ]) => this.close(locId, seal),
+                makeVoid: (origin, [ locId ]) => this.makeVoid(locId, null),
+                makeVoidAndReplace: (origin, [ locId, replacerLocId ]) => this.makeVoid(locId, replacerLocId),
+                addCollectionItem: (origin, args) => this.addCollectionItem(args),
+                addTokensRecord: (origin, [ locId, recordId, description, files ]) => this.addTokensRecord(origin, locId, recordId, description, files),
+                nominateIssuer: (origin, [ issuer, identityLocId ]) => this.nominateIssuer(origin, issuer, identityLocId),
+                dismissIssuer: (origin, [ issuer ]) => this.dismissIssuer(origin, issuer),
+                setIssuerSelection: (origin, [ locId, issuer, selected ]) => this.setIssuerSelection(locId, issuer, selected),
+                sponsor: (origin, [ sponsorshipId, sponsoredAccount, legalOfficer ]) => this.sponsor(origin, sponsorshipId, sponsoredAccount, legalOfficer),
+                withdrawSponsorship: (origin, [ sponsorshipId ]) => this.withdrawSponsorship(sponsorshipId),
+            },
+            assets: {
+                transfer: (origin, args) => this.transferAsset(origin, args),
+                transferKeepAlive: (origin, args) => this.transferAsset(origin, args),
+            },
+            treasury: {
+                proposeSpend: (origin, [ value, beneficiary ]) => this.proposeSpend(origin, value, beneficiary),
+                approveProposal: (origin, [ proposalId ]) => this.approveProposal(proposalId),
+            },
+            multisig: {
+                asMulti: (origin, [ threshold, otherSignatories, maybeTimepoint, call ]) => this.asMulti(origin, threshold, otherSignatories, maybeTimepoint, call),
+                cancelAsMulti: (origin, [ threshold, otherSignatories, timepoint, callHash ]) => this.cancelAsMulti(origin, threshold, otherSignatories, timepoint, callHash),
+            },
+        };
+        this.transactions = transactions;
+        return new Proxy({}, {
+            get: (_target, section: string) => new Proxy({}, {
+                get: (_target, method: string) => (...args: unknown[]) => this.submittable(section, method, args, transactions[section]?.[method]),
+            }),
+        });
+    }
+
+    private submittable(section: string, method: string, args: unknown[], transaction?: FakeTransaction) {
+        const registry = this.registry;
+        const hash = registry.createType("H256", registry.hash(stringToU8a(`${ section }.${ method }(${ args.map(arg => String(arg)).join(",") })`)));
+        return {
+            registry,
+            method: {
+                section,
+                method,
+                args,
+                hash,
+                toHex: () => u8aToHex(stringToU8a(`${ section }.${ method }`)),
+            },
+            paymentInfo: () => Promise.resolve({
+                partialFee: registry.createType("u128", this.inclusionFee),
+                weight: registry.createType("SpWeightsWeightV2Weight", { refTime: 1000000, proofSize: 1000 }),
+            }),
+            signAndSend: (account: string | { address: string }, optionsOrCallback?: { nonce?: number } | ((result: unknown) => void), statusCallback?: (result: unknown) => void) => {
+                if(!transaction) {
+                    return Promise.reject(unsupportedTransaction(section, method));
+                }
+                const origin = this.accountKey(typeof account === "string" ? account : account.address);
+                const options = typeof optionsOrCallback === "object" ? optionsOrCallback : {};
+                const callback = typeof optionsOrCallback === "function" ? optionsOrCallback : statusCallback;
+                const nonce = this.nonces.get(origin) || 0;
+                if(options.nonce !== undefined && options.nonce !== nonce) {
+                    return Promise.reject(new Error(`Invalid nonce ${ options.nonce }, expected ${ nonce }`));
+                }
+                this.nonces.set(origin, nonce + 1);
+                let events: FakeEventRecord[];
+                try {
+                    events = transaction(origin, args);
+                } catch(e) {
+                    return Promise.reject(e);
+                }
+                const block = ++this.blockNumber;
+                this._submissions.push({ section, method, args, origin, block, nonce });
+                let subscribed = true;
+                setTimeout(() => {
+                    const inBlock = this.submissionResult(block, events, false);
+                    if(subscribed && callback) {
+                        callback(inBlock);
+                    }
+                    if(subscribed && callback) {
+                        callback(this.submissionResult(block, events, true));
+                    }
+                    this.eventListeners.forEach(listener => listener(events));
+                });
+                return Promise.resolve(() => { subscribed = false; });
+            },
+        };
+    }
+
+    private submissionResult(block: bigint, events: FakeEventRecord[], finalized: boolean) {
+        const blockHash = this.blockHash(block);
+        return {
+            status: {
+                isInBlock: !finalized,
+                asInBlock: blockHash,
+                isFinalized: finalized,
+                asFinalized: blockHash,
+            },
+            isInBlock: !finalized,
+            isFinalized: finalized,
+            txIndex: 0,
+            events,
+            dispatchError: undefined,
+        };
+    }
+
+    private event(section: string, method: string, data: Codec[]): FakeEventRecord {
+        return {
+            phase: { isApplyExtrinsic: true },
+            event: {
+                section,
+                method,
+                data,
+                toHuman: () => ({ section, method, data: data.map(item => item.toHuman()) }),
+            },
+        };
+    }
+
+    private transfer(origin: string, [ destination, amount ]: unknown[]): FakeEventRecord[] {
+        const value = BigInt(String(amount));
+        const available = this.getBalance(origin);
+        if(available < value) {
+            throw new Error("balances.InsufficientBalance");
+        }
+        this.setBalance(origin, available - value);
+        this.setBalance(String(destination), this.getBalance(String(destination)) + value);
+        return [ this.event("balances", "Transfer", [
+            this.registry.createType("AccountId32", origin),
+            this.registry.createType("AccountId32", destination),
+            this.registry.createType("u128", value),
+        ]) ];
+    }
+
+    private transferAsset(origin: string, [ assetId, destination, amount ]: unknown[]): FakeEventRecord[] {
+        const asset = this.assets.get(String(assetId));
+        if(!asset) {
+            throw new Error("assets.Unknown");
+        }
+        const value = BigInt(String(amount));
+        const available = asset.balances.get(origin) || 0n;
+        if(available < value) {
+            throw new Error("assets.BalanceLow");
+        }
+        const destinationKey = this.accountKey(destination);
+        asset.balances.set(origin, available - value);
+        asset.balances.set(destinationKey, (asset.balances.get(destinationKey) || 0n) + value);
+        return [ this.event("assets", "Transferred", [
+            this.registry.createType("u64", String(assetId)),
+            this.registry.createType("AccountId32", origin),
+            this.registry.createType("AccountId32", destinationKey),
+            this.registry.createType("u128", value),
+        ]) ];
+    }
+
+    private proposeSpend(origin: string, value: unknown, beneficiary: unknown): FakeEventRecord[] {
+        const proposalValue = BigInt(String(value));
+        const proportionalBond = proposalValue * TREASURY_PROPOSAL_BOND_PERMILL / 1000000n;
+        const bond = proportionalBond > TREASURY_PROPOSAL_BOND_MINIMUM ? proportionalBond : TREASURY_PROPOSAL_BOND_MINIMUM;
+        const available = this.getBalance(origin);
+        if(available < bond) {
+            throw new Error("treasury.InsufficientProposersBalance");
+        }
+        this.setBalance(origin, available - bond);
+        this.reserved.set(origin, (this.reserved.get(origin) || 0n) + bond);
+
+        const proposalId = this.treasuryProposals.size;
+        this.treasuryProposals.set(proposalId, {
+            proposer: origin,
+            value: proposalValue,
+            beneficiary: this.accountKey(beneficiary),
+            bond,
+        });
+        return [ this.event("treasury", "Proposed", [ this.registry.createType("u32", proposalId) ]) ];
+    }
+
+    private approveProposal(proposalId: unknown): FakeEventRecord[] {
+        const id = Number(String(proposalId));
+        if(!this.treasuryProposals.has(id)) {
+            throw new Error("treasury.InvalidIndex");
+        }
+        this.treasuryApprovals.push(id);
+        return [];
+    }
+
+    private multisigAddress(origin: string, threshold: unknown, otherSignatories: unknown): string {
+        const signatories = [ origin, ...(otherSignatories as unknown[]).map(signatory => this.accountKey(signatory)) ].sort();
+        return this.accountKey(encodeAddress(createKeyMulti(signatories, Number(String(threshold)))));
+    }
+
+    private sameTimepoint(multisig: FakeMultisig, timepoint: unknown): boolean {
+        const { height, index } = this.registry.createType("PalletMultisigTimepoint", timepoint).toJSON() as { height: number, index: number };
+        return BigInt(height) === multisig.when.height && index === multisig.when.index;
+    }
+
+    private asMulti(origin: string, threshold: unknown, otherSignatories: unknown, maybeTimepoint: unknown, call: unknown): FakeEventRecord[] {
+        const address = this.multisigAddress(origin, threshold, otherSignatories);
+        const method = call as { section: string, method: string, args: unknown[], hash: Codec };
+        const transaction = this.transactions[method.section]?.[method.method];
+        if(!transaction) {
+            throw unsupportedTransaction(method.section, method.method);
+        }
+        const callHash = this.hashKey(method.hash);
+        const operations = this.multisigs.get(address) || new Map<string, FakeMultisig>();
+        const multisig = operations.get(callHash);
+        const multisigData = [
+            this.registry.createType("AccountId32", origin),
+            this.registry.createType("AccountId32", address),
+            this.registry.createType("H256", callHash),
+        ];
+        if(!multisig) {
+            if(maybeTimepoint) {
+                throw new Error("multisig.UnexpectedTimepoint");
+            }
+            operations.set(callHash, {
+                when: { height: this.blockNumber + 1n, index: 0 },
+                deposit: 0n,
+                depositor: origin,
+                approvals: [ origin ],
+            });
+            this.multisigs.set(address, operations);
+            return [ this.event("multisig", "NewMultisig", multisigData) ];
+        }
+        if(!maybeTimepoint) {
+            throw new Error("multisig.NoTimepoint");
+        }
+        if(!this.sameTimepoint(multisig, maybeTimepoint)) {
+            throw new Error("multisig.WrongTimepoint");
+        }
+        if(multisig.approvals.includes(origin)) {
+            throw new Error("multisig.AlreadyApproved");
+        }
+        if(multisig.approvals.length + 1 < Number(String(threshold))) {
+            multisig.approvals.push(origin);
+            return [ this.event("multisig", "MultisigApproval", multisigData) ];
+        }
+        const events = transaction(address, method.args);
+        operations.delete(callHash);
+        return [ ...events, this.event("multisig", "MultisigExecuted", multisigData) ];
+    }
+
+    private cancelAsMulti(origin: string, threshold: unknown, otherSignatories: unknown, timepoint: unknown, callHash: unknown): FakeEventRecord[] {
+        const address = this.multisigAddress(origin, threshold, otherSignatories);
+        const hash = this.hashKey(callHash);
+        const multisig = this.multisigs.get(address)?.get(hash);
+        if(!multisig) {
+            throw new Error("multisig.NotFound");
+        }
+        if(!this.sameTimepoint(multisig, timepoint)) {
+            throw new Error("multisig.WrongTimepoint");
+        }
+        if(multisig.depositor !== origin) {
+            throw new Error("multisig.NotOwner");
+        }
+        this.multisigs.get(address)?.delete(hash);
+        return [ this.event("multisig", "MultisigCancelled", [
+            this.registry.createType("AccountId32", origin),
+            this.registry.createType("AccountId32", address),
+            this.registry.createType("H256", hash),
+        ]) ];
+    }
+
+    private createLoc(locId: unknown, owner: unknown, requester: Record<string, unknown>, locType: FakeLoc["locType"], extra?: Partial<FakeLoc>): FakeEventRecord[] {
+        const key = this.locKey(locId);
+        if(this.locs.has(key)) {
+            throw new Error("logionLoc.AlreadyExists");
+        }
+        const ownerKey = this.accountKey(owner);
+        if(!this.legalOfficers.has(ownerKey)) {
+            throw new Error("logionLoc.Unauthorized");
+        }
+        this.locs.set(key, {
+            owner: ownerKey,
+            requester,
+            metadata: [],
+            files: [],
+            closed: false,
+            locType,
+            links: [],
+            voidInfo: null,
+            replacerOf: null,
+            collectionLastBlockSubmission: null,
+            collectionMaxSize: null,
+            collectionCanUpload: false,
+            seal: null,
+            sponsorshipId: null,
+            ...extra,
+        });
+        return [ this.locEvent("LocCreated", key) ];
+    }
+
+    private locEvent(method: string, locId: string, ...data: Codec[]): FakeEventRecord {
+        return this.event("logionLoc", method, [ this.registry.createType("u128", locId), ...data ]);
+    }
+
+    private openLoc(locId: unknown): FakeLoc {
+        const loc = this.locs.get(this.locKey(locId));
+        if(!loc) {
+            throw new Error("logionLoc.NotFound");
+        }
+        if(loc.closed) {
+            throw new Error("logionLoc.CannotMutate");
+        }
+        if(loc.voidInfo) {
+            throw new Error("logionLoc.CannotMutateVoid");
+        }
+        return loc;
+    }
+
+    private addMetadata(locId: unknown, item: unknown): FakeEventRecord[] {
+        const loc = this.openLoc(locId);
+        const params = this.registry.createType("PalletLogionLocMetadataItemParams", item).toJSON() as Record<string, unknown>;
+        if(loc.metadata.find(existing => this.hashKey(existing.name) === this.hashKey(params.name))) {
+            throw new Error("logionLoc.DuplicateLocMetadata");
+        }
+        loc.metadata.push({ ...params, acknowledged: this.isOwner(loc, params.submitter) });
+        return [];
+    }
+
+    private isOwner(loc: FakeLoc, submitter: unknown): boolean {
+        const supportedAccountId = this.registry.createType<PalletLogionLocSupportedAccountId>("PalletLogionLocSupportedAccountId", submitter);
+        return supportedAccountId.isPolkadot && supportedAccountId.asPolkadot.toString() === loc.owner;
+    }
+
+    private addFile(locId: unknown, file: unknown): FakeEventRecord[] {
+        const loc = this.openLoc(locId);
+        const params = this.registry.createType("PalletLogionLocFileParams", file).toJSON() as Record<string, unknown>;
+        if(loc.files.find(existing => this.hashKey(existing.hash) === this.hashKey(params.hash))) {
+            throw new Error("logionLoc.DuplicateLocFile");
+        }
+        loc.files.push({ ...params, acknowledged: this.isOwner(loc, params.submitter) });
+        return [];
+    }
+
+    private addLink(locId: unknown, link: unknown): FakeEventRecord[] {
+        const loc = this.openLoc(locId);
+        const params = this.registry.createType("PalletLogionLocLocLink", link).toJSON() as Record<string, unknown>;
+        if(!this.locs.has(this.locKey(params.id))) {
+            throw new Error("logionLoc.LinkedLocNotFound");
+        }
+        loc.links.push(params);
+        return [];
+    }
+
+    private acknowledge(locId: unknown, collection: "metadata" | "files", hashField: string, hash: unknown): FakeEventRecord[] {
+        const loc = this.openLoc(locId);
+        const item = loc[collection].find(item => this.hashKey(item[hashField]) === this.hashKey(hash));
+        if(!item) {
+            throw new Error("logionLoc.ItemNotFound");
+        }
+        if(item.acknowledged) {
+            throw new Error("logionLoc.ItemAlreadyAcknowledged");
+        }
+        item.acknowledged = true;
+        return [];
+    }
+
+    private close(locId: unknown, seal: unknown): FakeEventRecord[] {
+        const loc = this.openLoc(locId);
+        if(loc.metadata.some(item => !item.acknowledged) || loc.files.some(item => !item.acknowledged)) {
+            throw new Error("logionLoc.CannotCloseUnacknowledged");
+        }
+        loc.closed = true;
+        loc.seal = seal;
+        return [ this.locEvent("LocClosed", this.locKey(locId)) ];
+    }
+
+    private makeVoid(locId: unknown, replacerLocId: unknown): FakeEventRecord[] {
+        const key = this.locKey(locId);
+        const loc = this.locs.get(key);
+        if(!loc) {
+            throw new Error("logionLoc.NotFound");
+        }
+        if(loc.voidInfo) {
+            throw new Error("logionLoc.AlreadyVoid");
+        }
+        let replacer: string | null = null;
+        if(replacerLocId !== null) {
+            replacer = this.locKey(replacerLocId);
+            const replacerLoc = this.locs.get(replacer);
+            if(!replacerLoc) {
+                throw new Error("logionLoc.ReplacerLocNotFound");
+            }
+            replacerLoc.replacerOf = key;
+        }
+        loc.voidInfo = { replacer };
+        return [ this.locEvent("LocVoid", key) ];
+    }
+
+    private addCollectionItem([ locId, itemId, description, files, token, restrictedDelivery, termsAndConditions ]: unknown[]): FakeEventRecord[] {
+        const key = this.locKey(locId);
+        const loc = this.locs.get(key);
+        if(!loc || loc.locType !== "Collection") {
+            throw new Error("logionLoc.WrongCollectionLoc");
+        }
+        if(!loc.closed || loc.voidInfo) {
+            throw new Error("logionLoc.WrongCollectionLoc");
+        }
+        const items = this.collectionItems.get(key) || new Map();
+        const itemKey = this.hashKey(itemId);
+        if(items.has(itemKey)) {
+            throw new Error("logionLoc.CollectionItemAlreadyExists");
+        }
+        const item = this.registry.createType<PalletLogionLocCollectionItem>("PalletLogionLocCollectionItem", {
+            description,
+            files,
+            token,
+            restrictedDelivery,
+            termsAndConditions,
+        });
+        if(item.files.length > 0 && !loc.collectionCanUpload) {
+            throw new Error("logionLoc.CannotUpload");
+        }
+        items.set(itemKey, item.toJSON());
+        this.collectionItems.set(key, items);
+        return [ this.locEvent("ItemAdded", key, this.registry.createType("H256", itemKey)) ];
+    }
+
+    private addTokensRecord(origin: string, locId: unknown, recordId: unknown, description: unknown, files: unknown): FakeEventRecord[] {
+        const key = this.locKey(locId);
+        const loc = this.locs.get(key);
+        if(!loc || loc.locType !== "Collection") {
+            throw new Error("logionLoc.WrongCollectionLoc");
+        }
+        const records = this.tokensRecords.get(key) || new Map();
+        const recordKey = this.hashKey(recordId);
+        if(records.has(recordKey)) {
+            throw new Error("logionLoc.TokensRecordAlreadyExists");
+        }
+        records.set(recordKey, this.registry.createType("PalletLogionLocTokensRecord", {
+            description,
+            files,
+            submitter: origin,
+        }).toJSON());
+        this.tokensRecords.set(key, records);
+        return [];
+    }
+
+    private nominateIssuer(origin: string, issuer: unknown, identityLocId: unknown): FakeEventRecord[] {
+        const issuers = this.verifiedIssuers.get(origin) || new Map();
+        issuers.set(this.accountKey(issuer), this.locKey(identityLocId));
+        this.verifiedIssuers.set(origin, issuers);
+        return [];
+    }
+
+    private dismissIssuer(origin: string, issuer: unknown): FakeEventRecord[] {
+        const issuerKey = this.accountKey(issuer);
+        this.verifiedIssuers.get(origin)?.delete(issuerKey);
+        this.selectedIssuers.forEach((issuers, locId) => {
+            if(this.locs.get(locId)?.owner === origin) {
+                issuers.delete(issuerKey);
+            }
+        });
+        return [];
+    }
+
+    private setIssuerSelection(locId: unknown, issuer: unknown, selected: unknown): FakeEventRecord[] {
+        const key = this.locKey(locId);
+        const issuers = this.selectedIssuers.get(key) || new Set();
+        if(selected === true || String(selected) === "true") {
+            issuers.add(this.accountKey(issuer));
+        } else {
+            issuers.delete(this.accountKey(issuer));
+        }
+        this.selectedIssuers.set(key, issuers);
+        return [];
+    }
+
+    private sponsor(origin: string, sponsorshipId: unknown, sponsoredAccount: unknown, legalOfficer: unknown): FakeEventRecord[] {
+        const key = this.locKey(sponsorshipId);
+        if(this.sponsorships.has(key)) {
+            throw new Error("logionLoc.AlreadyExists");
+        }
+        const sponsorship = this.registry.createType<PalletLogionLocSponsorship>("PalletLogionLocSponsorship", {
+            sponsor: origin,
+            sponsoredAccount,
+            legalOfficer,
+            locId: null,
+        });
+        this.sponsorships.set(key, sponsorship.toJSON() as Record<string, unknown>);
+        return [ this.event("logionLoc", "SponsorshipCreated", [
+            this.registry.createType("u128", key),
+            sponsorship.sponsor,
+            sponsorship.sponsoredAccount,
+        ]) ];
+    }
+
+    private withdrawSponsorship(sponsorshipId: unknown): FakeEventRecord[] {
+        const key = this.locKey(sponsorshipId);
+        const sponsorship = this.sponsorships.get(key);
+        if(!sponsorship) {
+            throw new Error("logionLoc.SponsorshipNotFound");
+        }
+        this.sponsorships.delete(key);
+        const codec = this.registry.createType<PalletLogionLocSponsorship>("PalletLogionLocSponsorship", sponsorship);
+        return [ this.event("logionLoc", "SponsorshipWithdrawn", [
+            this.registry.createType("u128", key),
+            codec.sponsor,
+            codec.sponsoredAccount,
+        ]) ];
+    }
+}
+
+/**
+ * Registry types are given as JSON strings, the generated lookup definitions containing inline structs
+ * which are not covered by RegistryTypes. The registry stringifies object definitions anyway.
+ */
+function toRegistryTypes(definitions: Record<string, unknown>): RegistryTypes {
+    const types: RegistryTypes = {};
+    for(const [ name, definition ] of Object.entries(definitions)) {
+        types[name] = typeof definition === "string" ? definition : JSON.stringify(definition);
+    }
+    return types;
+}
+
+function unsupportedTransaction(section: string, method: string): Error {
+    return new Error(`Transaction ${ section }.${ method } is not supported by FakeLogionNode`);
+}
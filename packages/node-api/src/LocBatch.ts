@@ -20,6 +20,8 @@ export class LocBatch {
         locs?: Record<string, LegalOfficerCase>,
         /** DEPRECATED - a map of already fetched verified issuers per legal officer used to initialize the cache */
         availableVerifiedIssuers?: Record<string, VerifiedIssuerType[]>,
+        /** Already fetched LOCs indexed by decimal LOC ID, the other LOCs are fetched */
+        preloadedLocs?: Record<string, LegalOfficerCase>,
     }) {
         this.api = args.api;
         this.adapters = args.adapters;
@@ -27,11 +29,13 @@ export class LocBatch {
 
         this.locs = args.locs;
         this.availableVerifiedIssuers = args.availableVerifiedIssuers;
+        this.preloadedLocs = args.preloadedLocs || {};
     }
 
     private api: ApiPromise;
     private adapters: Adapters;
     private locIds: UUID[];
+    private preloadedLocs: Record<string, LegalOfficerCase>;
 
     async getLocsVerifiedIssuers(): Promise<Record<string, VerifiedIssuerType[]>> {
         this.locsVerifiedIssuers ||= await this.computeLocsVerifiedIssuers();
@@ -118,11 +122,24 @@ export class LocBatch {
     private locs: Record<string, LegalOfficerCase> | undefined;
 
     private async computeLocs(locIds: UUID[]): Promise<Record<string, LegalOfficerCase>> {
-        const locs = await this.computeLocsArray(locIds);
         const map: Record<string, LegalOfficerCase> = {};
+        const missingIds: UUID[] = [];
+        for(const locId of locIds) {
+            const preloadedLoc = this.preloadedLocs[locId.toDecimalString()];
+            if(preloadedLoc) {
+                map[locId.toDecimalString()] = preloadedLoc;
+            } else {
+                missingIds.push(locId);
+            }
+        }
+        if(missingIds.length === 0) {
+            return map;
+        }
+
+        const locs = await this.computeLocsArray(missingIds);
         for(let i = 0; i < locs.length; ++i) {
             const loc = locs[i];
-            const locId = locIds[i];
+            const locId = missingIds[i];
             if(loc !== undefined) {
                 map[locId.toDecimalString()] = loc;
             }
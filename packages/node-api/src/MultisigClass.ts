@@ -0,0 +1,83 @@
+import { ApiPromise } from "@polkadot/api";
+import { SubmittableExtrinsic } from "@polkadot/api/promise/types";
+import { createKeyMulti, encodeAddress } from '@polkadot/util-crypto';
+import { MultisigTimepoint } from "./Types.js";
+
+export interface AsMultiParameters {
+    signerId: string;
+    call: SubmittableExtrinsic;
+    /**
+     * The timepoint of the operation (see MultisigOperation.when), must be undefined for the first approval.
+     */
+    timepoint?: MultisigTimepoint;
+}
+
+export interface CancelAsMultiParameters {
+    signerId: string;
+    callHash: string;
+    timepoint: MultisigTimepoint;
+}
+
+export class Multisig {
+
+    constructor(
+        api: ApiPromise,
+        signatories: string[],
+        threshold: number,
+    ) {
+        if(threshold < 2 || threshold > signatories.length) {
+            throw new Error("Threshold must be at least 2 and at most the number of signatories");
+        }
+        this.api = api;
+        this.signatories = [ ...signatories ].sort();
+        this.threshold = threshold;
+        this.address = Multisig.getMultisigAddress(this.signatories, this.threshold);
+    }
+
+    private api: ApiPromise;
+    readonly signatories: string[];
+    readonly threshold: number;
+    readonly address: string;
+
+    static getMultisigAddress(signatories: string[], threshold: number): string {
+        return encodeAddress(createKeyMulti([ ...signatories ].sort(), threshold));
+    }
+
+    readonly tx = {
+        /**
+         * Approves a call. The first approval creates the operation, the approval reaching the threshold dispatches the call
+         * with the multisig as origin.
+         */
+        asMulti: async (parameters: AsMultiParameters): Promise<SubmittableExtrinsic> => {
+            const { signerId, call, timepoint } = parameters;
+            const dispatchInfo = await call.paymentInfo(this.address);
+            return this.api.tx.multisig.asMulti(
+                this.threshold,
+                this.otherSignatories(signerId),
+                timepoint ? { height: timepoint.block, index: timepoint.index } : null,
+                call.method,
+                dispatchInfo.weight,
+            );
+        },
+
+        /**
+         * Cancels an operation, only the depositor (i.e. the signatory who created the operation) may cancel it.
+         */
+        cancelAsMulti: (parameters: CancelAsMultiParameters): SubmittableExtrinsic => {
+            const { signerId, callHash, timepoint } = parameters;
+            return this.api.tx.multisig.cancelAsMulti(
+                this.threshold,
+                this.otherSignatories(signerId),
+                { height: timepoint.block, index: timepoint.index },
+                callHash,
+            );
+        },
+    }
+
+    private otherSignatories(signerId: string): string[] {
+        if(!this.signatories.includes(signerId)) {
+            throw new Error("Signer is not a signatory");
+        }
+        return this.signatories.filter(signatory => signatory !== signerId);
+    }
+}
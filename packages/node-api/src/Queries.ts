@@ -1,5 +1,6 @@
 import { ApiPromise } from "@polkadot/api";
 import { Adapters } from "./Adapters.js";
+import * as Assets from "./Assets.js";
 import * as Currency from "./Currency.js";
 import * as Numbers from "./numbers.js";
 import {
@@ -14,9 +15,14 @@ import {
     VerifiedIssuerType,
     LegalOfficerData,
     Region,
+    TreasuryProposal,
+    MultisigOperation,
+    TypesTokensRecord,
+    TypesTokensRecordWithId,
 } from "./Types.js";
 import { UUID } from "./UUID.js";
 import { Hash } from "./Hash.js";
+import { stringToU8a, u8aConcat } from "@polkadot/util";
 
 export interface Coin {
     id: string,
@@ -24,6 +30,14 @@ export interface Coin {
     iconId: string,
     iconType: 'svg' | 'png',
     symbol: string,
+    /**
+     * The number of decimals of the smallest unit.
+     */
+    decimals?: number,
+    /**
+     * Defined if the coin is an asset of pallet assets.
+     */
+    assetId?: bigint,
 }
 
 export interface CoinBalance {
@@ -80,10 +94,61 @@ export class Queries {
     
         return [
             Queries.buildCoinBalance('lgnt', logTotal, logAvailable, logLevel),
-            Queries.DOT_BALANCE
+            Queries.DOT_BALANCE,
         ];
     }
 
+    /**
+     * @returns the balances of the assets (see pallet assets) held by given account, an empty list if the runtime
+     * has no assets pallet.
+     */
+    async getAssetBalances(accountId: string): Promise<CoinBalance[]> {
+        if(!this.api.query.assets) {
+            return [];
+        }
+        const assets = (await this.api.query.assets.asset.entries())
+            .filter(entry => entry[1].isSome)
+            .map(entry => ({
+                assetId: entry[0].args[0],
+                details: entry[1].unwrap(),
+            }));
+        if(assets.length === 0) {
+            return [];
+        }
+        const accounts = await this.api.query.assets.account.multi(assets.map(asset => [ asset.assetId, accountId ]));
+        const metadata = await this.api.query.assets.metadata.multi(assets.map(asset => asset.assetId));
+
+        const balances: CoinBalance[] = [];
+        for(let i = 0; i < assets.length; ++i) {
+            const account = accounts[i];
+            if(account.isNone) {
+                continue;
+            }
+            const assetId = assets[i].assetId.toBigInt();
+            const decimals = metadata[i].decimals.toNumber();
+            const coin: Coin = {
+                id: `asset:${ assetId }`,
+                name: metadata[i].name.toUtf8(),
+                iconId: "asset",
+                iconType: "svg",
+                symbol: metadata[i].symbol.toUtf8(),
+                decimals,
+                assetId,
+            };
+            const rawBalance = account.unwrap().balance.toBigInt();
+            const balance = Assets.toPrefixedNumberAmount(rawBalance, decimals).optimizeScale(3);
+            const available = account.unwrap().status.isLiquid ? balance : Numbers.PrefixedNumber.ZERO;
+            const supply = assets[i].details.supply.toBigInt();
+            balances.push({
+                coin,
+                balance,
+                available,
+                level: supply > 0n ? Number(rawBalance * 1000n / supply) / 1000 : 0,
+            });
+        }
+        return balances;
+    }
+
     static readonly DOT_BALANCE = Queries.buildCoinBalance('dot', new Numbers.PrefixedNumber("0", Numbers.NONE), new Numbers.PrefixedNumber("0", Numbers.NONE), 1);
 
     private static buildCoinBalance(coinId: string, balance: Numbers.PrefixedNumber, available: Numbers.PrefixedNumber, level: number): CoinBalance {
@@ -104,6 +169,7 @@ export class Queries {
                 iconId: 'dot',
                 iconType: 'png',
                 symbol: 'DOT',
+                decimals: 10,
             };
         } else if(coinId === "lgnt") {
             return {
@@ -112,6 +178,7 @@ export class Queries {
                 iconId: 'lgnt',
                 iconType: 'svg',
                 symbol: Currency.SYMBOL,
+                decimals: -Currency.LGNT_SMALLEST_UNIT.tenExponent,
             };
         } else {
             throw new Error(`Unsupported coin ${coinId}`);
@@ -147,6 +214,54 @@ export class Queries {
         ));
     }
 
+    /**
+     * @param accountId The requester.
+     * @returns The IDs of the LOCs requested by given account, in creation order.
+     */
+    async getAccountLocs(accountId: ValidAccountId): Promise<UUID[]> {
+        const result = accountId.type === "Polkadot" ?
+            await this.api.query.logionLoc.accountLocsMap(accountId.address) :
+            await this.api.query.logionLoc.otherAccountLocsMap(this.adapters.toPalletLogionLocOtherAccountId(accountId.toOtherAccountId()));
+        if(result.isSome) {
+            return result.unwrap().map(locId => this.adapters.fromLocId(locId));
+        } else {
+            return [];
+        }
+    }
+
+    /**
+     * @param identityLocId A Logion Identity LOC.
+     * @returns The IDs of the LOCs requested with given Logion Identity LOC, in creation order.
+     */
+    async getIdentityLocLocs(identityLocId: UUID): Promise<UUID[]> {
+        const result = await this.api.query.logionLoc.identityLocLocsMap(Adapters.toLocId(identityLocId));
+        if(result.isSome) {
+            return result.unwrap().map(locId => this.adapters.fromLocId(locId));
+        } else {
+            return [];
+        }
+    }
+
+    async getTokensRecord(locId: UUID, recordId: Hash): Promise<TypesTokensRecord | undefined> {
+        const result = await this.api.query.logionLoc.tokensRecordsMap(
+            Adapters.toLocId(locId),
+            this.adapters.toH256(recordId),
+        );
+        if(result.isSome) {
+            return Adapters.toTokensRecord(result.unwrap());
+        } else {
+            return undefined;
+        }
+    }
+
+    async getTokensRecords(locId: UUID): Promise<TypesTokensRecordWithId[]> {
+        const result = await this.api.query.logionLoc.tokensRecordsMap.entries(Adapters.toLocId(locId));
+        return result.map(entry => ({
+            ...Adapters.toTokensRecord(entry[1].unwrap()),
+            id: Hash.fromHex(entry[0].args[1].toHex()),
+        }));
+    }
+
     async getCollectionSize(locId: UUID): Promise<number | undefined> {
         const result = await this.api.query.logionLoc.collectionSizeMap(Adapters.toLocId(locId));
         if (result.isSome) {
@@ -246,6 +361,71 @@ export class Queries {
             .map(entry => entry[0].args[0].toString());
     }
 
+    /**
+     * @returns the treasury's proposals, approved or not, by increasing ID.
+     */
+    async getTreasuryProposals(): Promise<TreasuryProposal[]> {
+        const approvals = await this.getTreasuryApprovals();
+        const entries = await this.api.query.treasury.proposals.entries();
+        return entries
+            .filter(entry => entry[1].isSome)
+            .map(entry => {
+                const id = entry[0].args[0].toNumber();
+                return this.adapters.toTreasuryProposal(id, entry[1].unwrap(), approvals.includes(id));
+            })
+            .sort((proposal1, proposal2) => proposal1.id - proposal2.id);
+    }
+
+    /**
+     * @returns the IDs of the proposals which have been approved but not yet awarded.
+     */
+    async getTreasuryApprovals(): Promise<number[]> {
+        const approvals = await this.api.query.treasury.approvals();
+        return approvals.map(proposalId => proposalId.toNumber());
+    }
+
+    /**
+     * @returns the address of the account holding the treasury's funds, derived from the pallet's ID.
+     */
+    getTreasuryAccount(): string {
+        const palletId = this.api.consts.treasury.palletId;
+        const accountId = u8aConcat(stringToU8a("modl"), palletId.toU8a(), new Uint8Array(32)).subarray(0, 32);
+        return this.api.createType("AccountId32", accountId).toString();
+    }
+
+    async getTreasuryBalances(): Promise<CoinBalance[]> {
+        return this.getCoinBalances(this.getTreasuryAccount());
+    }
+
+    /**
+     * @param value the value of a spend proposal, in canonical units.
+     * @returns the amount reserved from the proposer's account when submitting the proposal.
+     */
+    getTreasuryProposalBond(value: bigint): bigint {
+        const treasury = this.api.consts.treasury;
+        const proportionalBond = value * treasury.proposalBond.toBigInt() / 1000000n;
+        const minimumBond = treasury.proposalBondMinimum.toBigInt();
+        const bond = proportionalBond > minimumBond ? proportionalBond : minimumBond;
+        if(treasury.proposalBondMaximum.isSome) {
+            const maximumBond = treasury.proposalBondMaximum.unwrap().toBigInt();
+            return bond > maximumBond ? maximumBond : bond;
+        } else {
+            return bond;
+        }
+    }
+
+    /**
+     * @param address a multisig address.
+     * @returns the operations of given multisig waiting for approvals, oldest first.
+     */
+    async getMultisigOperations(address: string): Promise<MultisigOperation[]> {
+        const entries = await this.api.query.multisig.multisigs.entries(address);
+        return entries
+            .filter(entry => entry[1].isSome)
+            .map(entry => this.adapters.toMultisigOperation(entry[0].args[1].toHex(), entry[1].unwrap()))
+            .sort((operation1, operation2) => Number(operation1.when.block - operation2.when.block) || operation1.when.index - operation2.when.index);
+    }
+
     getAvailableRegions(): Region[] {
         this.availableRegions ||= this.computeAvailableRegions();
         return this.availableRegions;
@@ -137,6 +137,10 @@ export interface TypesTokensRecord {
     submitter: string;
 }
 
+export interface TypesTokensRecordWithId extends TypesTokensRecord {
+    id: Hash;
+}
+
 export interface TypesRecoveryConfig {
     legalOfficers: string[];
 }
@@ -320,6 +324,65 @@ export interface Sponsorship {
     locId: UUID | undefined;
 }
 
+export interface TreasuryProposal {
+    id: number;
+    proposer: string;
+    value: bigint;
+    beneficiary: string;
+    bond: bigint;
+    /**
+     * True if the proposal was approved and is waiting for the next spend period to be awarded.
+     */
+    approved: boolean;
+}
+
+export type LocEventType =
+    "LocCreated"
+    | "LocClosed"
+    | "LocVoid"
+    | "ItemAdded"
+    | "SponsorshipCreated"
+    | "SponsorshipWithdrawn"
+    | "StorageFeeWithdrawn"
+    | "LegalFeeWithdrawn"
+    | "CertificateFeeWithdrawn";
+
+export interface LocLifecycleEvent {
+    type: "LocCreated" | "LocClosed" | "LocVoid";
+    locId: UUID;
+}
+
+export interface ItemAddedEvent {
+    type: "ItemAdded";
+    locId: UUID;
+    itemId: Hash;
+}
+
+export interface SponsorshipEvent {
+    type: "SponsorshipCreated" | "SponsorshipWithdrawn";
+    sponsorshipId: UUID;
+    sponsor: ValidAccountId;
+    sponsoredAccount: ValidAccountId;
+}
+
+export interface FeeWithdrawnEvent {
+    type: "StorageFeeWithdrawn" | "CertificateFeeWithdrawn";
+    payer: string;
+    fee: bigint;
+}
+
+export interface LegalFeeWithdrawnEvent {
+    type: "LegalFeeWithdrawn";
+    payer: string;
+    /**
+     * The legal officer receiving the fee, undefined if the beneficiary is the treasury.
+     */
+    legalOfficer?: string;
+    fee: bigint;
+}
+
+export type LocEvent = LocLifecycleEvent | ItemAddedEvent | SponsorshipEvent | FeeWithdrawnEvent | LegalFeeWithdrawnEvent;
+
 export interface VerifiedIssuerType {
     address: string;
     identityLocId: UUID;
@@ -339,3 +402,22 @@ export interface HostData {
 }
 
 export type Region = LogionNodeRuntimeRegion["type"];
+
+export interface MultisigTimepoint {
+    block: bigint;
+    index: number;
+}
+
+/**
+ * A multisig operation waiting for the approval of enough signatories.
+ */
+export interface MultisigOperation {
+    callHash: string;
+    /**
+     * The timepoint of the first approval, required for the next approvals and cancellation.
+     */
+    when: MultisigTimepoint;
+    deposit: bigint;
+    depositor: string;
+    approvals: string[];
+}
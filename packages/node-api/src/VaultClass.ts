@@ -1,7 +1,7 @@
 import { ApiPromise } from "@polkadot/api";
 import { SubmittableExtrinsic } from "@polkadot/api/promise/types";
-import { createKeyMulti, encodeAddress } from '@polkadot/util-crypto';
 import * as Currency from "./Currency.js";
+import { Multisig } from "./MultisigClass.js";
 import { Weight } from "./interfaces/index.js";
 import { PrefixedNumber } from "./numbers.js";
 
@@ -42,8 +42,7 @@ export class Vault {
     readonly address: string;
 
     static getVaultAddress(requesterAddress: string, legalOfficers: string[]): string {
-        const signatories: string[] = [ requesterAddress, ...legalOfficers ].sort();
-        return encodeAddress(createKeyMulti(signatories, Vault.THRESHOLD));
+        return Multisig.getMultisigAddress([ requesterAddress, ...legalOfficers ], Vault.THRESHOLD);
     }
 
     readonly tx = {
@@ -1,4 +1,5 @@
 export * from "./Adapters.js";
+export * as Assets from "./Assets.js";
 export * from "./ChainTime.js";
 export * as Currency from "./Currency.js";
 export * from "./Connection.js";
@@ -8,5 +9,6 @@ export * from "./Queries.js";
 export * from "./Types.js";
 export * from "./UUID.js";
 export * from "./VaultClass.js";
+export * from "./MultisigClass.js";
 export * from "./LocBatch.js";
 export * from "./Hash.js";
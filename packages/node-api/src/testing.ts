@@ -0,0 +1 @@
+export * from "./FakeLogionNode.js";
@@ -1,4 +1,7 @@
+import { Event } from "@polkadot/types/interfaces";
+import { ApiPromise } from "@polkadot/api";
 import { Adapters, UUID } from "../src/index.js";
+import { mockCodecWithToString } from "./Util.js";
 
 describe("Adapters", () => {
 
@@ -7,4 +10,48 @@ describe("Adapters", () => {
         const adapted = Adapters.toLocId(locId);
         expect(adapted).toBe(locId.toHexString());
     });
+
+    it("decodes LOC lifecycle event", () => {
+        const locId = new UUID();
+        const adapters = new Adapters({} as ApiPromise);
+        const event = mockEvent("logionLoc", "LocClosed", [ mockCodecWithToString(locId.toDecimalString()) ]);
+
+        const locEvent = adapters.fromLocEvent(event);
+
+        expect(locEvent?.type).toBe("LocClosed");
+        expect(locEvent && "locId" in locEvent && locEvent.locId.toString()).toBe(locId.toString());
+    });
+
+    it("decodes legal fee withdrawn to treasury", () => {
+        const adapters = new Adapters({} as ApiPromise);
+        const event = mockEvent("logionLoc", "LegalFeeWithdrawn", [
+            mockCodecWithToString("5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY"),
+            { isLegalOfficer: false },
+            { toBigInt: () => 42n },
+        ]);
+
+        const locEvent = adapters.fromLocEvent(event);
+
+        expect(locEvent).toEqual({
+            type: "LegalFeeWithdrawn",
+            payer: "5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY",
+            legalOfficer: undefined,
+            fee: 42n,
+        });
+    });
+
+    it("ignores events of other pallets", () => {
+        const adapters = new Adapters({} as ApiPromise);
+        const event = mockEvent("balances", "Transfer", []);
+
+        expect(adapters.fromLocEvent(event)).toBeUndefined();
+    });
 });
+
+function mockEvent(section: string, method: string, data: unknown[]): Event {
+    return {
+        section,
+        method,
+        data,
+    } as unknown as Event;
+}
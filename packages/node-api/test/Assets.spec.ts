@@ -0,0 +1,19 @@
+import { Assets, Numbers } from "../src/index.js";
+
+describe("Assets", () => {
+
+    it("toRawAmount", () => {
+        const result = Assets.toRawAmount(new Numbers.PrefixedNumber("1.5", Numbers.NONE), 6);
+        expect(result).toBe(1500000n);
+    });
+
+    it("toRawAmount rejects too many decimals", () => {
+        expect(() => Assets.toRawAmount(new Numbers.PrefixedNumber("1.5", Numbers.NONE), 0))
+            .toThrowError("Amount 1.5 has more than 0 decimals");
+    });
+
+    it("toPrefixedNumberAmount", () => {
+        const result = Assets.toPrefixedNumberAmount(1500000n, 6);
+        expect(result.convertTo(Numbers.NONE).coefficient.unnormalize()).toBe("1.5");
+    });
+});
@@ -0,0 +1,133 @@
+import { Hash, UUID } from "../src/index.js";
+import { FakeLogionNode } from "../src/testing.js";
+import { DEFAULT_LEGAL_OFFICER } from "./TestData.js";
+import { signAndSend } from "./Util.js";
+
+describe("FakeLogionNode", () => {
+
+    it("exposes legal officers and balances", async () => {
+        const node = buildNode();
+        const api = node.buildApiClass();
+
+        const data = await api.queries.getLegalOfficerData(DEFAULT_LEGAL_OFFICER);
+        expect(data.isHost).toBeTrue();
+        expect(data.hostData?.baseUrl).toBe(BASE_URL);
+        expect(data.hostData?.region).toBe("Europe");
+
+        const account = await api.queries.getAccountData(REQUESTER);
+        expect(account.available).toBe("1000");
+    });
+
+    it("transfers", async () => {
+        const node = buildNode();
+        const api = node.buildApiClass();
+
+        await signAndSend(api.polkadot.tx.balances.transferKeepAlive(DEFAULT_LEGAL_OFFICER, 400n), REQUESTER);
+
+        expect(node.getBalance(REQUESTER)).toBe(600n);
+        expect(node.getBalance(DEFAULT_LEGAL_OFFICER)).toBe(400n);
+        expect(node.submissions.length).toBe(1);
+    });
+
+    it("checks explicit nonces", async () => {
+        const node = buildNode();
+        const api = node.buildApiClass();
+        await signAndSend(api.polkadot.tx.balances.transferKeepAlive(DEFAULT_LEGAL_OFFICER, 100n), REQUESTER);
+
+        const nonce = await api.polkadot.rpc.system.accountNextIndex(REQUESTER);
+        const send = api.polkadot.tx.balances.transferKeepAlive(DEFAULT_LEGAL_OFFICER, 100n).signAndSend as unknown as (account: string, options: { nonce: number }) => Promise<unknown>;
+
+        expect(nonce.toNumber()).toBe(1);
+        await expectAsync(send(REQUESTER, { nonce: 2 })).toBeRejectedWithError("Invalid nonce 2, expected 1");
+        await send(REQUESTER, { nonce: 1 });
+        expect(node.submissions.map(submission => submission.nonce)).toEqual([ 0, 1 ]);
+    });
+
+    it("rejects unsupported transactions", async () => {
+        const node = buildNode();
+        const api = node.buildApiClass();
+
+        await expectAsync(signAndSend(api.polkadot.tx.vote.vote(0, true), REQUESTER))
+            .toBeRejectedWithError("Transaction vote.vote is not supported by FakeLogionNode");
+        expect(node.submissions.length).toBe(0);
+        expect((await api.polkadot.rpc.system.accountNextIndex(REQUESTER)).toNumber()).toBe(0);
+    });
+
+    it("runs LOC lifecycle", async () => {
+        const node = buildNode();
+        const api = node.buildApiClass();
+        const locId = new UUID();
+
+        await signAndSend(api.polkadot.tx.logionLoc.createPolkadotTransactionLoc(api.adapters.toLocId(locId), DEFAULT_LEGAL_OFFICER), REQUESTER);
+        const name = Hash.of("name");
+        await signAndSend(api.polkadot.tx.logionLoc.addMetadata(
+            api.adapters.toLocId(locId),
+            api.adapters.toPalletLogionLocMetadataItem({
+                name,
+                value: Hash.of("value"),
+                submitter: api.queries.getValidAccountId(REQUESTER, "Polkadot"),
+            }),
+        ), REQUESTER);
+
+        await expectAsync(signAndSend(api.polkadot.tx.logionLoc.close(api.adapters.toLocId(locId)), DEFAULT_LEGAL_OFFICER))
+            .toBeRejectedWithError("logionLoc.CannotCloseUnacknowledged");
+
+        await signAndSend(api.polkadot.tx.logionLoc.acknowledgeMetadata(api.adapters.toLocId(locId), api.adapters.toH256(name)), DEFAULT_LEGAL_OFFICER);
+        await signAndSend(api.polkadot.tx.logionLoc.close(api.adapters.toLocId(locId)), DEFAULT_LEGAL_OFFICER);
+
+        const loc = await api.queries.getLegalOfficerCase(locId);
+        expect(loc?.owner).toBe(DEFAULT_LEGAL_OFFICER);
+        expect(loc?.requesterAddress?.address).toBe(REQUESTER);
+        expect(loc?.closed).toBeTrue();
+        expect(loc?.metadata[0].name).toEqual(name);
+        expect(loc?.metadata[0].acknowledged).toBeTrue();
+
+        const batchLocs = await api.batch.locs([ locId ]).getLocs();
+        expect(batchLocs[locId.toDecimalString()].closed).toBeTrue();
+    });
+
+    it("fetches only LOCs which were not preloaded", async () => {
+        const node = buildNode();
+        const api = node.buildApiClass();
+        const fetchedLocId = new UUID();
+        await signAndSend(api.polkadot.tx.logionLoc.createPolkadotTransactionLoc(api.adapters.toLocId(fetchedLocId), DEFAULT_LEGAL_OFFICER), REQUESTER);
+        const preloadedLocId = new UUID();
+        const preloadedLoc = await api.queries.getLegalOfficerCase(fetchedLocId);
+
+        const batchLocs = await api.batch.preloadedLocs([ fetchedLocId, preloadedLocId ], {
+            [ preloadedLocId.toDecimalString() ]: { ...preloadedLoc!, closed: true },
+        }).getLocs();
+
+        expect(batchLocs[fetchedLocId.toDecimalString()].closed).toBeFalse();
+        expect(batchLocs[preloadedLocId.toDecimalString()].closed).toBeTrue();
+    });
+
+    it("indexes LOCs by requester", async () => {
+        const node = buildNode();
+        const api = node.buildApiClass();
+        const accountLocId = new UUID();
+        const identityLocId = new UUID();
+        const identityLocLocId = new UUID();
+
+        await signAndSend(api.polkadot.tx.logionLoc.createPolkadotTransactionLoc(api.adapters.toLocId(accountLocId), DEFAULT_LEGAL_OFFICER), REQUESTER);
+        await signAndSend(api.polkadot.tx.logionLoc.createLogionIdentityLoc(api.adapters.toLocId(identityLocId)), DEFAULT_LEGAL_OFFICER);
+        await signAndSend(api.polkadot.tx.logionLoc.createLogionTransactionLoc(api.adapters.toLocId(identityLocLocId), api.adapters.toNonCompactLocId(identityLocId)), DEFAULT_LEGAL_OFFICER);
+
+        const accountLocs = await api.queries.getAccountLocs(api.queries.getValidAccountId(REQUESTER, "Polkadot"));
+        expect(accountLocs.map(locId => locId.toString())).toEqual([ accountLocId.toString() ]);
+        const identityLocLocs = await api.queries.getIdentityLocLocs(identityLocId);
+        expect(identityLocLocs.map(locId => locId.toString())).toEqual([ identityLocLocId.toString() ]);
+        expect(await api.queries.getIdentityLocLocs(accountLocId)).toEqual([]);
+    });
+});
+
+const REQUESTER = "5EBxoSssqNo23FvsDeUxjyQScnfEiGxJaNwuwqBH2Twe35BX";
+
+const BASE_URL = "https://node.logion.network";
+
+function buildNode(): FakeLogionNode {
+    return new FakeLogionNode({
+        legalOfficers: [ { address: DEFAULT_LEGAL_OFFICER, baseUrl: BASE_URL } ],
+        balances: { [ REQUESTER ]: 1000n },
+    });
+}
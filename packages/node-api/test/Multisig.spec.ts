@@ -0,0 +1,71 @@
+import { Multisig, Vault } from "../src/index.js";
+import { FakeLogionNode } from "../src/testing.js";
+import { DEFAULT_LEGAL_OFFICER, ANOTHER_LEGAL_OFFICER, A_THIRD_LEGAL_OFFICER } from "./TestData.js";
+import { signAndSend } from "./Util.js";
+
+describe("Multisig", () => {
+
+    it("generates expected multisig address", () => {
+        const requester = "5H4MvAsobfZ6bBCDyj5dsrWYLrA8HrRzaqa9p61UXtxMhSCY";
+
+        const address = Multisig.getMultisigAddress([ DEFAULT_LEGAL_OFFICER, requester, ANOTHER_LEGAL_OFFICER ], 2);
+
+        expect(address).toEqual(Vault.getVaultAddress(requester, [ DEFAULT_LEGAL_OFFICER, ANOTHER_LEGAL_OFFICER ]));
+    });
+
+    it("rejects invalid threshold", () => {
+        const api = new FakeLogionNode().buildApiClass();
+
+        expect(() => api.multisig(SIGNATORIES, 1)).toThrowError();
+        expect(() => api.multisig(SIGNATORIES, 4)).toThrowError();
+    });
+
+    it("proposes, lists and approves operation", async () => {
+        const node = new FakeLogionNode();
+        const api = node.buildApiClass();
+        const multisig = api.multisig(SIGNATORIES, 2);
+        node.setBalance(multisig.address, 1000n);
+        const call = api.polkadot.tx.balances.transfer(BENEFICIARY, 400n);
+
+        await signAndSend(await multisig.tx.asMulti({ signerId: DEFAULT_LEGAL_OFFICER, call }), DEFAULT_LEGAL_OFFICER);
+
+        const operations = await api.queries.getMultisigOperations(multisig.address);
+        expect(operations.length).toBe(1);
+        expect(operations[0].callHash).toBe(call.method.hash.toHex());
+        expect(operations[0].depositor).toBe(DEFAULT_LEGAL_OFFICER);
+        expect(operations[0].approvals).toEqual([ DEFAULT_LEGAL_OFFICER ]);
+
+        await signAndSend(await multisig.tx.asMulti({ signerId: A_THIRD_LEGAL_OFFICER, call, timepoint: operations[0].when }), A_THIRD_LEGAL_OFFICER);
+
+        expect(await api.queries.getMultisigOperations(multisig.address)).toEqual([]);
+        expect(node.getBalance(BENEFICIARY)).toBe(400n);
+        expect(node.getBalance(multisig.address)).toBe(600n);
+    });
+
+    it("cancels operation", async () => {
+        const node = new FakeLogionNode();
+        const api = node.buildApiClass();
+        const multisig = api.multisig(SIGNATORIES, 2);
+        const call = api.polkadot.tx.balances.transfer(BENEFICIARY, 400n);
+        await signAndSend(await multisig.tx.asMulti({ signerId: DEFAULT_LEGAL_OFFICER, call }), DEFAULT_LEGAL_OFFICER);
+        const [ operation ] = await api.queries.getMultisigOperations(multisig.address);
+
+        await expectAsync(signAndSend(multisig.tx.cancelAsMulti({ signerId: ANOTHER_LEGAL_OFFICER, callHash: operation.callHash, timepoint: operation.when }), ANOTHER_LEGAL_OFFICER))
+            .toBeRejectedWithError("multisig.NotOwner");
+        await signAndSend(multisig.tx.cancelAsMulti({ signerId: DEFAULT_LEGAL_OFFICER, callHash: operation.callHash, timepoint: operation.when }), DEFAULT_LEGAL_OFFICER);
+
+        expect(await api.queries.getMultisigOperations(multisig.address)).toEqual([]);
+    });
+
+    it("rejects signer which is not a signatory", async () => {
+        const api = new FakeLogionNode().buildApiClass();
+        const multisig = api.multisig(SIGNATORIES, 2);
+
+        await expectAsync(multisig.tx.asMulti({ signerId: BENEFICIARY, call: api.polkadot.tx.balances.transfer(BENEFICIARY, 400n) }))
+            .toBeRejectedWithError("Signer is not a signatory");
+    });
+});
+
+const SIGNATORIES = [ DEFAULT_LEGAL_OFFICER, ANOTHER_LEGAL_OFFICER, A_THIRD_LEGAL_OFFICER ];
+
+const BENEFICIARY = "5EBxoSssqNo23FvsDeUxjyQScnfEiGxJaNwuwqBH2Twe35BX";
@@ -1,5 +1,6 @@
 import { ApiPromise } from "@polkadot/api";
-import { CollectionItem, Hash, LegalOfficerCase, LogionNodeApiClass, Numbers, UUID } from "../src/index.js";
+import { Assets, CollectionItem, Currency, Hash, LegalOfficerCase, LogionNodeApiClass, Numbers, UUID } from "../src/index.js";
+import { FakeLogionNode } from "../src/testing.js";
 import { POLKADOT_API_CREATE_TYPE, mockValidAccountId, mockBool } from "./Util.js";
 import { DEFAULT_LEGAL_OFFICER } from "./TestData.js";
 
@@ -31,6 +32,58 @@ describe("Queries", () => {
         expect(data[1].balance).toEqual(new Numbers.PrefixedNumber("0", Numbers.NONE));
         expect(data[1].coin.id).toBe("dot");
         expect(data[1].level).toBe(1);
+        expect(data.length).toBe(2);
+    });
+
+    it("gets no asset balance without assets pallet", async () => {
+        const accountId = "accountId";
+        const api = mockPolkadotApiWithAccountData(accountId);
+
+        const logionApi = new LogionNodeApiClass(api);
+        const balances = await logionApi.queries.getAssetBalances(accountId);
+
+        expect(balances).toEqual([]);
+    });
+
+    it("gets asset balances", async () => {
+        const holder = "5EBxoSssqNo23FvsDeUxjyQScnfEiGxJaNwuwqBH2Twe35BX";
+        const node = new FakeLogionNode();
+        node.createAsset({
+            id: 42n,
+            name: "Some token",
+            symbol: "TOK",
+            decimals: 6,
+            owner: DEFAULT_LEGAL_OFFICER,
+            balances: {
+                [ holder ]: 2500000n,
+                [ DEFAULT_LEGAL_OFFICER ]: 7500000n,
+            },
+        });
+        node.createAsset({
+            id: 43n,
+            name: "Other token",
+            symbol: "OTH",
+            decimals: 0,
+            owner: DEFAULT_LEGAL_OFFICER,
+            balances: {
+                [ DEFAULT_LEGAL_OFFICER ]: 10n,
+            },
+        });
+        const api = node.buildApiClass();
+
+        const balances = await api.queries.getAssetBalances(holder);
+
+        expect(balances.length).toBe(1);
+        const asset = balances[0];
+        expect(asset.coin.id).toBe("asset:42");
+        expect(asset.coin.assetId).toBe(42n);
+        expect(asset.coin.symbol).toBe("TOK");
+        expect(asset.coin.name).toBe("Some token");
+        expect(asset.coin.decimals).toBe(6);
+        expect(Assets.toRawAmount(asset.balance, 6)).toBe(2500000n);
+        expect(asset.balance.coefficient.toNumber()).toBe(2.5);
+        expect(asset.balance.prefix).toEqual(Numbers.NONE);
+        expect(asset.level).toBe(0.25);
     });
 
     it("fetches Logion Legal Officer Case", async () => {
@@ -116,6 +169,34 @@ describe("Queries", () => {
         expect(recovery).toBeDefined()
         expect(recovery!.legalOfficers).toEqual([ DEFAULT_LEGAL_OFFICER ])
     });
+
+    it("fetches treasury proposals, bond and balance", async () => {
+        const proposer = "5EBxoSssqNo23FvsDeUxjyQScnfEiGxJaNwuwqBH2Twe35BX";
+        const node = new FakeLogionNode({ balances: { [ proposer ]: 10000n } });
+        const api = node.buildApiClass();
+        const treasury = api.queries.getTreasuryAccount();
+        node.setBalance(treasury, 5000n);
+        await new Promise((resolve, reject) => {
+            const submittable = api.polkadot.tx.treasury.proposeSpend(4000n, DEFAULT_LEGAL_OFFICER);
+            submittable.signAndSend(proposer, resolve).catch(reject);
+        });
+
+        const proposals = await api.queries.getTreasuryProposals();
+
+        expect(proposals).toEqual([{
+            id: 0,
+            proposer,
+            value: 4000n,
+            beneficiary: DEFAULT_LEGAL_OFFICER,
+            bond: 200n,
+            approved: false,
+        }]);
+        expect(api.queries.getTreasuryProposalBond(1000n)).toBe(100n);
+        expect(api.queries.getTreasuryProposalBond(4000n)).toBe(200n);
+        expect(await api.queries.getTreasuryApprovals()).toEqual([]);
+        const balances = await api.queries.getTreasuryBalances();
+        expect(Currency.toCanonicalAmount(balances[0].available)).toBe(5000n);
+    });
 })
 
 function mockPolkadotApiWithAccountData(accountId: string) {
@@ -133,7 +214,7 @@ function mockPolkadotApiWithAccountData(accountId: string) {
                         }
                     }
                 }: undefined,
-            }
+            },
         }
     } as unknown as ApiPromise;
 }
@@ -27,3 +27,17 @@ export function mockBool(value: boolean): bool {
         isFalse: !value,
     }) as bool;
 }
+
+/**
+ * Submits a transaction to a FakeLogionNode and waits for its finalization.
+ */
+export function signAndSend(submittable: { signAndSend: unknown }, origin: string): Promise<unknown> {
+    const send = submittable.signAndSend as (account: string, callback: (result: { status: { isFinalized: boolean } }) => void) => Promise<() => void>;
+    return new Promise((resolve, reject) => {
+        send(origin, result => {
+            if(result.status.isFinalized) {
+                resolve(result);
+            }
+        }).catch(reject);
+    });
+}